@@ -0,0 +1,38 @@
+import {
+  ABILITY_DEFINITIONS,
+  STATUS_DEFINITIONS,
+  type AbilityAckRejectReason,
+  type AbilityDefinition,
+} from "@mmo/shared-sim";
+
+const ABILITY_REJECTION_MESSAGES: Partial<Record<AbilityAckRejectReason, string>> = {
+  not_facing: "You must be facing your target.",
+  too_close: "Your target is too close.",
+  in_combat: "You can't do that while in combat.",
+  target_health: "Your target's health is too high.",
+  missing_status: "You can't use that right now.",
+};
+
+/**
+ * Player-facing text for an ability rejection, or undefined for reasons the UI already shows
+ * elsewhere (cooldowns, resources, buffering).
+ */
+export const describeAbilityRejection = (
+  abilityId: string | undefined,
+  reason: AbilityAckRejectReason,
+): string | undefined => {
+  if (reason === "missing_status" && abilityId) {
+    const ability = ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS] as
+      | AbilityDefinition
+      | undefined;
+    const statusNames = (ability?.requirements ?? []).flatMap((requirement) =>
+      requirement.type === "self_status"
+        ? [STATUS_DEFINITIONS[requirement.statusId]?.name ?? requirement.statusId]
+        : [],
+    );
+    if (statusNames.length > 0) {
+      return `Requires ${statusNames.join(" and ")}.`;
+    }
+  }
+  return ABILITY_REJECTION_MESSAGES[reason];
+};
@@ -3,6 +3,7 @@ import {
   ABILITY_DEFINITIONS,
   AbilityState,
   type AbilityAck,
+  type AbilityDefinition,
   type AbilityUseRequest,
 } from "@mmo/shared-sim";
 import { Vector3 } from "@babylonjs/core/Maths/math.vector";
@@ -10,7 +11,11 @@ import { ZoneConnectionManager } from "../network/zone-connection-manager";
 import { CombatController } from "./combat-controller";
 import type { MobEntity } from "../entities/mob-entity";
 
-const createController = (onSend: (request: AbilityUseRequest) => void): CombatController => {
+const createController = (
+  onSend: (request: AbilityUseRequest) => void,
+  abilityState = new AbilityState({ castStartTimeMs: 0, castEndTimeMs: 0 }),
+  statuses: { id: string }[] = [],
+): CombatController => {
   const zoneNetwork = new ZoneConnectionManager();
   (zoneNetwork as unknown as { sendAbilityUse: (r: AbilityUseRequest) => void }).sendAbilityUse =
     onSend;
@@ -21,18 +26,60 @@ const createController = (onSend: (request: AbilityUseRequest) => void): CombatC
   const source = {
     getId: () => "player-1",
     getPosition: () => new Vector3(1, 0, 2),
-    sync: {
-      abilityState: new AbilityState({
-        castStartTimeMs: 0,
-        castEndTimeMs: 0,
-      }),
-    },
+    getFacingYaw: () => 0,
+    sync: { abilityState, statuses, inCombat: false },
   } as unknown as MobEntity;
 
   return new CombatController(source, zoneNetwork);
 };
 
 describe("CombatController", () => {
+  it("drains the cast bar for channels and fills it for regular casts", () => {
+    const abilityState = new AbilityState();
+    abilityState.castStartTimeMs = 1000;
+    abilityState.castEndTimeMs = 4000;
+    abilityState.castAbilityId = "arcane_barrage";
+    abilityState.castId = 5;
+    const controller = createController(() => {}, abilityState);
+
+    expect(controller.getCastBarState(1000)).toEqual({
+      progress: 1,
+      channeled: true,
+      interruptible: true,
+    });
+    expect(controller.getCastBarState(2500)).toEqual({
+      progress: 0.5,
+      channeled: true,
+      interruptible: true,
+    });
+
+    abilityState.castAbilityId = "fireball";
+    expect(controller.getCastBarState(2500)).toEqual({
+      progress: 0.5,
+      channeled: false,
+      interruptible: true,
+    });
+    expect(controller.getCastBarState(4500)).toBeUndefined();
+  });
+
+  it("flags uninterruptible casts on the cast bar", () => {
+    const abilityState = new AbilityState();
+    abilityState.castStartTimeMs = 1000;
+    abilityState.castEndTimeMs = 4000;
+    abilityState.castAbilityId = "fireball";
+    abilityState.castId = 5;
+    const controller = createController(() => {}, abilityState);
+    const fireball = ABILITY_DEFINITIONS.fireball as AbilityDefinition;
+
+    fireball.interruptible = false;
+    try {
+      expect(controller.getCastBarState(2500)?.interruptible).toBe(false);
+    } finally {
+      delete fireball.interruptible;
+    }
+    expect(controller.getCastBarState(2500)?.interruptible).toBe(true);
+  });
+
   it("sends ability use requests when triggered", () => {
     const sent: AbilityUseRequest[] = [];
     const controller = createController((request) => sent.push(request));
@@ -47,6 +94,60 @@ describe("CombatController", () => {
     expect(sent[0].sequence).toBe(1);
   });
 
+  it("only sends combo abilities while a status grants them", () => {
+    const sent: AbilityUseRequest[] = [];
+    const statuses: { id: string }[] = [];
+    const controller = createController((request) => sent.push(request), undefined, statuses);
+
+    controller.tryUseAbility("overpower", { targetEntityId: "player-1" });
+    expect(sent).toHaveLength(0);
+    expect(controller.isAbilityEmpowered("overpower")).toBe(false);
+
+    statuses.push({ id: "overpower_ready" });
+    expect(controller.isAbilityEmpowered("overpower")).toBe(true);
+    controller.tryUseAbility("overpower", { targetEntityId: "player-1" });
+    expect(sent.map((request) => request.abilityId)).toEqual(["overpower"]);
+  });
+
+  it("does not send abilities whose school is locked out", () => {
+    const sent: AbilityUseRequest[] = [];
+    const statuses: { id: string }[] = [{ id: "lockout_physical" }];
+    const controller = createController((request) => sent.push(request), undefined, statuses);
+
+    controller.fixedTick();
+    controller.tryUseAbility("quick_dart", { targetEntityId: "player-1" });
+    expect(sent).toHaveLength(0);
+
+    statuses.splice(0, 1);
+    controller.tryUseAbility("quick_dart", { targetEntityId: "player-1" });
+    expect(sent.map((request) => request.abilityId)).toEqual(["quick_dart"]);
+  });
+
+  it("checks ability requirements before sending and reports the rejection", () => {
+    const sent: AbilityUseRequest[] = [];
+    const rejections: [string | undefined, string][] = [];
+    const controller = createController((request) => sent.push(request));
+    controller.onAbilityRejected((abilityId, reason) => rejections.push([abilityId, reason]));
+    const target = { x: 1, y: 0, z: 5, currentHp: 50, maxHp: 100 };
+
+    controller.tryUseAbility("execute", { targetEntityId: "npc-1", targetState: target });
+    controller.tryUseAbility("execute", {
+      targetEntityId: "npc-1",
+      targetState: { ...target, z: -1, currentHp: 10 },
+    });
+    expect(sent).toHaveLength(0);
+    expect(rejections).toEqual([
+      ["execute", "target_health"],
+      ["execute", "not_facing"],
+    ]);
+
+    controller.tryUseAbility("execute", {
+      targetEntityId: "npc-1",
+      targetState: { ...target, currentHp: 10 },
+    });
+    expect(sent.map((request) => request.abilityId)).toEqual(["execute"]);
+  });
+
   it("buffers on-GCD abilities when gcd is active", () => {
     const sent: AbilityUseRequest[] = [];
     const controller = createController((request) => sent.push(request));
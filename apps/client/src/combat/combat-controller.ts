@@ -3,10 +3,24 @@ import {
   GCD_SECONDS,
   INTERNAL_COOLDOWN_MS,
   ABILITY_DEFINITIONS,
+  getCastBarState,
+  getEmpoweringStatuses,
+  getAbilityRequirementRejection,
+  getMaxCharges,
+  getResourceReadyInMs,
+  isLockedOutByStatuses,
+  readCombatStats,
   type AbilityAck,
+  type AbilityAckRejectReason,
   type AbilityCancelRequest,
   type AbilityCastInterruptEvent,
+  type AbilityDefinition,
+  type AbilityRequirementContext,
   type AbilityUseRequest,
+  type CastBarState,
+  type CombatStats,
+  type ResourceType,
+  type StatusEffectDefinition,
   type TargetSpec,
 } from "@mmo/shared-sim";
 
@@ -18,6 +32,9 @@ export interface CooldownVisualState {
   active: boolean;
   ratio: number;
   remainingMs: number;
+  /** Charges ready now; only set for abilities holding more than one. */
+  charges?: number;
+  maxCharges?: number;
 }
 
 export interface ClientCombatStateSnapshot {
@@ -30,8 +47,16 @@ export interface AbilityUseContext {
   targetEntityId?: string;
   targetPoint?: { x: number; y: number; z: number };
   direction?: { x: number; y: number; z: number };
+  /** Position and HP of the target entity, used for ability requirement checks. */
+  targetState?: { x: number; y: number; z: number; currentHp: number; maxHp: number };
 }
 
+/** Called when an ability use is refused, either locally or by the server. */
+export type AbilityRejectedCallback = (
+  abilityId: string | undefined,
+  reason: AbilityAckRejectReason,
+) => void;
+
 /**
  * Client-side combat controller that owns prediction, input, and reconciliation.
  */
@@ -48,6 +73,7 @@ export class CombatController {
   private pendingCastRequestId?: string;
   private pendingCancelRequestId?: string;
   private movementActive = false;
+  private abilityRejectedCallback?: AbilityRejectedCallback;
 
   constructor(source: MobEntity, zoneNetwork: ZoneConnectionManager) {
     this.source = source;
@@ -64,6 +90,10 @@ export class CombatController {
     this.movementActive = isMoving;
   }
 
+  onAbilityRejected(callback: AbilityRejectedCallback): void {
+    this.abilityRejectedCallback = callback;
+  }
+
   applyAck(ack: AbilityAck): void {
     if (this.prediction.isAckStale(ack)) {
       return;
@@ -97,6 +127,7 @@ export class CombatController {
     }
 
     if (!ack.accepted) {
+      this.abilityRejectedCallback?.(requestPrediction?.abilityId, ack.rejectReason ?? "other");
       this.prediction.clearQueuedAbilityIfMatches(ack.requestId);
       const keepOptimisticCooldown =
         ack.rejectReason === "cooldown" ||
@@ -119,7 +150,7 @@ export class CombatController {
         );
         const abilityId = requestPrediction?.abilityId ?? this.prediction.getLastRequestAbilityId();
         if (abilityId) {
-          this.prediction.setAbilityCooldown(abilityId, clientNowMs);
+          this.prediction.releaseAbilityCooldown(abilityId, clientNowMs);
         }
       }
       this.prediction.clearRequestPrediction(ack.requestId);
@@ -157,16 +188,13 @@ export class CombatController {
           }
         }
 
-        const currentCooldown = this.prediction.getAbilityCooldownEndTime(abilityId);
         const remainingCastMs = Math.max(0, ack.castEndTimeMs - ack.serverTimeMs);
-        const localCooldownEndTimeMs = clientNowMs + remainingCastMs + ability.cooldownMs;
-        if (
-          currentCooldown === undefined ||
-          currentCooldown <= clientNowMs ||
-          localCooldownEndTimeMs < currentCooldown
-        ) {
-          this.prediction.setAbilityCooldown(abilityId, localCooldownEndTimeMs);
-        }
+        this.prediction.applyAcceptedCooldown(
+          ability,
+          clientNowMs + remainingCastMs,
+          requestPrediction?.appliesOptimisticCooldowns ?? false,
+          clientNowMs,
+        );
       }
     }
 
@@ -266,10 +294,75 @@ export class CombatController {
     return abilityState.castAbilityId || undefined;
   }
 
+  /**
+   * Cast bar state for the local player: hidden as soon as a cancel is predicted,
+   * draining for channels and filling otherwise.
+   */
+  getCastBarState(nowMs: number): CastBarState | undefined {
+    const abilityState = this.source.sync.abilityState;
+    if (!abilityState.isCasting(nowMs)) {
+      return undefined;
+    }
+    if (abilityState.castId > 0 && abilityState.castId === this.lastPredictedCancelCastId) {
+      return undefined;
+    }
+    return getCastBarState(
+      abilityState.castAbilityId,
+      abilityState.castStartTimeMs,
+      abilityState.castEndTimeMs,
+      nowMs,
+    );
+  }
+
   isUsingAbility(abilityId: string, nowMs: number): boolean {
     return this.getCastingAbilityId(nowMs) === abilityId;
   }
 
+  /**
+   * Whether a synced status grants or empowers the ability (combo unlocked, instant cast or
+   * bonus damage on the next use). Expiry is left to the server removing the status.
+   */
+  isAbilityEmpowered(abilityId: string): boolean {
+    const ability = ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS];
+    if (!ability) {
+      return false;
+    }
+    return this.getEmpowerments(ability).length > 0;
+  }
+
+  /** Synced stats of the local actor, used for tooltip formula previews. */
+  getActorStats(): CombatStats {
+    return readCombatStats(this.source.sync);
+  }
+
+  /**
+   * Milliseconds until the local actor has `amount` of a resource, predicting regeneration
+   * forward from the last sync. 0 when affordable now, undefined when regen is blocked.
+   */
+  getResourceReadyInMs(type: ResourceType, amount: number, nowMs: number): number | undefined {
+    const sync = this.source.sync;
+    const regen = sync.regen;
+    return type === "mana"
+      ? getResourceReadyInMs(
+          amount,
+          sync.mana,
+          sync.maxMana,
+          regen.manaPerSecond,
+          regen.updatedAtMs,
+          regen.manaResumeAtMs,
+          nowMs,
+        )
+      : getResourceReadyInMs(
+          amount,
+          sync.stamina,
+          sync.maxStamina,
+          regen.staminaPerSecond,
+          regen.updatedAtMs,
+          regen.staminaResumeAtMs,
+          nowMs,
+        );
+  }
+
   getGcdState(nowMs: number): CooldownVisualState {
     const gcdStart = this.prediction.getPredictedGcdStartTimeMs();
     const gcdEnd = this.prediction.getPredictedGcdEndTimeMs();
@@ -303,25 +396,26 @@ export class CombatController {
 
   getAbilityCooldownState(abilityId: string, nowMs: number): CooldownVisualState {
     const ability = ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS];
-    if (!ability || ability.cooldownMs <= 0) {
-      return { active: false, ratio: 0, remainingMs: 0 };
-    }
-
-    const cooldownEnd = this.prediction.getAbilityCooldownEndTime(abilityId);
-    if (cooldownEnd === undefined) {
+    if (!ability) {
       return { active: false, ratio: 0, remainingMs: 0 };
     }
 
-    const cooldownStart = cooldownEnd - ability.cooldownMs;
-    if (nowMs < cooldownStart) {
-      return { active: false, ratio: 0, remainingMs: 0 };
+    const maxCharges = getMaxCharges(ability);
+    const charges =
+      maxCharges > 1
+        ? { charges: this.prediction.getAbilityCharges(ability, nowMs), maxCharges }
+        : undefined;
+    const window = this.prediction.getAbilityCooldownWindow(ability, nowMs);
+    if (!window || nowMs < window.startTimeMs || window.endTimeMs <= window.startTimeMs) {
+      return { active: false, ratio: 0, remainingMs: 0, ...charges };
     }
 
-    const remainingMs = Math.max(0, cooldownEnd - nowMs);
+    const remainingMs = Math.max(0, window.endTimeMs - nowMs);
     return {
       active: remainingMs > 0,
-      ratio: clamp(remainingMs / ability.cooldownMs, 0, 1),
+      ratio: clamp(remainingMs / (window.endTimeMs - window.startTimeMs), 0, 1),
       remainingMs,
+      ...charges,
     };
   }
 
@@ -348,7 +442,31 @@ export class CombatController {
       return;
     }
 
-    if (this.movementActive && ability.castTimeMs > 0) {
+    const empowerments = this.getEmpowerments(ability);
+    const grantedBy = empowerments.some((status) => status.grantedAbilityIds?.includes(ability.id));
+    if (ability.requiresGrant && !grantedBy) {
+      return;
+    }
+    if (
+      isLockedOutByStatuses(
+        this.source.sync.statuses.map((status) => status.id),
+        ability,
+      )
+    ) {
+      return;
+    }
+    const requirementRejection = ability.requirements?.length
+      ? getAbilityRequirementRejection(ability, this.buildRequirementContext(context))
+      : undefined;
+    if (requirementRejection) {
+      this.abilityRejectedCallback?.(ability.id, requirementRejection);
+      return;
+    }
+    const castTimeMs = empowerments.some((status) => status.empowerment?.instantCast)
+      ? 0
+      : ability.castTimeMs;
+
+    if (this.movementActive && castTimeMs > 0) {
       return;
     }
 
@@ -418,7 +536,7 @@ export class CombatController {
 
     this.prediction.markAbilityRequested(ability, requestId, sequence, nowMs);
     this.prediction.queuedAbilityId = undefined;
-    if (ability.castTimeMs > 0) {
+    if (castTimeMs > 0) {
       this.pendingCastRequestId = requestId;
     }
 
@@ -455,6 +573,13 @@ export class CombatController {
     return nowMs >= gcdStartTimeMs + BUFFER_OPEN_MS;
   }
 
+  private getEmpowerments(ability: AbilityDefinition): StatusEffectDefinition[] {
+    return getEmpoweringStatuses(
+      this.source.sync.statuses.map((status) => status.id),
+      ability,
+    );
+  }
+
   private cancelIfMovingDuringCast(ability: { castTimeMs: number }): void {
     if (this.movementActive && ability.castTimeMs > 0) {
       this.cancelActiveCast("movement");
@@ -473,11 +598,34 @@ export class CombatController {
     );
     this.prediction.queuedAbilityId = undefined;
     const resolvedAbilityId = abilityId ?? this.prediction.getLastRequestAbilityId();
-    if (resolvedAbilityId) {
-      this.prediction.setAbilityCooldown(resolvedAbilityId, nowMs);
+    if (!resolvedAbilityId) {
+      return;
+    }
+    // A broken channel has already resolved ticks, so the server starts its cooldown now.
+    const ability = ABILITY_DEFINITIONS[resolvedAbilityId as keyof typeof ABILITY_DEFINITIONS];
+    if (ability?.channel) {
+      this.prediction.retimeAbilityCooldown(resolvedAbilityId, nowMs);
+    } else {
+      this.prediction.releaseAbilityCooldown(resolvedAbilityId, nowMs);
     }
   }
 
+  /** Requirement context from the predicted local state; mirrors the server's check. */
+  private buildRequirementContext(context?: AbilityUseContext): AbilityRequirementContext {
+    const position = this.source.getPosition();
+    return {
+      actor: {
+        x: position.x,
+        y: position.y,
+        z: position.z,
+        facingYaw: this.source.getFacingYaw(),
+        inCombat: this.source.sync.inCombat,
+        statusIds: this.source.sync.statuses.map((status) => status.id),
+      },
+      target: context?.targetState ?? context?.targetPoint,
+    };
+  }
+
   private resolveTargetSpec(
     targetType: "self" | "enemy" | "ally" | "ground",
     context?: AbilityUseContext,
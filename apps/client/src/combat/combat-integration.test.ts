@@ -12,6 +12,10 @@ import { CombatController } from "./combat-controller";
 import { ZoneConnectionManager } from "../network/zone-connection-manager";
 import { AbilityEngine } from "../../../server/src/combat/ability-engine";
 import { CombatEngine } from "../../../server/src/combat/combat-engine";
+import { DisplacementEngine } from "../../../server/src/combat/displacement-engine";
+import { ProjectileEngine } from "../../../server/src/combat/projectile-engine";
+import { RegenEngine } from "../../../server/src/combat/regen-engine";
+import { StatusEngine } from "../../../server/src/combat/status-engine";
 import { ServerPlayer } from "../../../server/src/world/entities/player";
 import { ServerNPC } from "../../../server/src/world/entities/npc";
 import type { ServerZone } from "../../../server/src/world/zones/zone";
@@ -54,8 +58,15 @@ describe("Combat integration", () => {
         append: () => 0,
       },
       getServerTick: () => serverTick,
+      getPetOwnerId: () => undefined,
     } as unknown as ServerZone;
     const combatEngine = new CombatEngine(zone);
+    Object.assign(zone, {
+      statusEngine: new StatusEngine(zone),
+      regenEngine: new RegenEngine(zone),
+      displacementEngine: new DisplacementEngine(zone),
+      projectileEngine: new ProjectileEngine(zone),
+    });
     const engine = new AbilityEngine(zone);
     (
       engine as unknown as {
@@ -93,6 +104,7 @@ describe("Combat integration", () => {
           castEndTimeMs: 0,
           castAbilityId: "",
         }),
+        statuses: [],
       },
     } as unknown as MobEntity;
 
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { ABILITY_DEFINITIONS } from "@mmo/shared-sim";
+import { ABILITY_DEFINITIONS, COOLDOWN_CATEGORIES } from "@mmo/shared-sim";
 import { CombatPredictionState } from "./combat-prediction-state";
 
 describe("CombatPredictionState", () => {
@@ -34,4 +34,27 @@ describe("CombatPredictionState", () => {
     expect(state.canBufferAbility(ability, 1200)).toBe(true);
     expect(state.canBufferAbility(ability, 2000)).toBe(true);
   });
+
+  it("predicts charges and shared category locks", () => {
+    const state = new CombatPredictionState();
+    const dash = ABILITY_DEFINITIONS.dash;
+    const leap = ABILITY_DEFINITIONS.heroic_leap;
+    const lockMs = COOLDOWN_CATEGORIES.movement.durationMs;
+
+    state.markAbilityRequested(dash, "req-1", 1, 1000);
+    expect(state.getAbilityCharges(dash, 1000)).toBe(1);
+    expect(state.canAttemptAbility(leap, 1000 + lockMs - 1)).toBe(false);
+    expect(state.canAttemptAbility(leap, 1000 + lockMs)).toBe(true);
+
+    state.markAbilityRequested(dash, "req-2", 2, 1000 + lockMs);
+    expect(state.canAttemptAbility(dash, 1000 + lockMs * 2)).toBe(false);
+    expect(state.getAbilityCooldownWindow(dash, 1000 + lockMs * 2)).toEqual({
+      startTimeMs: 1000,
+      endTimeMs: 1000 + dash.cooldownMs,
+    });
+
+    state.releaseAbilityCooldown(dash.id, 1000 + lockMs * 2);
+    expect(state.getAbilityCharges(dash, 1000 + lockMs * 2)).toBe(1);
+    expect(state.canAttemptAbility(leap, 1000 + lockMs * 2)).toBe(true);
+  });
 });
@@ -1,8 +1,11 @@
 import {
   type AbilityDefinition,
+  ABILITY_DEFINITIONS,
+  CooldownTracker,
   GCD_SECONDS,
   INTERNAL_COOLDOWN_MS,
   type AbilityAck,
+  type CooldownWindow,
 } from "@mmo/shared-sim";
 
 const GCD_MS = GCD_SECONDS * 1000;
@@ -19,7 +22,7 @@ export class CombatPredictionState {
   predictedInternalCooldownEndTimeMs = 0;
   queuedAbilityId?: string;
 
-  private abilityCooldowns = new Map<string, number>();
+  private readonly abilityCooldowns = new CooldownTracker();
   private requestPredictions = new Map<string, RequestPrediction>();
   private lastAckSequence = 0;
   private lastAckRequestId?: string;
@@ -37,21 +40,13 @@ export class CombatPredictionState {
       return false;
     }
 
-    const cooldownEnd = this.abilityCooldowns.get(ability.id);
-    if (cooldownEnd !== undefined && nowMs < cooldownEnd) {
-      return false;
-    }
-
-    return true;
+    return this.abilityCooldowns.isReady(ability, nowMs);
   }
 
   canBufferAbility(ability: AbilityDefinition, nowMs: number): boolean {
-    const cooldownEnd = this.abilityCooldowns.get(ability.id);
-    if (cooldownEnd !== undefined) {
-      const cooldownStart = cooldownEnd - ability.cooldownMs;
-      if (nowMs >= cooldownStart && nowMs < cooldownEnd) {
-        return false;
-      }
+    const window = this.abilityCooldowns.getBlockingWindow(ability, nowMs);
+    if (window && nowMs >= window.startTimeMs && nowMs < window.endTimeMs) {
+      return false;
     }
 
     return true;
@@ -77,7 +72,7 @@ export class CombatPredictionState {
       this.predictedGcdEndTimeMs = nowMs + GCD_MS;
     }
 
-    this.abilityCooldowns.set(ability.id, nowMs + ability.castTimeMs + ability.cooldownMs);
+    this.abilityCooldowns.consume(ability, nowMs + ability.castTimeMs);
   }
 
   markAbilityBuffered(
@@ -102,8 +97,48 @@ export class CombatPredictionState {
     return this.abilityCooldowns.get(abilityId);
   }
 
-  getAbilitiesOnCooldown(): ReadonlyMap<string, number> {
-    return this.abilityCooldowns;
+  /**
+   * Adopt the server's cooldown start for an accepted use. Buffered requests spend their charge
+   * here; optimistic ones only move the predicted start earlier when the server's is earlier.
+   */
+  applyAcceptedCooldown(
+    ability: AbilityDefinition,
+    cooldownStartTimeMs: number,
+    chargeSpent: boolean,
+    nowMs: number,
+  ): void {
+    const currentEnd = this.abilityCooldowns.get(ability.id);
+    if (!chargeSpent || currentEnd === undefined || currentEnd <= nowMs) {
+      this.abilityCooldowns.consume(ability, cooldownStartTimeMs);
+      return;
+    }
+    if (cooldownStartTimeMs + ability.cooldownMs < currentEnd) {
+      this.abilityCooldowns.retime(ability, cooldownStartTimeMs);
+    }
+  }
+
+  /** Undo the predicted charge (and category lock) of a use that never happened. */
+  releaseAbilityCooldown(abilityId: string, nowMs: number): void {
+    const ability = getAbility(abilityId);
+    if (ability) {
+      this.abilityCooldowns.release(ability, nowMs);
+    }
+  }
+
+  /** Restart the most recent use's cooldown at `startTimeMs` (a channel broken early). */
+  retimeAbilityCooldown(abilityId: string, startTimeMs: number): void {
+    const ability = getAbility(abilityId);
+    if (ability) {
+      this.abilityCooldowns.retime(ability, startTimeMs);
+    }
+  }
+
+  getAbilityCharges(ability: AbilityDefinition, nowMs: number): number {
+    return this.abilityCooldowns.getCharges(ability, nowMs);
+  }
+
+  getAbilityCooldownWindow(ability: AbilityDefinition, nowMs: number): CooldownWindow | undefined {
+    return this.abilityCooldowns.getBlockingWindow(ability, nowMs);
   }
 
   getPredictedGcdStartTimeMs(): number {
@@ -182,3 +217,8 @@ export class CombatPredictionState {
     });
   }
 }
+
+const getAbility = (abilityId: string): AbilityDefinition | undefined =>
+  ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS] as
+    | AbilityDefinition
+    | undefined;
@@ -1,3 +1,4 @@
 export { CombatController } from "./combat-controller";
 export { CombatPredictionState } from "./combat-prediction-state";
-export type { AbilityUseContext } from "./combat-controller";
+export { describeAbilityRejection } from "./ability-rejection-messages";
+export type { AbilityRejectedCallback, AbilityUseContext } from "./combat-controller";
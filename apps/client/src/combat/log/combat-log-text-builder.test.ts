@@ -2,15 +2,26 @@ import { describe, expect, it } from "vitest";
 import {
   CombatEventType,
   EventCategory,
+  type AbilityBackfireEvent,
   type AbilityCastFinishEvent,
   type AbilityCastInterruptEvent,
   type AbilityCastStartEvent,
   type AbilityEffectAppliedEvent,
+  type AutoAttackEvent,
   type EventLogEntry,
   type MobEnterCombatEvent,
   type MobExitCombatEvent,
+  type StatusAppliedEvent,
+  type StatusDispelledEvent,
+  type StatusExpiredEvent,
+  type StatusRemovedEvent,
+  type StatusTickEvent,
 } from "@mmo/shared-sim";
-import { buildCombatLogText, createCombatLogTextContext } from "./combat-log-text-builder";
+import {
+  buildCombatLogText,
+  collapseCombatLogMessages,
+  createCombatLogTextContext,
+} from "./combat-log-text-builder";
 
 const context = createCombatLogTextContext(
   (id) => ({ p1: "Ayla", m1: "Goblin" })[id] ?? id,
@@ -57,6 +68,42 @@ describe("CombatLogTextBuilder", () => {
     );
   });
 
+  it("narrates use check rolls and backfires", () => {
+    const castFinish: AbilityCastFinishEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.AbilityCastFinish,
+      actorId: "p1",
+      castId: 1,
+      abilityId: "shield_bash",
+      useCheck: { roll: 97, maxRoll: 100, result: "crit_success", statBonus: 12, difficulty: 40 },
+    };
+    const backfire: AbilityBackfireEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.AbilityBackfire,
+      actorId: "p1",
+      castId: 1,
+      abilityId: "shield_bash",
+      damage: 9,
+    };
+
+    expect(buildCombatLogText(castFinish, context)?.text).toBe(
+      "Ayla rolls 97 + 12 vs 40 for Shield Bash: critical success.",
+    );
+    expect(buildCombatLogText(castFinish, selfContext)?.text).toBe(
+      "You roll 97 + 12 vs 40 for Shield Bash: critical success.",
+    );
+
+    const backfireMessage = buildCombatLogText(backfire, context);
+    expect(backfireMessage?.text).toBe("Ayla's Shield Bash backfires for 9.");
+    expect(backfireMessage?.parts.some((part) => part.tone === "damage")).toBe(true);
+    const { damage: _damage, ...backfireWithoutDamage } = backfire;
+    expect(buildCombatLogText(backfireWithoutDamage, selfContext)?.text).toBe(
+      "Your Shield Bash backfires.",
+    );
+  });
+
   it("formats interrupts", () => {
     const interrupt: AbilityCastInterruptEvent = {
       ...baseEntry(),
@@ -73,6 +120,23 @@ describe("CombatLogTextBuilder", () => {
     );
   });
 
+  it("names the mob that interrupted a cast", () => {
+    const interrupt: AbilityCastInterruptEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.AbilityCastInterrupt,
+      actorId: "p1",
+      castId: 2,
+      abilityId: "quick_dart",
+      reason: "interrupt",
+      interruptSourceId: "m1",
+    };
+
+    expect(buildCombatLogText(interrupt, context)?.text).toBe(
+      "Ayla's Quick Dart was interrupted by Goblin (interrupt).",
+    );
+  });
+
   it("uses You/Your when the actor is the local player", () => {
     const castStart: AbilityCastStartEvent = {
       ...baseEntry(),
@@ -171,6 +235,35 @@ describe("CombatLogTextBuilder", () => {
     expect(healingMessage?.parts.some((part) => part.tone === "healing")).toBe(true);
   });
 
+  it("credits pets' damage to their owner", () => {
+    const petContext = createCombatLogTextContext(
+      (id) => ({ p1: "Ayla", m1: "Goblin", pet1: "Wolf Companion" })[id] ?? id,
+      (id) => ({ pet_bite: "Bite" })[id] ?? id,
+      () => "p1",
+    );
+    const bite: AbilityEffectAppliedEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.AbilityEffectApplied,
+      actorId: "pet1",
+      actorOwnerId: "p1",
+      castId: 5,
+      abilityId: "pet_bite",
+      effectId: 0,
+      targetId: "m1",
+      outcome: "hit",
+      damage: 7,
+    };
+
+    expect(buildCombatLogText(bite, petContext)?.text).toBe(
+      "Your Wolf Companion hits Goblin with Bite for 7.",
+    );
+    const otherBite: AbilityEffectAppliedEvent = { ...bite, actorOwnerId: "p2" };
+    expect(buildCombatLogText(otherBite, petContext)?.text).toBe(
+      "p2's Wolf Companion hits Goblin with Bite for 7.",
+    );
+  });
+
   it("formats miss, blocked, dodged, immune, and no-effect outcomes", () => {
     const base: Omit<AbilityEffectAppliedEvent, "outcome" | "damage" | "healing"> = {
       ...baseEntry(),
@@ -213,6 +306,52 @@ describe("CombatLogTextBuilder", () => {
     );
   });
 
+  it("reports absorbed and redirected damage", () => {
+    const shielded: AbilityEffectAppliedEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.AbilityEffectApplied,
+      actorId: "m1",
+      castId: 6,
+      abilityId: "shield_bash",
+      effectId: 0,
+      targetId: "p2",
+      outcome: "hit",
+      damage: 10,
+      absorbed: 12,
+      redirected: 6,
+      redirectedToId: "p1",
+    };
+    expect(buildCombatLogText(shielded, selfContext)?.text).toBe(
+      "Goblin hits p2 with Shield Bash for 10 (12 absorbed) (6 redirected to you).",
+    );
+
+    const fullyAbsorbed: AbilityEffectAppliedEvent = {
+      ...shielded,
+      damage: undefined,
+      redirected: undefined,
+      redirectedToId: undefined,
+    };
+    expect(buildCombatLogText(fullyAbsorbed, context)?.text).toBe(
+      "Goblin hits p2 with Shield Bash for 0 (12 absorbed).",
+    );
+
+    const tick: StatusTickEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.StatusTick,
+      sourceId: "m1",
+      targetId: "p1",
+      statusId: "burning",
+      stacks: 1,
+      damage: 3,
+      absorbed: 5,
+    };
+    expect(buildCombatLogText(tick, selfContext)?.text).toBe(
+      "You suffer 3 from Goblin's Burning (5 absorbed).",
+    );
+  });
+
   it("formats combat state changes", () => {
     const enter: MobEnterCombatEvent = {
       ...baseEntry(),
@@ -232,6 +371,142 @@ describe("CombatLogTextBuilder", () => {
 
     expect(buildCombatLogText(enter, context)?.text).toBe("Goblin enters combat.");
     expect(buildCombatLogText(exit, context)?.text).toBe("Goblin leaves combat.");
+    const evade: MobExitCombatEvent = { ...exit, reason: "evade" };
+    expect(buildCombatLogText(evade, context)?.text).toBe("Goblin evades and returns home.");
+  });
+
+  it("formats death text with self substitution", () => {
+    const npcDeath: MobExitCombatEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.MobExitCombat,
+      mobId: "m1",
+      reason: "death",
+    };
+    const selfDeath: MobExitCombatEvent = { ...npcDeath, mobId: "p1" };
+
+    expect(buildCombatLogText(npcDeath, selfContext)?.text).toBe("Goblin dies.");
+    expect(buildCombatLogText(selfDeath, selfContext)?.text).toBe("You die.");
+  });
+
+  it("formats status lifecycle text", () => {
+    const applied: StatusAppliedEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.StatusApplied,
+      sourceId: "p1",
+      targetId: "m1",
+      statusId: "stunned",
+      abilityId: "shield_bash",
+      stacks: 1,
+      durationMs: 1000,
+      expiresAtMs: 2000,
+    };
+    const stacked: StatusAppliedEvent = { ...applied, targetId: "p1", stacks: 3 };
+    const expired: StatusExpiredEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.StatusExpired,
+      sourceId: "p1",
+      targetId: "m1",
+      statusId: "stunned",
+    };
+    const removed: StatusRemovedEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.StatusRemoved,
+      sourceId: "p1",
+      targetId: "p1",
+      statusId: "rooted",
+      reason: "dispel",
+    };
+
+    expect(buildCombatLogText(applied, selfContext)?.text).toBe("Goblin gains Concussed.");
+    expect(buildCombatLogText(stacked, selfContext)?.text).toBe("You gain Concussed (3).");
+    expect(buildCombatLogText(expired, selfContext)?.text).toBe("Concussed fades from Goblin.");
+    expect(buildCombatLogText(removed, selfContext)?.text).toBe("Ironbind is removed from you.");
+    const deathRemoval: StatusRemovedEvent = { ...removed, reason: "death" };
+    expect(buildCombatLogText(deathRemoval, selfContext)).toBeUndefined();
+  });
+
+  it("names the statuses a dispel removed", () => {
+    const purge: StatusDispelledEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.StatusDispelled,
+      actorId: "p1",
+      targetId: "m1",
+      abilityId: "purge",
+      castId: 7,
+      statusIds: ["fire_ward", "arcane_surge"],
+    };
+    expect(buildCombatLogText(purge, selfContext)?.text).toBe(
+      "You dispel Fire Ward, Arcane Surge from Goblin.",
+    );
+    const enemyPurge: StatusDispelledEvent = { ...purge, actorId: "m1", targetId: "p1" };
+    expect(buildCombatLogText(enemyPurge, selfContext)?.text).toBe(
+      "Goblin dispels Fire Ward, Arcane Surge from you.",
+    );
+  });
+
+  it("formats periodic status ticks", () => {
+    const dot: StatusTickEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.StatusTick,
+      sourceId: "p1",
+      targetId: "m1",
+      statusId: "burning",
+      stacks: 2,
+      damage: 12,
+    };
+    const hot: StatusTickEvent = {
+      ...dot,
+      sourceId: "m1",
+      targetId: "p1",
+      statusId: "regrowth",
+      damage: undefined,
+      healing: 8,
+    };
+
+    const dotMessage = buildCombatLogText(dot, selfContext);
+    expect(dotMessage?.text).toBe("Goblin suffers 12 from Your Burning.");
+    expect(dotMessage?.parts.some((part) => part.tone === "damage")).toBe(true);
+    expect(buildCombatLogText(hot, selfContext)?.text).toBe("You gain 8 from Goblin's Regrowth.");
+  });
+
+  it("formats auto-attack swings and collapses runs of them", () => {
+    const hit: AutoAttackEvent = {
+      ...baseEntry(),
+      category: EventCategory.Combat,
+      eventType: CombatEventType.AutoAttack,
+      actorId: "p1",
+      targetId: "m1",
+      outcome: "hit",
+      damage: 4,
+    };
+    const crit: AutoAttackEvent = { ...hit, outcome: "crit", damage: 7 };
+    const miss: AutoAttackEvent = { ...hit, outcome: "miss", damage: undefined };
+    const dodged: AutoAttackEvent = { ...hit, actorId: "m1", targetId: "p1", outcome: "dodged" };
+
+    const hitMessage = buildCombatLogText(hit, selfContext);
+    const critMessage = buildCombatLogText(crit, selfContext);
+    const missMessage = buildCombatLogText(miss, selfContext);
+    const dodgedMessage = buildCombatLogText(dodged, selfContext);
+    expect(hitMessage?.text).toBe("You hit Goblin for 4.");
+    expect(critMessage?.text).toBe("You critically hit Goblin for 7.");
+    expect(missMessage?.text).toBe("You miss Goblin.");
+    expect(dodgedMessage?.text).toBe("Ayla dodges Goblin's attack.");
+    if (!hitMessage || !critMessage || !missMessage || !dodgedMessage) {
+      throw new Error("expected auto-attack messages");
+    }
+
+    const twoSwings = collapseCombatLogMessages(hitMessage, missMessage);
+    const threeSwings = twoSwings && collapseCombatLogMessages(twoSwings, critMessage);
+    expect(twoSwings?.text).toBe("You hit Goblin 1 of 2 times for 4.");
+    expect(threeSwings?.text).toBe("You hit Goblin 2 of 3 times for 11.");
+    expect(threeSwings?.parts.some((part) => part.tone === "damage")).toBe(true);
+    expect(collapseCombatLogMessages(hitMessage, dodgedMessage)).toBeUndefined();
   });
 
   it("ignores non-combat events", () => {
@@ -8,16 +8,27 @@
  *   values (e.g., damage/heal numbers) without fragile string parsing.
  * - "You/Your" substitutions are handled here via `resolveSelfId`, so callers
  *   only need to supply entity/ability name resolvers.
+ * - Auto-attack swings carry a `collapse` tally so runs of swings can be folded
+ *   into one line with `collapseCombatLogMessages`.
  */
 import {
   ABILITY_DEFINITIONS,
   CombatEventType,
+  STATUS_DEFINITIONS,
+  type AbilityBackfireEvent,
   type AbilityCastFinishEvent,
   type AbilityCastInterruptEvent,
   type AbilityCastStartEvent,
   type AbilityEffectAppliedEvent,
+  type AbilityUseCheck,
+  type AutoAttackEvent,
   type MobEnterCombatEvent,
   type MobExitCombatEvent,
+  type StatusAppliedEvent,
+  type StatusDispelledEvent,
+  type StatusExpiredEvent,
+  type StatusRemovedEvent,
+  type StatusTickEvent,
 } from "@mmo/shared-sim";
 
 import { type EventLogEntry, EventCategory } from "@mmo/shared-sim";
@@ -25,6 +36,7 @@ import { type EventLogEntry, EventCategory } from "@mmo/shared-sim";
 export interface CombatLogTextContext {
   resolveEntityName(entityId: string): string;
   resolveAbilityName(abilityId: string): string;
+  resolveStatusName(statusId: string): string;
   resolveSelfId?: () => string | undefined;
 }
 
@@ -37,11 +49,26 @@ export interface CombatLogMessagePart {
   tone?: CombatLogMessageTone;
 }
 
+/** Running tally of consecutive auto-attack swings by one attacker at one target. */
+export interface CombatLogCollapse {
+  /** Messages fold together only when their keys match. */
+  key: string;
+  actor: string;
+  isSelf: boolean;
+  target: string;
+  swings: number;
+  /** Swings that connected (hit, crit or blocked). */
+  hits: number;
+  damage: number;
+}
+
 export interface CombatLogMessage {
   /** Full, concatenated text. */
   text: string;
   /** Ordered parts used by the UI to apply tone styling safely. */
   parts: CombatLogMessagePart[];
+  /** Set on auto-attack swings, which can be folded together. */
+  collapse?: CombatLogCollapse;
 }
 
 export type CombatLogTextBuilder = (
@@ -59,21 +86,58 @@ const COMBAT_TEXT_TEMPLATES = {
   castStartOther: "{actor} begins casting {ability}.",
   castFinishSelf: "You finish casting {ability}.",
   castFinishOther: "{actor} finishes casting {ability}.",
+  useCheckSelf: "You roll {roll} for {ability}: {check}.",
+  useCheckOther: "{actor} rolls {roll} for {ability}: {check}.",
+  backfireSelf: "Your {ability} backfires.",
+  backfireOther: "{actorPossessive} {ability} backfires.",
+  backfireDamageSelf: "Your {ability} backfires on you for {damage}.",
+  backfireDamageOther: "{actorPossessive} {ability} backfires for {damage}.",
   castInterrupt: "{actorPossessive} {ability} was interrupted ({reason}).",
-  effectDamageSelf: "You hit {target} with {ability} for {damage}.",
-  effectDamageOther: "{actor} hits {target} with {ability} for {damage}.",
-  effectCritDamageSelf: "You critically hit {target} with {ability} for {damage}.",
-  effectCritDamageOther: "{actor} critically hits {target} with {ability} for {damage}.",
+  castInterruptBy: "{actorPossessive} {ability} was interrupted by {source} ({reason}).",
+  effectDamageSelf: "You hit {target} with {ability} for {damage}{mitigation}.",
+  effectDamageOther: "{actor} hits {target} with {ability} for {damage}{mitigation}.",
+  effectCritDamageSelf: "You critically hit {target} with {ability} for {damage}{mitigation}.",
+  effectCritDamageOther:
+    "{actor} critically hits {target} with {ability} for {damage}{mitigation}.",
   effectHealingSelf: "You heal {target} for {healing}.",
   effectHealingOther: "{actor} heals {target} for {healing}.",
   effectMissSelf: "You miss {target} with {ability}.",
   effectMissOther: "{actor} misses {target} with {ability}.",
-  effectBlockedHit: "{actorPossessive} {ability} hit {target} for {damage} (blocked: {blocked}).",
+  effectBlockedHit:
+    "{actorPossessive} {ability} hit {target} for {damage} (blocked: {blocked}){mitigation}.",
   effectDodged: "{target} dodges {actorPossessive} {ability}.",
   effectImmune: "{target} is immune to {actorPossessive} {ability}.",
   effectNoEffect: "{actorPossessive} {ability} has no effect on {target}.",
+  autoAttackHitSelf: "You hit {target} for {damage}{mitigation}.",
+  autoAttackHitOther: "{actor} hits {target} for {damage}{mitigation}.",
+  autoAttackCritSelf: "You critically hit {target} for {damage}{mitigation}.",
+  autoAttackCritOther: "{actor} critically hits {target} for {damage}{mitigation}.",
+  autoAttackMissSelf: "You miss {target}.",
+  autoAttackMissOther: "{actor} misses {target}.",
+  autoAttackDodged: "{target} dodges {actorPossessive} attack.",
+  autoAttackImmune: "{target} is immune to {actorPossessive} attack.",
+  autoAttackNoEffect: "{actorPossessive} attack has no effect on {target}.",
+  autoAttackSummarySelf: "You hit {target} {hits} of {swings} times for {damage}.",
+  autoAttackSummaryOther: "{actor} hits {target} {hits} of {swings} times for {damage}.",
   enterCombat: "{mob} enters combat.",
   exitCombat: "{mob} leaves combat.",
+  evade: "{mob} evades and returns home.",
+  deathSelf: "You die.",
+  deathOther: "{mob} dies.",
+  statusGainedSelf: "You gain {status}.",
+  statusGainedOther: "{target} gains {status}.",
+  statusStackedSelf: "You gain {status} ({stacks}).",
+  statusStackedOther: "{target} gains {status} ({stacks}).",
+  statusFadedSelf: "{status} fades from you.",
+  statusFadedOther: "{status} fades from {target}.",
+  statusRemovedSelf: "{status} is removed from you.",
+  statusRemovedOther: "{status} is removed from {target}.",
+  statusDispelledSelf: "You dispel {statuses} from {target}.",
+  statusDispelledOther: "{actor} dispels {statuses} from {target}.",
+  statusTickDamageSelf: "You suffer {damage} from {sourcePossessive} {status}{mitigation}.",
+  statusTickDamageOther: "{target} suffers {damage} from {sourcePossessive} {status}{mitigation}.",
+  statusTickHealingSelf: "You gain {healing} from {sourcePossessive} {status}.",
+  statusTickHealingOther: "{target} gains {healing} from {sourcePossessive} {status}.",
 } as const;
 
 const COMBAT_TEXT_RULES: Partial<Record<CombatEventType, CombatTextRule>> = {
@@ -81,14 +145,28 @@ const COMBAT_TEXT_RULES: Partial<Record<CombatEventType, CombatTextRule>> = {
     buildCastStart(entry as AbilityCastStartEvent, context),
   [CombatEventType.AbilityCastFinish]: (entry, context) =>
     buildCastFinish(entry as AbilityCastFinishEvent, context),
+  [CombatEventType.AbilityBackfire]: (entry, context) =>
+    buildBackfire(entry as AbilityBackfireEvent, context),
   [CombatEventType.AbilityCastInterrupt]: (entry, context) =>
     buildCastInterrupt(entry as AbilityCastInterruptEvent, context),
   [CombatEventType.AbilityEffectApplied]: (entry, context) =>
     buildEffectApplied(entry as AbilityEffectAppliedEvent, context),
+  [CombatEventType.AutoAttack]: (entry, context) =>
+    buildAutoAttack(entry as AutoAttackEvent, context),
   [CombatEventType.MobEnterCombat]: (entry, context) =>
     buildMobEnter(entry as MobEnterCombatEvent, context),
   [CombatEventType.MobExitCombat]: (entry, context) =>
     buildMobExit(entry as MobExitCombatEvent, context),
+  [CombatEventType.StatusApplied]: (entry, context) =>
+    buildStatusApplied(entry as StatusAppliedEvent, context),
+  [CombatEventType.StatusRemoved]: (entry, context) =>
+    buildStatusRemoved(entry as StatusRemovedEvent, context),
+  [CombatEventType.StatusExpired]: (entry, context) =>
+    buildStatusExpired(entry as StatusExpiredEvent, context),
+  [CombatEventType.StatusTick]: (entry, context) =>
+    buildStatusTick(entry as StatusTickEvent, context),
+  [CombatEventType.StatusDispelled]: (entry, context) =>
+    buildStatusDispelled(entry as StatusDispelledEvent, context),
 };
 
 /**
@@ -109,11 +187,47 @@ export const buildCombatLogText: CombatLogTextBuilder = (entry, context) => {
   return rule(entry, context);
 };
 
+/**
+ * Fold `next` into `previous` when both are swings by the same attacker at the same target,
+ * e.g. "You hit Goblin 3 of 4 times for 27.".
+ *
+ * Returns `undefined` when the messages do not collapse.
+ */
+export const collapseCombatLogMessages = (
+  previous: CombatLogMessage,
+  next: CombatLogMessage,
+): CombatLogMessage | undefined => {
+  if (!previous.collapse || !next.collapse || previous.collapse.key !== next.collapse.key) {
+    return;
+  }
+
+  const collapse: CombatLogCollapse = {
+    ...previous.collapse,
+    swings: previous.collapse.swings + next.collapse.swings,
+    hits: previous.collapse.hits + next.collapse.hits,
+    damage: previous.collapse.damage + next.collapse.damage,
+  };
+  const message = formatTemplate(
+    collapse.isSelf
+      ? COMBAT_TEXT_TEMPLATES.autoAttackSummarySelf
+      : COMBAT_TEXT_TEMPLATES.autoAttackSummaryOther,
+    {
+      actor: collapse.actor,
+      target: collapse.target,
+      hits: collapse.hits,
+      swings: collapse.swings,
+      damage: createToneValue(collapse.damage, "damage"),
+    },
+  );
+  return { ...message, collapse };
+};
+
 /**
  * Helper for creating a text context with sensible defaults.
  *
  * - `resolveAbilityName` falls back to `ABILITY_DEFINITIONS` lookup.
  * - `resolveSelfId` enables "You/Your" substitutions.
+ * - Status names always resolve through `STATUS_DEFINITIONS`.
  */
 export const createCombatLogTextContext = (
   resolveEntityName: (entityId: string) => string,
@@ -126,6 +240,7 @@ export const createCombatLogTextContext = (
       resolveAbilityName ??
       ((abilityId) =>
         ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS]?.name ?? abilityId),
+    resolveStatusName: (statusId) => STATUS_DEFINITIONS[statusId]?.name ?? statusId,
     resolveSelfId,
   };
 };
@@ -136,13 +251,24 @@ interface ActorDisplay {
   isSelf: boolean;
 }
 
-const resolveActorDisplay = (actorId: string, context: CombatLogTextContext): ActorDisplay => {
+/**
+ * Names an actor for a message. A pet is named after the owner credited with it, e.g.
+ * "Your Wolf Companion" or "Ayla's Wolf Companion".
+ */
+const resolveActorDisplay = (
+  actorId: string,
+  context: CombatLogTextContext,
+  ownerId?: string,
+): ActorDisplay => {
   const selfId = context.resolveSelfId?.();
   if (selfId && actorId === selfId) {
     return { subject: "You", possessive: "Your", isSelf: true };
   }
 
-  const name = context.resolveEntityName(actorId);
+  const entityName = context.resolveEntityName(actorId);
+  const name = ownerId
+    ? `${resolveActorDisplay(ownerId, context).possessive} ${entityName}`
+    : entityName;
   return {
     subject: name,
     possessive: `${name}'s`,
@@ -159,6 +285,38 @@ const createToneValue = (value: number, tone: CombatLogMessageTone): CombatLogMe
   return { text: String(value), tone };
 };
 
+interface MitigatedDamage {
+  absorbed?: number;
+  redirected?: number;
+  redirectedToId?: string;
+}
+
+const hasMitigatedDamage = (entry: MitigatedDamage): boolean => {
+  return (entry.absorbed ?? 0) > 0 || (entry.redirected ?? 0) > 0;
+};
+
+/**
+ * Damage that never reached HP, e.g. " (12 absorbed)". Empty when nothing was mitigated so the
+ * `{mitigation}` placeholder disappears from the line.
+ */
+const formatMitigation = (entry: MitigatedDamage, context: CombatLogTextContext): string => {
+  let text = "";
+  if (entry.absorbed !== undefined && entry.absorbed > 0) {
+    text += ` (${entry.absorbed} absorbed)`;
+  }
+  if (entry.redirected !== undefined && entry.redirected > 0) {
+    let guardian = "an ally";
+    if (entry.redirectedToId) {
+      guardian =
+        entry.redirectedToId === context.resolveSelfId?.()
+          ? "you"
+          : context.resolveEntityName(entry.redirectedToId);
+    }
+    text += ` (${entry.redirected} redirected to ${guardian})`;
+  }
+  return text;
+};
+
 const buildCastStart = (
   entry: AbilityCastStartEvent,
   context: CombatLogTextContext,
@@ -173,11 +331,37 @@ const buildCastStart = (
   );
 };
 
+const USE_CHECK_RESULT_TEXT: Record<AbilityUseCheck["result"], string> = {
+  success: "success",
+  crit_success: "critical success",
+  failure: "failure",
+  crit_failure: "critical failure",
+};
+
+/** "57 + 12 vs 40", or just the natural roll when the check carries no bonus. */
+const formatUseCheckRoll = (useCheck: AbilityUseCheck): string => {
+  if (useCheck.statBonus === undefined || useCheck.difficulty === undefined) {
+    return String(useCheck.roll);
+  }
+  return `${useCheck.roll} + ${useCheck.statBonus} vs ${useCheck.difficulty}`;
+};
+
 const buildCastFinish = (
   entry: AbilityCastFinishEvent,
   context: CombatLogTextContext,
 ): CombatLogMessage => {
   const actor = resolveActorDisplay(entry.actorId, context);
+  if (entry.useCheck) {
+    return formatTemplate(
+      actor.isSelf ? COMBAT_TEXT_TEMPLATES.useCheckSelf : COMBAT_TEXT_TEMPLATES.useCheckOther,
+      {
+        actor: actor.subject,
+        ability: context.resolveAbilityName(entry.abilityId),
+        roll: formatUseCheckRoll(entry.useCheck),
+        check: USE_CHECK_RESULT_TEXT[entry.useCheck.result],
+      },
+    );
+  }
   return formatTemplate(
     actor.isSelf ? COMBAT_TEXT_TEMPLATES.castFinishSelf : COMBAT_TEXT_TEMPLATES.castFinishOther,
     {
@@ -187,23 +371,53 @@ const buildCastFinish = (
   );
 };
 
+const buildBackfire = (
+  entry: AbilityBackfireEvent,
+  context: CombatLogTextContext,
+): CombatLogMessage => {
+  const actor = resolveActorDisplay(entry.actorId, context);
+  const values = {
+    actorPossessive: actor.possessive,
+    ability: context.resolveAbilityName(entry.abilityId),
+  };
+  if (entry.damage !== undefined && entry.damage > 0) {
+    return formatTemplate(
+      actor.isSelf
+        ? COMBAT_TEXT_TEMPLATES.backfireDamageSelf
+        : COMBAT_TEXT_TEMPLATES.backfireDamageOther,
+      { ...values, damage: createToneValue(entry.damage, "damage") },
+    );
+  }
+  return formatTemplate(
+    actor.isSelf ? COMBAT_TEXT_TEMPLATES.backfireSelf : COMBAT_TEXT_TEMPLATES.backfireOther,
+    values,
+  );
+};
+
 const buildCastInterrupt = (
   entry: AbilityCastInterruptEvent,
   context: CombatLogTextContext,
 ): CombatLogMessage => {
   const actor = resolveActorDisplay(entry.actorId, context);
-  return formatTemplate(COMBAT_TEXT_TEMPLATES.castInterrupt, {
+  const values = {
     actorPossessive: actor.possessive,
     ability: context.resolveAbilityName(entry.abilityId),
     reason: entry.reason,
-  });
+  };
+  const sourceId = entry.interruptSourceId;
+  if (!sourceId || sourceId === entry.actorId) {
+    return formatTemplate(COMBAT_TEXT_TEMPLATES.castInterrupt, values);
+  }
+  const source =
+    sourceId === context.resolveSelfId?.() ? "you" : context.resolveEntityName(sourceId);
+  return formatTemplate(COMBAT_TEXT_TEMPLATES.castInterruptBy, { ...values, source });
 };
 
 const buildEffectApplied = (
   entry: AbilityEffectAppliedEvent,
   context: CombatLogTextContext,
 ): CombatLogMessage | undefined => {
-  const actor = resolveActorDisplay(entry.actorId, context);
+  const actor = resolveActorDisplay(entry.actorId, context, entry.actorOwnerId);
   const target = context.resolveEntityName(entry.targetId);
   const ability = context.resolveAbilityName(entry.abilityId);
 
@@ -244,7 +458,9 @@ const buildEffectApplied = (
     }
   }
 
-  if (entry.damage !== undefined && entry.damage > 0) {
+  const damage = entry.damage ?? 0;
+  if (damage > 0 || hasMitigatedDamage(entry)) {
+    const mitigation = formatMitigation(entry, context);
     if (
       entry.outcome === "blocked" &&
       entry.blockedAmount !== undefined &&
@@ -254,8 +470,9 @@ const buildEffectApplied = (
         actorPossessive: actor.possessive,
         target,
         ability,
-        damage: createToneValue(entry.damage, "damage"),
+        damage: createToneValue(damage, "damage"),
         blocked: entry.blockedAmount,
+        mitigation,
       });
     }
 
@@ -268,7 +485,8 @@ const buildEffectApplied = (
           actor: actor.subject,
           target,
           ability,
-          damage: createToneValue(entry.damage, "damage"),
+          damage: createToneValue(damage, "damage"),
+          mitigation,
         },
       );
     }
@@ -281,7 +499,8 @@ const buildEffectApplied = (
         actor: actor.subject,
         target,
         ability,
-        damage: createToneValue(entry.damage, "damage"),
+        damage: createToneValue(damage, "damage"),
+        mitigation,
       },
     );
   }
@@ -303,6 +522,79 @@ const buildEffectApplied = (
   return;
 };
 
+const buildAutoAttack = (
+  entry: AutoAttackEvent,
+  context: CombatLogTextContext,
+): CombatLogMessage => {
+  const actor = resolveActorDisplay(entry.actorId, context, entry.actorOwnerId);
+  const target = context.resolveEntityName(entry.targetId);
+  const damage = entry.damage ?? 0;
+  const connected =
+    entry.outcome === "hit" || entry.outcome === "crit" || entry.outcome === "blocked";
+  const collapse: CombatLogCollapse = {
+    key: `${entry.actorId}>${entry.targetId}`,
+    actor: actor.subject,
+    isSelf: actor.isSelf,
+    target,
+    swings: 1,
+    hits: connected ? 1 : 0,
+    damage,
+  };
+  const values = {
+    actor: actor.subject,
+    actorPossessive: actor.possessive,
+    target,
+  };
+
+  let message: CombatLogMessage;
+  switch (entry.outcome) {
+    case "miss": {
+      message = formatTemplate(
+        actor.isSelf
+          ? COMBAT_TEXT_TEMPLATES.autoAttackMissSelf
+          : COMBAT_TEXT_TEMPLATES.autoAttackMissOther,
+        values,
+      );
+      break;
+    }
+    case "dodged": {
+      message = formatTemplate(COMBAT_TEXT_TEMPLATES.autoAttackDodged, values);
+      break;
+    }
+    case "immune": {
+      message = formatTemplate(COMBAT_TEXT_TEMPLATES.autoAttackImmune, values);
+      break;
+    }
+    case "no_effect": {
+      message = formatTemplate(COMBAT_TEXT_TEMPLATES.autoAttackNoEffect, values);
+      break;
+    }
+    default: {
+      const blocked =
+        entry.blockedAmount !== undefined && entry.blockedAmount > 0
+          ? ` (blocked: ${entry.blockedAmount})`
+          : "";
+      const crit = entry.outcome === "crit";
+      let template: string;
+      if (actor.isSelf) {
+        template = crit
+          ? COMBAT_TEXT_TEMPLATES.autoAttackCritSelf
+          : COMBAT_TEXT_TEMPLATES.autoAttackHitSelf;
+      } else {
+        template = crit
+          ? COMBAT_TEXT_TEMPLATES.autoAttackCritOther
+          : COMBAT_TEXT_TEMPLATES.autoAttackHitOther;
+      }
+      message = formatTemplate(template, {
+        ...values,
+        damage: createToneValue(damage, "damage"),
+        mitigation: blocked + formatMitigation(entry, context),
+      });
+    }
+  }
+  return { ...message, collapse };
+};
+
 const buildMobEnter = (
   entry: MobEnterCombatEvent,
   context: CombatLogTextContext,
@@ -316,9 +608,131 @@ const buildMobExit = (
   entry: MobExitCombatEvent,
   context: CombatLogTextContext,
 ): CombatLogMessage => {
-  return formatTemplate(COMBAT_TEXT_TEMPLATES.exitCombat, {
-    mob: context.resolveEntityName(entry.mobId),
-  });
+  if (entry.reason === "death") {
+    const mob = resolveActorDisplay(entry.mobId, context);
+    return formatTemplate(
+      mob.isSelf ? COMBAT_TEXT_TEMPLATES.deathSelf : COMBAT_TEXT_TEMPLATES.deathOther,
+      { mob: mob.subject },
+    );
+  }
+
+  return formatTemplate(
+    entry.reason === "evade" ? COMBAT_TEXT_TEMPLATES.evade : COMBAT_TEXT_TEMPLATES.exitCombat,
+    { mob: context.resolveEntityName(entry.mobId) },
+  );
+};
+
+const buildStatusApplied = (
+  entry: StatusAppliedEvent,
+  context: CombatLogTextContext,
+): CombatLogMessage => {
+  const target = resolveActorDisplay(entry.targetId, context);
+  const status = context.resolveStatusName(entry.statusId);
+  if (entry.stacks > 1) {
+    return formatTemplate(
+      target.isSelf
+        ? COMBAT_TEXT_TEMPLATES.statusStackedSelf
+        : COMBAT_TEXT_TEMPLATES.statusStackedOther,
+      { target: target.subject, status, stacks: entry.stacks },
+    );
+  }
+  return formatTemplate(
+    target.isSelf
+      ? COMBAT_TEXT_TEMPLATES.statusGainedSelf
+      : COMBAT_TEXT_TEMPLATES.statusGainedOther,
+    { target: target.subject, status },
+  );
+};
+
+const buildStatusRemoved = (
+  entry: StatusRemovedEvent,
+  context: CombatLogTextContext,
+): CombatLogMessage | undefined => {
+  // Death already has its own line; listing every dropped status is noise.
+  if (entry.reason === "death") {
+    return;
+  }
+  const target = resolveActorDisplay(entry.targetId, context);
+  return formatTemplate(
+    target.isSelf
+      ? COMBAT_TEXT_TEMPLATES.statusRemovedSelf
+      : COMBAT_TEXT_TEMPLATES.statusRemovedOther,
+    { target: target.subject, status: context.resolveStatusName(entry.statusId) },
+  );
+};
+
+const buildStatusExpired = (
+  entry: StatusExpiredEvent,
+  context: CombatLogTextContext,
+): CombatLogMessage => {
+  const target = resolveActorDisplay(entry.targetId, context);
+  return formatTemplate(
+    target.isSelf ? COMBAT_TEXT_TEMPLATES.statusFadedSelf : COMBAT_TEXT_TEMPLATES.statusFadedOther,
+    { target: target.subject, status: context.resolveStatusName(entry.statusId) },
+  );
+};
+
+const buildStatusDispelled = (
+  entry: StatusDispelledEvent,
+  context: CombatLogTextContext,
+): CombatLogMessage => {
+  const actor = resolveActorDisplay(entry.actorId, context);
+  const target =
+    entry.targetId === context.resolveSelfId?.()
+      ? actor.isSelf
+        ? "yourself"
+        : "you"
+      : context.resolveEntityName(entry.targetId);
+  return formatTemplate(
+    actor.isSelf
+      ? COMBAT_TEXT_TEMPLATES.statusDispelledSelf
+      : COMBAT_TEXT_TEMPLATES.statusDispelledOther,
+    {
+      actor: actor.subject,
+      target,
+      statuses: entry.statusIds.map((statusId) => context.resolveStatusName(statusId)).join(", "),
+    },
+  );
+};
+
+const buildStatusTick = (
+  entry: StatusTickEvent,
+  context: CombatLogTextContext,
+): CombatLogMessage | undefined => {
+  const target = resolveActorDisplay(entry.targetId, context);
+  const source = resolveActorDisplay(entry.sourceId, context, entry.sourceOwnerId);
+  const status = context.resolveStatusName(entry.statusId);
+
+  if ((entry.damage !== undefined && entry.damage > 0) || hasMitigatedDamage(entry)) {
+    return formatTemplate(
+      target.isSelf
+        ? COMBAT_TEXT_TEMPLATES.statusTickDamageSelf
+        : COMBAT_TEXT_TEMPLATES.statusTickDamageOther,
+      {
+        target: target.subject,
+        sourcePossessive: source.possessive,
+        status,
+        damage: createToneValue(entry.damage ?? 0, "damage"),
+        mitigation: formatMitigation(entry, context),
+      },
+    );
+  }
+
+  if (entry.healing !== undefined && entry.healing > 0) {
+    return formatTemplate(
+      target.isSelf
+        ? COMBAT_TEXT_TEMPLATES.statusTickHealingSelf
+        : COMBAT_TEXT_TEMPLATES.statusTickHealingOther,
+      {
+        target: target.subject,
+        sourcePossessive: source.possessive,
+        status,
+        healing: createToneValue(entry.healing, "healing"),
+      },
+    );
+  }
+
+  return;
 };
 
 /**
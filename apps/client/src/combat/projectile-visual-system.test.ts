@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { NullEngine } from "@babylonjs/core/Engines/nullEngine";
+import { Scene } from "@babylonjs/core/scene";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import {
+  CombatEventType,
+  EventCategory,
+  type ProjectileImpactEvent,
+  type ProjectileLaunchedEvent,
+} from "@mmo/shared-sim";
+import { ProjectileVisualSystem } from "./projectile-visual-system";
+
+const launched: ProjectileLaunchedEvent = {
+  eventId: 1,
+  serverTick: 10,
+  serverTimeMs: 1000,
+  category: EventCategory.Combat,
+  eventType: CombatEventType.ProjectileLaunched,
+  projectileId: 7,
+  actorId: "p1",
+  castId: 3,
+  abilityId: "quick_dart",
+  targetId: "m1",
+  targetPosition: { x: 10, y: 1.2, z: 0 },
+  speed: 20,
+  sourceLocation: { x: 0, y: 1.2, z: 0 },
+};
+
+describe("ProjectileVisualSystem", () => {
+  it("flies toward the target entity and is removed on impact", () => {
+    const scene = new Scene(new NullEngine());
+    const targetPosition = new Vector3(10, 0, 0);
+    const system = new ProjectileVisualSystem(scene, (id) =>
+      id === "m1" ? targetPosition : undefined,
+    );
+
+    system.handleEvent(launched);
+    expect(system.getActiveCount()).toBe(1);
+    const mesh = scene.getMeshByName("projectile_7");
+    expect(mesh?.position.x).toBeCloseTo(0);
+
+    targetPosition.set(10, 0, 4);
+    system.update(250);
+    const travelled = Vector3.Distance(mesh?.position ?? Vector3.Zero(), new Vector3(0, 1.2, 0));
+    expect(travelled).toBeCloseTo(5);
+    expect(mesh?.position.z).toBeGreaterThan(0);
+
+    const impact: ProjectileImpactEvent = {
+      ...launched,
+      eventId: 2,
+      eventType: CombatEventType.ProjectileImpact,
+      outcome: "impact",
+    };
+    system.handleEvent(impact);
+    expect(system.getActiveCount()).toBe(0);
+    expect(mesh?.isDisposed()).toBe(true);
+    scene.dispose();
+  });
+});
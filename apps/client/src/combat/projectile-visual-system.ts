@@ -0,0 +1,206 @@
+import type { Scene } from "@babylonjs/core/scene";
+import { Color3 } from "@babylonjs/core/Maths/math.color";
+import { Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { MeshBuilder } from "@babylonjs/core/Meshes/meshBuilder";
+import type { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { StandardMaterial } from "@babylonjs/core/Materials/standardMaterial";
+import {
+  ABILITY_DEFINITIONS,
+  CombatEventType,
+  EventCategory,
+  type AbilityDefinition,
+  type DamageSchool,
+  type EventLogEntry,
+  type ProjectileImpactEvent,
+  type ProjectileLaunchedEvent,
+} from "@mmo/shared-sim";
+
+/** Matches the server's launch/aim height above a mob's feet. */
+const PROJECTILE_HEIGHT_OFFSET = 1.2;
+const PROJECTILE_DIAMETER = 0.35;
+/** How long an arrived projectile stays visible while waiting for its impact event. */
+const ARRIVED_LINGER_MS = 200;
+/** Safety cap for projectiles whose impact event never arrives. */
+const MAX_LIFETIME_MS = 10_000;
+const DEFAULT_COLOR = new Color3(0.9, 0.9, 0.9);
+const SCHOOL_COLORS: Record<DamageSchool, Color3> = {
+  physical: new Color3(0.75, 0.7, 0.6),
+  fire: new Color3(1, 0.45, 0.1),
+  arcane: new Color3(0.7, 0.35, 1),
+  holy: new Color3(1, 0.9, 0.45),
+  electric: new Color3(0.45, 0.8, 1),
+};
+
+/** Resolves an entity's current position (feet), or undefined when it is not loaded. */
+export type ProjectileTargetResolver = (entityId: string) => Vector3 | undefined;
+
+interface ProjectileVisual {
+  mesh: Mesh;
+  targetId?: string;
+  /** Last known destination; updated from the target entity while it is loaded. */
+  destination: Vector3;
+  speed: number;
+  ageMs: number;
+  arrivedMs?: number;
+}
+
+/**
+ * Spawns projectile meshes from `ProjectileLaunched` events and flies them toward the target
+ * entity (or ground point) at the server's speed. `ProjectileImpact` removes them.
+ */
+export class ProjectileVisualSystem {
+  private readonly projectiles = new Map<number, ProjectileVisual>();
+  private readonly materials = new Map<string, StandardMaterial>();
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly resolveTargetPosition: ProjectileTargetResolver,
+  ) {}
+
+  handleEvent(entry: EventLogEntry): void {
+    if (entry.category !== EventCategory.Combat) {
+      return;
+    }
+    if (entry.eventType === CombatEventType.ProjectileLaunched) {
+      this.handleLaunched(entry as ProjectileLaunchedEvent);
+    } else if (entry.eventType === CombatEventType.ProjectileImpact) {
+      this.remove((entry as ProjectileImpactEvent).projectileId);
+    }
+  }
+
+  update(deltaTimeMs: number): void {
+    for (const [projectileId, projectile] of this.projectiles) {
+      projectile.ageMs += deltaTimeMs;
+      if (projectile.ageMs >= MAX_LIFETIME_MS) {
+        this.remove(projectileId);
+        continue;
+      }
+
+      if (projectile.arrivedMs !== undefined) {
+        projectile.arrivedMs += deltaTimeMs;
+        if (projectile.arrivedMs >= ARRIVED_LINGER_MS) {
+          this.remove(projectileId);
+        }
+        continue;
+      }
+
+      this.refreshDestination(projectile);
+      const position = projectile.mesh.position;
+      const toTarget = projectile.destination.subtract(position);
+      const distance = toTarget.length();
+      const step = (projectile.speed * deltaTimeMs) / 1000;
+      if (distance <= step) {
+        position.copyFrom(projectile.destination);
+        projectile.arrivedMs = 0;
+        continue;
+      }
+      position.addInPlace(toTarget.scaleInPlace(step / distance));
+    }
+  }
+
+  /** Number of projectiles currently shown. */
+  getActiveCount(): number {
+    return this.projectiles.size;
+  }
+
+  clear(): void {
+    for (const projectileId of this.projectiles.keys()) {
+      this.remove(projectileId);
+    }
+  }
+
+  dispose(): void {
+    this.clear();
+    for (const material of this.materials.values()) {
+      material.dispose();
+    }
+    this.materials.clear();
+  }
+
+  /** Spawn a projectile, or redirect an existing one when the server retargets it. */
+  private handleLaunched(event: ProjectileLaunchedEvent): void {
+    const existing = this.projectiles.get(event.projectileId);
+    if (existing) {
+      existing.targetId = event.targetId;
+      existing.destination.set(
+        event.targetPosition.x,
+        event.targetPosition.y,
+        event.targetPosition.z,
+      );
+      existing.speed = event.speed;
+      existing.arrivedMs = undefined;
+      return;
+    }
+
+    const mesh = MeshBuilder.CreateSphere(
+      `projectile_${event.projectileId}`,
+      { diameter: PROJECTILE_DIAMETER, segments: 8 },
+      this.scene,
+    );
+    mesh.isPickable = false;
+    mesh.material = this.getMaterial(event.abilityId);
+    const origin = event.sourceLocation;
+    if (origin) {
+      mesh.position.set(origin.x, origin.y, origin.z);
+    } else {
+      mesh.position.set(event.targetPosition.x, event.targetPosition.y, event.targetPosition.z);
+    }
+
+    this.projectiles.set(event.projectileId, {
+      mesh,
+      targetId: event.targetId,
+      destination: new Vector3(
+        event.targetPosition.x,
+        event.targetPosition.y,
+        event.targetPosition.z,
+      ),
+      speed: event.speed,
+      ageMs: 0,
+    });
+  }
+
+  private refreshDestination(projectile: ProjectileVisual): void {
+    if (!projectile.targetId) {
+      return;
+    }
+    const targetPosition = this.resolveTargetPosition(projectile.targetId);
+    if (!targetPosition) {
+      return;
+    }
+    projectile.destination.set(
+      targetPosition.x,
+      targetPosition.y + PROJECTILE_HEIGHT_OFFSET,
+      targetPosition.z,
+    );
+  }
+
+  private remove(projectileId: number): void {
+    const projectile = this.projectiles.get(projectileId);
+    if (!projectile) {
+      return;
+    }
+    projectile.mesh.dispose();
+    this.projectiles.delete(projectileId);
+  }
+
+  /** Shared material per damage school of the ability's first damage effect. */
+  private getMaterial(abilityId: string): StandardMaterial {
+    const ability = ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS] as
+      | AbilityDefinition
+      | undefined;
+    const school = ability?.effects.find((effect) => effect.type === "damage")?.school;
+    const key = school ?? "default";
+    const cached = this.materials.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const color = school ? SCHOOL_COLORS[school] : DEFAULT_COLOR;
+    const material = new StandardMaterial(`projectile_${key}_mat`, this.scene);
+    material.diffuseColor = color;
+    material.emissiveColor = color.scale(0.8);
+    material.disableLighting = true;
+    this.materials.set(key, material);
+    return material;
+  }
+}
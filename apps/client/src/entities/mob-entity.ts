@@ -6,7 +6,12 @@ import { Color3 } from "@babylonjs/core/Maths/math.color";
 import { Mesh } from "@babylonjs/core/Meshes/mesh";
 import { TextBlock } from "@babylonjs/gui/2D/controls/textBlock";
 import { Control } from "@babylonjs/gui/2D/controls/control";
-import { REMOTE_INTERPOLATION_DELAY_MS, REMOTE_SAMPLE_RETENTION_MS } from "@mmo/shared-sim";
+import {
+  REMOTE_INTERPOLATION_DELAY_MS,
+  REMOTE_SAMPLE_RETENTION_MS,
+  getCastBarState,
+  type CastBarState,
+} from "@mmo/shared-sim";
 import { MobState } from "@mmo/shared-sim";
 import { Entity } from "./entity";
 import { HealthBar } from "../ui/entity/health-bar";
@@ -83,6 +88,14 @@ export class MobEntity extends Entity {
   /** Y offset for the model mesh position (center of billboard). */
   private static readonly MODEL_MESH_OFFSET_Y = 1;
 
+  /** Model visibility used while the entity is a corpse. */
+  private static readonly DEAD_VISIBILITY = 0.35;
+
+  private isDead = false;
+
+  /** Overrides the synced cast window for the cast bar (the local player's combat controller). */
+  private castBarStateProvider?: (nowMs: number) => CastBarState | undefined;
+
   /**
    * Creates a new mobile entity.
    *
@@ -259,6 +272,22 @@ export class MobEntity extends Entity {
     this.healthBar.maxHp = value;
   }
 
+  /**
+   * Toggles the corpse presentation (faded body, hidden facing indicator).
+   *
+   * @param isDead - whether the entity is dead.
+   * @return true if the death state changed.
+   */
+  setDead(isDead: boolean): boolean {
+    if (this.isDead === isDead) {
+      return false;
+    }
+    this.isDead = isDead;
+    this.getModelMesh().visibility = isDead ? MobEntity.DEAD_VISIBILITY : 1;
+    this.directionIndicator.setEnabled(!isDead);
+    return true;
+  }
+
   /**
    * Shows a speech bubble with the given message.
    * The bubble will fade out after 5-6 seconds.
@@ -383,6 +412,10 @@ export class MobEntity extends Entity {
     return this.lastNavmeshMoveDebug;
   }
 
+  setCastBarStateProvider(provider?: (nowMs: number) => CastBarState | undefined): void {
+    this.castBarStateProvider = provider;
+  }
+
   /**
    * Per-frame updates. This should be used for things that don't affect the game world simulation,
    * i.e., pretty much exclusively 'visual updates' like interpolated movement towards a known position.
@@ -393,14 +426,29 @@ export class MobEntity extends Entity {
     // Interpolate towards targetPosition
     applyMovementSmoothing(this, deltaTimeMs, fixedTickAlpha);
 
-    const abilityState = this.sync.abilityState;
-    const castStart = abilityState.castStartTimeMs;
-    const castEnd = abilityState.castEndTimeMs;
-    const hasCastWindow = castEnd > castStart;
     const nowMs = Date.now();
-    const isCasting = hasCastWindow && abilityState.isCasting(nowMs);
-    const progress = isCasting && hasCastWindow ? (nowMs - castStart) / (castEnd - castStart) : 0;
-    this.castBar.update(progress, isCasting && hasCastWindow);
+    const castBarState = this.castBarStateProvider
+      ? this.castBarStateProvider(nowMs)
+      : this.getSyncedCastBarState(nowMs);
+    this.castBar.update(
+      castBarState?.progress ?? 0,
+      castBarState !== undefined,
+      castBarState?.channeled,
+      castBarState?.interruptible,
+    );
+  }
+
+  private getSyncedCastBarState(nowMs: number): CastBarState | undefined {
+    const abilityState = this.sync.abilityState;
+    if (!abilityState.isCasting(nowMs)) {
+      return undefined;
+    }
+    return getCastBarState(
+      abilityState.castAbilityId,
+      abilityState.castStartTimeMs,
+      abilityState.castEndTimeMs,
+      nowMs,
+    );
   }
 
   override fixedTick(tickMs: number): void {
@@ -0,0 +1,39 @@
+import type { InputHandler } from "../input/input-handler";
+import type { InputManager } from "../input/input-manager";
+import type { PlayerEntity } from "../entities/player-entity";
+import type { ZoneConnectionManager } from "../network/zone-connection-manager";
+
+const DEFAULT_AUTO_ATTACK_KEY = "z";
+
+export interface AutoAttackWorld {
+  getLocalPlayer(): PlayerEntity | undefined;
+}
+
+/**
+ * Toggles the local player's auto-attack; the server swings at the current target.
+ */
+export class AutoAttackController implements InputHandler {
+  public priority = 10;
+
+  constructor(
+    private readonly world: AutoAttackWorld,
+    private readonly zoneNetwork: ZoneConnectionManager,
+    private readonly toggleKey: string = DEFAULT_AUTO_ATTACK_KEY,
+  ) {}
+
+  enabled(): boolean {
+    return true;
+  }
+
+  handleTick(input: InputManager): void {
+    if (!input.consumeKeyPress(this.toggleKey)) {
+      return;
+    }
+    const player = this.world.getLocalPlayer();
+    if (!player || player.sync.isDead) {
+      return;
+    }
+
+    this.zoneNetwork.sendAutoAttack({ enabled: !player.sync.autoAttacking });
+  }
+}
@@ -11,6 +11,8 @@ import {
   ZoneDefinition,
   AbilityCastInterruptEvent,
   AbilityEffectAppliedEvent,
+  AutoAttackEvent,
+  StatusTickEvent,
   ABILITY_DEFINITIONS,
   CombatEventType,
   NavcatQuery,
@@ -53,7 +55,7 @@ import type { GroundMesh } from "@babylonjs/core/Meshes/groundMesh";
 import { TransformNode } from "@babylonjs/core/Meshes/transformNode";
 import { ObjManager } from "./obj-manager";
 import { HotbarController } from "../ui/widgets/hotbars/hotbar-controller";
-import { CombatController } from "../combat";
+import { CombatController, describeAbilityRejection } from "../combat";
 import type { AbilityUseContext } from "../combat";
 import { TargetingController } from "../combat/targeting-controller";
 import { GroundTargetingController } from "../combat/ground-targeting-controller";
@@ -61,8 +63,12 @@ import { InputRouter } from "../input/input-router";
 import { UiInputHandler } from "../ui/ui-input-handler";
 import { buildCombatLogText, createCombatLogTextContext } from "../combat/log";
 import { CombatTextSystem } from "../combat/combat-text-system";
+import { ProjectileVisualSystem } from "../combat/projectile-visual-system";
 import { CameraFovController } from "./camera-fov-controller";
 import { CameraAngleController } from "./camera-angle-controller";
+import { AutoAttackController } from "./auto-attack-controller";
+import { PetCommandController } from "./pet-command-controller";
+import { ReleaseController } from "./release-controller";
 import { Control } from "@babylonjs/gui/2D/controls/control";
 import { Line } from "@babylonjs/gui/2D/controls/line";
 import { TextBlock } from "@babylonjs/gui/2D/controls/textBlock";
@@ -129,6 +135,7 @@ export class GameWorld {
     this.getLocalPlayerId.bind(this),
   );
   private combatTextSystem?: CombatTextSystem;
+  private projectileVisualSystem?: ProjectileVisualSystem;
   private localMovement?: LocalPlayerMovementHandler;
   private navmeshQuery?: NavcatQuery;
   private objManager?: ObjManager;
@@ -143,6 +150,9 @@ export class GameWorld {
   private groundTargetingController?: GroundTargetingController;
   private cameraFovController?: CameraFovController;
   private cameraAngleController?: CameraAngleController;
+  private releaseController?: ReleaseController;
+  private petCommandController?: PetCommandController;
+  private autoAttackController?: AutoAttackController;
   private inputRouter?: InputRouter;
   private uiInputHandler?: UiInputHandler;
   private pendingReconcileNudge?: { x: number; z: number };
@@ -242,6 +252,10 @@ export class GameWorld {
       throw new Error("UI layer not initialized");
     }
     this.combatTextSystem = new CombatTextSystem(this.uiLayer);
+    this.projectileVisualSystem = new ProjectileVisualSystem(
+      this.scene,
+      (entityId) => this.getMobById(entityId)?.position,
+    );
     this.objManager = new ObjManager(this.services.zoneNetwork, this.uiLayer);
     this.services.input.initialize(this.scene);
     this.inputRouter = new InputRouter(this.services.input);
@@ -251,6 +265,12 @@ export class GameWorld {
     this.inputRouter.registerHandler(this.cameraFovController);
     this.cameraAngleController = new CameraAngleController(this.camera);
     this.inputRouter.registerHandler(this.cameraAngleController);
+    this.releaseController = new ReleaseController(this, this.services.zoneNetwork);
+    this.inputRouter.registerHandler(this.releaseController);
+    this.petCommandController = new PetCommandController(this, this.services.zoneNetwork);
+    this.inputRouter.registerHandler(this.petCommandController);
+    this.autoAttackController = new AutoAttackController(this, this.services.zoneNetwork);
+    this.inputRouter.registerHandler(this.autoAttackController);
     this.groundTargetingController = new GroundTargetingController(this);
     this.inputRouter.registerHandler(this.groundTargetingController);
     this.targetingController = new TargetingController(this, this.services.zoneNetwork);
@@ -353,6 +373,9 @@ export class GameWorld {
     this.targetingController = undefined;
     this.cameraFovController = undefined;
     this.cameraAngleController = undefined;
+    this.releaseController = undefined;
+    this.petCommandController = undefined;
+    this.autoAttackController = undefined;
     this.navmeshQuery = undefined;
     this.zoneDefinition = undefined;
     this.groundMesh = undefined;
@@ -370,6 +393,8 @@ export class GameWorld {
     this.hotbar = undefined;
     this.combatTextSystem?.dispose();
     this.combatTextSystem = undefined;
+    this.projectileVisualSystem?.dispose();
+    this.projectileVisualSystem = undefined;
     this.services.performanceViewModel.dispose();
     this.restoreCameraSnapshot();
     this.setCameraFollowTarget(undefined);
@@ -428,6 +453,7 @@ export class GameWorld {
 
     this.updateWorldOrientationHud();
     this.combatTextSystem?.update(deltaTimeMs);
+    this.projectileVisualSystem?.update(deltaTimeMs);
   }
 
   private configureCameraForWorld(): void {
@@ -752,7 +778,15 @@ export class GameWorld {
         abilityId: "radiant_pulse",
       });
 
-      this.combatController = new CombatController(entity, this.services.zoneNetwork);
+      const combatController = new CombatController(entity, this.services.zoneNetwork);
+      this.combatController = combatController;
+      entity.setCastBarStateProvider((nowMs) => combatController.getCastBarState(nowMs));
+      combatController.onAbilityRejected((abilityId, reason) => {
+        const message = describeAbilityRejection(abilityId, reason);
+        if (message) {
+          this.services.chat.addSystemMessage(message);
+        }
+      });
       this.services.hotbarViewModel.bind(this.hotbar, this.combatController);
       this.groundTargetingController?.setCombatController(this.combatController);
       this.hotbar.onSlotActivated((_slot, action) => {
@@ -808,6 +842,7 @@ export class GameWorld {
     if (!isLocal) {
       entity.addRemoteMoveSample(player);
     }
+    entity.setDead(player.isDead);
     entity.serverPositionVisual.setEnabled(this.serverPositionVisualEnabled);
     entity.setServerPosition(player.x, player.y, player.z);
     this.players.set(playerId, entity);
@@ -822,6 +857,7 @@ export class GameWorld {
     entity.setCurrentHp(player.currentHp);
     entity.setMaxHp(player.maxHp);
     entity.setDisconnected(player.isDisconnected);
+    this.updateDeathState(entity, player.isDead);
     if (entity.isLocal) {
       const nudge = this.pendingReconcileNudge;
       this.pendingReconcileNudge = undefined;
@@ -844,6 +880,13 @@ export class GameWorld {
     }
   }
 
+  private updateDeathState(entity: MobEntity, isDead: boolean): void {
+    const changed = entity.setDead(isDead);
+    if (changed && isDead && entity === this.localPlayer) {
+      this.services.chat.addSystemMessage("You have died. Press R to release and respawn.");
+    }
+  }
+
   private handleMovementStart(): void {
     if (!this.localPlayer || !this.combatController) {
       return;
@@ -871,6 +914,10 @@ export class GameWorld {
       return;
     }
 
+    if (selectedTarget.sync.isDead && !ability.canTargetDead) {
+      return;
+    }
+
     const visibleTargets = this.localPlayer?.sync.visibleTargets;
     if (visibleTargets && !visibleTargets.includes(selectedTarget.getId())) {
       return;
@@ -889,6 +936,13 @@ export class GameWorld {
     }
     return {
       targetEntityId: selectedTarget.getId(),
+      targetState: {
+        x: targetPosition.x,
+        y: targetPosition.y,
+        z: targetPosition.z,
+        currentHp: selectedTarget.sync.currentHp,
+        maxHp: selectedTarget.sync.maxHp,
+      },
     };
   }
 
@@ -941,6 +995,7 @@ export class GameWorld {
       return;
     }
     const entity = new NpcEntity(`npc_${npc.id}`, this.scene, npc, uiLayer);
+    entity.setDead(npc.isDead);
     entity.addRemoteMoveSample(npc);
     entity.serverPositionVisual.setEnabled(this.serverPositionVisualEnabled);
     entity.setServerPosition(npc.x, npc.y, npc.z);
@@ -955,6 +1010,7 @@ export class GameWorld {
 
     entity.setCurrentHp(npc.currentHp);
     entity.setMaxHp(npc.maxHp);
+    this.updateDeathState(entity, npc.isDead);
     entity.setServerPosition(npc.x, npc.y, npc.z);
     entity.addRemoteMoveSample(npc);
   }
@@ -980,7 +1036,7 @@ export class GameWorld {
       return;
     }
 
-    this.localMovement?.applyServerSnap(snap.x, snap.y, snap.z, snap.seq);
+    this.localMovement?.applyServerSnap(snap.x, snap.y, snap.z, snap.seq, snap.durationMs);
   }
 
   private resetEntities(): void {
@@ -995,6 +1051,7 @@ export class GameWorld {
     this.localMovement = undefined;
     this.combatController = undefined;
     this.combatTextSystem?.clear();
+    this.projectileVisualSystem?.clear();
     this.setCameraFollowTarget(undefined);
     this.groundTargetingController?.setCombatController(undefined);
     this.targetingController?.clearTarget();
@@ -1458,6 +1515,7 @@ export class GameWorld {
         this.services.ui.appendBattleMessage(message);
       }
       this.maybeSpawnCombatText(entry);
+      this.projectileVisualSystem?.handleEvent(entry);
     }
   }
 
@@ -1488,39 +1546,61 @@ export class GameWorld {
       return;
     }
 
-    if (entry.eventType !== CombatEventType.AbilityEffectApplied) {
-      return;
-    }
+    let targetId: string;
+    let damage: number | undefined;
+    let healing: number | undefined;
+    let isCrit = false;
+    switch (entry.eventType) {
+      case CombatEventType.AbilityEffectApplied: {
+        const effect = entry as AbilityEffectAppliedEvent;
+        targetId = effect.targetId;
+        damage = effect.damage;
+        healing = effect.healing;
+        isCrit = effect.outcome === "crit";
+
+        break;
+      }
+      case CombatEventType.AutoAttack: {
+        const swing = entry as AutoAttackEvent;
+        targetId = swing.targetId;
+        damage = swing.damage;
+        isCrit = swing.outcome === "crit";
 
-    const effect = entry as AbilityEffectAppliedEvent;
+        break;
+      }
+      case CombatEventType.StatusTick: {
+        const tick = entry as StatusTickEvent;
+        targetId = tick.targetId;
+        damage = tick.damage;
+        healing = tick.healing;
+
+        break;
+      }
+      default: {
+        return;
+      }
+    }
 
-    const damage = effect.damage;
     if (!damage || damage <= 0) {
-      const healing = effect.healing;
       if (!healing || healing <= 0) {
         return;
       }
 
-      const healTarget = this.getMobById(effect.targetId);
+      const healTarget = this.getMobById(targetId);
       if (!healTarget) {
         return;
       }
 
-      this.combatTextSystem.spawnHealing(healTarget.getModelMesh(), healing, effect.targetId);
+      this.combatTextSystem.spawnHealing(healTarget.getModelMesh(), healing, targetId);
       return;
     }
 
-    const target = this.getMobById(effect.targetId);
+    const target = this.getMobById(targetId);
     if (!target) {
       return;
     }
 
-    this.combatTextSystem.spawnDamage(
-      target.getModelMesh(),
-      damage,
-      effect.outcome === "crit",
-      effect.targetId,
-    );
+    this.combatTextSystem.spawnDamage(target.getModelMesh(), damage, isCrit, targetId);
   }
 
   private resolveAbilityName(abilityId: string): string {
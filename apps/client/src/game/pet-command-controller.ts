@@ -0,0 +1,79 @@
+import { PET_STANCES, type PetCommand, type PetStance } from "@mmo/shared-sim";
+import type { InputHandler } from "../input/input-handler";
+import type { InputManager } from "../input/input-manager";
+import type { NpcEntity } from "../entities/npc-entity";
+import type { PlayerEntity } from "../entities/player-entity";
+import type { ZoneConnectionManager } from "../network/zone-connection-manager";
+
+const DEFAULT_PET_COMMAND_KEYS: Record<PetCommand, string> = {
+  attack: "f",
+  follow: "h",
+  stay: "y",
+  stance: "t",
+  dismiss: "u",
+};
+
+export interface PetCommandWorld {
+  getLocalPlayer(): PlayerEntity | undefined;
+  getNpcEntities(): Iterable<NpcEntity>;
+  getCurrentTargetId(): string | undefined;
+}
+
+/**
+ * Sends the local player's pet orders: attack the current target, follow, stay, cycle its
+ * stance (passive, defensive, aggressive) or dismiss it.
+ */
+export class PetCommandController implements InputHandler {
+  public priority = 10;
+
+  constructor(
+    private readonly world: PetCommandWorld,
+    private readonly zoneNetwork: ZoneConnectionManager,
+    private readonly keys: Record<PetCommand, string> = DEFAULT_PET_COMMAND_KEYS,
+  ) {}
+
+  enabled(): boolean {
+    return true;
+  }
+
+  handleTick(input: InputManager): void {
+    // Always consume the keys so presses made without a pet are not replayed once summoned.
+    const pressed = (Object.keys(this.keys) as PetCommand[]).filter((command) =>
+      input.consumeKeyPress(this.keys[command]),
+    );
+    const pet = pressed.length > 0 ? this.findLocalPet() : undefined;
+    if (!pet) {
+      return;
+    }
+
+    for (const command of pressed) {
+      if (command === "attack") {
+        const targetEntityId = this.world.getCurrentTargetId();
+        if (targetEntityId) {
+          this.zoneNetwork.sendPetCommand({ command, targetEntityId });
+        }
+        continue;
+      }
+      if (command === "stance") {
+        const index = PET_STANCES.indexOf(pet.sync.petStance as PetStance);
+        const stance = PET_STANCES[(index + 1) % PET_STANCES.length];
+        this.zoneNetwork.sendPetCommand({ command, stance });
+        continue;
+      }
+      this.zoneNetwork.sendPetCommand({ command });
+    }
+  }
+
+  private findLocalPet(): NpcEntity | undefined {
+    const playerId = this.world.getLocalPlayer()?.sync.id;
+    if (!playerId) {
+      return undefined;
+    }
+    for (const npc of this.world.getNpcEntities()) {
+      if (npc.sync.ownerId === playerId && !npc.sync.isDead) {
+        return npc;
+      }
+    }
+    return undefined;
+  }
+}
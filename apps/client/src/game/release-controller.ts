@@ -0,0 +1,39 @@
+import type { InputHandler } from "../input/input-handler";
+import type { InputManager } from "../input/input-manager";
+import type { PlayerEntity } from "../entities/player-entity";
+import type { ZoneConnectionManager } from "../network/zone-connection-manager";
+
+const DEFAULT_RELEASE_KEY = "r";
+
+export interface ReleaseWorld {
+  getLocalPlayer(): PlayerEntity | undefined;
+}
+
+/**
+ * Lets a dead local player release their corpse and respawn at the zone entry point.
+ */
+export class ReleaseController implements InputHandler {
+  public priority = 10;
+
+  constructor(
+    private readonly world: ReleaseWorld,
+    private readonly zoneNetwork: ZoneConnectionManager,
+    private readonly releaseKey: string = DEFAULT_RELEASE_KEY,
+  ) {}
+
+  enabled(): boolean {
+    return true;
+  }
+
+  handleTick(input: InputManager): void {
+    // Always consume the key so a press made while alive is not replayed on death.
+    if (!input.consumeKeyPress(this.releaseKey)) {
+      return;
+    }
+    if (!this.world.getLocalPlayer()?.sync.isDead) {
+      return;
+    }
+
+    this.zoneNetwork.sendRelease({ clientTimeMs: Date.now() });
+  }
+}
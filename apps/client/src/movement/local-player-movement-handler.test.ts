@@ -64,6 +64,7 @@ const createTestPlayer = (scene?: Scene): PlayerEntity => {
   return {
     position,
     getId: () => "test-player",
+    sync: { isDead: false },
     getScene: () => scene as Scene,
     getTargetPosition: () => targetPosition,
     setTargetPosition: (x: number, y: number, z: number) => {
@@ -74,6 +75,8 @@ const createTestPlayer = (scene?: Scene): PlayerEntity => {
       serverPosition.set(x, y, z);
     },
     setMovementYaw: () => {},
+    setFacingYaw: () => {},
+    getFacingYaw: () => 0,
     getCollisionMesh: () => undefined,
     setNavmeshMoveDebug: () => {},
   } as unknown as PlayerEntity;
@@ -231,6 +234,7 @@ describe("LocalPlayerMovementHandler", () => {
     const player = {
       position: targetPosition.clone(),
       getId: () => "test-player",
+      sync: { isDead: false },
       getScene: () => undefined as unknown as Scene,
       getTargetPosition: () => targetPosition,
       setTargetPosition: (x: number, y: number, z: number) => {
@@ -239,6 +243,8 @@ describe("LocalPlayerMovementHandler", () => {
       getServerPositionSnapshot: () => targetPosition.clone(),
       setServerPosition: () => {},
       setMovementYaw: () => {},
+      setFacingYaw: () => {},
+      getFacingYaw: () => 0,
       getCollisionMesh: () => undefined,
       setNavmeshMoveDebug: () => {},
     } as unknown as PlayerEntity;
@@ -263,6 +269,7 @@ describe("LocalPlayerMovementHandler", () => {
     const player = {
       position: targetPosition.clone(),
       getId: () => "test-player",
+      sync: { isDead: false },
       getScene: () => undefined as unknown as Scene,
       getTargetPosition: () => targetPosition,
       setTargetPosition: (x: number, y: number, z: number) => {
@@ -271,6 +278,8 @@ describe("LocalPlayerMovementHandler", () => {
       getServerPositionSnapshot: () => targetPosition.clone(),
       setServerPosition: () => {},
       setMovementYaw: () => {},
+      setFacingYaw: () => {},
+      getFacingYaw: () => 0,
       getCollisionMesh: () => undefined,
       setNavmeshMoveDebug: () => {},
     } as unknown as PlayerEntity;
@@ -362,12 +371,15 @@ describe("LocalPlayerMovementHandler", () => {
     const player = {
       position: targetPosition.clone(),
       getId: () => "test-player",
+      sync: { isDead: false },
       getScene: () => undefined as unknown as Scene,
       getTargetPosition: () => targetPosition,
       setTargetPosition,
       getServerPositionSnapshot: () => targetPosition.clone(),
       setServerPosition: () => {},
       setMovementYaw: () => {},
+      setFacingYaw: () => {},
+      getFacingYaw: () => 0,
       getCollisionMesh: () => undefined,
       setNavmeshMoveDebug: () => {},
     } as unknown as PlayerEntity;
@@ -402,12 +414,15 @@ describe("LocalPlayerMovementHandler", () => {
     const player = {
       position: targetPosition.clone(),
       getId: () => "test-player",
+      sync: { isDead: false },
       getScene: () => undefined as unknown as Scene,
       getTargetPosition: () => targetPosition,
       setTargetPosition,
       getServerPositionSnapshot: () => targetPosition.clone(),
       setServerPosition: () => {},
       setMovementYaw: () => {},
+      setFacingYaw: () => {},
+      getFacingYaw: () => 0,
       getCollisionMesh: () => undefined,
       setNavmeshMoveDebug: () => {},
     } as unknown as PlayerEntity;
@@ -426,6 +441,7 @@ describe("LocalPlayerMovementHandler", () => {
   it("sets yaw from movement input direction", () => {
     const targetPosition = new Vector3(0, 0, 0);
     const setMovementYaw = vi.fn();
+    let facingYaw = 0;
     const input = {
       getMovementDirection: () => new Vector3(1, 0, 0),
       consumeKeyPress: () => false,
@@ -436,6 +452,7 @@ describe("LocalPlayerMovementHandler", () => {
     const player = {
       position: targetPosition.clone(),
       getId: () => "test-player",
+      sync: { isDead: false },
       getScene: () => undefined as unknown as Scene,
       getTargetPosition: () => targetPosition,
       setTargetPosition: (x: number, y: number, z: number) => {
@@ -444,6 +461,10 @@ describe("LocalPlayerMovementHandler", () => {
       getServerPositionSnapshot: () => targetPosition.clone(),
       setServerPosition: () => {},
       setMovementYaw,
+      setFacingYaw: (value: number) => {
+        facingYaw = value;
+      },
+      getFacingYaw: () => facingYaw,
       getCollisionMesh: () => undefined,
       setNavmeshMoveDebug: () => {},
     } as unknown as PlayerEntity;
@@ -451,7 +472,11 @@ describe("LocalPlayerMovementHandler", () => {
 
     handler.fixedTick(50);
 
+    const sent = vi.mocked(zoneNetwork.sendMessage).mock.calls[0]?.[0] as
+      | { payload: { facingYaw: number } }
+      | undefined;
     expect(setMovementYaw).toHaveBeenCalledWith(Math.PI / 2);
+    expect(sent?.payload.facingYaw).toBe(Math.PI / 2);
   });
 
   it("does not change yaw when there is no movement input", () => {
@@ -467,6 +492,7 @@ describe("LocalPlayerMovementHandler", () => {
     const player = {
       position: targetPosition.clone(),
       getId: () => "test-player",
+      sync: { isDead: false },
       getScene: () => undefined as unknown as Scene,
       getTargetPosition: () => targetPosition,
       setTargetPosition: (x: number, y: number, z: number) => {
@@ -475,6 +501,8 @@ describe("LocalPlayerMovementHandler", () => {
       getServerPositionSnapshot: () => targetPosition.clone(),
       setServerPosition: () => {},
       setMovementYaw,
+      setFacingYaw: () => {},
+      getFacingYaw: () => 0,
       getCollisionMesh: () => undefined,
       setNavmeshMoveDebug: () => {},
     } as unknown as PlayerEntity;
@@ -484,4 +512,31 @@ describe("LocalPlayerMovementHandler", () => {
 
     expect(setMovementYaw).not.toHaveBeenCalled();
   });
+
+  it("plays a timed server snap as a forced move before acknowledging it", () => {
+    const player = createTestPlayer();
+    const input = {
+      getMovementDirection: () => new Vector3(1, 0, 0),
+      consumeKeyPress: () => false,
+    } as unknown as InputManager;
+    const sendMessage = vi.fn();
+    const zoneNetwork = { sendMessage } as unknown as ZoneConnectionManager;
+    const handler = new TestMovementHandler(player, input, zoneNetwork);
+
+    handler.applyServerSnap(0, 0, 4, 7, 100);
+    handler.fixedTick(50);
+
+    expect(player.getTargetPosition().z).toBeCloseTo(2);
+    expect(player.getTargetPosition().x).toBeCloseTo(0);
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    handler.fixedTick(50);
+
+    expect(player.position.z).toBeCloseTo(4);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage.mock.calls[0]?.[0]).toMatchObject({
+      type: "move",
+      payload: { directionX: 0, directionZ: 0, predictedZ: 4 },
+    });
+  });
 });
@@ -52,6 +52,15 @@ export interface ReconcileDebugData {
   lastReconcileSeq: number;
 }
 
+/** Server-driven displacement (knockback, leap, ...) played locally instead of input movement. */
+interface ForcedMove {
+  from: Vector3;
+  to: Vector3;
+  elapsedMs: number;
+  durationMs: number;
+  seq: number;
+}
+
 interface GroundHit {
   y: number;
   normalX: number;
@@ -86,6 +95,7 @@ export class LocalPlayerMovementHandler {
   private grounded = true;
   private gravity = DEFAULT_PLAYER_GRAVITY;
   private maxFallSpeed = DEFAULT_PLAYER_MAX_FALL_SPEED;
+  private forcedMove?: ForcedMove;
 
   constructor(
     private player: PlayerEntity,
@@ -121,6 +131,7 @@ export class LocalPlayerMovementHandler {
   }
 
   dispose(): void {
+    this.forcedMove = undefined;
     this.collisionSimulator?.dispose();
     this.collisionSimulator = undefined;
     this.velocityY = 0;
@@ -130,9 +141,18 @@ export class LocalPlayerMovementHandler {
   fixedTick(tickMs: number): void {
     this.currentTick++;
 
-    const inputDir = this.input.getMovementDirection();
+    if (this.forcedMove) {
+      // Input is ignored until the displacement finishes; the server holds it anyway.
+      this.input.consumeKeyPress(" ");
+      this.advanceForcedMove(tickMs);
+      return;
+    }
+
+    // Dead players keep simulating (gravity, acks) but ignore movement input.
+    const isDead = this.player.sync.isDead;
+    const inputDir = isDead ? this.idleDirection : this.input.getMovementDirection();
     const jumpKeyPressed = this.input.consumeKeyPress(" ");
-    const jumpPressed = jumpKeyPressed && this.grounded;
+    const jumpPressed = jumpKeyPressed && this.grounded && !isDead;
     const isIdle = inputDir.lengthSquared() === 0;
     if (!isIdle && this.wasIdle) {
       this.onMovementStart?.();
@@ -164,6 +184,10 @@ export class LocalPlayerMovementHandler {
 
     const predictedPos = predicted.position;
     const seq = this.currentInputSeq++;
+    if (!isIdle) {
+      // The player faces where they move; the server needs it for facing checks.
+      this.player.setFacingYaw(Math.atan2(moveDir.x, moveDir.z));
+    }
     this.queueAndSendPredictedMove(moveDir, predictedPos, seq, jumpPressed);
     const shouldInterpolatePosition = this.hasActiveMovementState(
       isIdle,
@@ -218,13 +242,52 @@ export class LocalPlayerMovementHandler {
     return this.cameraDirection;
   }
 
-  applyServerSnap(x: number, y: number, z: number, seq: number): void {
+  /**
+   * Apply a server snap. A positive `durationMs` marks a displacement that is played as a
+   * straight-line move from the current position before the snap is acknowledged.
+   */
+  applyServerSnap(x: number, y: number, z: number, seq: number, durationMs = 0): void {
     if (this.ignoreServerSnaps) {
       this.player.setServerPosition(x, y, z);
       this.lastAckedSeq = Math.max(this.lastAckedSeq, seq);
       return;
     }
 
+    if (durationMs > 0) {
+      this.forcedMove = {
+        from: this.player.getTargetPosition().clone(),
+        to: new Vector3(x, y, z),
+        elapsedMs: 0,
+        durationMs,
+        seq,
+      };
+      this.clearPendingMoves();
+      this.idleDriftMs = 0;
+      return;
+    }
+
+    this.forcedMove = undefined;
+    this.completeSnap(x, y, z, seq);
+  }
+
+  private advanceForcedMove(tickMs: number): void {
+    const forcedMove = this.forcedMove;
+    if (!forcedMove) {
+      return;
+    }
+    forcedMove.elapsedMs += tickMs;
+    const t = Math.min(1, forcedMove.elapsedMs / forcedMove.durationMs);
+    if (t >= 1) {
+      this.forcedMove = undefined;
+      this.completeSnap(forcedMove.to.x, forcedMove.to.y, forcedMove.to.z, forcedMove.seq);
+      return;
+    }
+    const position = Vector3.Lerp(forcedMove.from, forcedMove.to, t);
+    this.player.setTargetPosition(position.x, position.y, position.z, true);
+  }
+
+  /** Place the player at the snap position and acknowledge it to the server. */
+  private completeSnap(x: number, y: number, z: number, seq: number): void {
     this.player.position.set(x, y, z);
     this.player.setTargetPosition(x, y, z, false);
     this.player.setServerPosition(x, y, z);
@@ -255,7 +318,7 @@ export class LocalPlayerMovementHandler {
     const serverZ = overridePosition?.z ?? player.z;
     this.player.setServerPosition(serverX, serverY, serverZ);
     const ackSeq = player.lastProcessedSeq;
-    if (ackSeq < this.lastAckedSeq) {
+    if (ackSeq < this.lastAckedSeq || this.forcedMove) {
       return;
     }
 
@@ -432,6 +495,7 @@ export class LocalPlayerMovementHandler {
         seq,
         tick: this.currentTick,
         isSprinting: false,
+        facingYaw: this.player.getFacingYaw(),
         predictedX,
         predictedY,
         predictedZ,
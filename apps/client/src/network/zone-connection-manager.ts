@@ -10,7 +10,14 @@ import {
   AbilityAck,
   AbilityUseRequest,
   AbilityCancelRequest,
+  AutoAttackMessage,
+  PetCommandMessage,
+  ReleaseMessage,
   TargetChangeMessage,
+  formatCombatContentIssues,
+  installCombatContent,
+  validateCombatContent,
+  type CombatContentMessage,
   type EventLogEntry,
   type EventStreamBatch,
   type EventStreamResyncRequest,
@@ -41,6 +48,7 @@ export class ZoneConnectionManager implements ConnectionEventEmitter {
   private lastStatusText = "Disconnected";
   private lastStatusConnected = false;
   private statusHandlers: ((text: string, connected: boolean) => void)[] = [];
+  private combatContentVersion?: number;
 
   public get initialized(): boolean {
     return this.isInitialized;
@@ -140,6 +148,30 @@ export class ZoneConnectionManager implements ConnectionEventEmitter {
     this.room.send("target_change", payload);
   }
 
+  public sendRelease(payload: ReleaseMessage): void {
+    if (!this.room) {
+      return;
+    }
+
+    this.room.send("release", payload);
+  }
+
+  public sendAutoAttack(payload: AutoAttackMessage): void {
+    if (!this.room) {
+      return;
+    }
+
+    this.room.send("auto_attack", payload);
+  }
+
+  public sendPetCommand(payload: PetCommandMessage): void {
+    if (!this.room) {
+      return;
+    }
+
+    this.room.send("pet_command", payload);
+  }
+
   public ping(callback: (latencyMs: number) => void): boolean {
     if (!this.room) {
       return false;
@@ -242,6 +274,28 @@ export class ZoneConnectionManager implements ConnectionEventEmitter {
     this.zoneReadyCallback = callback;
   }
 
+  /**
+   * Installs the server's ability and status definitions. Sent on join and again after the
+   * server reloads its content files.
+   */
+  private handleCombatContent(data: CombatContentMessage): void {
+    if (data.version === this.combatContentVersion) {
+      return;
+    }
+    const result = validateCombatContent(data.abilities, data.statuses);
+    if (!result.ok) {
+      console.error(
+        `Rejected combat content v${data.version}:\n${formatCombatContentIssues(result.issues)}`,
+      );
+      return;
+    }
+    installCombatContent(result.content);
+    if (this.combatContentVersion !== undefined) {
+      this.systemMessageCallback?.("Combat definitions updated");
+    }
+    this.combatContentVersion = data.version;
+  }
+
   private setupRoomHandlers(): void {
     if (!this.room) {
       return;
@@ -255,6 +309,10 @@ export class ZoneConnectionManager implements ConnectionEventEmitter {
       this.abilityAckCallback?.(data);
     });
 
+    this.room.onMessage("combat_content", (data: CombatContentMessage) => {
+      this.handleCombatContent(data);
+    });
+
     this.room.onMessage("event_stream_batch", (data: EventStreamBatch) => {
       this.eventStreamClient?.handleBatch(data);
     });
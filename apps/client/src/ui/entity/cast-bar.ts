@@ -5,6 +5,11 @@ import type { UiLayer } from "../ui-layer";
 
 const DEFAULT_WIDTH = 70;
 const DEFAULT_HEIGHT = 6;
+const CAST_FILL_COLOR = "#48a0ff";
+const CHANNEL_FILL_COLOR = "#b77cff";
+const BORDER_COLOR = "black";
+/** Gold frame marking casts that interrupts and silences cannot break. */
+const UNINTERRUPTIBLE_BORDER_COLOR = "#e0b84a";
 
 export interface CastBarOptions {
   /** Unique identifier for naming UI elements. */
@@ -19,7 +24,8 @@ export interface CastBarOptions {
 
 /**
  * A minimal cast bar UI component for displaying cast progress.
- * Links to a mesh and follows it in screen space.
+ * Links to a mesh and follows it in screen space. Channels use their own fill color and
+ * uninterruptible casts get a gold frame.
  */
 export class CastBar {
   private background: Rectangle;
@@ -27,6 +33,8 @@ export class CastBar {
   private uiLayer: UiLayer;
   private isVisible = false;
   private lastProgress = -1;
+  private isChanneled = false;
+  private isInterruptible = true;
 
   constructor(mesh: AbstractMesh, options: CastBarOptions, uiLayer: UiLayer) {
     const width = options.width ?? DEFAULT_WIDTH;
@@ -39,7 +47,7 @@ export class CastBar {
     this.background.width = `${width}px`;
     this.background.height = `${height}px`;
     this.background.cornerRadius = 2;
-    this.background.color = "black";
+    this.background.color = BORDER_COLOR;
     this.background.thickness = 1;
     this.background.background = "#1f1f1f";
     this.background.isVisible = false;
@@ -54,12 +62,12 @@ export class CastBar {
     this.fill.color = "transparent";
     this.fill.thickness = 0;
     this.fill.horizontalAlignment = Control.HORIZONTAL_ALIGNMENT_LEFT;
-    this.fill.background = "#48a0ff";
+    this.fill.background = CAST_FILL_COLOR;
 
     this.background.addControl(this.fill);
   }
 
-  update(progress: number, visible: boolean): void {
+  update(progress: number, visible: boolean, channeled = false, interruptible = true): void {
     if (visible !== this.isVisible) {
       this.isVisible = visible;
       this.background.isVisible = visible;
@@ -70,6 +78,17 @@ export class CastBar {
       return;
     }
 
+    if (channeled !== this.isChanneled) {
+      this.isChanneled = channeled;
+      this.fill.background = channeled ? CHANNEL_FILL_COLOR : CAST_FILL_COLOR;
+    }
+
+    if (interruptible !== this.isInterruptible) {
+      this.isInterruptible = interruptible;
+      this.background.color = interruptible ? BORDER_COLOR : UNINTERRUPTIBLE_BORDER_COLOR;
+      this.background.thickness = interruptible ? 1 : 2;
+    }
+
     const clamped = Math.max(0, Math.min(1, progress));
     if (Math.abs(clamped - this.lastProgress) < 0.001) {
       return;
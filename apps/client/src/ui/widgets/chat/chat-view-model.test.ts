@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import { collapseCombatLogMessages, type CombatLogMessage } from "../../../combat/log";
 import { ChatViewModel } from "./chat-view-model";
 import type { ChatEventEmitter } from "./chat-event-source";
 
@@ -32,6 +33,20 @@ class FakeChatEmitter implements ChatEventEmitter {
   }
 }
 
+const swing = (damage: number): CombatLogMessage => ({
+  text: `You hit Goblin for ${damage}.`,
+  parts: [{ text: `You hit Goblin for ${damage}.` }],
+  collapse: {
+    key: "p1>m1",
+    actor: "You",
+    isSelf: true,
+    target: "Goblin",
+    swings: 1,
+    hits: 1,
+    damage,
+  },
+});
+
 describe("ChatViewModel", () => {
   it("caps chat history", () => {
     const chat = new FakeChatEmitter();
@@ -48,4 +63,23 @@ describe("ChatViewModel", () => {
       expect(snapshot.chatMessages[0].message).toBe("msg-1");
     }
   });
+
+  it("folds consecutive auto-attack swings into one battle line", () => {
+    const viewModel = new ChatViewModel(new FakeChatEmitter());
+
+    viewModel.addBattleMessage(swing(3));
+    viewModel.addBattleMessage(swing(4));
+    const [folded] = viewModel.getSnapshot().battleMessages;
+    viewModel.addBattleMessage("Goblin dies.");
+    viewModel.addBattleMessage(swing(5));
+
+    const lines = viewModel.getSnapshot().battleMessages;
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toEqual(folded);
+    expect(lines[0].payload).toEqual(collapseCombatLogMessages(swing(3), swing(4)));
+    expect(typeof lines[0].payload === "string" ? lines[0].payload : lines[0].payload.text).toBe(
+      "You hit Goblin 2 of 2 times for 7.",
+    );
+    expect(lines[2].payload).toEqual(swing(5));
+  });
 });
@@ -1,4 +1,4 @@
-import type { CombatLogMessage } from "../../../combat/log";
+import { collapseCombatLogMessages, type CombatLogMessage } from "../../../combat/log";
 import type { ChatEventEmitter } from "./chat-event-source";
 
 export type BattleMessagePayload = CombatLogMessage | string;
@@ -88,6 +88,21 @@ export class ChatViewModel {
       return;
     }
 
+    // Consecutive auto-attack swings fold into the previous line instead of flooding the log.
+    const last = this.battleMessages.at(-1);
+    const collapsed =
+      last && typeof last.payload !== "string" && typeof message !== "string"
+        ? collapseCombatLogMessages(last.payload, message)
+        : undefined;
+    if (last && collapsed) {
+      this.battleMessages = [
+        ...this.battleMessages.slice(0, -1),
+        { id: last.id, payload: collapsed },
+      ];
+      this.emit();
+      return;
+    }
+
     this.battleMessages = [...this.battleMessages, { id: this.nextId++, payload: message }];
     if (this.battleMessages.length > MAX_BATTLE_MESSAGES) {
       this.battleMessages = this.battleMessages.slice(-MAX_BATTLE_MESSAGES);
@@ -48,7 +48,7 @@ export const HotbarOverlay = ({ viewModel }: { viewModel: HotbarViewModel }) =>
         const showGcdOverlay = slot.gcdActive && !slot.cooldownActive;
         const slotClass = `hotbar-slot${
           slot.isPressed ? " pressed" : ""
-        }${slot.isCasting ? " casting" : ""}`;
+        }${slot.isCasting ? " casting" : ""}${slot.isEmpowered ? " empowered" : ""}`;
         const slotStyle = {
           "--gcd-ratio": `${slot.gcdRatio}`,
           "--cooldown-ratio": showCooldownOverlay ? "1" : `${slot.cooldownRatio}`,
@@ -76,9 +76,13 @@ export const HotbarOverlay = ({ viewModel }: { viewModel: HotbarViewModel }) =>
             {slot.cooldownActive && slot.cooldownText && (
               <div className="hotbar-slot__cooldown-text">{slot.cooldownText}</div>
             )}
+            {slot.chargeText && <div className="hotbar-slot__charges">{slot.chargeText}</div>}
             {slot.abilityName && (
               <div className="hotbar-tooltip">
                 <div className="hotbar-tooltip__title">{slot.abilityName}</div>
+                {slot.abilityEffectText && (
+                  <div className="hotbar-tooltip__meta">{slot.abilityEffectText}</div>
+                )}
                 <div className="hotbar-tooltip__meta">Cast: {slot.abilityCastText}</div>
                 <div className="hotbar-tooltip__meta">Cost: {slot.abilityResourceText}</div>
                 {slot.abilityCooldownText && (
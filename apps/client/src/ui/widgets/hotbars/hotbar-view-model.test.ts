@@ -27,22 +27,22 @@ class FakeHotbar {
   }
 }
 
+interface FakeCooldownState {
+  active: boolean;
+  ratio: number;
+  remainingMs: number;
+  charges?: number;
+  maxCharges?: number;
+}
+
 class FakeCombat {
   private gcdState = { active: false, ratio: 0, remainingMs: 0 };
-  private cooldownStates = new Map<
-    string,
-    { active: boolean; ratio: number; remainingMs: number }
-  >();
+  private cooldownStates = new Map<string, FakeCooldownState>();
   private usingAbilityId?: string;
+  private empoweredAbilityIds = new Set<string>();
+  private resourceReadyInMs: number | undefined = 0;
 
-  getAbilityCooldownState(
-    abilityId: string,
-    _nowMs: number,
-  ): {
-    active: boolean;
-    ratio: number;
-    remainingMs: number;
-  } {
+  getAbilityCooldownState(abilityId: string, _nowMs: number): FakeCooldownState {
     return this.cooldownStates.get(abilityId) ?? { active: false, ratio: 0, remainingMs: 0 };
   }
 
@@ -54,20 +54,41 @@ class FakeCombat {
     return this.usingAbilityId === abilityId;
   }
 
+  isAbilityEmpowered(abilityId: string): boolean {
+    return this.empoweredAbilityIds.has(abilityId);
+  }
+
+  setEmpowered(abilityId: string, empowered: boolean): void {
+    if (empowered) {
+      this.empoweredAbilityIds.add(abilityId);
+    } else {
+      this.empoweredAbilityIds.delete(abilityId);
+    }
+  }
+
   setGcdState(state: { active: boolean; ratio: number; remainingMs: number }): void {
     this.gcdState = state;
   }
 
-  setCooldownState(
-    abilityId: string,
-    state: { active: boolean; ratio: number; remainingMs: number },
-  ): void {
+  setCooldownState(abilityId: string, state: FakeCooldownState): void {
     this.cooldownStates.set(abilityId, state);
   }
 
   setUsingAbility(abilityId?: string): void {
     this.usingAbilityId = abilityId;
   }
+
+  getActorStats(): { strength: number } {
+    return { strength: 10 };
+  }
+
+  getResourceReadyInMs(_type: string, _amount: number, _nowMs: number): number | undefined {
+    return this.resourceReadyInMs;
+  }
+
+  setResourceReadyInMs(readyInMs: number | undefined): void {
+    this.resourceReadyInMs = readyInMs;
+  }
 }
 
 describe("HotbarViewModel", () => {
@@ -108,6 +129,7 @@ describe("HotbarViewModel", () => {
     expect(snapshot.slots[0].iconId).toBe(ability.iconId);
     expect(snapshot.slots[0].abilityCooldownText).toMatch(/s$/);
     expect(snapshot.slots[0].cooldownText).toBe("1.0");
+    expect(snapshot.slots[0].abilityEffectText).toBe("11-13 Physical damage");
 
     combat.setCooldownState(abilityId, { active: false, ratio: 0, remainingMs: 0 });
     viewModel.tick(nowMs);
@@ -131,6 +153,91 @@ describe("HotbarViewModel", () => {
     expect(snapshot.slots[0].isPressed).toBe(true);
   });
 
+  it("reflects regenerating resources in the cost text and usability", () => {
+    const abilityId = "fireball";
+    const slots: HotbarSlot[] = [{ index: 0, key: "1", action: { type: "ability", abilityId } }];
+    const hotbar = new FakeHotbar(slots);
+    const combat = new FakeCombat();
+    const viewModel = new HotbarViewModel();
+    viewModel.bind(hotbar, combat);
+
+    combat.setResourceReadyInMs(2400);
+    viewModel.tick(1000);
+    let slot = viewModel.getSnapshot().slots[0];
+    expect(slot.abilityResourceText).toBe("18 Mana (ready in 2.4s)");
+    expect(slot.iconAlpha).toBe(0.55);
+
+    combat.setResourceReadyInMs(undefined);
+    viewModel.tick(1100);
+    slot = viewModel.getSnapshot().slots[0];
+    expect(slot.abilityResourceText).toBe("18 Mana (not enough)");
+
+    combat.setResourceReadyInMs(0);
+    viewModel.tick(1200);
+    slot = viewModel.getSnapshot().slots[0];
+    expect(slot.abilityResourceText).toBe("18 Mana");
+    expect(slot.iconAlpha).toBe(1);
+  });
+
+  it("shows the ready charge count for multi-charge abilities", () => {
+    const slots: HotbarSlot[] = [
+      { index: 0, key: "1", action: { type: "ability", abilityId: "dash" } },
+      { index: 1, key: "2", action: { type: "ability", abilityId: "shield_bash" } },
+    ];
+    const combat = new FakeCombat();
+    const viewModel = new HotbarViewModel();
+    viewModel.bind(new FakeHotbar(slots), combat);
+
+    combat.setCooldownState("dash", {
+      active: false,
+      ratio: 0,
+      remainingMs: 0,
+      charges: 1,
+      maxCharges: 2,
+    });
+    viewModel.tick(1000);
+    let snapshot = viewModel.getSnapshot();
+    expect(snapshot.slots[0].chargeText).toBe("1");
+    expect(snapshot.slots[0].cooldownActive).toBe(false);
+    expect(snapshot.slots[1].chargeText).toBe("");
+
+    combat.setCooldownState("dash", {
+      active: true,
+      ratio: 0.5,
+      remainingMs: 4000,
+      charges: 0,
+      maxCharges: 2,
+    });
+    viewModel.tick(1100);
+    snapshot = viewModel.getSnapshot();
+    expect(snapshot.slots[0].chargeText).toBe("0");
+    expect(snapshot.slots[0].cooldownActive).toBe(true);
+  });
+
+  it("highlights empowered abilities and dims combos until granted", () => {
+    const slots: HotbarSlot[] = [
+      { index: 0, key: "1", action: { type: "ability", abilityId: "overpower" } },
+      { index: 1, key: "2", action: { type: "ability", abilityId: "fireball" } },
+    ];
+    const combat = new FakeCombat();
+    const viewModel = new HotbarViewModel();
+    viewModel.bind(new FakeHotbar(slots), combat);
+
+    viewModel.tick(1000);
+    let snapshot = viewModel.getSnapshot();
+    expect(snapshot.slots[0].isEmpowered).toBe(false);
+    expect(snapshot.slots[0].iconAlpha).toBe(0.55);
+    expect(snapshot.slots[1].isEmpowered).toBe(false);
+
+    combat.setEmpowered("overpower", true);
+    combat.setEmpowered("fireball", true);
+    viewModel.tick(1100);
+    snapshot = viewModel.getSnapshot();
+    expect(snapshot.slots[0].isEmpowered).toBe(true);
+    expect(snapshot.slots[0].iconAlpha).toBe(1);
+    expect(snapshot.slots[1].isEmpowered).toBe(true);
+  });
+
   it("clears snapshot on clear", () => {
     const viewModel = new HotbarViewModel();
     viewModel.clear();
@@ -1,4 +1,11 @@
-import { ABILITY_DEFINITIONS, type AbilityDefinition, type ResourceCost } from "@mmo/shared-sim";
+import {
+  ABILITY_DEFINITIONS,
+  getEffectFormulaRange,
+  type AbilityDefinition,
+  type CombatStats,
+  type ResourceCost,
+  type ResourceType,
+} from "@mmo/shared-sim";
 import type { HotbarSlot } from "./hotbar-controller";
 
 type Listener = () => void;
@@ -6,6 +13,8 @@ interface HotbarCooldownState {
   active: boolean;
   ratio: number;
   remainingMs: number;
+  charges?: number;
+  maxCharges?: number;
 }
 
 export interface HotbarSlotSnapshot {
@@ -17,6 +26,7 @@ export interface HotbarSlotSnapshot {
   abilityCooldownText: string;
   abilityCastText: string;
   abilityResourceText: string;
+  abilityEffectText: string;
   abilityLabel: string;
   iconAlpha: number;
   isPressed: boolean;
@@ -26,6 +36,10 @@ export interface HotbarSlotSnapshot {
   cooldownActive: boolean;
   cooldownRatio: number;
   cooldownText: string;
+  /** Ready charges for multi-charge abilities; empty otherwise. */
+  chargeText: string;
+  /** A status currently grants or empowers the ability (proc / combo highlight). */
+  isEmpowered: boolean;
 }
 
 export interface HotbarViewSnapshot {
@@ -42,6 +56,10 @@ export interface CombatDataSource {
   getAbilityCooldownState(abilityId: string, nowMs: number): HotbarCooldownState;
   getGcdState(nowMs: number): HotbarCooldownState;
   isUsingAbility(abilityId: string, nowMs: number): boolean;
+  isAbilityEmpowered(abilityId: string): boolean;
+  getActorStats(): Partial<CombatStats>;
+  /** 0 when affordable now, the predicted regen wait otherwise, undefined if it never regenerates. */
+  getResourceReadyInMs(type: ResourceType, amount: number, nowMs: number): number | undefined;
 }
 
 export class HotbarViewModel {
@@ -141,6 +159,7 @@ export class HotbarViewModel {
       let abilityCooldownText = "";
       let abilityCastText = "";
       let abilityResourceText = "";
+      let abilityEffectText = "";
       let iconAlpha = 0.35;
       let isCasting = false;
       let gcdActive = false;
@@ -148,6 +167,8 @@ export class HotbarViewModel {
       let cooldownActive = false;
       let cooldownRatio = 0;
       let cooldownText = "";
+      let chargeText = "";
+      let isEmpowered = false;
 
       if (abilityId) {
         const ability = ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS] as
@@ -159,10 +180,23 @@ export class HotbarViewModel {
           iconId = ability.iconId;
           abilityCooldownText = formatAbilityCooldown(ability.cooldownMs);
           abilityCastText = formatAbilityCastTime(ability.castTimeMs);
-          abilityResourceText = formatAbilityResourceCosts(ability.resourceCosts);
+          const resourceReadyInMs = getResourceCostReadyInMs(
+            this.combat,
+            ability.resourceCosts,
+            nowMs,
+          );
+          abilityResourceText = formatAbilityResourceCosts(
+            ability.resourceCosts,
+            resourceReadyInMs,
+          );
+          abilityEffectText = formatAbilityEffects(ability, this.combat.getActorStats());
           isCasting = this.combat.isUsingAbility(ability.id, nowMs);
-          iconAlpha = 1;
+          isEmpowered = this.combat.isAbilityEmpowered(ability.id);
+          iconAlpha = ability.requiresGrant && !isEmpowered ? 0.55 : 1;
           const cooldownDisplay = this.combat.getAbilityCooldownState(ability.id, nowMs);
+          if (cooldownDisplay.maxCharges !== undefined && cooldownDisplay.maxCharges > 1) {
+            chargeText = `${cooldownDisplay.charges ?? 0}`;
+          }
           if (cooldownDisplay.active) {
             cooldownActive = true;
             cooldownRatio = cooldownDisplay.ratio;
@@ -172,6 +206,9 @@ export class HotbarViewModel {
             gcdActive = true;
             gcdRatio = gcdDisplay.ratio;
           }
+          if (resourceReadyInMs !== 0) {
+            iconAlpha = 0.55;
+          }
         }
       }
 
@@ -205,6 +242,11 @@ export class HotbarViewModel {
         changed = true;
       }
 
+      if (slotSnapshot.abilityEffectText !== abilityEffectText) {
+        slotSnapshot.abilityEffectText = abilityEffectText;
+        changed = true;
+      }
+
       if (slotSnapshot.iconAlpha !== iconAlpha) {
         slotSnapshot.iconAlpha = iconAlpha;
         changed = true;
@@ -239,6 +281,16 @@ export class HotbarViewModel {
         slotSnapshot.cooldownText = cooldownText;
         changed = true;
       }
+
+      if (slotSnapshot.chargeText !== chargeText) {
+        slotSnapshot.chargeText = chargeText;
+        changed = true;
+      }
+
+      if (slotSnapshot.isEmpowered !== isEmpowered) {
+        slotSnapshot.isEmpowered = isEmpowered;
+        changed = true;
+      }
     }
 
     if (changed) {
@@ -279,6 +331,7 @@ const createSlotSnapshot = (index: number): HotbarSlotSnapshot => ({
   abilityCooldownText: "",
   abilityCastText: "",
   abilityResourceText: "",
+  abilityEffectText: "",
   abilityLabel: "",
   iconAlpha: 0.35,
   isPressed: false,
@@ -288,6 +341,8 @@ const createSlotSnapshot = (index: number): HotbarSlotSnapshot => ({
   cooldownActive: false,
   cooldownRatio: 0,
   cooldownText: "",
+  chargeText: "",
+  isEmpowered: false,
 });
 
 const getAbilityLabel = (ability: AbilityDefinition): string => {
@@ -323,7 +378,30 @@ const formatAbilityCastTime = (castTimeMs: number): string => {
   return `${seconds.toFixed(1)}s`;
 };
 
-const formatAbilityResourceCosts = (costs?: ResourceCost[]): string => {
+/** Longest regen wait across an ability's costs (0 = affordable, undefined = never). */
+const getResourceCostReadyInMs = (
+  combat: CombatDataSource,
+  costs: ResourceCost[] | undefined,
+  nowMs: number,
+): number | undefined => {
+  let readyInMs = 0;
+  for (const cost of costs ?? []) {
+    if (cost.amount <= 0) {
+      continue;
+    }
+    const costReadyInMs = combat.getResourceReadyInMs(cost.type, cost.amount, nowMs);
+    if (costReadyInMs === undefined) {
+      return undefined;
+    }
+    readyInMs = Math.max(readyInMs, costReadyInMs);
+  }
+  return readyInMs;
+};
+
+const formatAbilityResourceCosts = (
+  costs: ResourceCost[] | undefined,
+  readyInMs: number | undefined,
+): string => {
   if (!costs || costs.length === 0) {
     return "None";
   }
@@ -336,6 +414,35 @@ const formatAbilityResourceCosts = (costs?: ResourceCost[]): string => {
     return "None";
   }
 
+  const text = entries.join(", ");
+  if (readyInMs === undefined) {
+    return `${text} (not enough)`;
+  }
+  if (readyInMs > 0) {
+    // Tenths of a second so the countdown ticks smoothly as resources regenerate.
+    return `${text} (ready in ${(readyInMs / 1000).toFixed(1)}s)`;
+  }
+  return text;
+};
+
+/** Damage/healing ranges for tooltips, using the same formula evaluator as the server. */
+const formatAbilityEffects = (
+  ability: AbilityDefinition,
+  actorStats: Partial<CombatStats>,
+): string => {
+  const entries: string[] = [];
+  for (const effect of ability.effects) {
+    if (effect.type !== "damage" && effect.type !== "healing") {
+      continue;
+    }
+    const range = getEffectFormulaRange(effect.formula, actorStats);
+    const amount = range.min === range.max ? `${range.min}` : `${range.min}-${range.max}`;
+    entries.push(
+      effect.type === "damage"
+        ? `${amount} ${capitalize(effect.school)} damage`
+        : `${amount} healing`,
+    );
+  }
   return entries.join(", ");
 };
 
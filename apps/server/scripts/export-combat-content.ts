@@ -0,0 +1,42 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getCombatContent } from "@mmo/shared-sim";
+
+/**
+ * Seeds the content files the server loads at boot from the bundled ability and status
+ * definitions. The content files are what the server ships; the bundled definitions are the
+ * fallback when no files exist and what the tests run against, so edits go into both (the
+ * combat content test fails on any drift). Existing files are kept unless `--force` is passed.
+ */
+const run = async (): Promise<void> => {
+  const contentDir = path.resolve(process.cwd(), "../../packages/assets/combat");
+  const force = process.argv.includes("--force");
+  const { abilities, statuses } = getCombatContent();
+  await mkdir(contentDir, { recursive: true });
+  for (const [fileName, definitions] of [
+    ["abilities.json", abilities],
+    ["statuses.json", statuses],
+  ] as const) {
+    const outputPath = path.resolve(contentDir, fileName);
+    try {
+      await writeFile(outputPath, `${JSON.stringify(definitions, undefined, 2)}\n`, {
+        encoding: "utf8",
+        flag: force ? "w" : "wx",
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+      console.log(`Keeping existing ${outputPath} (pass --force to overwrite)`);
+      continue;
+    }
+    console.log(`Combat content written to ${outputPath}`);
+  }
+};
+
+try {
+  await run();
+} catch (error) {
+  console.error("Failed to export combat content", error);
+  throw error;
+}
@@ -0,0 +1,72 @@
+import path from "node:path";
+import { combatContentLoader } from "../src/combat/combat-content-loader";
+import { readCombatRecording } from "../src/combat/combat-recorder";
+import { replayCombatRecording } from "../src/combat/combat-replay";
+
+interface ReplayCliArgs {
+  recordingPath?: string;
+  bundled: boolean;
+  showHelp: boolean;
+}
+
+const printUsage = (): void => {
+  console.log("Usage: pnpm --filter @mmo/server replay:combat -- <recording.jsonl> [--bundled]");
+  console.log("  --bundled  Replay against the bundled definitions instead of the content files");
+  console.log("Exits with code 1 when any outcome diverges from the recording.");
+};
+
+const parseArgs = (): ReplayCliArgs => {
+  const args: ReplayCliArgs = { bundled: false, showHelp: false };
+  for (const arg of process.argv.slice(2)) {
+    if (arg === "--help" || arg === "-h") {
+      args.showHelp = true;
+      continue;
+    }
+    if (arg === "--bundled") {
+      args.bundled = true;
+      continue;
+    }
+    if (arg.startsWith("-")) {
+      throw new Error(`Unknown option ${arg}.`);
+    }
+    args.recordingPath = arg;
+  }
+  return args;
+};
+
+const run = async (): Promise<void> => {
+  const { recordingPath, bundled, showHelp } = parseArgs();
+  if (showHelp || !recordingPath) {
+    printUsage();
+    return;
+  }
+
+  if (!bundled) {
+    await combatContentLoader.load();
+  }
+  const entries = await readCombatRecording(path.resolve(process.cwd(), recordingPath));
+  const report = replayCombatRecording(entries);
+
+  for (const divergence of report.divergences) {
+    console.log(
+      `DIVERGED tick ${divergence.serverTick} ${divergence.abilityId} (${divergence.requestId})`,
+    );
+    for (const difference of divergence.differences) {
+      console.log(`  ${difference}`);
+    }
+  }
+  console.log(
+    `Replayed ${report.outcomes} outcomes from ${report.requests} requests ` +
+      `(${report.rejectedRequests} rejected): ${report.divergences.length} diverged.`,
+  );
+  if (report.divergences.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+try {
+  await run();
+} catch (error) {
+  console.error("Failed to replay combat recording", error);
+  throw error;
+}
@@ -0,0 +1,236 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { ZoneState } from "@mmo/shared-sim";
+import { combatContentLoader } from "../src/combat/combat-content-loader";
+import {
+  runCombatSimulation,
+  type CombatSimReport,
+  type CombatSimScenario,
+  type CombatSimSummary,
+} from "../src/combat/combat-simulator";
+import { ServerZone, ZoneData } from "../src/world/zones/zone";
+import { createTestCollisionWorld } from "../test/test-collision-world";
+import { createTestNavmeshQuery } from "../test/test-navmesh";
+
+const SIM_ZONE_ID = "combat-sim-zone";
+
+/** A walkable point on the test navmesh (same origin as the combat tests). */
+const SIM_ORIGIN = { x: -52, y: 8, z: 24 };
+
+/** Warrior against a caster at mid range; used when no scenario file is given. */
+const DEFAULT_SCENARIO: CombatSimScenario = {
+  durationMs: 120_000,
+  iterations: 1000,
+  seed: "default",
+  actors: [
+    {
+      id: "warrior",
+      kind: "player",
+      factionId: "players",
+      position: { x: 0, z: 0 },
+      stats: { strength: 20, constitution: 20, maxHp: 600 },
+      rotation: ["execute", "shield_bash", "overpower", "quick_dart"],
+      targetId: "caster",
+    },
+    {
+      id: "caster",
+      kind: "npc",
+      factionId: "npcs",
+      position: { x: 4, z: 0 },
+      stats: { intelligence: 20, maxHp: 500 },
+      rotation: ["arcane_barrage", "sky_sword", "fireball"],
+      targetId: "warrior",
+    },
+  ],
+};
+
+interface SimulateCliArgs {
+  scenarioPath?: string;
+  iterations?: number;
+  minutes?: number;
+  seed?: string;
+  outPath?: string;
+  json: boolean;
+  bundled: boolean;
+  showHelp: boolean;
+}
+
+const printUsage = (): void => {
+  console.log(
+    "Usage: pnpm --filter @mmo/server simulate:combat -- [scenario.json] [--iterations <n>] [--minutes <n>] [--seed <seed>] [--json] [--out <file>] [--bundled]",
+  );
+  console.log(
+    "  scenario.json   Actors, rotations, duration and seed (defaults to a warrior vs caster duel)",
+  );
+  console.log("  --iterations    Number of seeded fights to run");
+  console.log("  --minutes       Simulated minutes per fight");
+  console.log("  --seed          Seed mixed into every request id");
+  console.log("  --json          Print the report as JSON instead of a table");
+  console.log("  --out           Also write the JSON report to a file");
+  console.log("  --bundled       Use the bundled definitions instead of the content files");
+};
+
+const parseNumber = (arg: string, value: string | undefined): number => {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`Expected a positive number after ${arg}.`);
+  }
+  return parsed;
+};
+
+const parseArgs = (): SimulateCliArgs => {
+  const argv = process.argv.slice(2);
+  const args: SimulateCliArgs = { json: false, bundled: false, showHelp: false };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg === "--help" || arg === "-h") {
+      args.showHelp = true;
+      continue;
+    }
+    if (arg === "--bundled") {
+      args.bundled = true;
+      continue;
+    }
+    if (arg === "--iterations") {
+      args.iterations = Math.floor(parseNumber(arg, argv[index + 1]));
+      index += 1;
+      continue;
+    }
+    if (arg === "--minutes") {
+      args.minutes = parseNumber(arg, argv[index + 1]);
+      index += 1;
+      continue;
+    }
+    if (arg === "--seed") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("-")) {
+        throw new Error(`Expected seed after ${arg}.`);
+      }
+      args.seed = value;
+      index += 1;
+      continue;
+    }
+    if (arg === "--json") {
+      args.json = true;
+      continue;
+    }
+    if (arg === "--out") {
+      const value = argv[index + 1];
+      if (!value || value.startsWith("-")) {
+        throw new Error(`Expected file path after ${arg}.`);
+      }
+      args.outPath = value;
+      index += 1;
+      continue;
+    }
+    if (arg.startsWith("-")) {
+      throw new Error(`Unknown option ${arg}.`);
+    }
+    args.scenarioPath = arg;
+  }
+
+  return args;
+};
+
+const loadScenario = async (scenarioPath: string | undefined): Promise<CombatSimScenario> => {
+  if (!scenarioPath) {
+    return DEFAULT_SCENARIO;
+  }
+  const filePath = path.resolve(process.cwd(), scenarioPath);
+  try {
+    return { ...DEFAULT_SCENARIO, ...(JSON.parse(await readFile(filePath, "utf8")) as object) };
+  } catch (error) {
+    throw new Error(`Failed to read scenario ${filePath}: ${(error as Error).message}`);
+  }
+};
+
+const createSimZone = (zoneData: ZoneData) => (): ServerZone =>
+  new ServerZone(zoneData, new ZoneState());
+
+const formatSummary = (summary: CombatSimSummary | undefined, scale = 1): string =>
+  summary ? `${(summary.mean / scale).toFixed(1)} ±${(summary.stdDev / scale).toFixed(1)}` : "-";
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+const printTable = (report: CombatSimReport): void => {
+  console.log(
+    `${report.iterations} fights of up to ${report.durationMs / 1000}s (seed ${report.seed}), ` +
+      `mean length ${formatSummary(report.fightDurationMs, 1000)}s`,
+  );
+  console.table(
+    Object.fromEntries(
+      report.actors.map((actor) => [
+        actor.id,
+        {
+          DPS: formatSummary(actor.dps),
+          HPS: formatSummary(actor.hps),
+          crit: formatPercent(actor.critRate),
+          dodge: formatPercent(actor.dodgeRate),
+          miss: formatPercent(actor.missRate),
+          block: formatPercent(actor.blockRate),
+          died: formatPercent(actor.deathRate),
+          "TTK s": formatSummary(actor.timeToDeathMs, 1000),
+          starved: formatPercent(actor.starvationRate),
+          "starved at s": formatSummary(actor.firstStarvedAtMs, 1000),
+        },
+      ]),
+    ),
+  );
+  for (const actor of report.actors) {
+    const uses = Object.entries(actor.abilityUses)
+      .map(([abilityId, count]) => `${abilityId} ${count.toFixed(1)}`)
+      .join(", ");
+    console.log(`${actor.id} casts per fight: ${uses}`);
+  }
+};
+
+const run = async (): Promise<void> => {
+  const args = parseArgs();
+  if (args.showHelp) {
+    printUsage();
+    return;
+  }
+
+  if (!args.bundled) {
+    await combatContentLoader.load();
+  }
+  const baseScenario = await loadScenario(args.scenarioPath);
+  const scenario: CombatSimScenario = {
+    ...baseScenario,
+    iterations: args.iterations ?? baseScenario.iterations,
+    durationMs: args.minutes === undefined ? baseScenario.durationMs : args.minutes * 60_000,
+    seed: args.seed ?? baseScenario.seed,
+  };
+
+  const zoneData = new ZoneData(
+    SIM_ZONE_ID,
+    createTestNavmeshQuery(),
+    {
+      id: SIM_ZONE_ID,
+      name: "Combat Simulator Zone",
+      sceneData: { glbFilePath: "test.glb", terrainObjects: [], navmeshFilePath: "test.navmesh" },
+    },
+    createTestCollisionWorld(SIM_ZONE_ID),
+  );
+  const report = runCombatSimulation(scenario, {
+    createZone: createSimZone(zoneData),
+    origin: SIM_ORIGIN,
+  });
+
+  if (args.outPath) {
+    await writeFile(path.resolve(process.cwd(), args.outPath), JSON.stringify(report, null, 2));
+  }
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  printTable(report);
+};
+
+try {
+  await run();
+} catch (error) {
+  console.error("Failed to simulate combat", error);
+  throw error;
+}
@@ -2,25 +2,31 @@ import type { MobState } from "@mmo/shared-sim";
 import type { ServerMob } from "../world/entities/server-mob";
 import type { ServerZone } from "../world/zones/zone";
 import { AiDecisionSystem } from "./systems/ai-decision-system";
+import { AiLeashSystem } from "./systems/ai-leash-system";
+import { AiPetSystem } from "./systems/ai-pet-system";
 import { AiSensingSystem } from "./systems/ai-sensing-system";
 import { AiSteeringSystem } from "./systems/ai-steering-system";
 import { AiTargetSelectionSystem } from "./systems/ai-target-selection-system";
 
 export class AiController {
   private readonly sensingSystem = new AiSensingSystem();
+  private readonly leashSystem = new AiLeashSystem();
   private readonly targetSelectionSystem = new AiTargetSelectionSystem();
+  private readonly petSystem = new AiPetSystem();
   private readonly decisionSystem = new AiDecisionSystem();
   private readonly steeringSystem = new AiSteeringSystem();
   private readonly combatantsBuffer: ServerMob<MobState>[] = [];
 
   constructor(private readonly zone: ServerZone) {}
 
-  fixedTick(tickMs: number): void {
+  fixedTick(nowMs: number, tickMs: number): void {
     this.advanceElapsedTime(tickMs);
     const combatants = this.collectCombatants();
 
     this.sensingSystem.update(this.zone);
+    this.leashSystem.update(this.zone, nowMs);
     this.targetSelectionSystem.update(this.zone, combatants);
+    this.petSystem.update(this.zone, nowMs);
     this.decisionSystem.update(this.zone);
     this.steeringSystem.update(this.zone, this.zone.zoneData.navmeshQuery);
   }
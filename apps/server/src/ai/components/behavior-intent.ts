@@ -1,4 +1,4 @@
-export type BehaviorMode = "idle" | "wander" | "chase";
+export type BehaviorMode = "idle" | "wander" | "chase" | "follow" | "return";
 
 export interface BehaviorIntent {
   mode: BehaviorMode;
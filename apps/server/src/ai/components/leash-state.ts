@@ -0,0 +1,12 @@
+export interface LeashState {
+  /** Where the NPC spawned and returns to when it evades. */
+  homeX: number;
+  homeY: number;
+  homeZ: number;
+  /** Walking home after leaving a fight: immune and ignoring threat. */
+  evading: boolean;
+  /** Server time the current evade started. */
+  evadeStartedAtMs: number;
+  /** Server time the NPC last dealt or took damage; reset when it enters combat. */
+  lastDamageAtMs: number;
+}
@@ -0,0 +1,16 @@
+import type { PetStance } from "@mmo/shared-sim";
+
+export type PetMovement = "follow" | "stay";
+
+export interface PetControl {
+  templateId: string;
+  stance: PetStance;
+  movement: PetMovement;
+  /** Enemy the owner ordered an attack on; dropped once it dies or the pet is recalled. */
+  attackTargetId?: string;
+  /** Where the pet returns to with nothing to attack: the owner, or the spot it stays at. */
+  anchorX: number;
+  anchorZ: number;
+  /** Server time a temporary summon despawns. */
+  expiresAtMs?: number;
+}
@@ -1,4 +1,10 @@
-import type { NpcAiConfig } from "../../world/constants/ai";
+import {
+  LEASH_HOME_TOLERANCE,
+  PET_FOLLOW_DISTANCE,
+  PET_STAY_TOLERANCE,
+  type NpcAiConfig,
+} from "../../world/constants/ai";
+import type { ServerNPC } from "../../world/entities/npc";
 import type { ServerZone } from "../../world/zones/zone";
 import type { NpcBrainState } from "../components/npc-brain-state";
 
@@ -13,6 +19,25 @@ export class AiDecisionSystem {
       const behavior = npc.behaviorIntent;
       const nowMs = brain.elapsedTimeMs;
 
+      if (npc.synced.isDead) {
+        this.resetChasePath(brain);
+        behavior.mode = "idle";
+        behavior.desiredRange = 0;
+        behavior.moveUntilMs = nowMs;
+        brain.movingUntilMs = nowMs;
+        continue;
+      }
+
+      if (npc.leash.evading) {
+        npc.synced.entityTargetId = "";
+        npc.synced.autoAttacking = false;
+        behavior.mode = "return";
+        behavior.desiredRange = LEASH_HOME_TOLERANCE;
+        behavior.moveUntilMs = nowMs;
+        brain.movingUntilMs = nowMs;
+        continue;
+      }
+
       if (selection.targetId) {
         const dx = selection.targetX - npc.synced.x;
         const dz = selection.targetZ - npc.synced.z;
@@ -20,10 +45,15 @@ export class AiDecisionSystem {
         selection.targetYaw = Math.atan2(dx, dz);
         behavior.desiredRange = MELEE_RANGE;
         behavior.moveUntilMs = nowMs;
+        npc.synced.entityTargetId = selection.targetId;
 
-        if (distanceSq <= MELEE_RANGE_SQ || distanceSq <= 0.0001) {
+        if (this.isHoldingPosition(npc) || distanceSq <= MELEE_RANGE_SQ || distanceSq <= 0.0001) {
           behavior.mode = "idle";
           brain.movingUntilMs = nowMs;
+          // Turned on in melee range; it stays on while chasing a target that backs off.
+          if (distanceSq <= MELEE_RANGE_SQ && npc.autoAttack) {
+            npc.synced.autoAttacking = true;
+          }
           continue;
         }
 
@@ -31,8 +61,24 @@ export class AiDecisionSystem {
         continue;
       }
 
+      npc.synced.entityTargetId = "";
+      npc.synced.autoAttacking = false;
+
+      if (npc.pet) {
+        this.returnToAnchor(npc, nowMs);
+        continue;
+      }
+
       this.resetChasePath(brain);
 
+      if (npc.aiConfig.holdPosition) {
+        behavior.mode = "idle";
+        behavior.desiredRange = 0;
+        behavior.moveUntilMs = nowMs;
+        brain.movingUntilMs = nowMs;
+        continue;
+      }
+
       if (nowMs >= brain.nextDecisionAtMs) {
         this.chooseNextMove(brain, npc.aiConfig, nowMs);
       }
@@ -50,6 +96,26 @@ export class AiDecisionSystem {
     }
   }
 
+  private isHoldingPosition(npc: ServerNPC): boolean {
+    return npc.aiConfig.holdPosition || npc.pet?.movement === "stay";
+  }
+
+  /** Pets with nothing to attack follow their owner or walk back to the spot they stay at. */
+  private returnToAnchor(npc: ServerNPC, nowMs: number): void {
+    const pet = npc.pet;
+    const behavior = npc.behaviorIntent;
+    if (!pet) {
+      return;
+    }
+    const range = pet.movement === "stay" ? PET_STAY_TOLERANCE : PET_FOLLOW_DISTANCE;
+    const dx = pet.anchorX - npc.synced.x;
+    const dz = pet.anchorZ - npc.synced.z;
+    behavior.desiredRange = range;
+    behavior.moveUntilMs = nowMs;
+    npc.brainState.movingUntilMs = nowMs;
+    behavior.mode = dx * dx + dz * dz > range * range ? "follow" : "idle";
+  }
+
   private resetChasePath(brain: NpcBrainState): void {
     if (brain.chaseTargetId === undefined && brain.chasePath.length === 0) {
       return;
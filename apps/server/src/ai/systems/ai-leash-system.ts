@@ -0,0 +1,52 @@
+import type { ServerZone } from "../../world/zones/zone";
+import { EVADE_TIMEOUT_MS, LEASH_HOME_TOLERANCE } from "../../world/constants/ai";
+
+const LEASH_HOME_TOLERANCE_SQ = LEASH_HOME_TOLERANCE * LEASH_HOME_TOLERANCE;
+
+/**
+ * Sends NPCs home when a fight drags them too far from their spawn or goes on too long
+ * without damage, so they cannot be kited across the zone. Evading NPCs stay immune and
+ * ignore threat until they are back home, or are snapped there if the walk takes too long.
+ * Pets follow their owner instead and never leash.
+ */
+export class AiLeashSystem {
+  update(zone: ServerZone, nowMs: number): void {
+    for (const npc of zone.npcs.values()) {
+      const leash = npc.leash;
+      if (npc.pet || npc.synced.isDead) {
+        continue;
+      }
+
+      const dx = npc.synced.x - leash.homeX;
+      const dz = npc.synced.z - leash.homeZ;
+      const distanceSq = dx * dx + dz * dz;
+      if (leash.evading) {
+        if (distanceSq <= LEASH_HOME_TOLERANCE_SQ) {
+          zone.combatEngine.finishEvade(npc, nowMs);
+        } else if (nowMs - leash.evadeStartedAtMs >= EVADE_TIMEOUT_MS) {
+          // No way home (blocked path, stuck on geometry): put it back on its spawn.
+          npc.activeDisplacement = undefined;
+          npc.synced.x = leash.homeX;
+          npc.synced.y = leash.homeY;
+          npc.synced.z = leash.homeZ;
+          npc.navmeshNodeRef = undefined;
+          zone.combatEngine.finishEvade(npc, nowMs);
+        }
+        continue;
+      }
+
+      if (!npc.synced.inCombat) {
+        continue;
+      }
+      const { leashRadius, evadeAfterNoDamageMs } = npc.aiConfig;
+      if (
+        distanceSq > leashRadius * leashRadius ||
+        nowMs - leash.lastDamageAtMs >= evadeAfterNoDamageMs
+      ) {
+        zone.combatEngine.evade(npc, nowMs);
+        npc.combatAwareness.inCombat = false;
+        npc.combatAwareness.topAggroTargetId = undefined;
+      }
+    }
+  }
+}
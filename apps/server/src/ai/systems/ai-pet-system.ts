@@ -0,0 +1,175 @@
+import {
+  ABILITY_DEFINITIONS,
+  PET_TEMPLATES,
+  areEnemies,
+  type AbilityDefinition,
+  type MobState,
+} from "@mmo/shared-sim";
+import type { ServerNPC } from "../../world/entities/npc";
+import type { ServerMob } from "../../world/entities/server-mob";
+import type { ServerZone } from "../../world/zones/zone";
+import { PET_AGGRESSIVE_RADIUS } from "../../world/constants/ai";
+import type { PetControl } from "../components/pet-control";
+
+const PET_AGGRESSIVE_RADIUS_SQ = PET_AGGRESSIVE_RADIUS * PET_AGGRESSIVE_RADIUS;
+
+/**
+ * Picks what pets attack (replacing the aggro-based target selection) and queues their
+ * abilities. Pets without a target are moved back to their anchor by the decision system.
+ *
+ * - passive: only enemies the owner orders an attack on.
+ * - defensive: also the owner's target while the owner fights, and whatever attacks either.
+ * - aggressive: also the owner's target at any time, and any enemy that comes close.
+ */
+export class AiPetSystem {
+  update(zone: ServerZone, nowMs: number): void {
+    for (const npc of zone.npcs.values()) {
+      const control = npc.pet;
+      if (!control || npc.synced.isDead) {
+        continue;
+      }
+      const owner = this.resolveMob(zone, npc.synced.ownerId);
+      if (!owner) {
+        continue;
+      }
+
+      if (control.movement === "follow") {
+        control.anchorX = owner.synced.x;
+        control.anchorZ = owner.synced.z;
+      }
+
+      const selection = npc.targetSelection;
+      const target = this.chooseTarget(zone, npc, control, owner);
+      if (!target) {
+        selection.targetId = undefined;
+        selection.targetX = 0;
+        selection.targetZ = 0;
+        selection.targetYaw = 0;
+        continue;
+      }
+
+      selection.targetId = target.id;
+      selection.targetX = target.synced.x;
+      selection.targetZ = target.synced.z;
+      selection.targetYaw = Math.atan2(
+        target.synced.x - npc.synced.x,
+        target.synced.z - npc.synced.z,
+      );
+      this.queueAttack(npc, control, target, nowMs);
+    }
+  }
+
+  private chooseTarget(
+    zone: ServerZone,
+    npc: ServerNPC,
+    control: PetControl,
+    owner: ServerMob<MobState>,
+  ): ServerMob<MobState> | undefined {
+    const ordered = this.resolveEnemy(zone, npc, control.attackTargetId);
+    if (ordered) {
+      return ordered;
+    }
+    control.attackTargetId = undefined;
+
+    if (control.stance === "passive") {
+      return undefined;
+    }
+
+    if (control.stance === "aggressive" || owner.synced.inCombat) {
+      const assisted = this.resolveEnemy(zone, npc, owner.synced.entityTargetId);
+      if (assisted) {
+        return assisted;
+      }
+    }
+
+    const attacker =
+      this.resolveEnemy(zone, npc, npc.aggro.getTopTargetId()) ??
+      this.findNearestEnemy(zone, npc, (candidate) => candidate.aggro.hasTarget(owner.id));
+    if (attacker || control.stance !== "aggressive") {
+      return attacker;
+    }
+
+    return this.findNearestEnemy(zone, npc, (candidate) => {
+      const dx = candidate.synced.x - npc.synced.x;
+      const dz = candidate.synced.z - npc.synced.z;
+      return dx * dx + dz * dz <= PET_AGGRESSIVE_RADIUS_SQ;
+    });
+  }
+
+  /** Queues the first of the pet's abilities that is ready and in range of the target. */
+  private queueAttack(
+    npc: ServerNPC,
+    control: PetControl,
+    target: ServerMob<MobState>,
+    nowMs: number,
+  ): void {
+    const abilityState = npc.synced.abilityState;
+    if (npc.activeCast || npc.bufferedRequest || abilityState.isInternalCooldownActive(nowMs)) {
+      return;
+    }
+
+    const dx = target.synced.x - npc.synced.x;
+    const dz = target.synced.z - npc.synced.z;
+    const distanceSq = dx * dx + dz * dz;
+    for (const abilityId of PET_TEMPLATES[control.templateId]?.abilityIds ?? []) {
+      const ability = ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS] as
+        | AbilityDefinition
+        | undefined;
+      if (
+        !ability ||
+        distanceSq > ability.range * ability.range ||
+        (ability.isOnGcd && !abilityState.isGcdReady(nowMs)) ||
+        !npc.cooldowns.isReady(ability, nowMs)
+      ) {
+        continue;
+      }
+      npc.abilityIntent.abilityId = ability.id;
+      npc.abilityIntent.targetId = target.id;
+      npc.abilityIntent.requestedAtMs = nowMs;
+      return;
+    }
+  }
+
+  private findNearestEnemy(
+    zone: ServerZone,
+    npc: ServerNPC,
+    predicate: (candidate: ServerNPC) => boolean,
+  ): ServerNPC | undefined {
+    let nearest: ServerNPC | undefined;
+    let nearestDistanceSq = Infinity;
+    for (const candidate of zone.npcs.values()) {
+      if (
+        candidate === npc ||
+        candidate.synced.isDead ||
+        !areEnemies(npc.synced, candidate.synced) ||
+        !predicate(candidate)
+      ) {
+        continue;
+      }
+      const dx = candidate.synced.x - npc.synced.x;
+      const dz = candidate.synced.z - npc.synced.z;
+      const distanceSq = dx * dx + dz * dz;
+      if (distanceSq < nearestDistanceSq) {
+        nearest = candidate;
+        nearestDistanceSq = distanceSq;
+      }
+    }
+    return nearest;
+  }
+
+  private resolveEnemy(
+    zone: ServerZone,
+    npc: ServerNPC,
+    targetId: string | undefined,
+  ): ServerMob<MobState> | undefined {
+    const target = targetId ? this.resolveMob(zone, targetId) : undefined;
+    if (!target || target === npc || target.synced.isDead) {
+      return undefined;
+    }
+    return areEnemies(npc.synced, target.synced) ? target : undefined;
+  }
+
+  private resolveMob(zone: ServerZone, id: string): ServerMob<MobState> | undefined {
+    return zone.players.get(id) ?? zone.npcs.get(id);
+  }
+}
@@ -13,6 +13,8 @@ const CHASE_REPATH_DISTANCE_SQ = CHASE_REPATH_DISTANCE * CHASE_REPATH_DISTANCE;
 const CHASE_REPATH_COOLDOWN_MS = 100;
 const CHASE_WAYPOINT_REACHED = 0.15;
 const CHASE_WAYPOINT_REACHED_SQ = CHASE_WAYPOINT_REACHED * CHASE_WAYPOINT_REACHED;
+/** Path key for evading NPCs walking back to their spawn. */
+const HOME_PATH_ID = "home";
 
 export class AiSteeringSystem {
   update(zone: ServerZone, navmesh: NavcatQuery): void {
@@ -25,6 +27,16 @@ export class AiSteeringSystem {
         continue;
       }
 
+      if (behavior.mode === "follow") {
+        this.updateFollow(npc, navmesh);
+        continue;
+      }
+
+      if (behavior.mode === "return") {
+        this.walkTo(npc, navmesh, HOME_PATH_ID, npc.leash.homeX, npc.leash.homeZ);
+        continue;
+      }
+
       if (behavior.mode === "wander") {
         const brain = npc.brainState;
         steering.directionX = Math.sin(brain.targetYaw);
@@ -63,21 +75,69 @@ export class AiSteeringSystem {
       return;
     }
 
-    let steerX = selection.targetX;
-    let steerZ = selection.targetZ;
-    const waypoint = this.getChaseWaypoint(npc, navmesh);
-    if (waypoint) {
-      steerX = waypoint.position[0];
-      steerZ = waypoint.position[2];
+    const waypoint = this.getChaseWaypoint(
+      npc,
+      navmesh,
+      selection.targetId,
+      selection.targetX,
+      selection.targetZ,
+    );
+    this.steerTowards(
+      npc,
+      waypoint?.position[0] ?? selection.targetX,
+      waypoint?.position[2] ?? selection.targetZ,
+      targetYaw,
+    );
+  }
+
+  /** Walks a pet back to its anchor (its owner, or the spot it was told to stay at). */
+  private updateFollow(npc: ServerNPC, navmesh: NavcatQuery): void {
+    const pet = npc.pet;
+    if (!pet) {
+      npc.steeringIntent.directionX = 0;
+      npc.steeringIntent.directionZ = 0;
+      return;
+    }
+    this.walkTo(npc, navmesh, npc.synced.ownerId, pet.anchorX, pet.anchorZ);
+  }
+
+  /** Walks along the navmesh to within the desired range of a goal; `goalId` keys the path. */
+  private walkTo(
+    npc: ServerNPC,
+    navmesh: NavcatQuery,
+    goalId: string,
+    goalX: number,
+    goalZ: number,
+  ): void {
+    const steering = npc.steeringIntent;
+    const range = npc.behaviorIntent.desiredRange;
+    const dx = goalX - npc.synced.x;
+    const dz = goalZ - npc.synced.z;
+    if (dx * dx + dz * dz <= range * range) {
+      steering.directionX = 0;
+      steering.directionZ = 0;
+      return;
     }
 
+    const waypoint = this.getChaseWaypoint(npc, navmesh, goalId, goalX, goalZ);
+    this.steerTowards(
+      npc,
+      waypoint?.position[0] ?? goalX,
+      waypoint?.position[2] ?? goalZ,
+      steering.facingYaw,
+    );
+  }
+
+  /** Steers straight at a point, keeping `idleYaw` when already standing on it. */
+  private steerTowards(npc: ServerNPC, steerX: number, steerZ: number, idleYaw: number): void {
+    const steering = npc.steeringIntent;
     const dx = steerX - npc.synced.x;
     const dz = steerZ - npc.synced.z;
     const lengthSq = dx * dx + dz * dz;
     if (lengthSq <= 0.0001) {
       steering.directionX = 0;
       steering.directionZ = 0;
-      steering.facingYaw = targetYaw;
+      steering.facingYaw = idleYaw;
       return;
     }
 
@@ -89,16 +149,15 @@ export class AiSteeringSystem {
     steering.facingYaw = Math.atan2(dirX, dirZ);
   }
 
-  private getChaseWaypoint(npc: ServerNPC, navmesh: NavcatQuery): SmoothPathPoint | undefined {
-    const selection = npc.targetSelection;
+  /** Next waypoint on the navmesh path to a goal, repathing when the goal changes or moves. */
+  private getChaseWaypoint(
+    npc: ServerNPC,
+    navmesh: NavcatQuery,
+    targetId: string,
+    targetX: number,
+    targetZ: number,
+  ): SmoothPathPoint | undefined {
     const brain = npc.brainState;
-    if (!selection.targetId) {
-      return undefined;
-    }
-
-    const targetId = selection.targetId;
-    const targetX = selection.targetX;
-    const targetZ = selection.targetZ;
     const targetChanged = brain.chaseTargetId !== targetId;
     const hasTarget = brain.chaseTargetId !== undefined;
     const needsPath = brain.chasePath.length === 0;
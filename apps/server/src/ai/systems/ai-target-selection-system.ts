@@ -17,7 +17,7 @@ export class AiTargetSelectionSystem {
       }
 
       const target = this.resolveCombatant(awareness.topAggroTargetId, combatants);
-      if (!target) {
+      if (!target || target.synced.isDead) {
         selection.targetId = undefined;
         selection.targetX = 0;
         selection.targetZ = 0;
@@ -1,6 +1,7 @@
 import { defineServer, defineRoom, monitor, playground } from "colyseus";
 import basicAuth from "express-basic-auth";
 import { ZoneRoom } from "./world/zones/zone-room";
+import { buildCombatChanceTable, parseCombatStatsQuery } from "./combat/combat-chance-table";
 import { logger } from "@mmo/shared-servers";
 
 export const server = defineServer({
@@ -26,6 +27,20 @@ export const server = defineServer({
       app.use("/", playground());
     }
 
+    /**
+     * Stat-derived hit/dodge/block/crit chances per ability for one attacker/defender pair.
+     * e.g. /debug/combat-chances?attacker.dexterity=40&defender.blockRating=60
+     */
+    app.get("/debug/combat-chances", basicAuthMiddleware, (request, res) => {
+      const query = request.query as Record<string, unknown>;
+      res.json(
+        buildCombatChanceTable(
+          parseCombatStatsQuery(query, "attacker"),
+          parseCombatStatsQuery(query, "defender"),
+        ),
+      );
+    });
+
     app.get("/healthz", (_request, res) => {
       res.send("ok");
     });
@@ -8,17 +8,30 @@ import {
   CombatEventType,
   INTERNAL_COOLDOWN_MS,
   GCD_SECONDS,
+  STATUS_DEFINITIONS,
+  areEnemies,
   canPayResourceCost,
   computeGcdEndTimeMs,
   canBufferAbility,
+  getAbilityRequirementRejection,
+  getChannelTickCount,
+  getChannelTickTimeMs,
+  getInterruptLockoutStatusIds,
+  getUseCheckPotency,
   hasLineOfSight,
+  isCastInterruptible,
+  readCombatStats,
   resolveTargetsForAbility,
   EventCategory,
+  type AbilityBackfireEvent,
   type AbilityCastFinishEvent,
   type AbilityCastInterruptEvent,
   type AbilityCastStartEvent,
   type AbilityEffectAppliedEvent,
   type AbilityDefinition,
+  type AbilityRequirementRejection,
+  type AbilityResult,
+  type CombatStats,
   type TargetSpec,
   type TargetCandidate,
   type TargetResult,
@@ -26,13 +39,19 @@ import {
 } from "@mmo/shared-sim";
 
 import { hashStringToUint32 } from "./prng";
-import { resolveAbilityOutcome } from "./resolve-ability-outcome";
+import {
+  applyDamageMultiplier,
+  resolveAbilityOutcome,
+  type AbilityOutcomeContext,
+} from "./resolve-ability-outcome";
 import type { MobMovementEvent } from "../movement/movement-controller";
 import type { ServerZone } from "../world/zones/zone";
+import type { DisplacementDestination } from "./displacement-engine";
+import type { IncomingDamage } from "./status-engine";
 import type { ActiveCast } from "./types";
 import type { ServerMob } from "../world/entities/server-mob";
+import { ServerNPC } from "../world/entities/npc";
 import { applyDamage, applyHealing, applyResourceCost } from "./effects";
-import { STATUS_DEFINITIONS } from "./status-definitions";
 import type { AbilityEvent, AbilityEventListener } from "./ability-events";
 
 const GCD_MS = GCD_SECONDS * 1000;
@@ -77,6 +96,11 @@ type ValidationResult = ValidationFailure | ValidationSuccess;
 export class AbilityEngine {
   private readonly listeners: AbilityEventListener[] = [];
   private nextCastId = 1;
+  private readonly outcomeContext: AbilityOutcomeContext = {
+    resolveStats: (mob) => this.resolveCombatStats(mob),
+    hasImmunity: (mob, tag) =>
+      this.getCombatantById(mob.id)?.statusController?.hasImmunity(tag) ?? false,
+  };
 
   constructor(private readonly zone: ServerZone) {
     this.zone.movementController.onMobMovement((event, serverTick, serverTimeMs) => {
@@ -143,7 +167,15 @@ export class AbilityEngine {
    * Returns the ack immediately or undefined if the request was buffered.
    */
   handleAbilityUse(context: AbilityUseContext): AbilityAck | undefined {
-    const { actor, request, serverTimeMs, serverTick, sendAck } = context;
+    const { actor, request, serverTimeMs, serverTick } = context;
+    const recorder = this.zone.combatRecorder;
+    // Buffered requests keep this callback, so their late acks are recorded too.
+    const sendAck = recorder
+      ? (ack: AbilityAck) => {
+          recorder.recordRequest(request, ack, serverTick, serverTimeMs);
+          context.sendAck(ack);
+        }
+      : context.sendAck;
     if (request.actorId !== actor.id) {
       const ack = this.buildRejectAck(request, serverTimeMs, serverTick, "illegal");
       sendAck(ack);
@@ -265,9 +297,27 @@ export class AbilityEngine {
       return;
     }
 
+    this.interruptCast(actor, this.mapInterruptReason(request.reason), serverTimeMs, serverTick);
+  }
+
+  /**
+   * Drop the actor's active cast and buffered request, emitting an interrupt
+   * event when a cast was in progress. A broken channel keeps the ticks it already earned.
+   * `interruptSourceId` names the mob whose interrupt, stun or silence broke the cast.
+   */
+  interruptCast(
+    actor: ServerMob<MobState>,
+    reason: AbilityCastInterruptEvent["reason"],
+    serverTimeMs: number,
+    serverTick: number,
+    interruptSourceId?: string,
+  ): void {
     const activeCast = actor.activeCast;
     const hadActiveCast = Boolean(activeCast);
     if (activeCast) {
+      if (activeCast.channel && !actor.synced.isDead) {
+        this.applyDueChannelTicks(actor, activeCast, serverTimeMs, serverTick);
+      }
       actor.activeCast = undefined;
     }
     if (actor.bufferedRequest) {
@@ -282,6 +332,9 @@ export class AbilityEngine {
     if (hadActiveCast) {
       abilityState.gcdEndTimeMs = 0;
       abilityState.internalCooldownEndTimeMs = 0;
+      if (activeCast?.channel) {
+        this.startCooldown(actor, activeCast.abilityId, serverTimeMs);
+      }
       if (activeCast) {
         const interruptEvent: AbilityCastInterruptEvent = {
           eventId: 0,
@@ -293,7 +346,8 @@ export class AbilityEngine {
           actorId: activeCast.actorId,
           castId: activeCast.castId,
           abilityId: activeCast.abilityId,
-          reason: this.mapInterruptReason(request.reason),
+          reason,
+          interruptSourceId,
           sourceLocation: {
             x: actor.synced.x,
             y: actor.synced.y,
@@ -314,6 +368,9 @@ export class AbilityEngine {
     for (const combatant of this.iterateCombatants()) {
       const activeCast = combatant.activeCast;
       if (activeCast) {
+        if (activeCast.channel) {
+          this.applyDueChannelTicks(combatant, activeCast, serverTimeMs, serverTick);
+        }
         if (activeCast.castEndTimeMs > serverTimeMs) {
           continue;
         }
@@ -325,11 +382,7 @@ export class AbilityEngine {
         abilityState.castEndTimeMs = 0;
         abilityState.castAbilityId = "";
         abilityState.castId = 0;
-        const ability =
-          ABILITY_DEFINITIONS[activeCast.abilityId as keyof typeof ABILITY_DEFINITIONS];
-        if (ability) {
-          combatant.cooldowns.set(ability.id, activeCast.castEndTimeMs + ability.cooldownMs);
-        }
+        this.startCooldown(combatant, activeCast.abilityId, activeCast.castEndTimeMs);
 
         if (combatant.bufferedRequest) {
           const buffered = combatant.bufferedRequest;
@@ -415,7 +468,11 @@ export class AbilityEngine {
     });
   }
 
-  /** Apply an ability result to entities and emit the resolved event. */
+  /**
+   * Pay costs and finish the cast, then apply its effects (or launch its projectile, whose
+   * impact applies them later) and emit the resolved event. Channels paid up front and
+   * resolved per tick, so they only emit the finish event here.
+   */
   applyResult(cast: ActiveCast, serverTick: number): void {
     const ability = ABILITY_DEFINITIONS[cast.abilityId as keyof typeof ABILITY_DEFINITIONS];
     if (!ability) {
@@ -423,11 +480,13 @@ export class AbilityEngine {
     }
 
     const actor = this.getCombatantById(cast.actorId);
-    if (actor) {
+    const nowMs = cast.castEndTimeMs;
+    if (actor && !cast.channel) {
       applyResourceCost(actor.synced, ability.resourceCosts);
+      this.zone.regenEngine.onResourcesSpent(actor, ability.resourceCosts, nowMs);
+      this.consumeEmpowerments(actor, cast, nowMs);
     }
 
-    const nowMs = cast.castEndTimeMs;
     const sourceLocation = actor
       ? { x: actor.synced.x, y: actor.synced.y, z: actor.synced.z }
       : undefined;
@@ -442,12 +501,218 @@ export class AbilityEngine {
       actorId: cast.actorId,
       castId: cast.castId,
       abilityId: cast.abilityId,
+      useCheck: ability.useCheck ? cast.result.useCheck : undefined,
       sourceLocation,
     };
     this.zone.eventLog.append(castFinishEvent);
 
+    if (cast.channel) {
+      return;
+    }
+
+    const projectile = ability.projectile;
+    if (
+      projectile &&
+      actor &&
+      this.zone.projectileEngine.launch(cast, projectile, actor, nowMs, serverTick)
+    ) {
+      return;
+    }
+
+    this.applyEffects(ability, cast, actor, serverTick, nowMs);
+  }
+
+  /** Apply a cast's effects once its projectile reaches the target. */
+  applyProjectileImpact(cast: ActiveCast, serverTick: number, nowMs: number): void {
+    const ability = ABILITY_DEFINITIONS[cast.abilityId as keyof typeof ABILITY_DEFINITIONS];
+    if (!ability) {
+      return;
+    }
+    this.applyEffects(ability, cast, this.getCombatantById(cast.actorId), serverTick, nowMs);
+  }
+
+  /**
+   * Re-resolve a cast in flight against a new primary target (its projectile's target died).
+   * Returns false when the new target cannot be resolved.
+   */
+  retargetCast(cast: ActiveCast, targetEntityId: string): boolean {
+    const ability = ABILITY_DEFINITIONS[cast.abilityId as keyof typeof ABILITY_DEFINITIONS];
+    const actor = this.getCombatantById(cast.actorId);
+    if (!ability || !actor) {
+      return false;
+    }
+    const targeting = this.resolveTargeting(ability, { targetEntityId }, actor);
+    if (!targeting) {
+      return false;
+    }
+
+    const targets = this.resolveTargetStates(targeting.possibleTargetIds);
+    const rngSeed = hashStringToUint32(`${cast.requestId}:${cast.actorId}:${targetEntityId}`);
+    cast.result = this.resolveOutcome(
+      ability,
+      actor,
+      targets,
+      rngSeed,
+      { requestId: cast.requestId, serverTick: cast.serverTick },
+      cast.damageMultiplier,
+    );
+    cast.targetEntityId = targetEntityId;
+    cast.targetPosition = targeting.targetPosition;
+    return true;
+  }
+
+  /**
+   * Resolve every channel tick that is due by `nowMs`. Each tick re-resolves targeting from the
+   * original target spec and rolls its own outcome; ticks whose target is gone are skipped.
+   */
+  private applyDueChannelTicks(
+    actor: ServerMob<MobState>,
+    cast: ActiveCast,
+    nowMs: number,
+    serverTick: number,
+  ): void {
+    const channel = cast.channel;
+    const ability = ABILITY_DEFINITIONS[cast.abilityId as keyof typeof ABILITY_DEFINITIONS] as
+      | AbilityDefinition
+      | undefined;
+    if (!channel || !ability) {
+      return;
+    }
+
+    const tickCount = getChannelTickCount(ability);
+    while (channel.ticksApplied < tickCount) {
+      const tickIndex = channel.ticksApplied + 1;
+      const tickTimeMs = getChannelTickTimeMs(
+        cast.castStartTimeMs,
+        channel.tickIntervalMs,
+        tickIndex,
+      );
+      if (tickTimeMs > nowMs) {
+        return;
+      }
+      channel.ticksApplied = tickIndex;
+
+      const targeting = this.resolveTargeting(ability, channel.target, actor);
+      if (!targeting) {
+        continue;
+      }
+      const targets = this.resolveTargetStates(targeting.possibleTargetIds);
+      const rngSeed = hashStringToUint32(`${cast.requestId}:${cast.actorId}:channel:${tickIndex}`);
+      const result = this.resolveOutcome(
+        ability,
+        actor,
+        targets,
+        rngSeed,
+        { requestId: cast.requestId, serverTick },
+        cast.damageMultiplier,
+      );
+      this.applyEffects(
+        ability,
+        { ...cast, targetPosition: targeting.targetPosition, result },
+        actor,
+        serverTick,
+        tickTimeMs,
+      );
+    }
+  }
+
+  /** Roll the ability's outcome, scaling damage by any empowerment multiplier. */
+  private resolveOutcome(
+    ability: AbilityDefinition,
+    actor: ServerMob<MobState>,
+    targets: MobState[],
+    rngSeed: number,
+    recordKey: { requestId: string; serverTick: number },
+    damageMultiplier = 1,
+  ): AbilityResult {
+    const result = resolveAbilityOutcome(
+      ability,
+      actor.synced,
+      targets,
+      rngSeed,
+      this.outcomeContext,
+    );
+    applyDamageMultiplier(result, damageMultiplier);
+    this.zone.combatRecorder?.recordOutcome(
+      {
+        ...recordKey,
+        abilityId: ability.id,
+        rngSeed,
+        damageMultiplier,
+        actor: actor.synced,
+        targets,
+        result,
+      },
+      this.outcomeContext,
+    );
+    return result;
+  }
+
+  /**
+   * Fold together the statuses that grant or empower the ability: any instant-cast empowerment
+   * removes the cast time, damage multipliers stack. They are consumed by `consumeEmpowerments`.
+   */
+  private readEmpowerments(
+    actor: ServerMob<MobState>,
+    ability: AbilityDefinition,
+  ): { instantCast: boolean; damageMultiplier?: number; statusIds: string[] } {
+    const statuses = actor.statusController?.getEmpoweringStatuses(ability) ?? [];
+    let instantCast = false;
+    let damageMultiplier: number | undefined;
+    for (const status of statuses) {
+      if (status.empowerment?.instantCast) {
+        instantCast = true;
+      }
+      if (status.empowerment?.damageMultiplier !== undefined) {
+        damageMultiplier = (damageMultiplier ?? 1) * status.empowerment.damageMultiplier;
+      }
+    }
+    return { instantCast, damageMultiplier, statusIds: statuses.map((status) => status.id) };
+  }
+
+  /** Remove the empowering statuses a cast drew on, once it is used. */
+  private consumeEmpowerments(actor: ServerMob<MobState>, cast: ActiveCast, nowMs: number): void {
+    for (const statusId of cast.empoweringStatusIds ?? []) {
+      this.zone.statusEngine.removeStatus(actor, statusId, "consumed", nowMs);
+    }
+    cast.empoweringStatusIds = undefined;
+  }
+
+  /** Spend a charge of the ability (and lock its cooldown category) starting at `startTimeMs`. */
+  private startCooldown(actor: ServerMob<MobState>, abilityId: string, startTimeMs: number): void {
+    const ability = ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS];
+    if (ability) {
+      actor.cooldowns.consume(ability, startTimeMs);
+    }
+  }
+
+  /** Apply resolved effects to their targets and emit the per-target events. */
+  private applyEffects(
+    ability: AbilityDefinition,
+    cast: ActiveCast,
+    actor: ServerMob<MobState> | undefined,
+    serverTick: number,
+    nowMs: number,
+  ): void {
+    const sourceLocation = actor
+      ? { x: actor.synced.x, y: actor.synced.y, z: actor.synced.z }
+      : undefined;
+
+    this.resolveStatusDurations(ability, cast, nowMs);
+    const incomingDamage = this.resolveIncomingDamage(ability, cast, nowMs);
+    if (actor) {
+      this.resolveDispels(ability, cast, actor);
+    }
+    const interrupts = this.resolveInterrupts(ability, cast);
+    const displacements = actor
+      ? this.resolveDisplacements(ability, cast, actor)
+      : new Map<TargetResult, DisplacementDestination>();
+
     for (const effectResult of cast.result.effects) {
       for (const targetResult of effectResult.targets) {
+        if (!this.canAffectTarget(ability, targetResult.targetId)) {
+          continue;
+        }
         const effectEvent: AbilityEffectAppliedEvent = {
           eventId: 0,
           category: EventCategory.Combat,
@@ -460,11 +725,16 @@ export class AbilityEngine {
           abilityId: cast.abilityId,
           effectId: effectResult.effectIndex,
           targetId: targetResult.targetId,
+          actorOwnerId: this.zone.getPetOwnerId(cast.actorId),
           outcome: this.mapEffectOutcome(targetResult.outcome),
           damage: targetResult.damage,
           blockedAmount: targetResult.blockedAmount,
+          absorbed: targetResult.absorbed,
+          redirected: targetResult.redirected,
+          redirectedToId: targetResult.redirectedToId,
           healing: targetResult.healing,
           statusApplied: targetResult.statusApplied,
+          statusDurationMs: targetResult.statusDurationMs,
           displacement: targetResult.displacement,
           sourceLocation,
         };
@@ -480,7 +750,7 @@ export class AbilityEngine {
 
       for (const targetResult of effectResult.targets) {
         const target = this.getCombatantById(targetResult.targetId);
-        if (!target) {
+        if (!target || !this.canAffectTarget(ability, target.id)) {
           continue;
         }
 
@@ -488,6 +758,10 @@ export class AbilityEngine {
           if (targetResult.damage && targetResult.damage > 0) {
             applyDamage(target.synced, targetResult.damage);
           }
+          const redirect = incomingDamage.get(targetResult)?.redirect;
+          if (redirect) {
+            applyDamage(redirect.guardian.synced, redirect.damage);
+          }
           continue;
         }
 
@@ -498,32 +772,91 @@ export class AbilityEngine {
           continue;
         }
 
-        if (!actor || targetResult.outcome === "no_effect") {
+        if (effect.type === "dispel") {
+          if (actor && targetResult.dispelled) {
+            this.zone.statusEngine.dispelStatuses(
+              actor,
+              target,
+              targetResult.dispelled,
+              cast.abilityId,
+              cast.castId,
+              nowMs,
+            );
+          }
           continue;
         }
 
-        const statusController = target.statusController;
-        if (!statusController) {
+        if (effect.type === "taunt" || effect.type === "threat") {
+          // Threat changes are applied by the CombatEngine from the resolved event.
           continue;
         }
 
-        const definition = STATUS_DEFINITIONS[effect.statusId];
-        if (!definition) {
+        if (effect.type === "summon") {
+          if (actor && targetResult.outcome === "hit") {
+            this.zone.summonPet(actor, effect.petTemplateId, nowMs);
+          }
           continue;
         }
 
-        let durationMs = effect.durationMs;
-        if (definition.maxDurationMs !== undefined) {
-          durationMs = Math.min(durationMs, definition.maxDurationMs);
+        if (effect.type === "interrupt") {
+          const interrupted = interrupts.get(targetResult);
+          if (interrupted) {
+            this.interruptCast(target, "interrupt", nowMs, serverTick, cast.actorId);
+            if (actor) {
+              this.applyLockouts(
+                actor,
+                target,
+                interrupted,
+                effect.lockoutMs,
+                nowMs,
+                cast.abilityId,
+              );
+            }
+          }
+          continue;
+        }
+
+        if (effect.type === "displacement") {
+          const destination = displacements.get(targetResult);
+          if (destination) {
+            this.zone.displacementEngine.startDisplacement(
+              target,
+              destination,
+              effect.durationMs,
+              nowMs,
+            );
+          }
+          continue;
+        }
+
+        if (!actor || !targetResult.statusApplied?.includes(effect.statusId)) {
+          continue;
+        }
+
+        const definition = STATUS_DEFINITIONS[effect.statusId];
+        if (!definition) {
+          continue;
         }
 
+        const durationMs = targetResult.statusDurationMs ?? effect.durationMs;
         const appliedDefinition =
           durationMs === definition.durationMs ? definition : { ...definition, durationMs };
 
-        statusController.applyStatus(appliedDefinition, actor.synced, nowMs);
+        this.zone.statusEngine.applyStatus(
+          actor,
+          target,
+          appliedDefinition,
+          nowMs,
+          cast.abilityId,
+          getUseCheckPotency(cast.result.useCheck),
+        );
       }
     }
 
+    if (actor && cast.result.backfire) {
+      this.applyBackfire(ability, cast, actor, cast.result.backfire, serverTick, nowMs);
+    }
+
     if (actor) {
       this.emit({
         type: "ability_resolved",
@@ -531,10 +864,293 @@ export class AbilityEngine {
         actor,
         result: cast.result,
         resolvedAtMs: nowMs,
+        channelTick: cast.channel?.ticksApplied,
       });
     }
   }
 
+  /** Hurt or debuff the actor of a critically failed use check. */
+  private applyBackfire(
+    ability: AbilityDefinition,
+    cast: ActiveCast,
+    actor: ServerMob<MobState>,
+    backfire: TargetResult,
+    serverTick: number,
+    nowMs: number,
+  ): void {
+    if (backfire.damage && backfire.damage > 0) {
+      applyDamage(actor.synced, backfire.damage);
+    }
+    const backfireEvent: AbilityBackfireEvent = {
+      eventId: 0,
+      category: EventCategory.Combat,
+      eventType: CombatEventType.AbilityBackfire,
+      serverTick,
+      serverTimeMs: nowMs,
+      contextId: this.zone.zoneData.zoneId,
+      actorId: actor.id,
+      castId: cast.castId,
+      abilityId: ability.id,
+      damage: backfire.damage,
+    };
+    this.zone.eventLog.append(backfireEvent);
+
+    for (const statusId of backfire.statusApplied ?? []) {
+      const definition = STATUS_DEFINITIONS[statusId];
+      if (!definition) {
+        continue;
+      }
+      const durationMs = backfire.statusDurationMs ?? definition.durationMs;
+      this.zone.statusEngine.applyStatus(
+        actor,
+        actor,
+        durationMs === definition.durationMs ? definition : { ...definition, durationMs },
+        nowMs,
+        ability.id,
+      );
+    }
+  }
+
+  /**
+   * Resolve final status durations (rolled or authored duration, definition caps, then diminishing
+   * returns) at application time.
+   * Targets whose DR category is exhausted, and evading NPCs hit by a debuff, get an "immune"
+   * outcome instead of the status.
+   */
+  private resolveStatusDurations(
+    ability: AbilityDefinition,
+    cast: ActiveCast,
+    nowMs: number,
+  ): void {
+    for (const effectResult of cast.result.effects) {
+      const effect = ability.effects[effectResult.effectIndex];
+      if (!effect || effect.type !== "status") {
+        continue;
+      }
+      const definition = STATUS_DEFINITIONS[effect.statusId];
+      if (!definition) {
+        continue;
+      }
+
+      for (const targetResult of effectResult.targets) {
+        if (!targetResult.statusApplied?.includes(effect.statusId)) {
+          continue;
+        }
+        let durationMs = targetResult.statusDurationMs ?? effect.durationMs;
+        if (definition.maxDurationMs !== undefined) {
+          durationMs = Math.min(durationMs, definition.maxDurationMs);
+        }
+        const target = this.getCombatantById(targetResult.targetId);
+        const evading =
+          definition.category === "debuff" && target instanceof ServerNPC && target.leash.evading;
+        const diminishedMs =
+          target?.statusController?.getDiminishedDurationMs(definition, durationMs, nowMs) ??
+          durationMs;
+        if (evading || diminishedMs <= 0) {
+          targetResult.outcome = "immune";
+          delete targetResult.statusApplied;
+          continue;
+        }
+        targetResult.statusDurationMs = diminishedMs;
+      }
+    }
+  }
+
+  /**
+   * Pick the statuses each dispel strips when the cast lands: buffs from enemies and debuffs
+   * from allies unless the effect names a category. Targets with nothing to strip get
+   * "no_effect"; the others get `dispelled` filled in.
+   */
+  private resolveDispels(
+    ability: AbilityDefinition,
+    cast: ActiveCast,
+    actor: ServerMob<MobState>,
+  ): void {
+    for (const effectResult of cast.result.effects) {
+      const effect = ability.effects[effectResult.effectIndex];
+      if (!effect || effect.type !== "dispel") {
+        continue;
+      }
+
+      for (const targetResult of effectResult.targets) {
+        if (targetResult.outcome !== "hit") {
+          continue;
+        }
+        const target = this.getCombatantById(targetResult.targetId);
+        if (!target || !this.canAffectTarget(ability, target.id)) {
+          continue;
+        }
+        const category =
+          effect.category ?? (areEnemies(actor.synced, target.synced) ? "buff" : "debuff");
+        const statusIds =
+          target.statusController?.getDispellableStatusIds(category, effect.count, effect.tags) ??
+          [];
+        if (statusIds.length === 0) {
+          targetResult.outcome = "no_effect";
+          continue;
+        }
+        targetResult.dispelled = statusIds;
+      }
+    }
+  }
+
+  /**
+   * Find the casts each interrupt breaks when it lands. Targets that are not casting, or whose
+   * cast is uninterruptible, get "no_effect".
+   */
+  private resolveInterrupts(
+    ability: AbilityDefinition,
+    cast: ActiveCast,
+  ): Map<TargetResult, AbilityDefinition> {
+    const interrupts = new Map<TargetResult, AbilityDefinition>();
+    for (const effectResult of cast.result.effects) {
+      const effect = ability.effects[effectResult.effectIndex];
+      if (!effect || effect.type !== "interrupt") {
+        continue;
+      }
+
+      for (const targetResult of effectResult.targets) {
+        if (targetResult.outcome !== "hit") {
+          continue;
+        }
+        const target = this.getCombatantById(targetResult.targetId);
+        if (!target || !this.canAffectTarget(ability, target.id)) {
+          continue;
+        }
+        const castAbility = target.activeCast
+          ? ABILITY_DEFINITIONS[target.activeCast.abilityId as keyof typeof ABILITY_DEFINITIONS]
+          : undefined;
+        if (!castAbility || !isCastInterruptible(castAbility)) {
+          targetResult.outcome = "no_effect";
+          continue;
+        }
+        interrupts.set(targetResult, castAbility);
+      }
+    }
+    return interrupts;
+  }
+
+  /** Lock the target out of the interrupted ability's schools (or tags) for `lockoutMs`. */
+  private applyLockouts(
+    actor: ServerMob<MobState>,
+    target: ServerMob<MobState>,
+    interrupted: AbilityDefinition,
+    lockoutMs: number,
+    nowMs: number,
+    abilityId: string,
+  ): void {
+    for (const statusId of getInterruptLockoutStatusIds(interrupted)) {
+      const definition = STATUS_DEFINITIONS[statusId];
+      if (!definition) {
+        continue;
+      }
+      this.zone.statusEngine.applyStatus(
+        actor,
+        target,
+        { ...definition, durationMs: lockoutMs },
+        nowMs,
+        abilityId,
+      );
+    }
+  }
+
+  /**
+   * Pass damage through the targets' redirect and absorb statuses when the cast lands.
+   * `damage` is reduced to what reaches HP; the absorbed and redirected shares are filled in.
+   */
+  private resolveIncomingDamage(
+    ability: AbilityDefinition,
+    cast: ActiveCast,
+    nowMs: number,
+  ): Map<TargetResult, IncomingDamage> {
+    const incoming = new Map<TargetResult, IncomingDamage>();
+    for (const effectResult of cast.result.effects) {
+      const effect = ability.effects[effectResult.effectIndex];
+      if (!effect || effect.type !== "damage") {
+        continue;
+      }
+
+      for (const targetResult of effectResult.targets) {
+        if (!targetResult.damage || targetResult.damage <= 0) {
+          continue;
+        }
+        const target = this.getCombatantById(targetResult.targetId);
+        if (!target || !this.canAffectTarget(ability, target.id)) {
+          continue;
+        }
+        const resolved = this.zone.statusEngine.resolveIncomingDamage(
+          target,
+          targetResult.damage,
+          effect.school,
+          nowMs,
+        );
+        targetResult.damage = resolved.damage > 0 ? resolved.damage : undefined;
+        if (resolved.absorbed > 0) {
+          targetResult.absorbed = resolved.absorbed;
+        }
+        if (resolved.redirect) {
+          targetResult.redirected = resolved.redirect.amount;
+          targetResult.redirectedToId = resolved.redirect.guardian.id;
+        }
+        incoming.set(targetResult, resolved);
+      }
+    }
+    return incoming;
+  }
+
+  /**
+   * Resolve displacement destinations where targets stand when the cast lands.
+   * Rooted targets are not moved ("no_effect"); moved targets get `displacement` filled in.
+   * Critically successful uses move them further.
+   */
+  private resolveDisplacements(
+    ability: AbilityDefinition,
+    cast: ActiveCast,
+    actor: ServerMob<MobState>,
+  ): Map<TargetResult, DisplacementDestination> {
+    const destinations = new Map<TargetResult, DisplacementDestination>();
+    const potency = getUseCheckPotency(cast.result.useCheck);
+    for (const effectResult of cast.result.effects) {
+      const authored = ability.effects[effectResult.effectIndex];
+      if (!authored || authored.type !== "displacement") {
+        continue;
+      }
+      const effect =
+        potency === 1 ? authored : { ...authored, distance: authored.distance * potency };
+
+      for (const targetResult of effectResult.targets) {
+        if (targetResult.outcome !== "hit") {
+          continue;
+        }
+        const target = this.getCombatantById(targetResult.targetId);
+        if (!target || !this.canAffectTarget(ability, target.id)) {
+          continue;
+        }
+        if (target.statusController?.hasStateFlag("rooted")) {
+          targetResult.outcome = "no_effect";
+          continue;
+        }
+        const destination = this.zone.displacementEngine.resolveDestination(
+          effect,
+          actor,
+          target,
+          cast.targetPosition,
+        );
+        if (!destination) {
+          targetResult.outcome = "no_effect";
+          continue;
+        }
+        targetResult.displacement = {
+          dx: destination.x - target.synced.x,
+          dy: destination.y - target.synced.y,
+          dz: destination.z - target.synced.z,
+        };
+        destinations.set(targetResult, destination);
+      }
+    }
+    return destinations;
+  }
+
   /** Notify all registered ability event listeners. */
   private emit(event: AbilityEvent): void {
     for (const listener of this.listeners) {
@@ -561,6 +1177,22 @@ export class AbilityEngine {
     return this.zone.npcs.get(id);
   }
 
+  /** Derived stats (status modifiers applied) for formula evaluation; falls back to synced stats. */
+  private resolveCombatStats(mob: MobState): CombatStats {
+    return (
+      this.getCombatantById(mob.id)?.statsController?.getDerivedStats() ?? readCombatStats(mob)
+    );
+  }
+
+  /** Whether a resolved target can still receive effects (targets may die mid-cast). */
+  private canAffectTarget(ability: AbilityDefinition, targetId: string): boolean {
+    const target = this.getCombatantById(targetId);
+    if (!target) {
+      return true;
+    }
+    return !target.synced.isDead || ability.canTargetDead === true;
+  }
+
   private mapEffectOutcome(outcome: TargetResult["outcome"]): AbilityEffectAppliedEvent["outcome"] {
     if (outcome === "hit") {
       return "hit";
@@ -616,8 +1248,10 @@ export class AbilityEngine {
     serverTick: number,
   ): AbilityAck {
     const ability = validation.ability;
+    const empowerment = this.readEmpowerments(actor, ability);
+    const castTimeMs = empowerment.instantCast && !ability.channel ? 0 : ability.castTimeMs;
     const castStartTimeMs = serverTimeMs;
-    const castEndTimeMs = serverTimeMs + ability.castTimeMs;
+    const castEndTimeMs = serverTimeMs + castTimeMs;
     const castId = this.nextCastId;
     this.nextCastId += 1;
 
@@ -632,13 +1266,26 @@ export class AbilityEngine {
     if (gcdEndTimeMs !== undefined) {
       abilityState.gcdEndTimeMs = gcdEndTimeMs;
     }
-    if (ability.castTimeMs < INTERNAL_COOLDOWN_MS) {
+    if (castTimeMs < INTERNAL_COOLDOWN_MS) {
       abilityState.internalCooldownEndTimeMs = castStartTimeMs + INTERNAL_COOLDOWN_MS;
     }
 
     const targets = this.resolveTargetStates(validation.possibleTargetIds);
     const rngSeed = hashStringToUint32(`${request.requestId}:${request.actorId}:${serverTick}`);
-    const result = resolveAbilityOutcome(ability, actor.synced, targets, rngSeed);
+    const result = this.resolveOutcome(
+      ability,
+      actor,
+      targets,
+      rngSeed,
+      { requestId: request.requestId, serverTick },
+      empowerment.damageMultiplier,
+    );
+
+    // Channels pay up front: the ticks they earn stand even if the channel breaks.
+    if (ability.channel) {
+      applyResourceCost(actor.synced, ability.resourceCosts);
+      this.zone.regenEngine.onResourcesSpent(actor, ability.resourceCosts, castStartTimeMs);
+    }
 
     actor.activeCast = {
       castId,
@@ -649,8 +1296,23 @@ export class AbilityEngine {
       serverTick,
       castStartTimeMs,
       castEndTimeMs,
+      targetPosition: validation.targetPosition,
+      targetEntityId: request.target.targetEntityId,
+      channel: ability.channel
+        ? {
+            tickIntervalMs: ability.channel.tickIntervalMs,
+            ticksApplied: 0,
+            target: request.target,
+          }
+        : undefined,
+      damageMultiplier: empowerment.damageMultiplier,
+      empoweringStatusIds: empowerment.statusIds,
       result,
     };
+    // Channels use their empowerments up front, like their costs.
+    if (ability.channel) {
+      this.consumeEmpowerments(actor, actor.activeCast, serverTimeMs);
+    }
 
     const castStartEvent: AbilityCastStartEvent = {
       eventId: 0,
@@ -701,11 +1363,17 @@ export class AbilityEngine {
       ignoreInternalCooldown?: boolean;
     },
   ): ValidationResult {
-    const ability = ABILITY_DEFINITIONS[request.abilityId as keyof typeof ABILITY_DEFINITIONS];
+    const ability = ABILITY_DEFINITIONS[request.abilityId as keyof typeof ABILITY_DEFINITIONS] as
+      | AbilityDefinition
+      | undefined;
     if (!ability) {
       return { accepted: false, rejectReason: "illegal" };
     }
 
+    if (actor.synced.isDead) {
+      return { accepted: false, rejectReason: "dead" };
+    }
+
     const abilityGate = actor.canUseAbility(ability);
     if (!abilityGate.canUse) {
       return { accepted: false, rejectReason: abilityGate.reason };
@@ -720,8 +1388,7 @@ export class AbilityEngine {
       return { accepted: false, rejectReason: "cooldown" };
     }
 
-    const abilityCooldownEnd = actor.cooldowns.get(ability.id);
-    if (abilityCooldownEnd && serverTimeMs < abilityCooldownEnd) {
+    if (!actor.cooldowns.isReady(ability, serverTimeMs)) {
       return { accepted: false, rejectReason: "cooldown" };
     }
 
@@ -729,6 +1396,14 @@ export class AbilityEngine {
       return { accepted: false, rejectReason: "resources" };
     }
 
+    const targetEntityId = request.target.targetEntityId;
+    if (targetEntityId && !ability.canTargetDead) {
+      const targetEntity = this.getCombatantById(targetEntityId);
+      if (targetEntity?.synced.isDead) {
+        return { accepted: false, rejectReason: "target_dead" };
+      }
+    }
+
     const targeting = this.resolveTargeting(ability, request.target, actor);
     if (!targeting) {
       return { accepted: false, rejectReason: "illegal" };
@@ -745,6 +1420,16 @@ export class AbilityEngine {
       }
     }
 
+    const requirementRejection = this.checkRequirements(
+      ability,
+      actor,
+      targetEntityId,
+      targeting.targetPosition,
+    );
+    if (requirementRejection) {
+      return { accepted: false, rejectReason: requirementRejection };
+    }
+
     return {
       accepted: true,
       ability,
@@ -753,6 +1438,38 @@ export class AbilityEngine {
     };
   }
 
+  /** Evaluate the ability's declarative requirements against the actor and its target. */
+  private checkRequirements(
+    ability: AbilityDefinition,
+    actor: ServerMob<MobState>,
+    targetEntityId: string | undefined,
+    targetPosition: { x: number; y: number; z: number } | undefined,
+  ): AbilityRequirementRejection | undefined {
+    if (!ability.requirements?.length) {
+      return undefined;
+    }
+    const targetEntity = targetEntityId ? this.getCombatantById(targetEntityId) : undefined;
+    return getAbilityRequirementRejection(ability, {
+      actor: {
+        x: actor.synced.x,
+        y: actor.synced.y,
+        z: actor.synced.z,
+        facingYaw: actor.synced.facingYaw,
+        inCombat: actor.synced.inCombat,
+        statusIds: actor.synced.statuses.map((status) => status.id),
+      },
+      target: targetEntity
+        ? {
+            x: targetEntity.synced.x,
+            y: targetEntity.synced.y,
+            z: targetEntity.synced.z,
+            currentHp: targetEntity.synced.currentHp,
+            maxHp: targetEntity.synced.maxHp,
+          }
+        : targetPosition,
+    });
+  }
+
   /** Resolve possible targets and target position for a request. */
   private resolveTargeting(
     ability: AbilityDefinition,
@@ -845,6 +1562,7 @@ export class AbilityEngine {
         x: actor.synced.x,
         y: actor.synced.y,
         z: actor.synced.z,
+        isDead: actor.synced.isDead,
       },
     ];
 
@@ -857,6 +1575,7 @@ export class AbilityEngine {
         x: player.synced.x,
         y: player.synced.y,
         z: player.synced.z,
+        isDead: player.synced.isDead,
       });
     }
 
@@ -869,6 +1588,7 @@ export class AbilityEngine {
         x: npc.synced.x,
         y: npc.synced.y,
         z: npc.synced.z,
+        isDead: npc.synced.isDead,
       });
     }
 
@@ -8,6 +8,8 @@ export interface AbilityResolvedEvent {
   actor: ServerMob<MobState>;
   result: AbilityResult;
   resolvedAtMs: number;
+  /** 1-based tick index when the result is a channel tick. */
+  channelTick?: number;
 }
 
 /** AbilityEngine event union. */
@@ -1,25 +1,106 @@
 import { AggroEntry, CombatState } from "@mmo/shared-sim";
 
 const MAX_PERCENT = 100;
+/** Aggro of targets that stop contributing starts decaying after this long. */
+export const AGGRO_DECAY_DELAY_MS = 8000;
+/** Fraction of a decaying target's aggro lost per second. */
+export const AGGRO_DECAY_PER_SECOND = 0.1;
+/** Decay never drops a target below this, so going idle does not end combat on its own. */
+const MIN_DECAYED_AGGRO = 1;
+/** Aggro a taunt gives a taunter with none, so taunting an idle NPC still pulls it. */
+const MIN_TAUNT_AGGRO = 1;
+
+interface ActiveTaunt {
+  targetId: string;
+  expiresAtMs: number;
+}
 
 /**
  * Server-only aggro table that tracks raw aggro values and syncs
  * relative percentages to the NPC's CombatState.
+ * A taunt pins the top target until it expires; `update` expires taunts and decays the aggro
+ * of targets that have not contributed recently.
  */
 export class AggroTable {
   private readonly raw = new Map<string, number>();
+  private readonly lastContributionMs = new Map<string, number>();
+  private taunt?: ActiveTaunt;
+  private lastUpdateMs?: number;
 
   constructor(private readonly combatState: CombatState) {}
 
-  addAggro(targetId: string, amount: number): void {
+  /** Add aggro for a target; `nowMs` marks the contribution and holds off decay. */
+  addAggro(targetId: string, amount: number, nowMs?: number): void {
     if (!Number.isFinite(amount) || amount <= 0) {
       return;
     }
     const next = (this.raw.get(targetId) ?? 0) + amount;
     this.raw.set(targetId, next);
+    this.markContribution(targetId, nowMs);
     this.sync();
   }
 
+  /** Scale a target's aggro (threat reduction); a multiplier of 0 drops the target. */
+  scaleAggro(targetId: string, multiplier: number): void {
+    const current = this.raw.get(targetId);
+    if (current === undefined || !Number.isFinite(multiplier)) {
+      return;
+    }
+    this.setAggro(targetId, current * Math.max(0, multiplier));
+  }
+
+  /**
+   * Force the target to the top for `durationMs`: its aggro is raised to match the current
+   * top value (at least MIN_TAUNT_AGGRO) so it keeps the lead once the taunt ends.
+   */
+  applyTaunt(targetId: string, durationMs: number, nowMs: number): void {
+    const aggro = Math.max(this.getTopAggroValue(), MIN_TAUNT_AGGRO);
+    if (aggro > this.getAggro(targetId)) {
+      this.raw.set(targetId, aggro);
+    }
+    this.taunt = { targetId, expiresAtMs: nowMs + durationMs };
+    this.markContribution(targetId, nowMs);
+    this.sync();
+  }
+
+  /** Target forced to the top by an active taunt, if any. */
+  getTauntTargetId(): string | undefined {
+    return this.taunt?.targetId;
+  }
+
+  /** Expire taunts and decay aggro of targets idle for longer than AGGRO_DECAY_DELAY_MS. */
+  update(nowMs: number): void {
+    const elapsedMs = this.lastUpdateMs === undefined ? 0 : nowMs - this.lastUpdateMs;
+    this.lastUpdateMs = nowMs;
+    if (this.taunt && nowMs >= this.taunt.expiresAtMs) {
+      this.taunt = undefined;
+    }
+    if (elapsedMs <= 0) {
+      return;
+    }
+
+    let changed = false;
+    for (const [id, value] of this.raw) {
+      const lastMs = this.lastContributionMs.get(id);
+      if (lastMs === undefined) {
+        // Aggro set directly (not through addAggro) starts its idle timer now.
+        this.lastContributionMs.set(id, nowMs);
+        continue;
+      }
+      // Only the part of this step past the idle delay counts toward decay.
+      const decayMs = Math.min(elapsedMs, nowMs - lastMs - AGGRO_DECAY_DELAY_MS);
+      if (decayMs <= 0 || value <= MIN_DECAYED_AGGRO) {
+        continue;
+      }
+      const retained = Math.pow(1 - AGGRO_DECAY_PER_SECOND, decayMs / 1000);
+      this.raw.set(id, Math.max(MIN_DECAYED_AGGRO, value * retained));
+      changed = true;
+    }
+    if (changed) {
+      this.sync();
+    }
+  }
+
   setAggro(targetId: string, value: number): void {
     if (!Number.isFinite(value) || value <= 0) {
       this.raw.delete(targetId);
@@ -39,6 +120,9 @@ export class AggroTable {
   }
 
   getTopTargetId(): string | undefined {
+    if (this.taunt && this.raw.has(this.taunt.targetId)) {
+      return this.taunt.targetId;
+    }
     let bestId: string | undefined;
     let bestValue = 0;
     for (const [id, value] of this.raw) {
@@ -65,6 +149,8 @@ export class AggroTable {
       return;
     }
     this.raw.clear();
+    this.lastContributionMs.clear();
+    this.taunt = undefined;
     this.clearSynced();
   }
 
@@ -84,6 +170,13 @@ export class AggroTable {
     return this.raw.size > 0;
   }
 
+  private markContribution(targetId: string, nowMs: number | undefined): void {
+    const stampMs = nowMs ?? this.lastUpdateMs;
+    if (stampMs !== undefined) {
+      this.lastContributionMs.set(targetId, stampMs);
+    }
+  }
+
   private sync(): void {
     this.pruneInvalid();
 
@@ -131,6 +224,14 @@ export class AggroTable {
         this.raw.delete(id);
       }
     }
+    for (const id of this.lastContributionMs.keys()) {
+      if (!this.raw.has(id)) {
+        this.lastContributionMs.delete(id);
+      }
+    }
+    if (this.taunt && !this.raw.has(this.taunt.targetId)) {
+      this.taunt = undefined;
+    }
   }
 
   private clearSynced(): void {
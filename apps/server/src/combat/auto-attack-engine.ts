@@ -0,0 +1,177 @@
+import {
+  AUTO_ATTACK_FACING_ARC_DEG,
+  CombatEventType,
+  EventCategory,
+  areEnemies,
+  isFacingTarget,
+  readCombatStats,
+  type AutoAttackEvent,
+  type AutoAttackProfile,
+  type CombatStats,
+  type MobState,
+} from "@mmo/shared-sim";
+import type { ServerMob } from "../world/entities/server-mob";
+import type { ServerZone } from "../world/zones/zone";
+import { applyDamage } from "./effects";
+import { hashStringToUint32 } from "./prng";
+import { resolveAutoAttackOutcome, type AbilityOutcomeContext } from "./resolve-ability-outcome";
+
+/**
+ * Swings the weapon of every auto-attacking mob at its current target (`entityTargetId`) on the
+ * weapon's swing timer, independent of the GCD. A ready swing waits until the target is in range
+ * and in front of the attacker; the timer pauses while the attacker casts or channels.
+ * Losing the target (dead, gone or no longer hostile) turns auto-attack off.
+ */
+export class AutoAttackEngine {
+  private readonly outcomeContext: AbilityOutcomeContext = {
+    resolveStats: (mob) => this.resolveCombatStats(mob),
+    hasImmunity: (mob, tag) =>
+      this.getCombatantById(mob.id)?.statusController?.hasImmunity(tag) ?? false,
+  };
+
+  constructor(private readonly zone: ServerZone) {}
+
+  fixedTick(nowMs: number, tickMs: number, serverTick: number): void {
+    for (const attacker of this.iterateCombatants()) {
+      this.update(attacker, nowMs, tickMs, serverTick);
+    }
+  }
+
+  private update(
+    attacker: ServerMob<MobState>,
+    nowMs: number,
+    tickMs: number,
+    serverTick: number,
+  ): void {
+    const synced = attacker.synced;
+    if (!synced.autoAttacking) {
+      return;
+    }
+    const profile = attacker.autoAttack;
+    if (!profile || synced.isDead) {
+      synced.autoAttacking = false;
+      return;
+    }
+
+    const abilityState = synced.abilityState;
+    if (attacker.activeCast) {
+      // A swing still pending when the cast started keeps its remaining time.
+      if (abilityState.nextSwingTimeMs > nowMs) {
+        abilityState.nextSwingTimeMs += tickMs;
+      }
+      return;
+    }
+
+    const target = synced.entityTargetId ? this.getCombatantById(synced.entityTargetId) : undefined;
+    if (!target || target.synced.isDead || !areEnemies(synced, target.synced)) {
+      synced.autoAttacking = false;
+      return;
+    }
+
+    if (nowMs < abilityState.nextSwingTimeMs || !this.canSwing(attacker, target, profile)) {
+      return;
+    }
+    this.swing(attacker, target, profile, nowMs, serverTick);
+    abilityState.nextSwingTimeMs = nowMs + profile.swingIntervalMs;
+  }
+
+  private canSwing(
+    attacker: ServerMob<MobState>,
+    target: ServerMob<MobState>,
+    profile: AutoAttackProfile,
+  ): boolean {
+    const statusController = attacker.statusController;
+    if (statusController?.hasStateFlag("stunned") || statusController?.hasStateFlag("disarmed")) {
+      return false;
+    }
+    const dx = target.synced.x - attacker.synced.x;
+    const dy = target.synced.y - attacker.synced.y;
+    const dz = target.synced.z - attacker.synced.z;
+    if (dx * dx + dy * dy + dz * dz > profile.range * profile.range) {
+      return false;
+    }
+    return isFacingTarget(attacker.synced, target.synced, AUTO_ATTACK_FACING_ARC_DEG);
+  }
+
+  /** Roll the swing, pass its damage through absorbs and redirects, and log it. */
+  private swing(
+    attacker: ServerMob<MobState>,
+    target: ServerMob<MobState>,
+    profile: AutoAttackProfile,
+    nowMs: number,
+    serverTick: number,
+  ): void {
+    const result = resolveAutoAttackOutcome(
+      profile,
+      attacker.synced,
+      target.synced,
+      hashStringToUint32(`${attacker.id}:auto_attack:${nowMs}`),
+      this.outcomeContext,
+    );
+
+    if (result.damage && result.damage > 0) {
+      const incoming = this.zone.statusEngine.resolveIncomingDamage(
+        target,
+        result.damage,
+        profile.school,
+        nowMs,
+      );
+      result.damage = incoming.damage > 0 ? incoming.damage : undefined;
+      if (incoming.absorbed > 0) {
+        result.absorbed = incoming.absorbed;
+      }
+      if (incoming.redirect) {
+        result.redirected = incoming.redirect.amount;
+        result.redirectedToId = incoming.redirect.guardian.id;
+        applyDamage(incoming.redirect.guardian.synced, incoming.redirect.damage);
+      }
+      if (result.damage) {
+        applyDamage(target.synced, result.damage);
+      }
+    }
+
+    const event: AutoAttackEvent = {
+      eventId: 0,
+      category: EventCategory.Combat,
+      eventType: CombatEventType.AutoAttack,
+      serverTick,
+      serverTimeMs: nowMs,
+      contextId: this.zone.zoneData.zoneId,
+      actorId: attacker.id,
+      targetId: target.id,
+      actorOwnerId: this.zone.getPetOwnerId(attacker.id),
+      outcome: result.outcome,
+      damage: result.damage,
+      blockedAmount: result.blockedAmount,
+      absorbed: result.absorbed,
+      redirected: result.redirected,
+      redirectedToId: result.redirectedToId,
+      sourceLocation: { x: attacker.synced.x, y: attacker.synced.y, z: attacker.synced.z },
+    };
+    this.zone.eventLog.append(event);
+
+    this.zone.combatEngine.onAutoAttack(attacker, target, result, nowMs);
+  }
+
+  /** Derived stats (status modifiers applied) for the swing roll; falls back to synced stats. */
+  private resolveCombatStats(mob: MobState): CombatStats {
+    return (
+      this.getCombatantById(mob.id)?.statsController?.getDerivedStats() ?? readCombatStats(mob)
+    );
+  }
+
+  /** Iterate every server-side combatant in the zone. */
+  private *iterateCombatants(): Iterable<ServerMob<MobState>> {
+    for (const player of this.zone.players.values()) {
+      yield player;
+    }
+    for (const npc of this.zone.npcs.values()) {
+      yield npc;
+    }
+  }
+
+  /** Resolve a combatant by id, checking players then NPCs. */
+  private getCombatantById(id: string): ServerMob<MobState> | undefined {
+    return this.zone.players.get(id) ?? this.zone.npcs.get(id);
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  ABILITY_LIST,
+  MobState,
+  computeCombatChances,
+  computeHealingChances,
+  readCombatStats,
+  type CombatChances,
+  type CombatStats,
+} from "@mmo/shared-sim";
+
+export interface CombatChanceTableRow {
+  abilityId: string;
+  name: string;
+  /** Chances rolled for damage effects, if the ability deals damage. */
+  damage?: CombatChances;
+  /** Chances rolled for healing effects, if the ability heals. */
+  healing?: CombatChances;
+}
+
+export interface CombatChanceTable {
+  attacker: CombatStats;
+  defender: CombatStats;
+  abilities: CombatChanceTableRow[];
+}
+
+/**
+ * Read `<prefix>.<stat>` query params (e.g. `attacker.dexterity=40`) over default mob stats.
+ * Unknown or non-numeric values are ignored.
+ */
+export const parseCombatStatsQuery = (
+  query: Record<string, unknown>,
+  prefix: string,
+): CombatStats => {
+  const stats = readCombatStats(new MobState());
+  for (const stat of Object.keys(stats) as (keyof CombatStats)[]) {
+    const raw = query[`${prefix}.${stat}`];
+    const value = typeof raw === "string" ? Number(raw) : Number.NaN;
+    if (Number.isFinite(value)) {
+      stats[stat] = value;
+    }
+  }
+  return stats;
+};
+
+/** Outcome chances for every ability between one attacker and one defender (designer debug view). */
+export const buildCombatChanceTable = (
+  attacker: CombatStats,
+  defender: CombatStats,
+): CombatChanceTable => {
+  const abilities = ABILITY_LIST.map((ability): CombatChanceTableRow => {
+    const row: CombatChanceTableRow = { abilityId: ability.id, name: ability.name };
+    const overrides = "chanceOverrides" in ability ? ability.chanceOverrides : undefined;
+    if (ability.effects.some((effect) => effect.type === "damage")) {
+      row.damage = computeCombatChances(attacker, defender, overrides);
+    }
+    if (ability.effects.some((effect) => effect.type === "healing")) {
+      row.healing = computeHealingChances(attacker, overrides);
+    }
+    return row;
+  });
+  return { attacker, defender, abilities };
+};
@@ -0,0 +1,171 @@
+import {
+  formatCombatContentIssues,
+  getCombatContent,
+  installCombatContent,
+  validateCombatContent,
+  type CombatContentMessage,
+} from "@mmo/shared-sim";
+import { logger } from "@mmo/shared-servers";
+import { watch, type FSWatcher } from "node:fs";
+import { readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+
+export type CombatContentListener = (message: CombatContentMessage) => void;
+
+const ABILITIES_FILE = "abilities.json";
+const STATUSES_FILE = "statuses.json";
+const RELOAD_DEBOUNCE_MS = 200;
+
+const isMissingFile = (error: unknown): boolean =>
+  (error as NodeJS.ErrnoException | undefined)?.code === "ENOENT";
+
+/**
+ * Loads ability and status definitions from the content files in the shared assets, validates
+ * them and installs them over the bundled definitions. In dev the files can be watched; every
+ * successful reload bumps the version and notifies listeners so rooms can resend the content.
+ */
+export class CombatContentLoader {
+  private static readonly CONTENT_ASSET_PATH = "../../packages/assets/combat";
+  private static readonly ICON_ASSET_PATH = "../../packages/assets/icons/llm-slop";
+
+  private version = 0;
+  private readonly listeners = new Set<CombatContentListener>();
+  private watcher?: FSWatcher;
+  private reloadTimeout?: NodeJS.Timeout;
+
+  constructor(
+    private readonly contentDir = path.resolve(
+      process.cwd(),
+      CombatContentLoader.CONTENT_ASSET_PATH,
+    ),
+    private readonly iconDir = path.resolve(process.cwd(), CombatContentLoader.ICON_ASSET_PATH),
+  ) {}
+
+  /**
+   * Reads, validates and installs the content files. Without content files the bundled
+   * definitions stay active.
+   *
+   * @throws when the files are malformed or fail validation; the active definitions are kept.
+   */
+  async load(): Promise<CombatContentMessage> {
+    const [abilities, statuses] = await Promise.all([
+      this.readContentFile(ABILITIES_FILE),
+      this.readContentFile(STATUSES_FILE),
+    ]);
+    if (abilities === undefined && statuses === undefined) {
+      logger.info({ contentDir: this.contentDir }, "No combat content files, using bundled");
+      return this.getMessage();
+    }
+
+    const bundled = getCombatContent();
+    const result = validateCombatContent(
+      abilities ?? bundled.abilities,
+      statuses ?? bundled.statuses,
+      { knownIconIds: await this.readIconIds() },
+    );
+    if (!result.ok) {
+      throw new Error(
+        `Invalid combat content in ${this.contentDir}:\n${formatCombatContentIssues(result.issues)}`,
+      );
+    }
+
+    installCombatContent(result.content);
+    this.version += 1;
+    logger.info(
+      {
+        version: this.version,
+        abilities: Object.keys(result.content.abilities).length,
+        statuses: Object.keys(result.content.statuses).length,
+      },
+      "Combat content loaded",
+    );
+    return this.getMessage();
+  }
+
+  /** The active definitions as sent to clients. */
+  getMessage(): CombatContentMessage {
+    return { type: "combat_content", version: this.version, ...getCombatContent() };
+  }
+
+  /**
+   * Subscribes to successful reloads.
+   *
+   * @returns function that removes the listener.
+   */
+  onReload(listener: CombatContentListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Reloads the content whenever a file in the content directory changes (dev only). */
+  watch(): void {
+    if (this.watcher) {
+      return;
+    }
+    this.watcher = watch(this.contentDir, () => {
+      clearTimeout(this.reloadTimeout);
+      this.reloadTimeout = setTimeout(() => void this.reload(), RELOAD_DEBOUNCE_MS);
+    });
+    logger.info({ contentDir: this.contentDir }, "Watching combat content");
+  }
+
+  stopWatching(): void {
+    clearTimeout(this.reloadTimeout);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Loads the content again and notifies listeners. Invalid edits are logged and ignored so a
+   * half-saved file does not take the server down.
+   */
+  async reload(): Promise<boolean> {
+    let message: CombatContentMessage;
+    try {
+      message = await this.load();
+    } catch (error) {
+      logger.error({ err: error }, "Combat content reload rejected");
+      return false;
+    }
+    for (const listener of this.listeners) {
+      listener(message);
+    }
+    return true;
+  }
+
+  private async readContentFile(fileName: string): Promise<unknown> {
+    const filePath = path.resolve(this.contentDir, fileName);
+    let json: string;
+    try {
+      json = await readFile(filePath, "utf8");
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+    try {
+      return JSON.parse(json) as unknown;
+    } catch (error) {
+      throw new Error(`Failed to parse ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  private async readIconIds(): Promise<string[] | undefined> {
+    try {
+      const files = await readdir(this.iconDir);
+      return files
+        .filter((file) => file.endsWith(".png"))
+        .map((file) => path.basename(file, ".png"));
+    } catch (error) {
+      // Icons are fetched separately; skip the icon check when they are not present.
+      if (isMissingFile(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
+
+/** Shared by the boot sequence and every zone room. */
+export const combatContentLoader = new CombatContentLoader();
@@ -1,7 +1,9 @@
 import {
   CombatEventType,
   EventCategory,
+  STATUS_DEFINITIONS,
   areAllies,
+  type AbilityDefinition,
   type MobEnterCombatEvent,
   type MobExitCombatEvent,
   type MobState,
@@ -11,7 +13,6 @@ import type { ServerMob } from "../world/entities/server-mob";
 import type { ServerZone } from "../world/zones/zone";
 import type { AbilityEvent, AbilityEventListener } from "./ability-events";
 import { ServerNPC } from "../world/entities/npc";
-import { STATUS_DEFINITIONS } from "./status-definitions";
 
 const STATUS_AGGRO_AMOUNT = 50;
 const DAMAGE_AGGRO_MULTIPLIER = 2;
@@ -36,6 +37,9 @@ export class CombatEngine implements AbilityEventListener {
       return;
     }
 
+    const nowMs = event.resolvedAtMs;
+    const threatScale = this.getThreatScale(event.actor, event.ability);
+    const credited = this.getCreditedMob(event.actor);
     for (const effectResult of event.result.effects) {
       const effect = event.ability.effects[effectResult.effectIndex];
       if (!effect || effect.type !== effectResult.effectType) {
@@ -46,7 +50,7 @@ export class CombatEngine implements AbilityEventListener {
         const hostileTargets: ServerMob<MobState>[] = [];
         for (const targetResult of effectResult.targets) {
           const target = this.getCombatantById(targetResult.targetId);
-          if (target) {
+          if (target && !target.synced.isDead) {
             hostileTargets.push(target);
           }
         }
@@ -57,35 +61,122 @@ export class CombatEngine implements AbilityEventListener {
       }
 
       if (effect.type === "damage") {
-        this.applyDamageAggro(event.actor, effectResult.targets);
+        this.applyDamageAggro(credited, effectResult.targets, threatScale, nowMs);
         continue;
       }
 
       if (effect.type === "healing") {
-        this.applyHealingAggro(event.actor, effectResult.targets);
+        this.applyHealingAggro(credited, effectResult.targets, threatScale, nowMs);
         continue;
       }
 
-      this.applyStatusAggro(event.actor, effectResult.targets, effect.statusId);
+      if (effect.type === "taunt") {
+        this.applyTaunt(credited, effectResult.targets, effect.durationMs, threatScale, nowMs);
+        continue;
+      }
+
+      if (effect.type === "threat") {
+        this.applyThreatScaling(credited, effectResult.targets, effect.multiplier);
+        continue;
+      }
+
+      if (effect.type === "status") {
+        this.applyStatusAggro(credited, effectResult.targets, effect.statusId, threatScale, nowMs);
+      }
+    }
+  }
+
+  /** Generate combat state and aggro for a periodic status tick (DoT/HoT) from source. */
+  onStatusTick(
+    source: ServerMob<MobState>,
+    target: ServerMob<MobState>,
+    result: TargetResult,
+    nowMs: number,
+  ): void {
+    if (source.synced.isDead) {
+      return;
+    }
+    const threatScale = this.getThreatScale(source);
+    const credited = this.getCreditedMob(source);
+    if (result.damage && result.damage > 0) {
+      if (!areAllies(source.synced, target.synced)) {
+        this.recordHostileAction(source, [target], nowMs);
+      }
+      this.applyDamageAggro(credited, [result], threatScale, nowMs);
+      return;
+    }
+    if (result.healing && result.healing > 0) {
+      this.applyHealingAggro(credited, [result], threatScale, nowMs);
     }
   }
 
-  /** Mark the actor and targets as in combat and refresh their timers. */
+  /** Generate combat state and aggro for an auto-attack swing; a missed swing still starts a fight. */
+  onAutoAttack(
+    attacker: ServerMob<MobState>,
+    target: ServerMob<MobState>,
+    result: TargetResult,
+    nowMs: number,
+  ): void {
+    this.recordHostileAction(attacker, [target], nowMs);
+    this.applyDamageAggro(
+      this.getCreditedMob(attacker),
+      [result],
+      this.getThreatScale(attacker),
+      nowMs,
+    );
+  }
+
+  /** Mark the actor (and the owner of a pet actor) and targets as in combat. */
   recordHostileAction(
     actor: ServerMob<MobState>,
     targets: Iterable<ServerMob<MobState>>,
     nowMs: number,
   ): void {
     this.markCombatantInCombat(actor, nowMs, "aggro");
+    const credited = this.getCreditedMob(actor);
+    if (credited !== actor) {
+      this.markCombatantInCombat(credited, nowMs, "aggro");
+    }
     for (const target of targets) {
       this.markCombatantInCombat(target, nowMs, "damaged", actor.id);
     }
   }
 
-  /** Clear combat state when no aggro relationships remain. */
+  /**
+   * Drop the NPC's fight and send it home: clear its threat, cast and statuses and make it
+   * immune until `finishEvade`. The AI walks it back to its spawn meanwhile.
+   */
+  evade(npc: ServerNPC, nowMs: number): void {
+    const serverTick = this.zone.getServerTick();
+    npc.leash.evading = true;
+    npc.leash.evadeStartedAtMs = nowMs;
+    npc.aggro.clear();
+    npc.synced.entityTargetId = "";
+    npc.synced.autoAttacking = false;
+    this.zone.abilityEngine.interruptCast(npc, "other", nowMs, serverTick);
+    this.zone.statusEngine.clearStatuses(npc, "other", nowMs);
+    this.zone.statusEngine.applyStatus(npc, npc, STATUS_DEFINITIONS.evading, nowMs);
+    if (npc.synced.inCombat) {
+      this.exitCombat(npc, "evade", nowMs);
+    }
+  }
+
+  /** End an evade once the NPC is back home: heal it fully and make it attackable again. */
+  finishEvade(npc: ServerNPC, nowMs: number): void {
+    npc.leash.evading = false;
+    npc.synced.currentHp = npc.synced.maxHp;
+    npc.synced.mana = npc.synced.maxMana;
+    npc.synced.stamina = npc.synced.maxStamina;
+    this.zone.statusEngine.removeStatus(npc, "evading", "other", nowMs);
+  }
+
+  /** Resolve deaths and clear combat state when no aggro relationships remain. */
   fixedTick(nowMs: number): void {
+    this.processDeaths(nowMs);
+
     const activeIds = this.collectActiveCombatantIds();
     for (const npc of this.zone.npcs.values()) {
+      npc.aggro.update(nowMs);
       npc.aggro.hasAnyTargets(activeIds);
     }
 
@@ -94,23 +185,7 @@ export class CombatEngine implements AbilityEventListener {
         continue;
       }
       if (!this.shouldRemainInCombat(combatant)) {
-        combatant.synced.inCombat = false;
-        const exitEvent: MobExitCombatEvent = {
-          eventId: 0,
-          category: EventCategory.Combat,
-          eventType: CombatEventType.MobExitCombat,
-          serverTick: this.zone.getServerTick(),
-          serverTimeMs: nowMs,
-          contextId: this.zone.zoneData.zoneId,
-          mobId: combatant.id,
-          reason: "timeout",
-          sourceLocation: {
-            x: combatant.synced.x,
-            y: combatant.synced.y,
-            z: combatant.synced.z,
-          },
-        };
-        this.zone.eventLog.append(exitEvent);
+        this.exitCombat(combatant, "timeout", nowMs);
         if (combatant instanceof ServerNPC) {
           combatant.aggro.clear();
         }
@@ -118,6 +193,65 @@ export class CombatEngine implements AbilityEventListener {
     }
   }
 
+  /** Transition combatants whose health reached zero into the dead state. */
+  private processDeaths(nowMs: number): void {
+    for (const combatant of this.iterateCombatants()) {
+      if (combatant.synced.isDead || combatant.synced.currentHp > 0) {
+        continue;
+      }
+      this.handleDeath(combatant, nowMs);
+    }
+  }
+
+  /**
+   * Mark a combatant dead: cancel casting, drop statuses and aggro, dismiss its pets, and leave
+   * combat.
+   * Corpse cleanup (NPC despawn, player release) is handled by the zone.
+   */
+  private handleDeath(combatant: ServerMob<MobState>, nowMs: number): void {
+    const serverTick = this.zone.getServerTick();
+    combatant.synced.isDead = true;
+    combatant.synced.deathTimeMs = nowMs;
+    combatant.synced.currentHp = 0;
+    combatant.synced.entityTargetId = "";
+
+    this.zone.abilityEngine.interruptCast(combatant, "death", nowMs, serverTick);
+    this.zone.statusEngine.clearStatuses(combatant, "death", nowMs);
+    if (combatant instanceof ServerNPC) {
+      combatant.aggro.clear();
+    }
+    this.zone.dismissPets(combatant.id);
+
+    if (combatant.synced.inCombat) {
+      this.exitCombat(combatant, "death", nowMs);
+    }
+  }
+
+  /** Clear the combatant's combat state and record why it left combat. */
+  private exitCombat(
+    combatant: ServerMob<MobState>,
+    reason: MobExitCombatEvent["reason"],
+    nowMs: number,
+  ): void {
+    combatant.synced.inCombat = false;
+    const exitEvent: MobExitCombatEvent = {
+      eventId: 0,
+      category: EventCategory.Combat,
+      eventType: CombatEventType.MobExitCombat,
+      serverTick: this.zone.getServerTick(),
+      serverTimeMs: nowMs,
+      contextId: this.zone.zoneData.zoneId,
+      mobId: combatant.id,
+      reason,
+      sourceLocation: {
+        x: combatant.synced.x,
+        y: combatant.synced.y,
+        z: combatant.synced.z,
+      },
+    };
+    this.zone.eventLog.append(exitEvent);
+  }
+
   /** Set combat state and update the last hostile action timestamp. */
   private markCombatantInCombat(
     combatant: ServerMob<MobState>,
@@ -125,11 +259,18 @@ export class CombatEngine implements AbilityEventListener {
     reason: MobEnterCombatEvent["reason"],
     instigatorId?: string,
   ): void {
+    const isNpc = combatant instanceof ServerNPC;
+    if (isNpc && combatant.leash.evading) {
+      return;
+    }
     const abilityState = combatant.synced.abilityState;
     const wasInCombat = combatant.synced.inCombat;
     combatant.synced.inCombat = true;
     abilityState.lastHostileActionTimeMs = nowMs;
     if (!wasInCombat) {
+      if (isNpc) {
+        combatant.leash.lastDamageAtMs = nowMs;
+      }
       const enterEvent: MobEnterCombatEvent = {
         eventId: 0,
         category: EventCategory.Combat,
@@ -152,7 +293,12 @@ export class CombatEngine implements AbilityEventListener {
 
   private shouldRemainInCombat(combatant: ServerMob<MobState>): boolean {
     if (combatant instanceof ServerNPC) {
-      return combatant.aggro.hasAnyTargets();
+      // Enemies hold the owner rather than the pet responsible, so a pet fights on with it.
+      const ownerId = this.zone.getPetOwnerId(combatant.id);
+      return (
+        combatant.aggro.hasAnyTargets() ||
+        (ownerId !== undefined && this.isAggroedByAnyNpc(ownerId))
+      );
     }
     return this.isAggroedByAnyNpc(combatant.id);
   }
@@ -168,30 +314,56 @@ export class CombatEngine implements AbilityEventListener {
 
   private collectActiveCombatantIds(): Set<string> {
     const ids = new Set<string>();
-    for (const player of this.zone.players.values()) {
-      ids.add(player.id);
-    }
-    for (const npc of this.zone.npcs.values()) {
-      ids.add(npc.id);
+    for (const combatant of this.iterateCombatants()) {
+      if (!combatant.synced.isDead) {
+        ids.add(combatant.id);
+      }
     }
     return ids;
   }
 
-  private applyDamageAggro(actor: ServerMob<MobState>, targets: TargetResult[]): void {
+  /** The mob credited with a mob's threat: a pet's owner, otherwise the mob itself. */
+  private getCreditedMob(mob: ServerMob<MobState>): ServerMob<MobState> {
+    const ownerId = this.zone.getPetOwnerId(mob.id);
+    const owner = ownerId === undefined ? undefined : this.getCombatantById(ownerId);
+    return owner ?? mob;
+  }
+
+  /** Threat multiplier for the actor: the ability's own multiplier times its statuses'. */
+  private getThreatScale(actor: ServerMob<MobState>, ability?: AbilityDefinition): number {
+    const statusMultiplier = actor.statusController?.getThreatMultiplier() ?? 1;
+    return (ability?.threatMultiplier ?? 1) * statusMultiplier;
+  }
+
+  private applyDamageAggro(
+    actor: ServerMob<MobState>,
+    targets: TargetResult[],
+    threatScale: number,
+    nowMs: number,
+  ): void {
     for (const targetResult of targets) {
       const damage = targetResult.damage ?? 0;
       if (damage <= 0) {
         continue;
       }
-      const target = this.getNpcById(targetResult.targetId);
-      if (!target) {
+      if (actor instanceof ServerNPC) {
+        actor.leash.lastDamageAtMs = nowMs;
+      }
+      const target = this.getThreatHolder(targetResult.targetId);
+      if (!target || target.synced.isDead) {
         continue;
       }
-      target.aggro.addAggro(actor.id, damage * DAMAGE_AGGRO_MULTIPLIER);
+      target.leash.lastDamageAtMs = nowMs;
+      target.aggro.addAggro(actor.id, damage * DAMAGE_AGGRO_MULTIPLIER * threatScale, nowMs);
     }
   }
 
-  private applyHealingAggro(actor: ServerMob<MobState>, targets: TargetResult[]): void {
+  private applyHealingAggro(
+    actor: ServerMob<MobState>,
+    targets: TargetResult[],
+    threatScale: number,
+    nowMs: number,
+  ): void {
     for (const targetResult of targets) {
       const healing = targetResult.healing ?? 0;
       if (healing <= 0) {
@@ -204,7 +376,12 @@ export class CombatEngine implements AbilityEventListener {
       if (!areAllies(actor.synced, target.synced)) {
         continue;
       }
-      this.addAggroToEnemiesInCombatWith(target.id, actor.id, healing * HEALING_AGGRO_MULTIPLIER);
+      this.addAggroToEnemiesInCombatWith(
+        target.id,
+        actor.id,
+        healing * HEALING_AGGRO_MULTIPLIER * threatScale,
+        nowMs,
+      );
     }
   }
 
@@ -212,6 +389,8 @@ export class CombatEngine implements AbilityEventListener {
     actor: ServerMob<MobState>,
     targets: TargetResult[],
     statusId: string,
+    threatScale: number,
+    nowMs: number,
   ): void {
     const definition = STATUS_DEFINITIONS[statusId];
     if (!definition) {
@@ -230,11 +409,11 @@ export class CombatEngine implements AbilityEventListener {
       }
 
       if (isDebuff) {
-        const target = this.getNpcById(targetResult.targetId);
+        const target = this.getThreatHolder(targetResult.targetId);
         if (!target) {
           continue;
         }
-        target.aggro.addAggro(actor.id, STATUS_AGGRO_AMOUNT);
+        target.aggro.addAggro(actor.id, STATUS_AGGRO_AMOUNT * threatScale, nowMs);
         continue;
       }
 
@@ -246,12 +425,56 @@ export class CombatEngine implements AbilityEventListener {
         if (!areAllies(actor.synced, target.synced)) {
           continue;
         }
-        this.addAggroToEnemiesInCombatWith(target.id, actor.id, STATUS_AGGRO_AMOUNT);
+        this.addAggroToEnemiesInCombatWith(
+          target.id,
+          actor.id,
+          STATUS_AGGRO_AMOUNT * threatScale,
+          nowMs,
+        );
+      }
+    }
+  }
+
+  /** Taunted NPCs attack the actor for the duration, starting from the NPC's top threat. */
+  private applyTaunt(
+    actor: ServerMob<MobState>,
+    targets: TargetResult[],
+    durationMs: number,
+    threatScale: number,
+    nowMs: number,
+  ): void {
+    for (const targetResult of targets) {
+      if (targetResult.outcome !== "hit") {
+        continue;
       }
+      const target = this.getThreatHolder(targetResult.targetId);
+      if (!target || target.synced.isDead) {
+        continue;
+      }
+      target.aggro.addAggro(actor.id, STATUS_AGGRO_AMOUNT * threatScale, nowMs);
+      target.aggro.applyTaunt(actor.id, durationMs, nowMs);
     }
   }
 
-  private addAggroToEnemiesInCombatWith(allyId: string, sourceId: string, amount: number): void {
+  private applyThreatScaling(
+    actor: ServerMob<MobState>,
+    targets: TargetResult[],
+    multiplier: number,
+  ): void {
+    for (const targetResult of targets) {
+      if (targetResult.outcome !== "hit") {
+        continue;
+      }
+      this.getThreatHolder(targetResult.targetId)?.aggro.scaleAggro(actor.id, multiplier);
+    }
+  }
+
+  private addAggroToEnemiesInCombatWith(
+    allyId: string,
+    sourceId: string,
+    amount: number,
+    nowMs: number,
+  ): void {
     if (amount <= 0) {
       return;
     }
@@ -263,7 +486,7 @@ export class CombatEngine implements AbilityEventListener {
       if (!npc.aggro.hasTarget(allyId)) {
         continue;
       }
-      npc.aggro.addAggro(sourceId, amount);
+      npc.aggro.addAggro(sourceId, amount, nowMs);
     }
   }
 
@@ -286,7 +509,9 @@ export class CombatEngine implements AbilityEventListener {
     return this.zone.npcs.get(id);
   }
 
-  private getNpcById(id: string): ServerNPC | undefined {
-    return this.zone.npcs.get(id);
+  /** The NPC that takes threat under this id; evading NPCs ignore threat until they are home. */
+  private getThreatHolder(id: string): ServerNPC | undefined {
+    const npc = this.zone.npcs.get(id);
+    return npc?.leash.evading ? undefined : npc;
   }
 }
@@ -0,0 +1,195 @@
+import {
+  DAMAGE_SCHOOL_MITIGATION_STAT,
+  type AbilityAck,
+  type AbilityResult,
+  type AbilityUseRequest,
+  type CombatStats,
+  type MobState,
+} from "@mmo/shared-sim";
+import { logger } from "@mmo/shared-servers";
+import { createWriteStream, type WriteStream } from "node:fs";
+import { mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { DISPLACEMENT_IMMUNITY_TAG, type AbilityOutcomeContext } from "./resolve-ability-outcome";
+
+export const COMBAT_RECORDING_VERSION = 1;
+
+/** Immunity tags `resolveAbilityOutcome` asks about: damage schools and displacement. */
+const RECORDED_IMMUNITY_TAGS = [
+  ...Object.keys(DAMAGE_SCHOOL_MITIGATION_STAT),
+  DISPLACEMENT_IMMUNITY_TAG,
+];
+
+/** Everything the outcome resolver reads from a mob, captured at resolve time. */
+export interface RecordedCombatant {
+  id: string;
+  factionId: string;
+  stats: CombatStats;
+  immunities: string[];
+}
+
+export interface CombatRecordingHeader {
+  kind: "header";
+  version: number;
+  zoneId: string;
+  startedAtMs: number;
+}
+
+/** An ability request and the ack the server answered it with. */
+export interface CombatRecordingRequest {
+  kind: "request";
+  serverTick: number;
+  serverTimeMs: number;
+  request: AbilityUseRequest;
+  accepted: boolean;
+  rejectReason?: AbilityAck["rejectReason"];
+}
+
+/** One call to `resolveAbilityOutcome` with its inputs and result. */
+export interface CombatRecordingOutcome {
+  kind: "outcome";
+  serverTick: number;
+  requestId: string;
+  abilityId: string;
+  rngSeed: number;
+  damageMultiplier: number;
+  actor: RecordedCombatant;
+  targets: RecordedCombatant[];
+  result: AbilityResult;
+}
+
+export type CombatRecordingEntry =
+  | CombatRecordingHeader
+  | CombatRecordingRequest
+  | CombatRecordingOutcome;
+
+/** Inputs of an outcome roll as the ability engine sees them. */
+export interface RecordedOutcomeInput {
+  serverTick: number;
+  requestId: string;
+  abilityId: string;
+  rngSeed: number;
+  damageMultiplier: number;
+  actor: MobState;
+  targets: MobState[];
+  result: AbilityResult;
+}
+
+/**
+ * Appends ability requests and outcome rolls to a JSON Lines file so a fight can be replayed
+ * through `resolveAbilityOutcome` later (see `scripts/replay-combat.ts`). A failing file turns
+ * the recorder off instead of taking the zone down with it.
+ */
+export class CombatRecorder {
+  private failed = false;
+
+  private constructor(
+    private readonly stream: WriteStream,
+    readonly filePath: string,
+  ) {
+    stream.on("error", (error) => {
+      this.failed = true;
+      logger.error({ err: error, filePath }, "Combat recording failed, recorder turned off");
+    });
+  }
+
+  /** False once the file stream has failed; later records are dropped. */
+  get active(): boolean {
+    return !this.failed;
+  }
+
+  /** Opens `filePath` for appending and writes the recording header. */
+  static async open(filePath: string, zoneId: string, nowMs = Date.now()): Promise<CombatRecorder> {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const recorder = new CombatRecorder(createWriteStream(filePath, { flags: "a" }), filePath);
+    recorder.write({
+      kind: "header",
+      version: COMBAT_RECORDING_VERSION,
+      zoneId,
+      startedAtMs: nowMs,
+    });
+    return recorder;
+  }
+
+  recordRequest(
+    request: AbilityUseRequest,
+    ack: AbilityAck,
+    serverTick: number,
+    serverTimeMs: number,
+  ): void {
+    this.write({
+      kind: "request",
+      serverTick,
+      serverTimeMs,
+      request,
+      accepted: ack.accepted,
+      rejectReason: ack.rejectReason,
+    });
+  }
+
+  /** Records an outcome, resolving stats and immunities through the same context as the roll. */
+  recordOutcome(input: RecordedOutcomeInput, context: AbilityOutcomeContext): void {
+    const snapshot = (mob: MobState): RecordedCombatant => ({
+      id: mob.id,
+      factionId: mob.factionId,
+      stats: { ...context.resolveStats(mob) },
+      immunities: RECORDED_IMMUNITY_TAGS.filter((tag) => context.hasImmunity(mob, tag)),
+    });
+    this.write({
+      kind: "outcome",
+      serverTick: input.serverTick,
+      requestId: input.requestId,
+      abilityId: input.abilityId,
+      rngSeed: input.rngSeed,
+      damageMultiplier: input.damageMultiplier,
+      actor: snapshot(input.actor),
+      targets: input.targets.map((target) => snapshot(target)),
+      result: structuredClone(input.result),
+    });
+  }
+
+  /** Flushes pending writes and closes the file. */
+  async close(): Promise<void> {
+    if (this.failed || this.stream.destroyed) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.stream.end((error?: Error | null) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private write(entry: CombatRecordingEntry): void {
+    if (this.failed) {
+      return;
+    }
+    this.stream.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Reads a recording written by `CombatRecorder`.
+ *
+ * @throws when a line is not valid JSON or the recording version is unsupported.
+ */
+export async function readCombatRecording(filePath: string): Promise<CombatRecordingEntry[]> {
+  const text = await readFile(filePath, "utf8");
+  const entries: CombatRecordingEntry[] = [];
+  for (const [index, line] of text.split("\n").entries()) {
+    if (line.trim() === "") {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as CombatRecordingEntry);
+    } catch (error) {
+      throw new Error(`Invalid recording line ${index + 1} in ${filePath}: ${String(error)}`);
+    }
+  }
+  for (const entry of entries) {
+    if (entry.kind === "header" && entry.version !== COMBAT_RECORDING_VERSION) {
+      throw new Error(
+        `Unsupported combat recording version ${entry.version} in ${filePath} (expected ${COMBAT_RECORDING_VERSION})`,
+      );
+    }
+  }
+  return entries;
+}
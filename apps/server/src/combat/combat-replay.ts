@@ -0,0 +1,162 @@
+import {
+  ABILITY_DEFINITIONS,
+  type AbilityDefinition,
+  type AbilityResult,
+  type MobState,
+} from "@mmo/shared-sim";
+import type {
+  CombatRecordingEntry,
+  CombatRecordingOutcome,
+  RecordedCombatant,
+} from "./combat-recorder";
+import {
+  applyDamageMultiplier,
+  resolveAbilityOutcome,
+  type AbilityOutcomeContext,
+} from "./resolve-ability-outcome";
+
+/** A recorded outcome the current code resolves differently. */
+export interface CombatReplayDivergence {
+  /** Index of the outcome entry in the recording. */
+  entryIndex: number;
+  serverTick: number;
+  requestId: string;
+  abilityId: string;
+  /** One line per differing field, e.g. `effects[0].targets[0].damage: 12 -> 14`. */
+  differences: string[];
+}
+
+export interface CombatReplayReport {
+  requests: number;
+  rejectedRequests: number;
+  outcomes: number;
+  divergences: CombatReplayDivergence[];
+}
+
+const MAX_DIFFERENCES_PER_OUTCOME = 20;
+
+const formatValue = (value: unknown): string =>
+  value === undefined ? "undefined" : JSON.stringify(value);
+
+const collectDifferences = (
+  recorded: unknown,
+  replayed: unknown,
+  path: string,
+  differences: string[],
+): void => {
+  if (differences.length >= MAX_DIFFERENCES_PER_OUTCOME) {
+    return;
+  }
+  if (Array.isArray(recorded) && Array.isArray(replayed)) {
+    const length = Math.max(recorded.length, replayed.length);
+    for (let index = 0; index < length; index += 1) {
+      collectDifferences(recorded[index], replayed[index], `${path}[${index}]`, differences);
+    }
+    return;
+  }
+  if (
+    typeof recorded === "object" &&
+    recorded !== null &&
+    typeof replayed === "object" &&
+    replayed !== null &&
+    !Array.isArray(recorded) &&
+    !Array.isArray(replayed)
+  ) {
+    const left = recorded as Record<string, unknown>;
+    const right = replayed as Record<string, unknown>;
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    for (const key of keys) {
+      collectDifferences(left[key], right[key], path ? `${path}.${key}` : key, differences);
+    }
+    return;
+  }
+  if (recorded !== replayed) {
+    differences.push(`${path || "result"}: ${formatValue(recorded)} -> ${formatValue(replayed)}`);
+  }
+};
+
+const toMobState = (combatant: RecordedCombatant): MobState =>
+  ({ id: combatant.id, factionId: combatant.factionId }) as MobState;
+
+/**
+ * Re-rolls a recorded outcome with the current ability definitions and resolver, using the
+ * recorded seed, stats and immunities in place of live zone state.
+ *
+ * @returns undefined when the ability no longer exists.
+ */
+export const replayOutcome = (entry: CombatRecordingOutcome): AbilityResult | undefined => {
+  const ability = ABILITY_DEFINITIONS[entry.abilityId as keyof typeof ABILITY_DEFINITIONS] as
+    | AbilityDefinition
+    | undefined;
+  if (!ability) {
+    return undefined;
+  }
+
+  const combatants = new Map(
+    [entry.actor, ...entry.targets].map((combatant) => [combatant.id, combatant]),
+  );
+  const context: AbilityOutcomeContext = {
+    resolveStats: (mob) => {
+      const combatant = combatants.get(mob.id);
+      if (!combatant) {
+        throw new Error(`Combatant ${mob.id} missing from recorded outcome ${entry.requestId}`);
+      }
+      return combatant.stats;
+    },
+    hasImmunity: (mob, tag) => combatants.get(mob.id)?.immunities.includes(tag) ?? false,
+  };
+  const result = resolveAbilityOutcome(
+    ability,
+    toMobState(entry.actor),
+    entry.targets.map((target) => toMobState(target)),
+    entry.rngSeed,
+    context,
+  );
+  applyDamageMultiplier(result, entry.damageMultiplier);
+  return result;
+};
+
+/** Replays every outcome in a recording and collects the ones that no longer match. */
+export const replayCombatRecording = (
+  entries: readonly CombatRecordingEntry[],
+): CombatReplayReport => {
+  const report: CombatReplayReport = {
+    requests: 0,
+    rejectedRequests: 0,
+    outcomes: 0,
+    divergences: [],
+  };
+
+  for (const [entryIndex, entry] of entries.entries()) {
+    if (entry.kind === "request") {
+      report.requests += 1;
+      if (!entry.accepted) {
+        report.rejectedRequests += 1;
+      }
+      continue;
+    }
+    if (entry.kind !== "outcome") {
+      continue;
+    }
+
+    report.outcomes += 1;
+    const replayed = replayOutcome(entry);
+    const differences: string[] = [];
+    if (replayed) {
+      collectDifferences(entry.result, replayed, "", differences);
+    } else {
+      differences.push(`ability ${entry.abilityId} no longer exists`);
+    }
+    if (differences.length > 0) {
+      report.divergences.push({
+        entryIndex,
+        serverTick: entry.serverTick,
+        requestId: entry.requestId,
+        abilityId: entry.abilityId,
+        differences,
+      });
+    }
+  }
+
+  return report;
+};
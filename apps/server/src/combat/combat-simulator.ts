@@ -0,0 +1,464 @@
+import {
+  ABILITY_DEFINITIONS,
+  CombatEventType,
+  NPCState,
+  PlayerState,
+  TICK_MS,
+  type AbilityAck,
+  type AbilityDefinition,
+  type AbilityEffectAppliedEvent,
+  type AbilityUseRequest,
+  type AutoAttackEvent,
+  type CombatStats,
+  type MobState,
+  type StatusTickEvent,
+  type TargetSpec,
+} from "@mmo/shared-sim";
+import { ServerNPC } from "../world/entities/npc";
+import { ServerPlayer } from "../world/entities/player";
+import type { ServerMob } from "../world/entities/server-mob";
+import type { ServerZone } from "../world/zones/zone";
+
+/** Stats a simulated actor can override; resources start full either way. */
+export type CombatSimStats = Partial<CombatStats>;
+
+export interface CombatSimActor {
+  id: string;
+  kind: "player" | "npc";
+  factionId: string;
+  /** Offset from the environment origin; actors hold their position for the whole fight. */
+  position?: { x: number; z: number };
+  stats?: CombatSimStats;
+  /** Ability ids in priority order; each tick the first usable one is cast. */
+  rotation: string[];
+  /** Actor the rotation is aimed at; ally abilities fall back to the actor itself. */
+  targetId?: string;
+  /**
+   * Auto-attack `targetId` between casts. NPCs also start swinging on their own at whatever
+   * they hold aggro on once it is in melee range.
+   */
+  autoAttack?: boolean;
+}
+
+export interface CombatSimScenario {
+  actors: CombatSimActor[];
+  durationMs: number;
+  iterations: number;
+  /** Mixed into every request id, which seeds the outcome rolls. */
+  seed: string;
+}
+
+export interface CombatSimEnvironment {
+  /** Builds a fresh zone for one iteration. */
+  createZone: () => ServerZone;
+  /** World position actor offsets are relative to (a walkable point on the zone navmesh). */
+  origin: { x: number; y: number; z: number };
+}
+
+export interface CombatSimSummary {
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+export interface CombatSimActorReport {
+  id: string;
+  dps: CombatSimSummary;
+  hps: CombatSimSummary;
+  /** Mean casts per iteration, by ability id. */
+  abilityUses: Record<string, number>;
+  /** Shares of the actor's damage rolls across all iterations. */
+  critRate: number;
+  dodgeRate: number;
+  missRate: number;
+  blockRate: number;
+  /** Share of iterations in which the actor died. */
+  deathRate: number;
+  /** When the actor died, from the start of the fight; omitted when it never did. */
+  timeToDeathMs?: CombatSimSummary;
+  /** Share of iterations in which a cast was rejected for lack of resources. */
+  starvationRate: number;
+  /** First resource rejection, from the start of the fight; omitted when it never happened. */
+  firstStarvedAtMs?: CombatSimSummary;
+}
+
+export interface CombatSimReport {
+  iterations: number;
+  durationMs: number;
+  seed: string;
+  /** Length of each fight; shorter than `durationMs` when one side was wiped out. */
+  fightDurationMs: CombatSimSummary;
+  actors: CombatSimActorReport[];
+}
+
+interface ActorIterationStats {
+  damageDone: number;
+  healingDone: number;
+  abilityUses: Map<string, number>;
+  damageRolls: number;
+  crits: number;
+  dodges: number;
+  misses: number;
+  blocks: number;
+  diedAtMs?: number;
+  firstStarvedAtMs?: number;
+}
+
+interface SimulatedActor {
+  config: CombatSimActor;
+  mob: ServerMob<MobState>;
+  rotation: AbilityDefinition[];
+  stats: ActorIterationStats;
+  nextRequest: number;
+}
+
+interface IterationResult {
+  fightDurationMs: number;
+  /** In scenario actor order. */
+  stats: ActorIterationStats[];
+}
+
+const FIGHT_START_MS = 1000;
+
+const getAbility = (abilityId: string): AbilityDefinition | undefined =>
+  ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS] as
+    | AbilityDefinition
+    | undefined;
+
+const summarize = (values: readonly number[]): CombatSimSummary => {
+  if (values.length === 0) {
+    return { mean: 0, stdDev: 0, min: 0, max: 0 };
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return {
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: Math.min(...values),
+    max: Math.max(...values),
+  };
+};
+
+const ratio = (count: number, total: number): number => (total > 0 ? count / total : 0);
+
+const validateScenario = (scenario: CombatSimScenario): void => {
+  if (scenario.iterations < 1 || scenario.durationMs <= 0) {
+    throw new Error("Combat simulation needs at least one iteration and a positive duration");
+  }
+  const actorIds = new Set<string>();
+  for (const actor of scenario.actors) {
+    if (actorIds.has(actor.id)) {
+      throw new Error(`Duplicate simulated actor ${actor.id}`);
+    }
+    actorIds.add(actor.id);
+    for (const abilityId of actor.rotation) {
+      if (!getAbility(abilityId)) {
+        throw new Error(`Unknown ability ${abilityId} in rotation of ${actor.id}`);
+      }
+    }
+  }
+  for (const actor of scenario.actors) {
+    if (actor.targetId !== undefined && !actorIds.has(actor.targetId)) {
+      throw new Error(`Unknown target ${actor.targetId} for ${actor.id}`);
+    }
+  }
+};
+
+const spawnActor = (
+  zone: ServerZone,
+  environment: CombatSimEnvironment,
+  config: CombatSimActor,
+): ServerMob<MobState> => {
+  const state = config.kind === "player" ? new PlayerState() : new NPCState();
+  state.id = config.id;
+  state.name = config.id;
+  state.factionId = config.factionId;
+  state.x = environment.origin.x + (config.position?.x ?? 0);
+  state.y = environment.origin.y;
+  state.z = environment.origin.z + (config.position?.z ?? 0);
+  for (const [stat, value] of Object.entries(config.stats ?? {}) as [keyof CombatStats, number][]) {
+    state[stat] = value;
+  }
+  state.currentHp = state.maxHp;
+  state.mana = state.maxMana;
+  state.stamina = state.maxStamina;
+
+  if (state instanceof PlayerState) {
+    state.playerId = config.id;
+    const player = new ServerPlayer(state);
+    zone.players.set(config.id, player);
+    return player;
+  }
+  const npc = new ServerNPC(state);
+  // Scenario positions are part of the setup, and moving would cancel the scripted casts.
+  npc.aiConfig.holdPosition = true;
+  zone.npcs.set(config.id, npc);
+  return npc;
+};
+
+const buildTarget = (
+  ability: AbilityDefinition,
+  actor: SimulatedActor,
+  target: ServerMob<MobState> | undefined,
+): TargetSpec => {
+  switch (ability.targetType) {
+    case "self": {
+      return { targetEntityId: actor.mob.id };
+    }
+    case "ground": {
+      const point = target?.synced ?? actor.mob.synced;
+      return { targetPoint: { x: point.x, y: point.y, z: point.z } };
+    }
+    case "ally": {
+      const ally = target?.synced.factionId === actor.mob.synced.factionId ? target : actor.mob;
+      return { targetEntityId: ally.id };
+    }
+    case "enemy": {
+      return { targetEntityId: target?.id };
+    }
+  }
+};
+
+const countDamageRoll = (
+  stats: ActorIterationStats,
+  outcome: AbilityEffectAppliedEvent["outcome"],
+): void => {
+  stats.damageRolls += 1;
+  stats.crits += outcome === "crit" ? 1 : 0;
+  stats.dodges += outcome === "dodged" ? 1 : 0;
+  stats.misses += outcome === "miss" ? 1 : 0;
+  stats.blocks += outcome === "blocked" ? 1 : 0;
+};
+
+/**
+ * Runs one fight: each tick, every living actor that is free to act submits the first usable
+ * ability of its rotation through the ability engine, then the zone advances a fixed tick.
+ */
+const runIteration = (
+  scenario: CombatSimScenario,
+  environment: CombatSimEnvironment,
+  iteration: number,
+): IterationResult => {
+  const zone = environment.createZone();
+  const actors = scenario.actors.map(
+    (config): SimulatedActor => ({
+      config,
+      mob: spawnActor(zone, environment, config),
+      rotation: config.rotation.flatMap((abilityId) => getAbility(abilityId) ?? []),
+      stats: {
+        damageDone: 0,
+        healingDone: 0,
+        abilityUses: new Map(),
+        damageRolls: 0,
+        crits: 0,
+        dodges: 0,
+        misses: 0,
+        blocks: 0,
+      },
+      nextRequest: 1,
+    }),
+  );
+  const mobsById = new Map(actors.map((actor) => [actor.mob.id, actor.mob]));
+  for (const actor of actors) {
+    const target = actor.config.targetId ? mobsById.get(actor.config.targetId) : undefined;
+    if (target && target !== actor.mob) {
+      actor.mob.synced.facingYaw = Math.atan2(
+        target.synced.x - actor.mob.synced.x,
+        target.synced.z - actor.mob.synced.z,
+      );
+      if (actor.config.autoAttack) {
+        actor.mob.synced.entityTargetId = target.id;
+        actor.mob.synced.autoAttacking = true;
+      }
+    }
+  }
+  const statsById = new Map(actors.map((actor) => [actor.mob.id, actor.stats]));
+
+  let eventCursor = zone.eventLog.getBuffer().latestSeq ?? 0;
+  let nowMs = FIGHT_START_MS;
+  const endMs = FIGHT_START_MS + scenario.durationMs;
+
+  const submit = (actor: SimulatedActor): void => {
+    const synced = actor.mob.synced;
+    if (
+      synced.isDead ||
+      actor.mob.activeCast ||
+      actor.mob.bufferedRequest ||
+      synced.abilityState.isInternalCooldownActive(nowMs)
+    ) {
+      return;
+    }
+    const target = actor.config.targetId ? mobsById.get(actor.config.targetId) : undefined;
+    if (target?.synced.isDead) {
+      return;
+    }
+    const actorStats = actor.stats;
+    const serverTick = zone.getServerTick();
+
+    for (const ability of actor.rotation) {
+      const abilityId = ability.id;
+      if (ability.isOnGcd && !synced.abilityState.isGcdReady(nowMs)) {
+        continue;
+      }
+      if (!actor.mob.cooldowns.isReady(ability, nowMs)) {
+        continue;
+      }
+      const request: AbilityUseRequest = {
+        type: "ability_use",
+        requestId: `sim-${scenario.seed}-${iteration}-${actor.mob.id}-${actor.nextRequest}`,
+        sequence: actor.nextRequest,
+        clientTick: serverTick,
+        actorId: actor.mob.id,
+        abilityId,
+        target: buildTarget(ability, actor, target),
+        clientTimeMs: nowMs,
+      };
+      actor.nextRequest += 1;
+      let ack: AbilityAck | undefined;
+      zone.abilityEngine.handleAbilityUse({
+        request,
+        actor: actor.mob,
+        serverTimeMs: nowMs,
+        serverTick,
+        sendAck: (sent) => {
+          ack = sent;
+        },
+      });
+      if (ack?.accepted) {
+        actorStats.abilityUses.set(abilityId, (actorStats.abilityUses.get(abilityId) ?? 0) + 1);
+        return;
+      }
+      if (ack?.rejectReason === "resources") {
+        actorStats.firstStarvedAtMs ??= nowMs - FIGHT_START_MS;
+      }
+    }
+  };
+
+  const collectEvents = (): void => {
+    const range = zone.eventLog.getBuffer().getSince(eventCursor);
+    if (!range) {
+      throw new Error("Combat simulation fell behind the zone event log");
+    }
+    eventCursor = range.toSeq;
+    for (const entry of range.entries) {
+      switch (entry.eventType) {
+        case CombatEventType.AbilityEffectApplied: {
+          const event = entry as AbilityEffectAppliedEvent;
+          const actorStats = statsById.get(event.actorId);
+          if (!actorStats) {
+            continue;
+          }
+          actorStats.damageDone += event.damage ?? 0;
+          actorStats.healingDone += event.healing ?? 0;
+          const effect = getAbility(event.abilityId)?.effects[event.effectId];
+          if (effect?.type !== "damage") {
+            continue;
+          }
+          countDamageRoll(actorStats, event.outcome);
+          break;
+        }
+        case CombatEventType.AutoAttack: {
+          const event = entry as AutoAttackEvent;
+          const actorStats = statsById.get(event.actorId);
+          if (!actorStats) {
+            continue;
+          }
+          actorStats.damageDone += event.damage ?? 0;
+          countDamageRoll(actorStats, event.outcome);
+          break;
+        }
+        case CombatEventType.StatusTick: {
+          const event = entry as StatusTickEvent;
+          const actorStats = statsById.get(event.sourceId);
+          if (actorStats) {
+            actorStats.damageDone += event.damage ?? 0;
+            actorStats.healingDone += event.healing ?? 0;
+          }
+          break;
+        }
+        // No default
+      }
+    }
+  };
+
+  const livingFactions = (): number =>
+    new Set(
+      actors.filter((actor) => !actor.mob.synced.isDead).map((actor) => actor.config.factionId),
+    ).size;
+
+  while (nowMs < endMs && livingFactions() > 1) {
+    for (const actor of actors) {
+      submit(actor);
+    }
+    nowMs += TICK_MS;
+    zone.fixedTick(nowMs, TICK_MS);
+    collectEvents();
+    for (const actor of actors) {
+      if (actor.mob.synced.isDead && actor.stats.diedAtMs === undefined) {
+        actor.stats.diedAtMs = nowMs - FIGHT_START_MS;
+      }
+    }
+  }
+
+  return { fightDurationMs: nowMs - FIGHT_START_MS, stats: actors.map((actor) => actor.stats) };
+};
+
+/**
+ * Runs a scenario many times on fresh zones and aggregates throughput, roll outcomes, deaths
+ * and resource starvation per actor. Rolls are seeded from the request ids, so the same
+ * scenario, seed and definitions always produce the same report.
+ *
+ * @throws when the scenario references unknown abilities or actors.
+ */
+export const runCombatSimulation = (
+  scenario: CombatSimScenario,
+  environment: CombatSimEnvironment,
+): CombatSimReport => {
+  validateScenario(scenario);
+
+  const results: IterationResult[] = [];
+  for (let iteration = 0; iteration < scenario.iterations; iteration += 1) {
+    results.push(runIteration(scenario, environment, iteration));
+  }
+  const fightDurations = results.map((result) => result.fightDurationMs);
+
+  return {
+    iterations: scenario.iterations,
+    durationMs: scenario.durationMs,
+    seed: scenario.seed,
+    fightDurationMs: summarize(fightDurations),
+    actors: scenario.actors.map((actor, actorIndex): CombatSimActorReport => {
+      const runs = results.map((result) => result.stats[actorIndex]);
+      const sum = (read: (run: ActorIterationStats) => number): number =>
+        runs.reduce((total, run) => total + read(run), 0);
+      const perSecond = (read: (run: ActorIterationStats) => number): number[] =>
+        runs.map((run, index) => read(run) / (fightDurations[index] / 1000));
+      const abilityUses: Record<string, number> = {};
+      for (const abilityId of actor.rotation) {
+        abilityUses[abilityId] = sum((run) => run.abilityUses.get(abilityId) ?? 0) / runs.length;
+      }
+      const damageRolls = sum((run) => run.damageRolls);
+      const rollRate = (read: (run: ActorIterationStats) => number): number =>
+        ratio(sum(read), damageRolls);
+      const deaths = runs.flatMap((run) => (run.diedAtMs === undefined ? [] : [run.diedAtMs]));
+      const starved = runs.flatMap((run) =>
+        run.firstStarvedAtMs === undefined ? [] : [run.firstStarvedAtMs],
+      );
+      return {
+        id: actor.id,
+        dps: summarize(perSecond((run) => run.damageDone)),
+        hps: summarize(perSecond((run) => run.healingDone)),
+        abilityUses,
+        critRate: rollRate((run) => run.crits),
+        dodgeRate: rollRate((run) => run.dodges),
+        missRate: rollRate((run) => run.misses),
+        blockRate: rollRate((run) => run.blocks),
+        deathRate: deaths.length / runs.length,
+        timeToDeathMs: deaths.length > 0 ? summarize(deaths) : undefined,
+        starvationRate: starved.length / runs.length,
+        firstStarvedAtMs: starved.length > 0 ? summarize(starved) : undefined,
+      };
+    }),
+  };
+};
@@ -0,0 +1,229 @@
+import { hasLineOfSight, type DisplacementEffect, type MobState } from "@mmo/shared-sim";
+import { ServerPlayer } from "../world/entities/player";
+import type { ServerMob } from "../world/entities/server-mob";
+import type { ServerZone } from "../world/zones/zone";
+
+/** Pulled targets stop this far in front of the actor. */
+const PULL_STOP_DISTANCE = 1.5;
+/** Binary-search steps used to shorten a displacement that would pass through collision. */
+const COLLISION_CLAMP_STEPS = 6;
+const MIN_DISPLACEMENT_DISTANCE = 0.01;
+
+interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface DisplacementDestination extends Point {
+  /** Navmesh node at the destination, when the navmesh resolved one. */
+  nodeRef?: number;
+}
+
+/**
+ * Resolves and plays forced movement (knockback, pull, leap, dash) for a zone.
+ * Destinations are validated against the navmesh and shortened to stay clear of collision;
+ * displaced mobs are moved along a straight line each tick and ignore their own movement input.
+ */
+export class DisplacementEngine {
+  constructor(private readonly zone: ServerZone) {}
+
+  /**
+   * Resolve where a displacement effect would move `mob`.
+   * Returns undefined when the mob would not move (e.g. already at the actor).
+   */
+  resolveDestination(
+    effect: DisplacementEffect,
+    actor: ServerMob<MobState>,
+    mob: ServerMob<MobState>,
+    targetPosition?: Point,
+  ): DisplacementDestination | undefined {
+    const origin = mob.synced;
+    let directionX = 0;
+    let directionZ = 0;
+    let distance = effect.distance;
+
+    switch (effect.kind) {
+      case "knockback": {
+        directionX = origin.x - actor.synced.x;
+        directionZ = origin.z - actor.synced.z;
+        if (directionX * directionX + directionZ * directionZ < MIN_DISPLACEMENT_DISTANCE) {
+          // Stacked on the actor: push along the actor's facing.
+          directionX = Math.sin(actor.synced.facingYaw);
+          directionZ = Math.cos(actor.synced.facingYaw);
+        }
+        break;
+      }
+      case "pull": {
+        directionX = actor.synced.x - origin.x;
+        directionZ = actor.synced.z - origin.z;
+        distance = Math.min(distance, Math.hypot(directionX, directionZ) - PULL_STOP_DISTANCE);
+        break;
+      }
+      case "leap": {
+        if (!targetPosition) {
+          return undefined;
+        }
+        directionX = targetPosition.x - origin.x;
+        directionZ = targetPosition.z - origin.z;
+        distance = Math.min(distance, Math.hypot(directionX, directionZ));
+        break;
+      }
+      case "dash": {
+        directionX = Math.sin(origin.facingYaw);
+        directionZ = Math.cos(origin.facingYaw);
+        break;
+      }
+    }
+
+    const length = Math.hypot(directionX, directionZ);
+    if (length < MIN_DISPLACEMENT_DISTANCE || distance < MIN_DISPLACEMENT_DISTANCE) {
+      return undefined;
+    }
+
+    const moveX = (directionX / length) * distance;
+    const moveZ = (directionZ / length) * distance;
+    const navmeshResult = this.zone.zoneData.navmeshQuery.validateMovement(
+      origin.x,
+      origin.z,
+      moveX,
+      moveZ,
+      mob.navmeshNodeRef,
+    );
+    const destination = this.clampToCollision(origin, {
+      x: navmeshResult.x,
+      y: navmeshResult.y,
+      z: navmeshResult.z,
+    });
+    if (
+      Math.hypot(destination.x - origin.x, destination.z - origin.z) < MIN_DISPLACEMENT_DISTANCE
+    ) {
+      return undefined;
+    }
+    const clamped = destination.x !== navmeshResult.x || destination.z !== navmeshResult.z;
+    return clamped ? destination : { ...destination, nodeRef: navmeshResult.nodeRef };
+  }
+
+  /**
+   * Start moving `mob` to `destination` over `durationMs`. Player clients are snapped with the
+   * duration so they play the move locally; movement input is held until they acknowledge it.
+   */
+  startDisplacement(
+    mob: ServerMob<MobState>,
+    destination: DisplacementDestination,
+    durationMs: number,
+    nowMs: number,
+  ): void {
+    const to = { x: destination.x, y: destination.y, z: destination.z };
+    mob.activeDisplacement = {
+      from: { x: mob.synced.x, y: mob.synced.y, z: mob.synced.z },
+      to,
+      startTimeMs: nowMs,
+      endTimeMs: nowMs + Math.max(0, durationMs),
+      nodeRef: destination.nodeRef,
+    };
+    mob.navmeshNodeRef = undefined;
+
+    if (mob instanceof ServerPlayer) {
+      mob.pendingInputs.length = 0;
+      mob.inputBudgetTicks = 0;
+      mob.snapLocked = true;
+      mob.snapTarget = { ...to };
+      mob.snapPending = {
+        ...to,
+        seq: mob.synced.lastProcessedSeq,
+        durationMs,
+      };
+    }
+
+    if (durationMs <= 0) {
+      this.advance(mob, nowMs);
+    }
+  }
+
+  isDisplaced(mob: ServerMob<MobState>): boolean {
+    return mob.activeDisplacement !== undefined;
+  }
+
+  /** Advance in-progress displacements; stops them early for dead or rooted mobs. */
+  fixedTick(nowMs: number): void {
+    for (const combatant of this.iterateCombatants()) {
+      if (!combatant.activeDisplacement) {
+        continue;
+      }
+      if (combatant.synced.isDead || combatant.statusController?.hasStateFlag("rooted")) {
+        this.stop(combatant);
+        continue;
+      }
+      this.advance(combatant, nowMs);
+    }
+  }
+
+  private advance(mob: ServerMob<MobState>, nowMs: number): void {
+    const displacement = mob.activeDisplacement;
+    if (!displacement) {
+      return;
+    }
+    const durationMs = displacement.endTimeMs - displacement.startTimeMs;
+    const t = durationMs <= 0 ? 1 : Math.min(1, (nowMs - displacement.startTimeMs) / durationMs);
+    const { from, to } = displacement;
+    mob.synced.x = from.x + (to.x - from.x) * t;
+    mob.synced.y = from.y + (to.y - from.y) * t;
+    mob.synced.z = from.z + (to.z - from.z) * t;
+    if (t >= 1) {
+      mob.activeDisplacement = undefined;
+      mob.navmeshNodeRef = displacement.nodeRef;
+    }
+  }
+
+  /** End a displacement where the mob currently is; players are re-snapped to that spot. */
+  private stop(mob: ServerMob<MobState>): void {
+    mob.activeDisplacement = undefined;
+    if (mob instanceof ServerPlayer && mob.snapLocked) {
+      const position = { x: mob.synced.x, y: mob.synced.y, z: mob.synced.z };
+      mob.snapTarget = position;
+      mob.snapPending = { ...position, seq: mob.synced.lastProcessedSeq };
+    }
+  }
+
+  /** Shorten the move so the straight path from `from` stays clear of collision meshes. */
+  private clampToCollision(from: Point, to: Point): Point {
+    const collisionWorld = this.zone.zoneData.collisionWorld;
+    if (!collisionWorld) {
+      return to;
+    }
+    const isClear = (point: Point) =>
+      hasLineOfSight(collisionWorld.scene, from, point, collisionWorld.lineOfSightOptions);
+    if (isClear(to)) {
+      return to;
+    }
+
+    let clearRatio = 0;
+    let blockedRatio = 1;
+    for (let step = 0; step < COLLISION_CLAMP_STEPS; step += 1) {
+      const ratio = (clearRatio + blockedRatio) / 2;
+      if (isClear(lerpPoint(from, to, ratio))) {
+        clearRatio = ratio;
+      } else {
+        blockedRatio = ratio;
+      }
+    }
+    return lerpPoint(from, to, clearRatio);
+  }
+
+  /** Iterate every server-side combatant in the zone. */
+  private *iterateCombatants(): Iterable<ServerMob<MobState>> {
+    for (const player of this.zone.players.values()) {
+      yield player;
+    }
+    for (const npc of this.zone.npcs.values()) {
+      yield npc;
+    }
+  }
+}
+
+const lerpPoint = (from: Point, to: Point, ratio: number): Point => ({
+  x: from.x + (to.x - from.x) * ratio,
+  y: from.y + (to.y - from.y) * ratio,
+  z: from.z + (to.z - from.z) * ratio,
+});
@@ -18,14 +18,6 @@ export const applyHealing = (target: MobState, amount: number): void => {
   target.currentHp = clamp(target.currentHp + amount, 0, target.maxHp);
 };
 
-export const applyStatus = (): void => {
-  // Status effects are not implemented yet.
-};
-
-export const applyDisplacement = (): void => {
-  // Displacement effects are not implemented yet.
-};
-
 export const applyResourceCost = (target: MobState, costs?: ResourceCost[]): void => {
   if (!costs || costs.length === 0) {
     return;
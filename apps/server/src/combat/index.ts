@@ -1,6 +1,44 @@
 export { AbilityEngine } from "./ability-engine";
 export { AggroTable } from "./aggro-table";
+export { AutoAttackEngine } from "./auto-attack-engine";
+export {
+  CombatContentLoader,
+  combatContentLoader,
+  type CombatContentListener,
+} from "./combat-content-loader";
 export { CombatEngine } from "./combat-engine";
+export {
+  CombatRecorder,
+  readCombatRecording,
+  type CombatRecordingEntry,
+  type CombatRecordingOutcome,
+  type RecordedCombatant,
+} from "./combat-recorder";
+export {
+  replayCombatRecording,
+  replayOutcome,
+  type CombatReplayDivergence,
+  type CombatReplayReport,
+} from "./combat-replay";
+export {
+  runCombatSimulation,
+  type CombatSimActor,
+  type CombatSimActorReport,
+  type CombatSimEnvironment,
+  type CombatSimReport,
+  type CombatSimScenario,
+} from "./combat-simulator";
+export { DisplacementEngine } from "./displacement-engine";
+export { ProcEngine } from "./proc-engine";
+export { ProjectileEngine } from "./projectile-engine";
+export { RegenEngine } from "./regen-engine";
 export { StatsController } from "./stats-controller";
 export { StatusController } from "./status-controller";
-export type { ActiveCast, BufferedAbilityRequest } from "./types";
+export { StatusEngine } from "./status-engine";
+export type {
+  ActiveCast,
+  ActiveChannel,
+  ActiveDisplacement,
+  ActiveProjectile,
+  BufferedAbilityRequest,
+} from "./types";
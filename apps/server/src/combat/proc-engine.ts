@@ -0,0 +1,63 @@
+import {
+  STATUS_DEFINITIONS,
+  isProcTriggered,
+  type ProcDefinition,
+  type TargetResult,
+} from "@mmo/shared-sim";
+import type { ServerZone } from "../world/zones/zone";
+import type { AbilityEvent, AbilityEventListener } from "./ability-events";
+import { createRng, hashStringToUint32 } from "./prng";
+
+/**
+ * Rolls proc triggers after an ability resolves. Procs come from the ability itself and from
+ * the actor's active statuses; a successful roll applies the proc's status to the actor.
+ * Rolls are seeded from the actor, ability and resolve time so replays stay deterministic.
+ */
+export class ProcEngine implements AbilityEventListener {
+  constructor(private readonly zone: ServerZone) {}
+
+  onAbilityEvent(event: AbilityEvent): void {
+    if (event.type !== "ability_resolved") {
+      return;
+    }
+
+    const useCheck = event.result.useCheck.result;
+    if (useCheck !== "success" && useCheck !== "crit_success") {
+      return;
+    }
+
+    const { ability, actor } = event;
+    if (actor.synced.isDead) {
+      return;
+    }
+
+    const outcomes: TargetResult["outcome"][] = event.result.effects.flatMap((effect) =>
+      effect.targets.map((target) => target.outcome),
+    );
+    const procs: ProcDefinition[] = [...(ability.procs ?? [])];
+    for (const status of actor.statusController?.getActiveStatuses() ?? []) {
+      procs.push(...(STATUS_DEFINITIONS[status.id]?.procs ?? []));
+    }
+
+    for (const [index, proc] of procs.entries()) {
+      // Channel ticks each resolve the ability; cast procs only fire for the first one.
+      if (proc.trigger === "cast" && (event.channelTick ?? 1) > 1) {
+        continue;
+      }
+      if (!isProcTriggered(proc, ability, outcomes)) {
+        continue;
+      }
+      const definition = STATUS_DEFINITIONS[proc.statusId];
+      if (!definition) {
+        continue;
+      }
+      const rng = createRng(
+        hashStringToUint32(`${actor.id}:${ability.id}:${event.resolvedAtMs}:proc:${index}`),
+      );
+      if (rng() >= proc.chance) {
+        continue;
+      }
+      this.zone.statusEngine.applyStatus(actor, actor, definition, event.resolvedAtMs, ability.id);
+    }
+  }
+}
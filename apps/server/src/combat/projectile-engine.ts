@@ -0,0 +1,251 @@
+import {
+  ABILITY_DEFINITIONS,
+  CombatEventType,
+  EventCategory,
+  areAllies,
+  areEnemies,
+  type AbilityDefinition,
+  type AbilityProjectile,
+  type MobState,
+  type ProjectileImpactEvent,
+  type ProjectileLaunchedEvent,
+} from "@mmo/shared-sim";
+import type { ServerMob } from "../world/entities/server-mob";
+import type { ServerZone } from "../world/zones/zone";
+import type { ActiveCast, ActiveProjectile } from "./types";
+
+/** Projectiles launch from (and aim at) this height above a mob's feet. */
+const PROJECTILE_HEIGHT_OFFSET = 1.2;
+
+interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Tracks in-flight projectiles for a zone. Projectiles home in on their target each tick and
+ * hand the cast back to the AbilityEngine on arrival. When the target dies mid-flight the
+ * projectile retargets (if the ability allows it) or fizzles without applying effects.
+ */
+export class ProjectileEngine {
+  private readonly projectiles = new Map<number, ActiveProjectile>();
+  private nextProjectileId = 1;
+
+  constructor(private readonly zone: ServerZone) {}
+
+  /**
+   * Launch a projectile for a finished cast. Returns undefined when the cast has no destination,
+   * in which case the caller should apply its effects immediately.
+   */
+  launch(
+    cast: ActiveCast,
+    projectile: AbilityProjectile,
+    actor: ServerMob<MobState>,
+    nowMs: number,
+    serverTick: number,
+  ): ActiveProjectile | undefined {
+    const target = cast.targetEntityId ? this.getCombatantById(cast.targetEntityId) : undefined;
+    const destination = target ? this.getAimPoint(target) : cast.targetPosition;
+    if (!destination) {
+      return undefined;
+    }
+
+    const position = this.getAimPoint(actor);
+    const active: ActiveProjectile = {
+      projectileId: this.nextProjectileId,
+      cast,
+      targetId: target?.id,
+      position,
+      destination: { ...destination },
+      speed: projectile.speed,
+      lastUpdateMs: nowMs,
+    };
+    this.nextProjectileId += 1;
+    this.projectiles.set(active.projectileId, active);
+    this.recordLaunched(active, nowMs, serverTick, false);
+    return active;
+  }
+
+  /** In-flight projectiles, in launch order. */
+  getActiveProjectiles(): readonly ActiveProjectile[] {
+    return [...this.projectiles.values()];
+  }
+
+  /** Move projectiles toward their targets and resolve the ones that arrive this tick. */
+  fixedTick(nowMs: number, serverTick: number): void {
+    for (const projectile of this.projectiles.values()) {
+      const ability =
+        ABILITY_DEFINITIONS[projectile.cast.abilityId as keyof typeof ABILITY_DEFINITIONS];
+      if (!ability) {
+        this.projectiles.delete(projectile.projectileId);
+        continue;
+      }
+
+      if (projectile.targetId && !this.trackTarget(projectile, ability, nowMs, serverTick)) {
+        this.projectiles.delete(projectile.projectileId);
+        this.recordImpact(projectile, "fizzled", nowMs, serverTick);
+        continue;
+      }
+
+      const elapsedMs = Math.max(0, nowMs - projectile.lastUpdateMs);
+      projectile.lastUpdateMs = nowMs;
+      const step = (projectile.speed * elapsedMs) / 1000;
+      const { position, destination } = projectile;
+      const dx = destination.x - position.x;
+      const dy = destination.y - position.y;
+      const dz = destination.z - position.z;
+      const distance = Math.hypot(dx, dy, dz);
+      if (distance > step) {
+        const ratio = step / distance;
+        position.x += dx * ratio;
+        position.y += dy * ratio;
+        position.z += dz * ratio;
+        continue;
+      }
+
+      position.x = destination.x;
+      position.y = destination.y;
+      position.z = destination.z;
+      this.projectiles.delete(projectile.projectileId);
+      this.recordImpact(projectile, "impact", nowMs, serverTick);
+      this.zone.abilityEngine.applyProjectileImpact(projectile.cast, serverTick, nowMs);
+    }
+  }
+
+  /**
+   * Follow the homing target, retargeting when it is lost.
+   * Returns false when the projectile has nothing left to hit.
+   */
+  private trackTarget(
+    projectile: ActiveProjectile,
+    ability: AbilityDefinition,
+    nowMs: number,
+    serverTick: number,
+  ): boolean {
+    const target = projectile.targetId ? this.getCombatantById(projectile.targetId) : undefined;
+    if (target && (!target.synced.isDead || ability.canTargetDead)) {
+      projectile.destination = this.getAimPoint(target);
+      return true;
+    }
+
+    const replacement = this.findRetarget(projectile, ability);
+    if (!replacement) {
+      return false;
+    }
+    if (!this.zone.abilityEngine.retargetCast(projectile.cast, replacement.id)) {
+      return false;
+    }
+    projectile.targetId = replacement.id;
+    projectile.destination = this.getAimPoint(replacement);
+    this.recordLaunched(projectile, nowMs, serverTick, true);
+    return true;
+  }
+
+  /** Nearest living target of the right relation within the ability's retarget radius. */
+  private findRetarget(
+    projectile: ActiveProjectile,
+    ability: AbilityDefinition,
+  ): ServerMob<MobState> | undefined {
+    const radius = ability.projectile?.retargetRadius ?? 0;
+    const actor = this.getCombatantById(projectile.cast.actorId);
+    if (radius <= 0 || !actor) {
+      return undefined;
+    }
+
+    let best: ServerMob<MobState> | undefined;
+    let bestDistanceSq = radius * radius;
+    for (const candidate of this.iterateCombatants()) {
+      if (candidate.id === actor.id || candidate.id === projectile.targetId) {
+        continue;
+      }
+      if (candidate.synced.isDead) {
+        continue;
+      }
+      const related =
+        ability.targetType === "ally"
+          ? areAllies(actor.synced, candidate.synced)
+          : areEnemies(actor.synced, candidate.synced);
+      if (!related) {
+        continue;
+      }
+      const dx = candidate.synced.x - projectile.position.x;
+      const dz = candidate.synced.z - projectile.position.z;
+      const distanceSq = dx * dx + dz * dz;
+      if (distanceSq <= bestDistanceSq) {
+        best = candidate;
+        bestDistanceSq = distanceSq;
+      }
+    }
+    return best;
+  }
+
+  private recordLaunched(
+    projectile: ActiveProjectile,
+    nowMs: number,
+    serverTick: number,
+    retargeted: boolean,
+  ): void {
+    const launchedEvent: ProjectileLaunchedEvent = {
+      eventId: 0,
+      category: EventCategory.Combat,
+      eventType: CombatEventType.ProjectileLaunched,
+      serverTick,
+      serverTimeMs: nowMs,
+      contextId: this.zone.zoneData.zoneId,
+      projectileId: projectile.projectileId,
+      actorId: projectile.cast.actorId,
+      castId: projectile.cast.castId,
+      abilityId: projectile.cast.abilityId,
+      targetId: projectile.targetId,
+      targetPosition: { ...projectile.destination },
+      speed: projectile.speed,
+      retargeted: retargeted || undefined,
+      sourceLocation: { ...projectile.position },
+    };
+    this.zone.eventLog.append(launchedEvent);
+  }
+
+  private recordImpact(
+    projectile: ActiveProjectile,
+    outcome: ProjectileImpactEvent["outcome"],
+    nowMs: number,
+    serverTick: number,
+  ): void {
+    const impactEvent: ProjectileImpactEvent = {
+      eventId: 0,
+      category: EventCategory.Combat,
+      eventType: CombatEventType.ProjectileImpact,
+      serverTick,
+      serverTimeMs: nowMs,
+      contextId: this.zone.zoneData.zoneId,
+      projectileId: projectile.projectileId,
+      actorId: projectile.cast.actorId,
+      castId: projectile.cast.castId,
+      abilityId: projectile.cast.abilityId,
+      targetId: projectile.targetId,
+      outcome,
+      sourceLocation: { ...projectile.position },
+    };
+    this.zone.eventLog.append(impactEvent);
+  }
+
+  private getAimPoint(mob: ServerMob<MobState>): Point {
+    return { x: mob.synced.x, y: mob.synced.y + PROJECTILE_HEIGHT_OFFSET, z: mob.synced.z };
+  }
+
+  /** Resolve a combatant by id, checking players then NPCs. */
+  private getCombatantById(id: string): ServerMob<MobState> | undefined {
+    return this.zone.players.get(id) ?? this.zone.npcs.get(id);
+  }
+
+  /** Iterate every server-side combatant in the zone. */
+  private *iterateCombatants(): Iterable<ServerMob<MobState>> {
+    for (const player of this.zone.players.values()) {
+      yield player;
+    }
+    for (const npc of this.zone.npcs.values()) {
+      yield npc;
+    }
+  }
+}
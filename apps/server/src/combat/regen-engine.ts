@@ -0,0 +1,109 @@
+import {
+  computeResourceRegenRates,
+  readCombatStats,
+  REGEN_SPEND_DELAY_MS,
+  type MobState,
+  type ResourceCost,
+  type ResourceType,
+} from "@mmo/shared-sim";
+import type { ServerMob } from "../world/entities/server-mob";
+import type { ServerZone } from "../world/zones/zone";
+
+const RESOURCE_TYPES: readonly ResourceType[] = ["mana", "stamina"];
+
+/**
+ * Regenerates mana and stamina for every living combatant in a zone.
+ * Rates come from derived stats and combat state, scaled by status modifiers and paused
+ * for REGEN_SPEND_DELAY_MS after a resource is spent. Rates are synced for client prediction.
+ */
+export class RegenEngine {
+  constructor(private readonly zone: ServerZone) {}
+
+  /** Start the spend delay for each resource the costs drew from. */
+  onResourcesSpent(
+    mob: ServerMob<MobState>,
+    costs: ResourceCost[] | undefined,
+    nowMs: number,
+  ): void {
+    const regen = mob.synced.regen;
+    for (const cost of costs ?? []) {
+      if (cost.amount <= 0) {
+        continue;
+      }
+      if (cost.type === "mana") {
+        regen.manaResumeAtMs = nowMs + REGEN_SPEND_DELAY_MS;
+        mob.regenRemainder.mana = 0;
+      } else {
+        regen.staminaResumeAtMs = nowMs + REGEN_SPEND_DELAY_MS;
+        mob.regenRemainder.stamina = 0;
+      }
+    }
+  }
+
+  fixedTick(nowMs: number, tickMs: number): void {
+    for (const combatant of this.iterateCombatants()) {
+      this.regenerate(combatant, nowMs, tickMs);
+    }
+  }
+
+  private regenerate(mob: ServerMob<MobState>, nowMs: number, tickMs: number): void {
+    const synced = mob.synced;
+    const regen = synced.regen;
+    if (synced.isDead) {
+      regen.manaPerSecond = 0;
+      regen.staminaPerSecond = 0;
+      mob.regenRemainder.mana = 0;
+      mob.regenRemainder.stamina = 0;
+      return;
+    }
+
+    const stats = mob.statsController?.getDerivedStats() ?? readCombatStats(synced);
+    const baseRates = computeResourceRegenRates(stats, synced.inCombat);
+    let changed = false;
+
+    for (const resource of RESOURCE_TYPES) {
+      const rate = baseRates[resource] * (mob.statusController?.getRegenMultiplier(resource) ?? 1);
+      if (resource === "mana") {
+        regen.manaPerSecond = rate;
+      } else {
+        regen.staminaPerSecond = rate;
+      }
+
+      const resumeAtMs = resource === "mana" ? regen.manaResumeAtMs : regen.staminaResumeAtMs;
+      const current = resource === "mana" ? synced.mana : synced.stamina;
+      const max = resource === "mana" ? synced.maxMana : synced.maxStamina;
+      if (rate <= 0 || nowMs < resumeAtMs || current >= max) {
+        mob.regenRemainder[resource] = 0;
+        continue;
+      }
+
+      const accumulated = mob.regenRemainder[resource] + (rate * tickMs) / 1000;
+      const whole = Math.floor(accumulated);
+      mob.regenRemainder[resource] = accumulated - whole;
+      if (whole <= 0) {
+        continue;
+      }
+      const next = Math.min(max, current + whole);
+      if (resource === "mana") {
+        synced.mana = next;
+      } else {
+        synced.stamina = next;
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      regen.updatedAtMs = nowMs;
+    }
+  }
+
+  /** Iterate every server-side combatant in the zone. */
+  private *iterateCombatants(): Iterable<ServerMob<MobState>> {
+    for (const player of this.zone.players.values()) {
+      yield player;
+    }
+    for (const npc of this.zone.npcs.values()) {
+      yield npc;
+    }
+  }
+}
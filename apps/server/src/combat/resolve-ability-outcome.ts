@@ -1,55 +1,63 @@
 import type {
   AbilityDefinition,
-  AbilityId,
   AbilityResult,
+  AutoAttackProfile,
+  CombatChances,
+  CombatStats,
   EffectResult,
   EffectTargetFilter,
   MobState,
   TargetResult,
 } from "@mmo/shared-sim";
-import { areAllies, areEnemies, rollAbilityUseCheck, type AbilityEffect } from "@mmo/shared-sim";
+import {
+  applyMitigation,
+  areAllies,
+  areEnemies,
+  computeCombatChances,
+  computeHealingChances,
+  evaluateEffectFormula,
+  isSelfDisplacement,
+  readCombatStats,
+  rollAbilityUseCheck,
+  rollAutoAttackDamage,
+  USE_CHECK_CRIT_SUCCESS_MULTIPLIER,
+  type AbilityEffect,
+  type UseCheckBackfire,
+} from "@mmo/shared-sim";
 import { createRng } from "./prng";
 
-const HIT_CHANCE = 0.75;
-const DODGE_CHANCE = 0.3;
-const BLOCK_CHANCE = 0.2;
-const CRIT_CHANCE = 0.5;
-const HEAL_CRIT_CHANCE = 0.5;
+/** Immunity tag that protects against knockbacks and pulls. */
+export const DISPLACEMENT_IMMUNITY_TAG = "displacement";
 
 const BLOCK_MULTIPLIER = 0.5;
 const CRIT_MULTIPLIER = 1.5;
 
-interface EffectCalculation {
-  damage?: number;
-  healing?: number;
-}
-
-type EffectCalculator = (source: MobState, target: MobState) => EffectCalculation;
+/** Resolves the stats a formula is evaluated against (derived stats on the server). */
+export type CombatStatsResolver = (mob: MobState) => CombatStats;
 
-const NO_EFFECT: EffectCalculator = () => ({});
+/** Server-side lookups the resolver needs beyond the synced mob state. */
+export interface AbilityOutcomeContext {
+  resolveStats: CombatStatsResolver;
+  /** Whether the mob currently has an immunity matching the tag (e.g. a damage school). */
+  hasImmunity: (mob: MobState, tag: string) => boolean;
+}
 
-const ABILITY_EFFECT_CALCULATORS: Record<AbilityId, EffectCalculator[]> = {
-  quick_dart: [() => ({ damage: 18 })],
-  shield_bash: [() => ({ damage: 12 }), NO_EFFECT],
-  fireball: [() => ({ damage: 42 })],
-  sky_sword: [() => ({ damage: 26 })],
-  ice_storm: [() => ({ damage: 24 })],
-  overgrowth: [() => ({ damage: 20 })],
-  cleave_line: [() => ({ damage: 22 })],
-  radiant_pulse: [() => ({ damage: 20 }), () => ({ healing: 16 })],
+const DEFAULT_OUTCOME_CONTEXT: AbilityOutcomeContext = {
+  resolveStats: readCombatStats,
+  hasImmunity: () => false,
 };
 
-const rollOutcome = (rng: () => number): TargetResult["outcome"] => {
-  if (rng() > HIT_CHANCE) {
+const rollOutcome = (rng: () => number, chances: CombatChances): TargetResult["outcome"] => {
+  if (rng() >= chances.hitChance) {
     return "miss";
   }
-  if (rng() < DODGE_CHANCE) {
+  if (rng() < chances.dodgeChance) {
     return "dodged";
   }
-  if (rng() < BLOCK_CHANCE) {
+  if (rng() < chances.blockChance) {
     return "blocked";
   }
-  if (rng() < CRIT_CHANCE) {
+  if (rng() < chances.critChance) {
     return "crit";
   }
   return "hit";
@@ -76,6 +84,26 @@ const applyOutcomeMultipliers = (outcome: TargetResult["outcome"], damage: numbe
   return Math.max(0, Math.round(damage));
 };
 
+/** Target result for mitigated damage that connected with the rolled outcome. */
+const buildDamageResult = (
+  targetId: string,
+  outcome: TargetResult["outcome"],
+  baseDamage: number,
+): TargetResult => {
+  const finalDamage = applyOutcomeMultipliers(outcome, baseDamage);
+  const result: TargetResult = { targetId, outcome };
+  if (finalDamage > 0) {
+    result.damage = finalDamage;
+  }
+  if (outcome === "blocked") {
+    const blockedAmount = Math.max(0, baseDamage - finalDamage);
+    if (blockedAmount > 0) {
+      result.blockedAmount = blockedAmount;
+    }
+  }
+  return result;
+};
+
 const applyHealingMultiplier = (isCrit: boolean, healing: number): number => {
   if (healing <= 0) {
     return 0;
@@ -107,21 +135,75 @@ const effectAppliesToTarget = (
   return true;
 };
 
+/**
+ * Scales the damage, healing and status durations of a critically successful use, in place.
+ * Absorbs, periodic ticks and displacement distances are scaled when the cast lands.
+ */
+const boostEffects = (ability: AbilityDefinition, effects: EffectResult[]): void => {
+  for (const effectResult of effects) {
+    const effect = ability.effects[effectResult.effectIndex];
+    for (const targetResult of effectResult.targets) {
+      if (effect?.type === "status" && targetResult.statusApplied) {
+        targetResult.statusDurationMs = Math.round(
+          effect.durationMs * USE_CHECK_CRIT_SUCCESS_MULTIPLIER,
+        );
+      }
+      if (targetResult.damage !== undefined) {
+        targetResult.damage = Math.round(targetResult.damage * USE_CHECK_CRIT_SUCCESS_MULTIPLIER);
+      }
+      if (targetResult.healing !== undefined) {
+        targetResult.healing = Math.round(targetResult.healing * USE_CHECK_CRIT_SUCCESS_MULTIPLIER);
+      }
+    }
+  }
+};
+
+const resolveBackfire = (
+  backfire: UseCheckBackfire,
+  actor: MobState,
+  actorStats: CombatStats,
+  rng: () => number,
+  hasImmunity: AbilityOutcomeContext["hasImmunity"],
+): TargetResult => {
+  const result: TargetResult = { targetId: actor.id, outcome: "hit" };
+  if (backfire.damage) {
+    const { school, formula } = backfire.damage;
+    if (hasImmunity(actor, school)) {
+      result.outcome = "immune";
+    } else {
+      const damage = applyMitigation(
+        evaluateEffectFormula(formula, actorStats, actorStats, rng()),
+        school,
+        actorStats,
+      );
+      if (damage > 0) {
+        result.damage = damage;
+      }
+    }
+  }
+  if (backfire.status) {
+    result.statusApplied = [backfire.status.statusId];
+    result.statusDurationMs = backfire.status.durationMs;
+  }
+  return result;
+};
+
 export const resolveAbilityOutcome = (
   ability: AbilityDefinition,
   actor: MobState,
   possibleTargets: MobState[],
   rngSeed: number,
+  context: AbilityOutcomeContext = DEFAULT_OUTCOME_CONTEXT,
 ): AbilityResult => {
+  const { resolveStats, hasImmunity } = context;
   const rng = createRng(rngSeed);
-  const useCheck = rollAbilityUseCheck(ability);
+  const actorStats = resolveStats(actor);
+  const useCheck = rollAbilityUseCheck(ability, actorStats, rng);
   const useFailed = useCheck.result === "failure" || useCheck.result === "crit_failure";
-  const effectCalculators = ABILITY_EFFECT_CALCULATORS[ability.id as AbilityId] ?? [];
   const effects: EffectResult[] = [];
 
   for (const [index, effect] of ability.effects.entries()) {
     const effectType = effect.type;
-    const calculator = effectCalculators[index] ?? NO_EFFECT;
     const targetFilter = resolveEffectTargetFilter(effect);
     const legalTargets = possibleTargets.filter((target) =>
       effectAppliesToTarget(targetFilter, actor, target),
@@ -129,46 +211,59 @@ export const resolveAbilityOutcome = (
 
     const targets: TargetResult[] = [];
 
+    if (
+      effect.type === "summon" ||
+      (effect.type === "displacement" && isSelfDisplacement(effect))
+    ) {
+      // Summons, leaps and dashes act on the actor; the pet's spot or the destination is
+      // resolved when the cast lands.
+      targets.push({ targetId: actor.id, outcome: useFailed ? "no_effect" : "hit" });
+      effects.push({ effectIndex: index, effectType, targets });
+      continue;
+    }
+
     for (const target of legalTargets) {
       if (useFailed) {
         targets.push({ targetId: target.id, outcome: "no_effect" });
         continue;
       }
 
-      if (effectType === "damage") {
-        const resolved = calculator(actor, target);
-        const baseDamage = resolved.damage ?? 0;
+      if (effect.type === "damage") {
+        if (hasImmunity(target, effect.school)) {
+          targets.push({ targetId: target.id, outcome: "immune" });
+          continue;
+        }
+        const targetStats = resolveStats(target);
+        const outcome = rollOutcome(
+          rng,
+          computeCombatChances(actorStats, targetStats, ability.chanceOverrides),
+        );
+        const baseDamage = applyMitigation(
+          evaluateEffectFormula(effect.formula, actorStats, targetStats, rng()),
+          effect.school,
+          targetStats,
+        );
         if (baseDamage <= 0) {
           targets.push({ targetId: target.id, outcome: "no_effect" });
           continue;
         }
-        const outcome = rollOutcome(rng);
-        const finalDamage = applyOutcomeMultipliers(outcome, baseDamage);
-        const result: TargetResult = {
-          targetId: target.id,
-          outcome,
-        };
-        if (finalDamage > 0) {
-          result.damage = finalDamage;
-        }
-        if (outcome === "blocked") {
-          const blockedAmount = Math.max(0, baseDamage - finalDamage);
-          if (blockedAmount > 0) {
-            result.blockedAmount = blockedAmount;
-          }
-        }
-        targets.push(result);
+        targets.push(buildDamageResult(target.id, outcome, baseDamage));
         continue;
       }
 
-      if (effectType === "healing") {
-        const resolved = calculator(actor, target);
-        const baseHealing = resolved.healing ?? 0;
+      if (effect.type === "healing") {
+        const baseHealing = evaluateEffectFormula(
+          effect.formula,
+          actorStats,
+          resolveStats(target),
+          rng(),
+        );
         if (baseHealing <= 0) {
           targets.push({ targetId: target.id, outcome: "no_effect" });
           continue;
         }
-        const healCrit = rng() < HEAL_CRIT_CHANCE;
+        const healCrit =
+          rng() < computeHealingChances(actorStats, ability.chanceOverrides).critChance;
         const finalHealing = applyHealingMultiplier(healCrit, baseHealing);
         const result: TargetResult = {
           targetId: target.id,
@@ -181,6 +276,26 @@ export const resolveAbilityOutcome = (
         continue;
       }
 
+      if (effect.type === "displacement") {
+        targets.push({
+          targetId: target.id,
+          outcome: hasImmunity(target, DISPLACEMENT_IMMUNITY_TAG) ? "immune" : "hit",
+        });
+        continue;
+      }
+
+      if (
+        effect.type === "dispel" ||
+        effect.type === "interrupt" ||
+        effect.type === "taunt" ||
+        effect.type === "threat"
+      ) {
+        // What gets stripped or interrupted is decided when the cast lands; threat is
+        // handled by the CombatEngine.
+        targets.push({ targetId: target.id, outcome: "hit" });
+        continue;
+      }
+
       targets.push({
         targetId: target.id,
         outcome: "hit",
@@ -191,10 +306,61 @@ export const resolveAbilityOutcome = (
     effects.push({ effectIndex: index, effectType, targets });
   }
 
-  return {
+  const result: AbilityResult = {
     abilityId: ability.id,
     actorId: actor.id,
     useCheck,
     effects,
   };
+  if (useCheck.result === "crit_success") {
+    boostEffects(ability, effects);
+  }
+  const backfire = ability.useCheck?.backfire;
+  if (useCheck.result === "crit_failure" && backfire) {
+    result.backfire = resolveBackfire(backfire, actor, actorStats, rng, hasImmunity);
+  }
+  return result;
+};
+
+/**
+ * Rolls one auto-attack swing: hit, dodge, block and crit like a damage ability, with the
+ * weapon's damage range in place of a formula.
+ */
+export const resolveAutoAttackOutcome = (
+  profile: AutoAttackProfile,
+  actor: MobState,
+  target: MobState,
+  rngSeed: number,
+  context: AbilityOutcomeContext = DEFAULT_OUTCOME_CONTEXT,
+): TargetResult => {
+  const { resolveStats, hasImmunity } = context;
+  if (hasImmunity(target, profile.school)) {
+    return { targetId: target.id, outcome: "immune" };
+  }
+  const rng = createRng(rngSeed);
+  const targetStats = resolveStats(target);
+  const outcome = rollOutcome(rng, computeCombatChances(resolveStats(actor), targetStats));
+  const baseDamage = applyMitigation(
+    rollAutoAttackDamage(profile, rng()),
+    profile.school,
+    targetStats,
+  );
+  if (baseDamage <= 0) {
+    return { targetId: target.id, outcome: "no_effect" };
+  }
+  return buildDamageResult(target.id, outcome, baseDamage);
+};
+
+/** Scales every damage roll in `result` by an empowerment multiplier, in place. */
+export const applyDamageMultiplier = (result: AbilityResult, damageMultiplier: number): void => {
+  if (damageMultiplier === 1) {
+    return;
+  }
+  for (const effectResult of result.effects) {
+    for (const targetResult of effectResult.targets) {
+      if (targetResult.damage !== undefined) {
+        targetResult.damage = Math.max(0, Math.round(targetResult.damage * damageMultiplier));
+      }
+    }
+  }
 };
@@ -13,6 +13,18 @@ const PRIMARY_STATS: (keyof CombatStats)[] = [
 
 const SECONDARY_STATS: (keyof CombatStats)[] = ["maxHp", "maxMana", "maxStamina"];
 
+/** Armor, resistances and combat ratings; modified alongside secondaries but never written back to the mob. */
+const RATING_STATS: (keyof CombatStats)[] = [
+  "armor",
+  "fireResistance",
+  "arcaneResistance",
+  "holyResistance",
+  "electricResistance",
+  "accuracy",
+  "blockRating",
+  "critRating",
+];
+
 const applyModifiers = (
   base: CombatStats,
   modifiers: StatModifier[],
@@ -120,12 +132,20 @@ export class StatsController {
       maxHp: this.target.maxHp,
       maxMana: this.target.maxMana,
       maxStamina: this.target.maxStamina,
+      armor: this.target.armor,
+      fireResistance: this.target.fireResistance,
+      arcaneResistance: this.target.arcaneResistance,
+      holyResistance: this.target.holyResistance,
+      electricResistance: this.target.electricResistance,
+      accuracy: this.target.accuracy,
+      blockRating: this.target.blockRating,
+      critRating: this.target.critRating,
     };
 
     const modifiers = this.sources.flatMap((source) => source.getStatModifiers());
 
     const primaryAllowed = new Set(PRIMARY_STATS);
-    const secondaryAllowed = new Set(SECONDARY_STATS);
+    const secondaryAllowed = new Set([...SECONDARY_STATS, ...RATING_STATS]);
 
     const primaryStats = applyModifiers(base, modifiers, primaryAllowed);
     const derivedBase = computeDerivedFromPrimary(primaryStats);
@@ -138,6 +158,9 @@ export class StatsController {
     derived.maxHp = clampStat(derived.maxHp);
     derived.maxMana = clampStat(derived.maxMana);
     derived.maxStamina = clampStat(derived.maxStamina);
+    for (const stat of RATING_STATS) {
+      derived[stat] = clampStat(derived[stat], 0);
+    }
 
     return derived;
   }
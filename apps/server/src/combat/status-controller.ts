@@ -1,17 +1,34 @@
-import type {
-  AbilityTag,
-  CombatStats,
-  MobState,
-  StatusEffectDefinition,
-  StatusStacking,
-  StatusState,
-  StatModifier,
+import {
+  DIMINISHING_RETURNS_MULTIPLIERS,
+  StatusEntry,
+  evaluateEffectFormula,
+  getEmpoweringStatuses,
+  isAbilityGranted,
+  isAbilityLockedOut,
+  readCombatStats,
+  resolveDrCategory,
+  type AbilityDefinition,
+  type AbilityTag,
+  type CombatStats,
+  type DamageSchool,
+  type DispellableStatusCategory,
+  type MobState,
+  type ResourceRegenRates,
+  type ResourceType,
+  type StatusDamageRedirect,
+  type StatusDefinitionMap,
+  type StatusEffectDefinition,
+  type StatusStacking,
+  type StatusState,
+  type StatModifier,
 } from "@mmo/shared-sim";
 
 export interface StatusSnapshot {
   sourceStats: Partial<CombatStats>;
   targetStats: Partial<CombatStats>;
   resolvedValues?: Record<string, number>;
+  /** Scales the absorb and periodic ticks; above 1 for critically successful uses. */
+  potency: number;
 }
 
 export interface ActiveStatus {
@@ -22,6 +39,14 @@ export interface ActiveStatus {
   stacks: number;
   nextTickAtMs?: number;
   snapshot?: StatusSnapshot;
+  /** Damage the status can still absorb (absorb shields only). */
+  absorbRemaining?: number;
+}
+
+export interface StatusTick {
+  status: ActiveStatus;
+  definition: StatusEffectDefinition;
+  tickAtMs: number;
 }
 
 export interface StatusHistory {
@@ -68,26 +93,18 @@ class StatusHistoryRingBuffer implements StatusHistory {
   }
 }
 
-export type StatusDefinitionMap = Record<string, StatusEffectDefinition>;
-
-const buildBaseStats = (mob: MobState): CombatStats => ({
-  strength: mob.strength,
-  dexterity: mob.dexterity,
-  intelligence: mob.intelligence,
-  constitution: mob.constitution,
-  maxHp: mob.maxHp,
-  maxMana: mob.maxMana,
-  maxStamina: mob.maxStamina,
-});
-
 export class StatusController {
   private readonly statuses: ActiveStatus[] = [];
   private readonly history: StatusHistory = new StatusHistoryRingBuffer();
   private cacheDirty = true;
   private cachedModifiers: StatModifier[] = [];
   private cachedBlockedAbilityTags = new Set<AbilityTag>();
+  private cachedLockedSchools = new Set<DamageSchool>();
+  private cachedLockedAbilityTags = new Set<AbilityTag>();
   private cachedStateFlags = new Set<StatusState>();
   private cachedImmunityTags = new Set<string>();
+  private cachedRegenMultipliers: ResourceRegenRates = { mana: 1, stamina: 1 };
+  private cachedThreatMultiplier = 1;
   private onChange?: () => void;
 
   constructor(
@@ -98,37 +115,66 @@ export class StatusController {
     this.onChange = onChange;
   }
 
-  applyStatus(effect: StatusEffectDefinition, source: MobState, nowMs: number): boolean {
+  /**
+   * Apply (or restack/refresh) a status and return the resulting active entry.
+   * Snapshots the given (derived) stats, falling back to the raw synced stats, and `potency`.
+   */
+  applyStatus(
+    effect: StatusEffectDefinition,
+    source: MobState,
+    nowMs: number,
+    sourceStats: Partial<CombatStats> = readCombatStats(source),
+    targetStats: Partial<CombatStats> = readCombatStats(this.target),
+    potency = 1,
+  ): ActiveStatus {
     const stacking = effect.stacking as StatusStacking;
     const existing = this.statuses.filter((status) => status.id === effect.id);
     const durationMs = effect.durationMs;
     const expiresAtMs = durationMs > 0 ? nowMs + durationMs : nowMs;
+    const snapshot: StatusSnapshot = {
+      sourceStats: { ...sourceStats },
+      targetStats: { ...targetStats },
+      potency,
+    };
+    const absorbBudget = effect.absorb
+      ? Math.round(
+          evaluateEffectFormula(effect.absorb.formula, snapshot.sourceStats, snapshot.targetStats) *
+            potency,
+        )
+      : undefined;
+
+    // Only statuses that opt into diminishing returns count towards a DR category.
+    if (effect.drWindowMs !== undefined) {
+      this.history.record(resolveDrCategory(effect), nowMs);
+    }
 
     if (stacking === "replace" && existing.length > 0) {
       this.removeStatus(effect.id);
     }
 
+    // Refresh and stack keep the existing tick cadence but re-snapshot the latest application.
     if (stacking === "refresh" && existing.length > 0) {
       const status = existing[0];
       status.expiresAtMs = expiresAtMs;
+      status.snapshot = snapshot;
+      status.absorbRemaining = absorbBudget;
       this.markDirty();
-      return true;
+      return status;
     }
 
     if (stacking === "stack" && existing.length > 0) {
       const status = existing[0];
       status.stacks = Math.min(effect.maxStacks ?? Number.MAX_SAFE_INTEGER, status.stacks + 1);
       status.expiresAtMs = expiresAtMs;
+      status.snapshot = snapshot;
+      if (absorbBudget !== undefined) {
+        status.absorbRemaining = (status.absorbRemaining ?? 0) + absorbBudget;
+      }
       this.markDirty();
-      return true;
+      return status;
     }
 
-    const snapshot: StatusSnapshot = {
-      sourceStats: buildBaseStats(source),
-      targetStats: buildBaseStats(this.target),
-    };
-
-    this.statuses.push({
+    const status: ActiveStatus = {
       id: effect.id,
       sourceId: source.id,
       appliedAtMs: nowMs,
@@ -136,43 +182,167 @@ export class StatusController {
       stacks: 1,
       nextTickAtMs: effect.tickIntervalMs ? nowMs + effect.tickIntervalMs : undefined,
       snapshot,
-    });
-
-    const groupId = effect.tags?.[0] ?? effect.id;
-    this.history.record(groupId, nowMs);
+      absorbRemaining: absorbBudget,
+    };
+    this.statuses.push(status);
     this.markDirty();
-    return true;
+    return status;
+  }
+
+  /**
+   * Scale a status duration by diminishing returns for its DR category.
+   * Returns 0 when the target is immune to further applications in the window.
+   */
+  getDiminishedDurationMs(
+    effect: StatusEffectDefinition,
+    durationMs: number,
+    nowMs: number,
+  ): number {
+    if (effect.drWindowMs === undefined) {
+      return durationMs;
+    }
+    const recent = this.history.countWithin(resolveDrCategory(effect), effect.drWindowMs, nowMs);
+    const multiplier = DIMINISHING_RETURNS_MULTIPLIERS[recent];
+    if (multiplier === undefined) {
+      return 0;
+    }
+    return Math.round(durationMs * multiplier);
+  }
+
+  /** Remove every instance of a status and return the removed entries. */
+  removeStatus(statusId: string): ActiveStatus[] {
+    const removed = this.statuses.filter((status) => status.id === statusId);
+    if (removed.length > 0) {
+      const next = this.statuses.filter((status) => status.id !== statusId);
+      this.statuses.length = 0;
+      this.statuses.push(...next);
+      this.markDirty();
+    }
+    return removed;
   }
 
-  removeStatus(statusId: string): void {
-    const next = this.statuses.filter((status) => status.id !== statusId);
-    if (next.length !== this.statuses.length) {
+  /**
+   * Soak damage with absorb shields, oldest first. Shields whose budget runs out are removed
+   * and returned so the caller can record their removal.
+   */
+  absorbDamage(
+    amount: number,
+    school?: DamageSchool,
+  ): { absorbed: number; depleted: ActiveStatus[] } {
+    let remaining = amount;
+    const depleted: ActiveStatus[] = [];
+    for (const status of this.statuses) {
+      if (remaining <= 0) {
+        break;
+      }
+      const absorb = this.definitions[status.id]?.absorb;
+      if (!absorb || !status.absorbRemaining || status.absorbRemaining <= 0) {
+        continue;
+      }
+      if (absorb.schools && (!school || !absorb.schools.includes(school))) {
+        continue;
+      }
+      const soaked = Math.min(remaining, status.absorbRemaining);
+      status.absorbRemaining -= soaked;
+      remaining -= soaked;
+      if (status.absorbRemaining <= 0) {
+        depleted.push(status);
+      }
+    }
+
+    if (depleted.length > 0) {
+      const next = this.statuses.filter((status) => !depleted.includes(status));
       this.statuses.length = 0;
       this.statuses.push(...next);
       this.markDirty();
     }
+    return { absorbed: amount - remaining, depleted };
   }
 
-  clearAll(): void {
+  /**
+   * Up to `count` distinct status ids a dispel would strip, most recently applied first.
+   * With `tags`, only statuses carrying one of them qualify.
+   */
+  getDispellableStatusIds(
+    category: DispellableStatusCategory,
+    count: number,
+    tags?: readonly string[],
+  ): string[] {
+    const statusIds: string[] = [];
+    for (let index = this.statuses.length - 1; index >= 0; index -= 1) {
+      if (statusIds.length >= count) {
+        break;
+      }
+      const status = this.statuses[index];
+      const definition = this.definitions[status.id];
+      if (!definition || definition.category !== category || statusIds.includes(status.id)) {
+        continue;
+      }
+      if (tags && !tags.some((tag) => definition.tags?.includes(tag))) {
+        continue;
+      }
+      statusIds.push(status.id);
+    }
+    return statusIds;
+  }
+
+  /** The most recently applied status that redirects incoming damage, if any. */
+  getDamageRedirect(): { status: ActiveStatus; redirect: StatusDamageRedirect } | undefined {
+    for (let index = this.statuses.length - 1; index >= 0; index -= 1) {
+      const status = this.statuses[index];
+      const redirect = this.definitions[status.id]?.redirect;
+      if (redirect) {
+        return { status, redirect };
+      }
+    }
+    return undefined;
+  }
+
+  /** Remove all statuses and return the removed entries. */
+  clearAll(): ActiveStatus[] {
     if (this.statuses.length === 0) {
-      return;
+      return [];
     }
+    const removed = [...this.statuses];
     this.statuses.length = 0;
     this.markDirty();
+    return removed;
   }
 
-  fixedTick(nowMs: number): void {
-    let changed = false;
+  /**
+   * Advance periodic statuses and return one entry per tick due at or before nowMs.
+   * Ticks landing exactly on the expiry time are included; call before fixedTick.
+   */
+  collectDueTicks(nowMs: number): StatusTick[] {
+    const ticks: StatusTick[] = [];
+    for (const status of this.statuses) {
+      const definition = this.definitions[status.id];
+      const intervalMs = definition?.tickIntervalMs;
+      if (!definition || !intervalMs || status.nextTickAtMs === undefined) {
+        continue;
+      }
+      while (status.nextTickAtMs <= nowMs && status.nextTickAtMs <= status.expiresAtMs) {
+        ticks.push({ status, definition, tickAtMs: status.nextTickAtMs });
+        status.nextTickAtMs += intervalMs;
+      }
+    }
+    return ticks;
+  }
+
+  /** Drop expired statuses and return them in application order. */
+  fixedTick(nowMs: number): ActiveStatus[] {
+    const expired: ActiveStatus[] = [];
     for (let index = this.statuses.length - 1; index >= 0; index -= 1) {
       const status = this.statuses[index];
       if (status.expiresAtMs > 0 && nowMs >= status.expiresAtMs) {
         this.statuses.splice(index, 1);
-        changed = true;
+        expired.unshift(status);
       }
     }
-    if (changed) {
+    if (expired.length > 0) {
       this.markDirty();
     }
+    return expired;
   }
 
   getActiveStatuses(): readonly ActiveStatus[] {
@@ -213,11 +383,47 @@ export class StatusController {
     return this.cachedImmunityTags.has(tag);
   }
 
+  /** Combined regeneration multiplier from active statuses (0 when any status blocks it). */
+  getRegenMultiplier(resource: ResourceType): number {
+    this.ensureCache();
+    return this.cachedRegenMultipliers[resource];
+  }
+
+  /** Combined multiplier on the threat this mob generates (tank stances and the like). */
+  getThreatMultiplier(): number {
+    this.ensureCache();
+    return this.cachedThreatMultiplier;
+  }
+
   getBlockedAbilityTags(): ReadonlySet<AbilityTag> {
     this.ensureCache();
     return this.cachedBlockedAbilityTags;
   }
 
+  /** Whether an interrupt lockout covers the ability's schools or tags. */
+  isLockedOut(ability: AbilityDefinition): boolean {
+    this.ensureCache();
+    return isAbilityLockedOut(ability, this.cachedLockedSchools, this.cachedLockedAbilityTags);
+  }
+
+  /** Whether an active status grants the (combo) ability. */
+  grantsAbility(abilityId: string): boolean {
+    return isAbilityGranted(
+      this.statuses.map((status) => status.id),
+      abilityId,
+      this.definitions,
+    );
+  }
+
+  /** Active statuses that grant or empower the ability (consumed when it is used). */
+  getEmpoweringStatuses(ability: AbilityDefinition): StatusEffectDefinition[] {
+    return getEmpoweringStatuses(
+      this.statuses.map((status) => status.id),
+      ability,
+      this.definitions,
+    );
+  }
+
   getHistory(): StatusHistory {
     return this.history;
   }
@@ -231,14 +437,38 @@ export class StatusController {
 
   private markDirty(): void {
     this.cacheDirty = true;
+    this.syncStatusEntries();
     this.onChange?.();
   }
 
+  /** Mirror active statuses into the synced schema list, reusing entries where possible. */
+  private syncStatusEntries(): void {
+    const entries = this.target.statuses;
+    for (const [index, status] of this.statuses.entries()) {
+      let entry = entries[index];
+      if (!entry) {
+        entry = new StatusEntry();
+        entries.push(entry);
+      }
+      entry.id = status.id;
+      entry.sourceId = status.sourceId;
+      entry.stacks = status.stacks;
+      entry.expiresAtMs = status.expiresAtMs;
+    }
+    if (entries.length > this.statuses.length) {
+      entries.splice(this.statuses.length, entries.length - this.statuses.length);
+    }
+  }
+
   private recomputeCache(): void {
     const modifiers: StatModifier[] = [];
     const blocked = new Set<AbilityTag>();
+    const lockedSchools = new Set<DamageSchool>();
+    const lockedTags = new Set<AbilityTag>();
     const flags = new Set<StatusState>();
     const immunities = new Set<string>();
+    const regenMultipliers: ResourceRegenRates = { mana: 1, stamina: 1 };
+    let threatMultiplier = 1;
 
     for (const status of this.statuses) {
       const definition = this.definitions[status.id];
@@ -251,18 +481,36 @@ export class StatusController {
       if (definition.blockedAbilityTags) {
         for (const tag of definition.blockedAbilityTags) blocked.add(tag);
       }
+      if (definition.lockedSchools) {
+        for (const school of definition.lockedSchools) lockedSchools.add(school);
+      }
+      if (definition.lockedAbilityTags) {
+        for (const tag of definition.lockedAbilityTags) lockedTags.add(tag);
+      }
       if (definition.stateFlags) {
         for (const flag of definition.stateFlags) flags.add(flag);
       }
       if (definition.immunityTags) {
         for (const tag of definition.immunityTags) immunities.add(tag);
       }
+      if (definition.threatMultiplier !== undefined) {
+        threatMultiplier *= Math.max(0, definition.threatMultiplier);
+      }
+      if (definition.regenModifiers) {
+        for (const modifier of definition.regenModifiers) {
+          regenMultipliers[modifier.resource] *= Math.max(0, modifier.multiplier);
+        }
+      }
     }
 
     this.cachedModifiers = modifiers;
     this.cachedBlockedAbilityTags = blocked;
+    this.cachedLockedSchools = lockedSchools;
+    this.cachedLockedAbilityTags = lockedTags;
     this.cachedStateFlags = flags;
     this.cachedImmunityTags = immunities;
+    this.cachedRegenMultipliers = regenMultipliers;
+    this.cachedThreatMultiplier = threatMultiplier;
     this.cacheDirty = false;
   }
 }
@@ -0,0 +1,385 @@
+import {
+  ABILITY_DEFINITIONS,
+  applyMitigation,
+  CombatEventType,
+  EventCategory,
+  isCastInterruptible,
+  readCombatStats,
+  resolvePeriodicAmount,
+  type DamageSchool,
+  type MobState,
+  type StatusAppliedEvent,
+  type StatusDispelledEvent,
+  type StatusEffectDefinition,
+  type StatusExpiredEvent,
+  type StatusRemovedEvent,
+  type StatusTickEvent,
+  type TargetResult,
+} from "@mmo/shared-sim";
+import type { ServerMob } from "../world/entities/server-mob";
+import type { ServerZone } from "../world/zones/zone";
+import { applyDamage, applyHealing } from "./effects";
+import type { ActiveStatus, StatusTick } from "./status-controller";
+
+/** Incoming damage split by redirect and absorb statuses. */
+export interface IncomingDamage {
+  /** Damage left for the target's HP. */
+  damage: number;
+  /** Damage soaked by the target's shields. */
+  absorbed: number;
+  /** Share moved to a guardian; `damage` is what is left after the guardian's own shields. */
+  redirect?: { guardian: ServerMob<MobState>; amount: number; damage: number };
+}
+
+/**
+ * Owns the status effect lifecycle for a zone (apply, periodic ticks, remove, expire).
+ * Mutates each target's StatusController and records the matching combat events.
+ */
+export class StatusEngine {
+  constructor(private readonly zone: ServerZone) {}
+
+  /**
+   * Apply a status from source to target. Returns the active entry, if the target tracks statuses.
+   * `potency` scales its absorb and periodic ticks (critically successful uses).
+   */
+  applyStatus(
+    source: ServerMob<MobState>,
+    target: ServerMob<MobState>,
+    definition: StatusEffectDefinition,
+    nowMs: number,
+    abilityId?: string,
+    potency = 1,
+  ): ActiveStatus | undefined {
+    const statusController = target.statusController;
+    if (!statusController) {
+      return undefined;
+    }
+
+    const status = statusController.applyStatus(
+      definition,
+      source.synced,
+      nowMs,
+      source.statsController?.getDerivedStats() ?? readCombatStats(source.synced),
+      target.statsController?.getDerivedStats() ?? readCombatStats(target.synced),
+      potency,
+    );
+    const appliedEvent: StatusAppliedEvent = {
+      eventId: 0,
+      category: EventCategory.Combat,
+      eventType: CombatEventType.StatusApplied,
+      serverTick: this.zone.getServerTick(),
+      serverTimeMs: nowMs,
+      contextId: this.zone.zoneData.zoneId,
+      sourceId: source.id,
+      targetId: target.id,
+      statusId: status.id,
+      abilityId,
+      stacks: status.stacks,
+      durationMs: definition.durationMs,
+      expiresAtMs: status.expiresAtMs,
+      sourceLocation: this.getLocation(target),
+    };
+    this.zone.eventLog.append(appliedEvent);
+    this.breakCast(source, target, definition, nowMs);
+    return status;
+  }
+
+  /** Remove every instance of a status from the target. */
+  removeStatus(
+    target: ServerMob<MobState>,
+    statusId: string,
+    reason: StatusRemovedEvent["reason"],
+    nowMs: number,
+  ): void {
+    const removed = target.statusController?.removeStatus(statusId) ?? [];
+    this.recordRemoved(target, removed, reason, nowMs);
+  }
+
+  /**
+   * Strip statuses from the target for a dispel effect. Records one dispel event naming the
+   * removed statuses instead of a removal event per status.
+   */
+  dispelStatuses(
+    source: ServerMob<MobState>,
+    target: ServerMob<MobState>,
+    statusIds: readonly string[],
+    abilityId: string,
+    castId: number,
+    nowMs: number,
+  ): string[] {
+    const statusController = target.statusController;
+    if (!statusController) {
+      return [];
+    }
+    const dispelled = statusIds.filter(
+      (statusId) => statusController.removeStatus(statusId).length > 0,
+    );
+    if (dispelled.length === 0) {
+      return dispelled;
+    }
+
+    const dispelledEvent: StatusDispelledEvent = {
+      eventId: 0,
+      category: EventCategory.Combat,
+      eventType: CombatEventType.StatusDispelled,
+      serverTick: this.zone.getServerTick(),
+      serverTimeMs: nowMs,
+      contextId: this.zone.zoneData.zoneId,
+      actorId: source.id,
+      targetId: target.id,
+      abilityId,
+      castId,
+      statusIds: dispelled,
+      sourceLocation: this.getLocation(target),
+    };
+    this.zone.eventLog.append(dispelledEvent);
+    return dispelled;
+  }
+
+  /** Remove all statuses from the target (e.g. on death). */
+  clearStatuses(
+    target: ServerMob<MobState>,
+    reason: StatusRemovedEvent["reason"],
+    nowMs: number,
+  ): void {
+    const removed = target.statusController?.clearAll() ?? [];
+    this.recordRemoved(target, removed, reason, nowMs);
+  }
+
+  /**
+   * Run incoming damage through the target's redirect and absorb statuses without touching HP.
+   * A redirect moves its share to the status source first (soaked by their own shields, never
+   * redirected again); the target's shields soak the rest. Depleted shields are removed.
+   */
+  resolveIncomingDamage(
+    target: ServerMob<MobState>,
+    amount: number,
+    school: DamageSchool | undefined,
+    nowMs: number,
+  ): IncomingDamage {
+    let remaining = amount;
+    let redirect: IncomingDamage["redirect"];
+    const redirectStatus = target.statusController?.getDamageRedirect();
+    const guardian = redirectStatus
+      ? this.getCombatantById(redirectStatus.status.sourceId)
+      : undefined;
+    if (redirectStatus && guardian && guardian !== target && !guardian.synced.isDead) {
+      const fraction = Math.min(1, Math.max(0, redirectStatus.redirect.fraction));
+      const moved = Math.round(remaining * fraction);
+      if (moved > 0) {
+        remaining -= moved;
+        redirect = {
+          guardian,
+          amount: moved,
+          damage: moved - this.absorb(guardian, moved, school, nowMs),
+        };
+      }
+    }
+
+    const absorbed = this.absorb(target, remaining, school, nowMs);
+    return { damage: remaining - absorbed, absorbed, redirect };
+  }
+
+  /** Resolve due periodic ticks, then expire statuses whose duration has elapsed. */
+  fixedTick(nowMs: number): void {
+    for (const combatant of this.iterateCombatants()) {
+      const statusController = combatant.statusController;
+      if (!statusController || combatant.synced.isDead) {
+        continue;
+      }
+      for (const tick of statusController.collectDueTicks(nowMs)) {
+        this.applyTick(combatant, tick, nowMs);
+      }
+    }
+
+    for (const combatant of this.iterateCombatants()) {
+      const expired = combatant.statusController?.fixedTick(nowMs) ?? [];
+      for (const status of expired) {
+        const expiredEvent: StatusExpiredEvent = {
+          eventId: 0,
+          category: EventCategory.Combat,
+          eventType: CombatEventType.StatusExpired,
+          serverTick: this.zone.getServerTick(),
+          serverTimeMs: nowMs,
+          contextId: this.zone.zoneData.zoneId,
+          sourceId: status.sourceId,
+          targetId: combatant.id,
+          statusId: status.id,
+          sourceLocation: this.getLocation(combatant),
+        };
+        this.zone.eventLog.append(expiredEvent);
+      }
+    }
+  }
+
+  /** Stuns break any cast the target is making; silences break interruptible spell casts. */
+  private breakCast(
+    source: ServerMob<MobState>,
+    target: ServerMob<MobState>,
+    definition: StatusEffectDefinition,
+    nowMs: number,
+  ): void {
+    const activeCast = target.activeCast;
+    const flags = definition.stateFlags;
+    if (!activeCast || !flags) {
+      return;
+    }
+    const ability = ABILITY_DEFINITIONS[activeCast.abilityId as keyof typeof ABILITY_DEFINITIONS];
+    let reason: "stun" | "silence" | undefined;
+    if (flags.includes("stunned")) {
+      reason = "stun";
+    } else if (
+      flags.includes("silenced") &&
+      ability?.abilityTags?.includes("spell") &&
+      isCastInterruptible(ability)
+    ) {
+      reason = "silence";
+    }
+    if (reason) {
+      this.zone.abilityEngine.interruptCast(
+        target,
+        reason,
+        nowMs,
+        this.zone.getServerTick(),
+        source.id,
+      );
+    }
+  }
+
+  /**
+   * Apply one periodic tick from snapshotted source stats.
+   * Stacks scale the amount; independent instances tick on their own.
+   */
+  private applyTick(target: ServerMob<MobState>, tick: StatusTick, nowMs: number): void {
+    const { status, definition } = tick;
+    const periodic = definition.periodicEffect;
+    if (!periodic) {
+      return;
+    }
+
+    if (periodic.school && target.statusController?.hasImmunity(periodic.school)) {
+      return;
+    }
+
+    let amount = Math.round(
+      resolvePeriodicAmount(
+        periodic,
+        status.snapshot?.sourceStats ?? {},
+        status.stacks,
+        status.snapshot?.targetStats,
+      ) * (status.snapshot?.potency ?? 1),
+    );
+    if (periodic.type === "damage" && periodic.school) {
+      // Mitigation uses the target's current stats so wards and sunders apply mid-duration.
+      const targetStats =
+        target.statsController?.getDerivedStats() ?? readCombatStats(target.synced);
+      amount = applyMitigation(amount, periodic.school, targetStats);
+    }
+    if (amount <= 0) {
+      return;
+    }
+
+    const result: TargetResult = { targetId: target.id, outcome: "hit" };
+    if (periodic.type === "damage") {
+      const incoming = this.resolveIncomingDamage(target, amount, periodic.school, nowMs);
+      applyDamage(target.synced, incoming.damage);
+      if (incoming.redirect) {
+        applyDamage(incoming.redirect.guardian.synced, incoming.redirect.damage);
+        result.redirected = incoming.redirect.amount;
+        result.redirectedToId = incoming.redirect.guardian.id;
+      }
+      result.damage = incoming.damage;
+      if (incoming.absorbed > 0) {
+        result.absorbed = incoming.absorbed;
+      }
+    } else {
+      applyHealing(target.synced, amount);
+      result.healing = amount;
+    }
+
+    const tickEvent: StatusTickEvent = {
+      eventId: 0,
+      category: EventCategory.Combat,
+      eventType: CombatEventType.StatusTick,
+      serverTick: this.zone.getServerTick(),
+      serverTimeMs: nowMs,
+      contextId: this.zone.zoneData.zoneId,
+      sourceId: status.sourceId,
+      sourceOwnerId: this.zone.getPetOwnerId(status.sourceId),
+      targetId: target.id,
+      statusId: status.id,
+      stacks: status.stacks,
+      damage: result.damage,
+      absorbed: result.absorbed,
+      redirected: result.redirected,
+      redirectedToId: result.redirectedToId,
+      healing: result.healing,
+      sourceLocation: this.getLocation(target),
+    };
+    this.zone.eventLog.append(tickEvent);
+
+    const source = this.getCombatantById(status.sourceId);
+    if (source) {
+      this.zone.combatEngine.onStatusTick(source, target, result, nowMs);
+    }
+  }
+
+  /** Soak damage with the mob's absorb shields and record the ones used up. */
+  private absorb(
+    mob: ServerMob<MobState>,
+    amount: number,
+    school: DamageSchool | undefined,
+    nowMs: number,
+  ): number {
+    const statusController = mob.statusController;
+    if (!statusController || amount <= 0) {
+      return 0;
+    }
+    const { absorbed, depleted } = statusController.absorbDamage(amount, school);
+    this.recordRemoved(mob, depleted, "consumed", nowMs);
+    return absorbed;
+  }
+
+  private recordRemoved(
+    target: ServerMob<MobState>,
+    removed: readonly ActiveStatus[],
+    reason: StatusRemovedEvent["reason"],
+    nowMs: number,
+  ): void {
+    for (const status of removed) {
+      const removedEvent: StatusRemovedEvent = {
+        eventId: 0,
+        category: EventCategory.Combat,
+        eventType: CombatEventType.StatusRemoved,
+        serverTick: this.zone.getServerTick(),
+        serverTimeMs: nowMs,
+        contextId: this.zone.zoneData.zoneId,
+        sourceId: status.sourceId,
+        targetId: target.id,
+        statusId: status.id,
+        reason,
+        sourceLocation: this.getLocation(target),
+      };
+      this.zone.eventLog.append(removedEvent);
+    }
+  }
+
+  private getLocation(mob: ServerMob<MobState>): { x: number; y: number; z: number } {
+    return { x: mob.synced.x, y: mob.synced.y, z: mob.synced.z };
+  }
+
+  /** Resolve a combatant by id, checking players then NPCs. */
+  private getCombatantById(id: string): ServerMob<MobState> | undefined {
+    return this.zone.players.get(id) ?? this.zone.npcs.get(id);
+  }
+
+  /** Iterate every server-side combatant in the zone. */
+  private *iterateCombatants(): Iterable<ServerMob<MobState>> {
+    for (const player of this.zone.players.values()) {
+      yield player;
+    }
+    for (const npc of this.zone.npcs.values()) {
+      yield npc;
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import type { AbilityAck, AbilityResult, AbilityUseRequest } from "@mmo/shared-sim";
+import type { AbilityAck, AbilityResult, AbilityUseRequest, TargetSpec } from "@mmo/shared-sim";
 
 export interface ActiveCast {
   castId: number;
@@ -9,9 +9,51 @@ export interface ActiveCast {
   serverTick: number;
   castStartTimeMs: number;
   castEndTimeMs: number;
+  /** Resolved target position at cast start (ground point, target entity or self). */
+  targetPosition?: { x: number; y: number; z: number };
+  /** Requested target entity, if any (projectiles home in on it). */
+  targetEntityId?: string;
+  /** Set for channeled abilities, whose effects resolve per tick instead of at cast end. */
+  channel?: ActiveChannel;
+  /** Damage multiplier from the cast's empowering statuses, applied to every resolution. */
+  damageMultiplier?: number;
+  /** Empowering statuses still to consume; removed when the cast resolves, kept if it breaks. */
+  empoweringStatusIds?: string[];
   result: AbilityResult;
 }
 
+/** Tick bookkeeping for a channel in progress. */
+export interface ActiveChannel {
+  tickIntervalMs: number;
+  /** Ticks already resolved; an interrupted channel keeps these. */
+  ticksApplied: number;
+  /** Original target spec, re-resolved on every tick. */
+  target: TargetSpec;
+}
+
+/** A projectile in flight; its cast's effects apply when it arrives. */
+export interface ActiveProjectile {
+  projectileId: number;
+  cast: ActiveCast;
+  /** Homing target; undefined for projectiles fired at a ground point. */
+  targetId?: string;
+  position: { x: number; y: number; z: number };
+  /** Last known destination (the target's position while it is alive). */
+  destination: { x: number; y: number; z: number };
+  speed: number;
+  lastUpdateMs: number;
+}
+
+/** A forced move in progress (knockback, pull, leap, dash), interpolated each tick. */
+export interface ActiveDisplacement {
+  from: { x: number; y: number; z: number };
+  to: { x: number; y: number; z: number };
+  startTimeMs: number;
+  endTimeMs: number;
+  /** Navmesh node at the destination, restored once the move completes. */
+  nodeRef?: number;
+}
+
 export interface BufferedAbilityRequest {
   request: AbilityUseRequest;
   receivedAtMs: number;
@@ -2,8 +2,13 @@ import { Client } from "colyseus";
 import {
   AbilityCancelRequest,
   AbilityUseRequest,
+  AutoAttackMessage,
   MoveMessage,
+  PET_STANCES,
+  PetCommandMessage,
+  ReleaseMessage,
   TargetChangeMessage,
+  areEnemies,
 } from "@mmo/shared-sim";
 import { ServerPlayer } from "../world/entities/player";
 import { ServerZone } from "../world/zones/zone";
@@ -13,7 +18,10 @@ export type ClientCommand =
   | MoveMessage
   | AbilityUseRequest
   | AbilityCancelRequest
-  | TargetChangeMessage;
+  | TargetChangeMessage
+  | AutoAttackMessage
+  | ReleaseMessage
+  | PetCommandMessage;
 
 export interface ClientCommandContext<T extends ClientCommand> {
   client: Client;
@@ -56,13 +64,17 @@ export const moveCommand = ({ data, player }: ClientCommandContext<MoveMessage>)
     player.pendingInputs.shift();
   }
 
+  // Dead players still advance their input sequence, but cannot move or jump.
+  const isDead = player.synced.isDead;
   player.pendingInputs.push({
-    directionX: data.directionX,
-    directionZ: data.directionZ,
-    jumpPressed: data.jumpPressed,
+    directionX: isDead ? 0 : data.directionX,
+    directionZ: isDead ? 0 : data.directionZ,
+    jumpPressed: isDead ? false : data.jumpPressed,
     seq: data.seq,
     tick: data.tick,
     isSprinting: data.isSprinting,
+    facingYaw:
+      isDead || !Number.isFinite(data.facingYaw) ? player.synced.facingYaw : data.facingYaw,
     predictedX: data.predictedX,
     predictedY: data.predictedY,
     predictedZ: data.predictedZ,
@@ -121,3 +133,79 @@ export const changeTargetCommand = ({
 
   player.synced.entityTargetId = targetId;
 };
+
+/**
+ * Turns the player's auto-attack on or off. Swings go at the current target and stop on their
+ * own once the target is lost.
+ *
+ * @param context - input context for an auto-attack command.
+ */
+export const autoAttackCommand = ({
+  data,
+  player,
+}: ClientCommandContext<AutoAttackMessage>): void => {
+  player.synced.autoAttacking = data.enabled === true && player.autoAttack !== undefined;
+};
+
+/**
+ * Handles a dead player's request to release their corpse and respawn.
+ *
+ * @param context - input context for a release command.
+ */
+export const releaseCommand = ({ player, zone }: ClientCommandContext<ReleaseMessage>): void => {
+  zone.releasePlayer(player);
+};
+
+/**
+ * Handles an order for the player's pet: attack an enemy, follow, stay, change stance or
+ * dismiss. Ignored when the player has no living pet.
+ *
+ * @param context - input context for a pet command.
+ */
+export const petCommand = ({
+  data,
+  player,
+  zone,
+}: ClientCommandContext<PetCommandMessage>): void => {
+  const pet = zone.getPet(player.id);
+  const control = pet?.pet;
+  if (!pet || !control) {
+    return;
+  }
+
+  switch (data.command) {
+    case "attack": {
+      const targetId = data.targetEntityId?.trim() ?? "";
+      const target = zone.players.get(targetId) ?? zone.npcs.get(targetId);
+      if (!target || target.synced.isDead || !areEnemies(pet.synced, target.synced)) {
+        return;
+      }
+      control.attackTargetId = target.id;
+      control.movement = "follow";
+      return;
+    }
+    case "follow": {
+      control.attackTargetId = undefined;
+      control.movement = "follow";
+      return;
+    }
+    case "stay": {
+      control.attackTargetId = undefined;
+      control.movement = "stay";
+      control.anchorX = pet.synced.x;
+      control.anchorZ = pet.synced.z;
+      return;
+    }
+    case "stance": {
+      if (data.stance && PET_STANCES.includes(data.stance)) {
+        control.stance = data.stance;
+        pet.synced.petStance = data.stance;
+      }
+      return;
+    }
+    case "dismiss": {
+      zone.dismissPets(player.id);
+      return;
+    }
+  }
+};
@@ -4,10 +4,16 @@ import { listen } from "@colyseus/tools";
 import app from "./app-config";
 import { matchMaker } from "colyseus";
 import { DefaultZoneLoader } from "./world/zones/zone-loader";
+import { combatContentLoader } from "./combat";
 
 const zoneLoader = new DefaultZoneLoader();
 
 const bootServer = async () => {
+  await combatContentLoader.load();
+  if (process.env.NODE_ENV !== "production") {
+    combatContentLoader.watch();
+  }
+
   const zoneData = await zoneLoader.load("startingPlains");
   await matchMaker.createRoom("zone", { zoneData, zoneId: zoneData.zoneId });
   console.log("startingPlains created");
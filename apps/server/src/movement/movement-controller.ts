@@ -92,6 +92,10 @@ export class MovementController {
   ): void {
     const deltaSeconds = tickMs / 1000;
     for (const npc of this.zone.npcs.values()) {
+      if (npc.activeDisplacement) {
+        // Forced movement (knockback, pull, ...) is driven by the DisplacementEngine.
+        continue;
+      }
       const before = {
         x: npc.synced.x,
         y: npc.synced.y,
@@ -252,6 +256,7 @@ export class MovementController {
         serverPlayer.synced.z = result.z;
         serverPlayer.synced.velocityY = result.velocityY;
         serverPlayer.synced.grounded = result.grounded;
+        serverPlayer.synced.facingYaw = input.facingYaw;
         serverPlayer.navmeshNodeRef = undefined;
         const after = {
           x: serverPlayer.synced.x,
@@ -8,6 +8,12 @@ export interface NpcAiConfig {
   maxIdleMs: number;
   moveDurationMs: number;
   moveSpeed: number;
+  /** Never wander or chase; the NPC only turns to face its target. */
+  holdPosition: boolean;
+  /** Evade once dragged further than this from home. */
+  leashRadius: number;
+  /** Evade once a fight goes this long without the NPC dealing or taking damage. */
+  evadeAfterNoDamageMs: number;
 }
 
 /**
@@ -18,4 +24,25 @@ export const DEFAULT_NPC_AI_CONFIG: NpcAiConfig = {
   maxIdleMs: 1500,
   moveDurationMs: 900,
   moveSpeed: PLAYER_SPEED,
+  holdPosition: false,
+  leashRadius: 40,
+  evadeAfterNoDamageMs: 15_000,
 };
+
+/** Evading NPCs stop being immune once back within this distance of home. */
+export const LEASH_HOME_TOLERANCE = 0.5;
+
+/** Evading NPCs that have not walked home within this long are snapped back to their spawn. */
+export const EVADE_TIMEOUT_MS = 10_000;
+
+/** Pets with nothing to attack close back in to this distance of their owner. */
+export const PET_FOLLOW_DISTANCE = 3;
+
+/** Staying pets walk back to their spot once pushed further than this from it. */
+export const PET_STAY_TOLERANCE = 0.5;
+
+/** Aggressive pets attack enemies within this distance of themselves unprovoked. */
+export const PET_AGGRESSIVE_RADIUS = 10;
+
+/** Pets spawn this far to the side of their owner. */
+export const PET_SPAWN_OFFSET = 1.5;
@@ -3,7 +3,9 @@ import { AggroTable } from "../../combat/aggro-table";
 import type { AbilityIntent } from "../../ai/components/ability-intent";
 import type { BehaviorIntent } from "../../ai/components/behavior-intent";
 import type { CombatAwareness } from "../../ai/components/combat-awareness";
+import type { LeashState } from "../../ai/components/leash-state";
 import type { NpcBrainState } from "../../ai/components/npc-brain-state";
+import type { PetControl } from "../../ai/components/pet-control";
 import type { SteeringIntent } from "../../ai/components/steering-intent";
 import type { TargetSelection } from "../../ai/components/target-selection";
 import { DEFAULT_NPC_AI_CONFIG, type NpcAiConfig } from "../constants/ai";
@@ -20,7 +22,10 @@ export class ServerNPC extends ServerMob<NPCState> {
   public readonly behaviorIntent: BehaviorIntent;
   public readonly steeringIntent: SteeringIntent;
   public readonly abilityIntent: AbilityIntent;
+  public readonly leash: LeashState;
   public readonly aiConfig: NpcAiConfig;
+  /** Set while the NPC is someone's pet (see `synced.ownerId`). */
+  public pet?: PetControl;
 
   /**
    * Creates a new server NPC wrapper.
@@ -68,5 +73,13 @@ export class ServerNPC extends ServerMob<NPCState> {
       targetId: undefined,
       requestedAtMs: 0,
     };
+    this.leash = {
+      homeX: synced.x,
+      homeY: synced.y,
+      homeZ: synced.z,
+      evading: false,
+      evadeStartedAtMs: 0,
+      lastDamageAtMs: 0,
+    };
   }
 }
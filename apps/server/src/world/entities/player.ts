@@ -8,6 +8,7 @@ export interface QueuedMoveInput {
   seq: number;
   tick: number;
   isSprinting: boolean;
+  facingYaw: number;
   predictedX: number;
   predictedY: number;
   predictedZ: number;
@@ -30,6 +31,6 @@ export class ServerPlayer extends ServerMob<PlayerState> {
   snapLocked = false;
   /** Target position for the current snap lock. */
   snapTarget?: { x: number; y: number; z: number };
-  /** Pending snap message to send to the client. */
-  snapPending?: { x: number; y: number; z: number; seq: number };
+  /** Pending snap message to send to the client (durationMs > 0 plays it as a forced move). */
+  snapPending?: { x: number; y: number; z: number; seq: number; durationMs?: number };
 }
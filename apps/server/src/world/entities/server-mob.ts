@@ -1,8 +1,15 @@
-import type { AbilityDefinition, AbilityUseRejectionReason, MobState } from "@mmo/shared-sim";
+import {
+  CooldownTracker,
+  DEFAULT_AUTO_ATTACK,
+  STATUS_DEFINITIONS,
+  type AbilityDefinition,
+  type AbilityUseRejectionReason,
+  type AutoAttackProfile,
+  type MobState,
+} from "@mmo/shared-sim";
 import { StatsController } from "../../combat/stats-controller";
 import { StatusController } from "../../combat/status-controller";
-import { STATUS_DEFINITIONS } from "../../combat/status-definitions";
-import type { ActiveCast, BufferedAbilityRequest } from "../../combat/types";
+import type { ActiveCast, ActiveDisplacement, BufferedAbilityRequest } from "../../combat/types";
 
 /**
  * Server-only base class for any combat-capable mob entity.
@@ -22,22 +29,33 @@ export abstract class ServerMob<TState extends MobState> {
   navmeshNodeRef?: number;
 
   // Combat runtime state (server-authoritative only).
-  cooldowns = new Map<string, number>();
+  cooldowns = new CooldownTracker();
   activeCast?: ActiveCast;
   bufferedRequest?: BufferedAbilityRequest;
+  activeDisplacement?: ActiveDisplacement;
   statusController?: StatusController;
   statsController?: StatsController;
+  /** Weapon swung while `synced.autoAttacking` is on; mobs without one never auto-attack. */
+  autoAttack?: AutoAttackProfile = { ...DEFAULT_AUTO_ATTACK };
+  /** Fractional regeneration not yet written to the synced integer resources. */
+  regenRemainder = { mana: 0, stamina: 0 };
 
   canUseAbility(
     ability: AbilityDefinition,
   ): { canUse: true } | { canUse: false; reason: AbilityUseRejectionReason } {
     const statusController = this.statusController;
+    if (ability.requiresGrant && !statusController?.grantsAbility(ability.id)) {
+      return { canUse: false, reason: "not_granted" };
+    }
     if (!statusController) {
       return { canUse: true };
     }
     if (statusController.hasStateFlag("stunned")) {
       return { canUse: false, reason: "stunned" };
     }
+    if (statusController.isLockedOut(ability)) {
+      return { canUse: false, reason: "locked_out" };
+    }
     const abilityTags = ability.abilityTags ?? [];
     if (abilityTags.length === 0) {
       return { canUse: true };
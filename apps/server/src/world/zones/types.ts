@@ -1,3 +1,5 @@
+import type { AutoAttackProfile } from "@mmo/shared-sim";
+
 export type EntityType = "mob" | "obj";
 
 export interface ZoneEntryPoint {
@@ -27,6 +29,14 @@ export interface ZoneSpawnPoint<T extends EntityType> {
   respawnTime: number;
   /** Optional spawn delay in milliseconds. */
   spawnDelay?: number;
+  /** Optional time in milliseconds a dead mob's corpse stays before despawning. */
+  corpseDurationMs?: number;
+  /** Weapon the mob auto-attacks with (DEFAULT_AUTO_ATTACK when omitted); false for never. */
+  autoAttack?: AutoAttackProfile | false;
+  /** Distance from the spawn position the mob can be pulled before it evades home. */
+  leashRadius?: number;
+  /** Fight length without damage after which the mob evades home. */
+  evadeAfterNoDamageMs?: number;
   // Count
   countPerSpawn: number;
   // Max count
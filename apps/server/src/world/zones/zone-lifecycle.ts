@@ -1,11 +1,18 @@
-import { NPCState } from "@mmo/shared-sim";
+import { NPCState, type MobState, type PetTemplate } from "@mmo/shared-sim";
 import { ServerNPC } from "../entities/npc";
+import type { ServerMob } from "../entities/server-mob";
+import { PET_SPAWN_OFFSET } from "../constants/ai";
 import { ZoneData, ServerZone } from "./zone";
 import { ZoneSpawnPoint } from "./types";
 
+/** Default time a dead NPC's corpse remains in the zone before despawning. */
+const DEFAULT_CORPSE_DURATION_MS = 10_000;
+
 export class ZoneLifecycle {
-  // Keep track of time since last spawn of each spawn point.
+  // Keep track of time since last spawn (or corpse despawn) of each spawn point.
   private lastSpawnTime: Record<string, number> = {};
+  // Monotonic per-template counter so respawned NPCs never reuse a live id.
+  private nextSpawnSerial: Record<string, number> = {};
   private elapsedTimeMs = 0;
   private zoneData!: ZoneData;
   private zone!: ServerZone;
@@ -20,14 +27,19 @@ export class ZoneLifecycle {
     this.zoneData = zone.zoneData;
     this.zone = zone;
     this.lastSpawnTime = {};
+    this.nextSpawnSerial = {};
   }
 
   /**
    * Updates spawn timers and lifecycle systems.
    *
    * @param deltaTimeMs - elapsed time since last update in milliseconds.
+   * @param nowMs - current server time, used to age corpses.
    */
-  public update(deltaTimeMs: number): void {
+  public update(deltaTimeMs: number, nowMs: number): void {
+    this.despawnCorpses(nowMs);
+    this.despawnExpiredPets(nowMs);
+
     // Only check for spawns once per second.
     this.elapsedTimeMs += deltaTimeMs;
     if (this.elapsedTimeMs % 1000 !== 0) {
@@ -59,7 +71,9 @@ export class ZoneLifecycle {
 
         if (currentCount < spawnPoint.maxCount) {
           // Spawn an NPC
-          const id = `${spawnPoint.templateId}_${currentCount + 1}`;
+          const serial = this.nextSpawnSerial[templateId] ?? 1;
+          this.nextSpawnSerial[templateId] = serial + 1;
+          const id = `${spawnPoint.templateId}_${serial}`;
           const npc = this.spawnNpc(spawnPoint, id);
           for (const callback of this.onNpcSpawnedCallbacks) {
             callback(npc);
@@ -84,6 +98,121 @@ export class ZoneLifecycle {
     this.onNpcSpawnedCallbacks.push(callback);
   }
 
+  private onNpcDespawnedCallbacks: ((npc: ServerNPC) => void)[] = [];
+
+  /**
+   * Registers a callback for NPC despawn events (corpse decay).
+   *
+   * @param callback - invoked when a dead NPC is removed from the zone.
+   */
+  public onNpcDespawned(callback: (npc: ServerNPC) => void): void {
+    this.onNpcDespawnedCallbacks.push(callback);
+  }
+
+  /**
+   * Spawns a pet next to its owner, sharing the owner's faction.
+   *
+   * @param owner - mob the pet follows and fights for.
+   * @param template - pet to spawn.
+   * @param nowMs - current server time, used to schedule temporary summons.
+   * @returns the spawned pet.
+   */
+  public spawnPet(owner: ServerMob<MobState>, template: PetTemplate, nowMs: number): ServerNPC {
+    const serial = this.nextSpawnSerial[template.id] ?? 1;
+    this.nextSpawnSerial[template.id] = serial + 1;
+
+    const ownerState = owner.synced;
+    const mobState = new NPCState();
+    mobState.id = `${template.id}_${serial}`;
+    mobState.templateId = template.id;
+    mobState.ownerId = owner.id;
+    mobState.petStance = template.defaultStance;
+    mobState.factionId = ownerState.factionId;
+    // Spawn beside the owner, perpendicular to where it faces.
+    mobState.x = ownerState.x + Math.cos(ownerState.facingYaw) * PET_SPAWN_OFFSET;
+    mobState.y = ownerState.y;
+    mobState.z = ownerState.z - Math.sin(ownerState.facingYaw) * PET_SPAWN_OFFSET;
+    mobState.facingYaw = ownerState.facingYaw;
+    mobState.currentHp = template.maxHp;
+    mobState.maxHp = template.maxHp;
+    mobState.maxMana = 100;
+    mobState.mana = 100;
+    mobState.maxStamina = 100;
+    mobState.stamina = 100;
+    mobState.strength = template.strength;
+    mobState.dexterity = template.dexterity;
+    mobState.intelligence = template.intelligence;
+    mobState.constitution = template.constitution;
+    mobState.name = template.name;
+    mobState.mobType = template.mobType;
+
+    const pet = new ServerNPC(mobState);
+    if (template.autoAttack) {
+      pet.autoAttack = { ...template.autoAttack };
+    }
+    pet.pet = {
+      templateId: template.id,
+      stance: template.defaultStance,
+      movement: "follow",
+      anchorX: ownerState.x,
+      anchorZ: ownerState.z,
+      expiresAtMs: template.durationMs === undefined ? undefined : nowMs + template.durationMs,
+    };
+    for (const callback of this.onNpcSpawnedCallbacks) {
+      callback(pet);
+    }
+    return pet;
+  }
+
+  /**
+   * Removes an NPC from the zone right away, alive or not.
+   *
+   * @param npc - NPC to remove.
+   */
+  public despawnNpc(npc: ServerNPC): void {
+    for (const callback of this.onNpcDespawnedCallbacks) {
+      callback(npc);
+    }
+  }
+
+  /** Removes temporary summons whose time is up. */
+  private despawnExpiredPets(nowMs: number): void {
+    for (const npc of this.zone.npcs.values()) {
+      const expiresAtMs = npc.pet?.expiresAtMs;
+      if (expiresAtMs !== undefined && nowMs >= expiresAtMs) {
+        this.despawnNpc(npc);
+      }
+    }
+  }
+
+  /**
+   * Removes NPC corpses that have decayed and restarts the respawn timer
+   * for their spawn point, so respawnTime counts from the despawn.
+   */
+  private despawnCorpses(nowMs: number): void {
+    for (const npc of this.zone.npcs.values()) {
+      if (!npc.synced.isDead) {
+        continue;
+      }
+
+      const templateId = npc.synced.templateId;
+      const spawnPoint = this.zoneData.mobSpawnPoints.find(
+        (candidate) => candidate.templateId === templateId,
+      );
+      const corpseDurationMs = spawnPoint?.corpseDurationMs ?? DEFAULT_CORPSE_DURATION_MS;
+      if (nowMs - npc.synced.deathTimeMs < corpseDurationMs) {
+        continue;
+      }
+
+      for (const callback of this.onNpcDespawnedCallbacks) {
+        callback(npc);
+      }
+      if (spawnPoint) {
+        this.lastSpawnTime[templateId] = this.elapsedTimeMs;
+      }
+    }
+  }
+
   private spawnNpc(spawnPoint: ZoneSpawnPoint<"mob">, id: string): ServerNPC {
     const mobState = new NPCState();
     mobState.id = id;
@@ -105,7 +234,14 @@ export class ZoneLifecycle {
     mobState.constitution = ZoneLifecycle.rollStat();
     mobState.name = spawnPoint.templateId;
     mobState.mobType = spawnPoint.entityData.mobType;
-    return new ServerNPC(mobState);
+    const npc = new ServerNPC(mobState);
+    if (spawnPoint.autoAttack !== undefined) {
+      npc.autoAttack = spawnPoint.autoAttack === false ? undefined : { ...spawnPoint.autoAttack };
+    }
+    npc.aiConfig.leashRadius = spawnPoint.leashRadius ?? npc.aiConfig.leashRadius;
+    npc.aiConfig.evadeAfterNoDamageMs =
+      spawnPoint.evadeAfterNoDamageMs ?? npc.aiConfig.evadeAfterNoDamageMs;
+    return npc;
   }
 
   private static rollStat(): number {
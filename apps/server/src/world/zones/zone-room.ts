@@ -7,6 +7,9 @@ import {
   AbilityUseRequest,
   AbilityCancelRequest,
   TargetChangeMessage,
+  AutoAttackMessage,
+  ReleaseMessage,
+  PetCommandMessage,
   DEFAULT_EVENT_RANGE,
   type EventLogEntry,
   type EventStreamBatch,
@@ -14,11 +17,13 @@ import {
   type EventStreamResyncResponse,
 } from "@mmo/shared-sim";
 import { Room, Client, CloseCode, AuthContext } from "colyseus";
+import path from "node:path";
 import * as CommandHandler from "../../commands/commands";
 import { ServerZone, ZoneData } from "./zone";
 import { ZoneConnectionManager } from "./zone-connection-manager";
 import { logger } from "@mmo/shared-servers";
 import type { EventLogBuffer } from "../../eventLog";
+import { combatContentLoader } from "../../combat";
 
 export class ZoneRoom extends Room<{ state: ZoneState }> {
   state: ZoneState = new ZoneState();
@@ -29,6 +34,7 @@ export class ZoneRoom extends Room<{ state: ZoneState }> {
   private zone!: ServerZone;
   private lastBroadcastEventId = 0;
   private readonly clientEventCursors = new Map<string, number>();
+  private unsubscribeCombatContent?: () => void;
 
   async onCreate(options: { zoneData: ZoneData }) {
     const zoneData = options.zoneData;
@@ -39,11 +45,23 @@ export class ZoneRoom extends Room<{ state: ZoneState }> {
     const serverZone = new ServerZone(zoneData, this.state);
     this.zone = serverZone;
 
+    const recordingDir = process.env.COMBAT_RECORDING_DIR;
+    if (recordingDir) {
+      const recordingPath = path.resolve(recordingDir, `${zoneData.zoneId}-${Date.now()}.jsonl`);
+      await serverZone.startCombatRecording(recordingPath);
+      logger.info({ recordingPath }, "Recording combat");
+    }
+
     this.connectionManager = new ZoneConnectionManager(
       serverZone.zoneData.getSpawnPosition.bind(serverZone.zoneData),
       serverZone.zoneData.resolvePlayerSpawnPosition.bind(serverZone.zoneData),
     );
 
+    // Clients keep their own copy of the definitions; push it again after a content reload.
+    this.unsubscribeCombatContent = combatContentLoader.onReload((message) => {
+      this.broadcast("combat_content", message);
+    });
+
     let elapsedTimeMs = 0;
     this.setSimulationInterval((deltaTime) => {
       const now = Date.now();
@@ -126,6 +144,57 @@ export class ZoneRoom extends Room<{ state: ZoneState }> {
       });
     });
 
+    this.onMessage("auto_attack", (client, data: AutoAttackMessage) => {
+      const player = serverZone.players.get(
+        this.connectionManager.getClientUserData(client).playerId,
+      );
+      if (!player) {
+        console.warn(`Player not found for client ${client.sessionId}`);
+        return;
+      }
+
+      CommandHandler.autoAttackCommand({
+        client,
+        data,
+        player,
+        zone: this.zone,
+      });
+    });
+
+    this.onMessage("release", (client, data: ReleaseMessage) => {
+      const player = serverZone.players.get(
+        this.connectionManager.getClientUserData(client).playerId,
+      );
+      if (!player) {
+        console.warn(`Player not found for client ${client.sessionId}`);
+        return;
+      }
+
+      CommandHandler.releaseCommand({
+        client,
+        data,
+        player,
+        zone: this.zone,
+      });
+    });
+
+    this.onMessage("pet_command", (client, data: PetCommandMessage) => {
+      const player = serverZone.players.get(
+        this.connectionManager.getClientUserData(client).playerId,
+      );
+      if (!player) {
+        console.warn(`Player not found for client ${client.sessionId}`);
+        return;
+      }
+
+      CommandHandler.petCommand({
+        client,
+        data,
+        player,
+        zone: this.zone,
+      });
+    });
+
     this.onMessage("event_stream_resync_request", (client, data: EventStreamResyncRequest) => {
       this.handleEventStreamResync(client, data);
     });
@@ -149,6 +218,7 @@ export class ZoneRoom extends Room<{ state: ZoneState }> {
   }
 
   async onJoin(client: Client, options: { fromZone?: string }) {
+    client.send("combat_content", combatContentLoader.getMessage());
     const serverPlayer = this.connectionManager.getExistingOrNewPlayer(client, options, this);
     if (serverPlayer) {
       this.zone.players.set(serverPlayer.synced.id, serverPlayer);
@@ -170,10 +240,13 @@ export class ZoneRoom extends Room<{ state: ZoneState }> {
     const consented = code === CloseCode.CONSENTED;
     const { playerId } = this.connectionManager.getClientUserData(client);
     this.clientEventCursors.delete(playerId);
+    // Pets don't wait out the reconnect grace period with their owner.
+    this.zone.dismissPets(playerId);
     this.connectionManager.onLeave(client, consented, this);
   }
 
   onDispose() {
+    this.unsubscribeCombatContent?.();
     this.zone.dispose();
     return this.connectionManager.dispose();
   }
@@ -1,15 +1,28 @@
 import {
+  PET_TEMPLATES,
   PlayerCollisionSimulator,
   TICK_MS,
+  type MobState,
   ZoneState,
   ZoneDefinition,
   NavcatQuery,
 } from "@mmo/shared-sim";
 import { ServerPlayer } from "../entities/player";
 import { ServerNPC } from "../entities/npc";
+import type { ServerMob } from "../entities/server-mob";
 import { ZoneEntryPoint, ZoneSpawnPoint } from "./types";
 import { ZoneLifecycle } from "./zone-lifecycle";
-import { AbilityEngine, CombatEngine } from "../../combat";
+import {
+  AbilityEngine,
+  AutoAttackEngine,
+  CombatEngine,
+  CombatRecorder,
+  DisplacementEngine,
+  ProcEngine,
+  ProjectileEngine,
+  RegenEngine,
+  StatusEngine,
+} from "../../combat";
 import { LineOfSightTracker } from "./line-of-sight-tracker";
 import { EventLog } from "../../eventLog";
 import { MovementController } from "../../movement/movement-controller";
@@ -182,11 +195,19 @@ export class ServerZone {
   private serverTick = 0;
   public readonly abilityEngine: AbilityEngine;
   public readonly combatEngine: CombatEngine;
+  public readonly statusEngine: StatusEngine;
+  public readonly regenEngine: RegenEngine;
+  public readonly displacementEngine: DisplacementEngine;
+  public readonly projectileEngine: ProjectileEngine;
+  public readonly autoAttackEngine: AutoAttackEngine;
+  public readonly procEngine: ProcEngine;
   public readonly eventLog: EventLog;
   public readonly movementController: MovementController;
   private readonly aiController: AiController;
   private readonly abilityIntentSystem: AbilityIntentSystem;
   private readonly lineOfSightTracker: LineOfSightTracker;
+  /** Set while ability requests and outcome rolls are being recorded for replay. */
+  public combatRecorder?: CombatRecorder;
 
   constructor(
     public readonly zoneData: ZoneData,
@@ -199,8 +220,15 @@ export class ServerZone {
     this.aiController = new AiController(this);
     this.abilityIntentSystem = new AbilityIntentSystem();
     this.combatEngine = new CombatEngine(this);
+    this.statusEngine = new StatusEngine(this);
+    this.regenEngine = new RegenEngine(this);
+    this.displacementEngine = new DisplacementEngine(this);
+    this.projectileEngine = new ProjectileEngine(this);
     this.abilityEngine = new AbilityEngine(this);
+    this.autoAttackEngine = new AutoAttackEngine(this);
+    this.procEngine = new ProcEngine(this);
     this.abilityEngine.addEventListener(this.combatEngine);
+    this.abilityEngine.addEventListener(this.procEngine);
     this.lineOfSightTracker = new LineOfSightTracker();
 
     this.zoneLifecycle.onNpcSpawned((npc: ServerNPC) => {
@@ -208,6 +236,11 @@ export class ServerZone {
       this.zoneState.npcs.set(npc.synced.id, npc.synced);
     });
 
+    this.zoneLifecycle.onNpcDespawned((npc: ServerNPC) => {
+      this.npcs.delete(npc.synced.id);
+      this.zoneState.npcs.delete(npc.synced.id);
+    });
+
     //this.simulationTimer = new FixedSimulationTimer((deltaTimeMs) => this.update(deltaTimeMs));
   }
 
@@ -215,11 +248,16 @@ export class ServerZone {
     this.serverTick += 1;
 
     this.abilityEngine.fixedTick(time, this.serverTick);
+    this.projectileEngine.fixedTick(time, this.serverTick);
+    this.autoAttackEngine.fixedTick(time, tickMs, this.serverTick);
     this.combatEngine.fixedTick(time);
+    this.statusEngine.fixedTick(time);
+    this.regenEngine.fixedTick(time, tickMs);
+    this.displacementEngine.fixedTick(time);
 
-    this.zoneLifecycle.update(tickMs);
+    this.zoneLifecycle.update(tickMs, time);
 
-    this.aiController.fixedTick(tickMs);
+    this.aiController.fixedTick(time, tickMs);
     this.abilityIntentSystem.update(this, time, this.serverTick);
 
     this.movementController.fixedTick(
@@ -233,10 +271,109 @@ export class ServerZone {
     this.lineOfSightTracker.update(this, this.serverTick);
   }
 
+  /**
+   * Releases a dead player's corpse and respawns them at the zone entry point
+   * with full resources. The client is snapped to the new position.
+   *
+   * @returns true if the player was dead and has been respawned.
+   */
+  public releasePlayer(player: ServerPlayer): boolean {
+    const synced = player.synced;
+    if (!synced.isDead) {
+      return false;
+    }
+
+    const spawn = this.zoneData.getSpawnPosition();
+    synced.x = spawn.x;
+    synced.y = spawn.y;
+    synced.z = spawn.z;
+    synced.isDead = false;
+    synced.deathTimeMs = 0;
+    synced.currentHp = synced.maxHp;
+    synced.mana = synced.maxMana;
+    synced.stamina = synced.maxStamina;
+    synced.velocityY = 0;
+    synced.grounded = true;
+
+    player.velocityY = 0;
+    player.grounded = true;
+    player.navmeshNodeRef = undefined;
+    player.activeDisplacement = undefined;
+    player.pendingInputs.length = 0;
+    player.inputBudgetTicks = 0;
+    player.snapLocked = true;
+    player.snapTarget = { x: spawn.x, y: spawn.y, z: spawn.z };
+    player.snapPending = {
+      x: spawn.x,
+      y: spawn.y,
+      z: spawn.z,
+      seq: synced.lastProcessedSeq,
+    };
+    return true;
+  }
+
+  /**
+   * Spawns a pet for the owner, dismissing the pet it already has.
+   *
+   * @returns the new pet, or undefined for an unknown template.
+   */
+  public summonPet(
+    owner: ServerMob<MobState>,
+    templateId: string,
+    nowMs: number,
+  ): ServerNPC | undefined {
+    const template = PET_TEMPLATES[templateId];
+    if (!template) {
+      return undefined;
+    }
+    this.dismissPets(owner.id);
+    return this.zoneLifecycle.spawnPet(owner, template, nowMs);
+  }
+
+  /** Despawns every pet the owner has, e.g. when it dies or leaves the zone. */
+  public dismissPets(ownerId: string): void {
+    for (const npc of this.npcs.values()) {
+      if (npc.pet && npc.synced.ownerId === ownerId) {
+        this.zoneLifecycle.despawnNpc(npc);
+      }
+    }
+  }
+
+  /** The owner's living pet, if it has one. */
+  public getPet(ownerId: string): ServerNPC | undefined {
+    for (const npc of this.npcs.values()) {
+      if (npc.pet && npc.synced.ownerId === ownerId && !npc.synced.isDead) {
+        return npc;
+      }
+    }
+    return undefined;
+  }
+
+  /** Owner of the mob when it is a pet; combat credit for what a pet does goes to its owner. */
+  public getPetOwnerId(mobId: string): string | undefined {
+    const npc = this.npcs.get(mobId);
+    return npc?.pet ? npc.synced.ownerId : undefined;
+  }
+
   public getServerTick(): number {
     return this.serverTick;
   }
 
+  /**
+   * Starts recording ability requests and outcome rolls to a JSON Lines file, replacing any
+   * recording in progress.
+   */
+  public async startCombatRecording(filePath: string): Promise<void> {
+    await this.stopCombatRecording();
+    this.combatRecorder = await CombatRecorder.open(filePath, this.zoneData.zoneId);
+  }
+
+  public async stopCombatRecording(): Promise<void> {
+    const recorder = this.combatRecorder;
+    this.combatRecorder = undefined;
+    await recorder?.close();
+  }
+
   /**
    * Releases timers and transient server state.
    */
@@ -247,5 +384,6 @@ export class ServerZone {
     this.objects.clear();
     this.movementController.dispose();
     this.zoneData.collisionWorld?.dispose();
+    void this.stopCombatRecording();
   }
 }
@@ -1,6 +1,10 @@
 import { describe, expect, it } from "vitest";
 import { CombatState } from "@mmo/shared-sim";
-import { AggroTable } from "../src/combat/aggro-table";
+import {
+  AGGRO_DECAY_DELAY_MS,
+  AGGRO_DECAY_PER_SECOND,
+  AggroTable,
+} from "../src/combat/aggro-table";
 
 const createTable = (): { state: CombatState; table: AggroTable } => {
   const state = new CombatState();
@@ -69,4 +73,73 @@ describe("AggroTable", () => {
     expect(table.getAggro("b")).toBe(0);
     expect(state.aggro.size).toBe(0);
   });
+
+  it("taunt pins the taunter to the top at the current top value until it expires", () => {
+    const { state, table } = createTable();
+
+    table.addAggro("dps", 100, 0);
+    table.addAggro("tank", 20, 0);
+    table.applyTaunt("tank", 3000, 1000);
+
+    expect(table.getTopTargetId()).toBe("tank");
+    expect(table.getAggro("tank")).toBe(100);
+    expect(state.aggro.get("tank")?.percent).toBe(100);
+
+    // Out-threatening the taunter does not pull the NPC off while the taunt lasts.
+    table.addAggro("dps", 50, 2000);
+    table.update(2000);
+    expect(table.getTopTargetId()).toBe("tank");
+
+    table.update(4000);
+    expect(table.getTauntTargetId()).toBeUndefined();
+    expect(table.getTopTargetId()).toBe("dps");
+  });
+
+  it("taunt puts the taunter on an empty table", () => {
+    const { state, table } = createTable();
+
+    table.applyTaunt("tank", 3000, 1000);
+
+    expect(table.getTauntTargetId()).toBe("tank");
+    expect(table.getTopTargetId()).toBe("tank");
+    expect(table.getAggro("tank")).toBeGreaterThan(0);
+    expect(state.aggro.get("tank")?.percent).toBe(100);
+  });
+
+  it("scales a target's aggro and drops it at zero", () => {
+    const { state, table } = createTable();
+
+    table.addAggro("a", 40);
+    table.addAggro("b", 20);
+    table.scaleAggro("a", 0.25);
+
+    expect(table.getAggro("a")).toBe(10);
+    expect(table.getTopTargetId()).toBe("b");
+    expect(state.aggro.get("a")?.percent).toBe(50);
+
+    table.scaleAggro("a", 0);
+    expect(table.hasTarget("a")).toBe(false);
+    expect(state.aggro.get("a")).toBeUndefined();
+  });
+
+  it("decays aggro of targets that stop contributing, keeping a floor", () => {
+    const { state, table } = createTable();
+
+    table.update(0);
+    table.addAggro("idle", 100, 0);
+    table.addAggro("active", 100, 0);
+
+    const decayStartMs = AGGRO_DECAY_DELAY_MS;
+    table.update(decayStartMs);
+    table.addAggro("active", 1, decayStartMs);
+    table.update(decayStartMs + 1000);
+
+    expect(table.getAggro("idle")).toBeCloseTo(100 * (1 - AGGRO_DECAY_PER_SECOND));
+    expect(table.getAggro("active")).toBe(101);
+    expect(state.aggro.get("idle")?.percent).toBe(89);
+
+    table.update(decayStartMs + 600_000);
+    expect(table.getAggro("idle")).toBe(1);
+    expect(table.hasTarget("idle")).toBe(true);
+  });
 });
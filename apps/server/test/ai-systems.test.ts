@@ -1,12 +1,24 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { NPCState, PlayerState, ZoneState } from "@mmo/shared-sim";
+import {
+  CombatEventType,
+  NPCState,
+  PlayerState,
+  ZoneState,
+  type MobExitCombatEvent,
+  type PetCommandMessage,
+} from "@mmo/shared-sim";
+import type { Client } from "colyseus";
+import { petCommand } from "../src/commands/commands";
 import type { NavcatQuery } from "@mmo/shared-sim";
 import { AiDecisionSystem } from "../src/ai/systems/ai-decision-system";
+import { AiLeashSystem } from "../src/ai/systems/ai-leash-system";
+import { AiPetSystem } from "../src/ai/systems/ai-pet-system";
 import { AiSteeringSystem } from "../src/ai/systems/ai-steering-system";
 import { AbilityIntentSystem } from "../src/ai/systems/ability-intent-system";
 import { ServerNPC } from "../src/world/entities/npc";
 import { ServerPlayer } from "../src/world/entities/player";
 import { ServerZone, ZoneData } from "../src/world/zones/zone";
+import { EVADE_TIMEOUT_MS } from "../src/world/constants/ai";
 import { createTestNavmeshQuery } from "./test-navmesh";
 import { createTestCollisionWorld } from "./test-collision-world";
 
@@ -111,6 +123,183 @@ describe("AI systems", () => {
     expect(npc.brainState.movingUntilMs).toBe(750);
   });
 
+  it("auto-attacks the target once in melee range and stops without one", () => {
+    const system = new AiDecisionSystem();
+    const player = createPlayer(zone, "player-1", 5, 0);
+    npc.targetSelection.targetId = player.id;
+    npc.targetSelection.targetX = player.synced.x;
+    npc.targetSelection.targetZ = player.synced.z;
+
+    system.update(zone);
+
+    expect(npc.synced.entityTargetId).toBe(player.id);
+    expect(npc.synced.autoAttacking).toBe(false);
+
+    npc.targetSelection.targetX = 1;
+    system.update(zone);
+
+    expect(npc.synced.autoAttacking).toBe(true);
+
+    npc.targetSelection.targetId = undefined;
+    system.update(zone);
+
+    expect(npc.synced.entityTargetId).toBe("");
+    expect(npc.synced.autoAttacking).toBe(false);
+  });
+
+  it("evades home when pulled past its leash or fought too long without damage", () => {
+    const player = createPlayer(zone, "player-1", 5, 0);
+    const leashSystem = new AiLeashSystem();
+    const decisionSystem = new AiDecisionSystem();
+    npc.aiConfig.leashRadius = 10;
+    npc.aggro.addAggro(player.id, 10);
+    zone.combatEngine.recordHostileAction(player, [npc], 0);
+    npc.synced.currentHp = 40;
+
+    npc.synced.x = 8;
+    leashSystem.update(zone, 1000);
+
+    expect(npc.leash.evading).toBe(false);
+
+    npc.synced.x = 12;
+    leashSystem.update(zone, 1000);
+    decisionSystem.update(zone);
+
+    const exit = zone.eventLog
+      .getBuffer()
+      .getSince(0)
+      ?.entries.find((entry) => entry.eventType === CombatEventType.MobExitCombat) as
+      | MobExitCombatEvent
+      | undefined;
+    expect(exit?.reason).toBe("evade");
+    expect(npc.synced.inCombat).toBe(false);
+    expect(npc.aggro.hasAnyTargets()).toBe(false);
+    expect(npc.synced.currentHp).toBe(40);
+    expect(npc.statusController?.hasImmunity("physical")).toBe(true);
+    expect(npc.behaviorIntent.mode).toBe("return");
+
+    zone.combatEngine.recordHostileAction(player, [npc], 1500);
+
+    expect(npc.synced.inCombat).toBe(false);
+
+    npc.synced.x = 0.2;
+    leashSystem.update(zone, 2000);
+
+    expect(npc.leash.evading).toBe(false);
+    expect(npc.synced.currentHp).toBe(npc.synced.maxHp);
+    expect(npc.statusController?.hasImmunity("physical")).toBe(false);
+
+    zone.combatEngine.recordHostileAction(player, [npc], 3000);
+    leashSystem.update(zone, 3000 + npc.aiConfig.evadeAfterNoDamageMs - 1);
+
+    expect(npc.leash.evading).toBe(false);
+
+    leashSystem.update(zone, 3000 + npc.aiConfig.evadeAfterNoDamageMs);
+
+    expect(npc.leash.evading).toBe(true);
+  });
+
+  it("snaps evading NPCs to their spawn when they cannot walk home in time", () => {
+    const leashSystem = new AiLeashSystem();
+    const { homeX, homeY, homeZ } = npc.leash;
+    npc.synced.x = homeX + 20;
+    npc.synced.z = homeZ + 5;
+    npc.synced.currentHp = 40;
+    zone.combatEngine.evade(npc, 1000);
+
+    leashSystem.update(zone, 1000 + EVADE_TIMEOUT_MS - 1);
+
+    expect(npc.leash.evading).toBe(true);
+    expect(npc.synced.currentHp).toBe(40);
+
+    leashSystem.update(zone, 1000 + EVADE_TIMEOUT_MS);
+
+    expect(npc.leash.evading).toBe(false);
+    expect([npc.synced.x, npc.synced.y, npc.synced.z]).toEqual([homeX, homeY, homeZ]);
+    expect(npc.synced.currentHp).toBe(npc.synced.maxHp);
+    expect(npc.statusController?.hasImmunity("physical")).toBe(false);
+  });
+
+  it("neither wanders nor chases when holding position", () => {
+    const system = new AiDecisionSystem();
+    const player = createPlayer(zone, "player-1", 5, 0);
+    npc.aiConfig.holdPosition = true;
+    npc.brainState.elapsedTimeMs = 1000;
+    npc.brainState.nextDecisionAtMs = 0;
+
+    system.update(zone);
+
+    expect(npc.behaviorIntent.mode).toBe("idle");
+
+    npc.targetSelection.targetId = player.id;
+    npc.targetSelection.targetX = player.synced.x;
+    npc.targetSelection.targetZ = player.synced.z;
+
+    system.update(zone);
+
+    expect(npc.behaviorIntent.mode).toBe("idle");
+    expect(npc.targetSelection.targetYaw).toBeCloseTo(Math.PI / 2, 6);
+  });
+
+  it("has pets follow their owner and fight whatever attacks it", () => {
+    const owner = createPlayer(zone, "player-1");
+    const pet = zone.summonPet(owner, "wolf_companion", 0);
+    if (!pet) {
+      throw new Error("pet was not summoned");
+    }
+    const petSystem = new AiPetSystem();
+    const decisionSystem = new AiDecisionSystem();
+    owner.synced.x = 8;
+
+    petSystem.update(zone, 1000);
+    decisionSystem.update(zone);
+
+    expect(pet.targetSelection.targetId).toBeUndefined();
+    expect(pet.behaviorIntent.mode).toBe("follow");
+    expect(pet.pet?.anchorX).toBe(8);
+
+    npc.synced.x = pet.synced.x + 1;
+    npc.synced.z = pet.synced.z;
+    npc.aggro.addAggro(owner.id, 10);
+
+    petSystem.update(zone, 1000);
+
+    expect(pet.targetSelection.targetId).toBe(npc.id);
+    expect(pet.abilityIntent.abilityId).toBe("pet_bite");
+    expect(pet.abilityIntent.targetId).toBe(npc.id);
+  });
+
+  it("keeps passive pets out of fights until ordered to attack", () => {
+    const owner = createPlayer(zone, "player-1");
+    const pet = zone.summonPet(owner, "wolf_companion", 0);
+    const command = (data: PetCommandMessage): void => {
+      petCommand({ client: {} as Client, data, player: owner, zone });
+    };
+    const petSystem = new AiPetSystem();
+    npc.aggro.addAggro(owner.id, 10);
+
+    command({ command: "stance", stance: "passive" });
+    petSystem.update(zone, 1000);
+
+    expect(pet?.synced.petStance).toBe("passive");
+    expect(pet?.targetSelection.targetId).toBeUndefined();
+
+    command({ command: "attack", targetEntityId: npc.id });
+    petSystem.update(zone, 1000);
+
+    expect(pet?.targetSelection.targetId).toBe(npc.id);
+
+    command({ command: "stay" });
+    petSystem.update(zone, 1000);
+
+    expect(pet?.pet?.movement).toBe("stay");
+    expect(pet?.targetSelection.targetId).toBeUndefined();
+
+    command({ command: "dismiss" });
+
+    expect(zone.npcs.has(pet?.id ?? "")).toBe(false);
+  });
+
   it("steers toward a smooth-path waypoint when chasing", () => {
     const system = new AiSteeringSystem();
     const navmesh = {
@@ -131,6 +320,25 @@ describe("AI systems", () => {
     expect(Math.abs(npc.steeringIntent.directionZ)).toBeLessThan(0.01);
   });
 
+  it("walks evading NPCs home along the navmesh", () => {
+    const system = new AiSteeringSystem();
+    const navmesh = {
+      findSmoothPath: () => ({
+        success: true,
+        path: [{ position: [10, 0, 0] }, { position: [10, 0, -5] }, { position: [0, 0, 0] }],
+      }),
+    } as unknown as NavcatQuery;
+
+    npc.synced.x = 10;
+    npc.behaviorIntent.mode = "return";
+    npc.behaviorIntent.desiredRange = 0.5;
+
+    system.update(zone, navmesh);
+
+    expect(Math.abs(npc.steeringIntent.directionX)).toBeLessThan(0.01);
+    expect(npc.steeringIntent.directionZ).toBeLessThan(-0.9);
+  });
+
   it("steers directly to target when no waypoint is available", () => {
     const system = new AiSteeringSystem();
     const navmesh = {
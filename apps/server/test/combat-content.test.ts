@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  ABILITY_DEFINITIONS,
+  getCombatContent,
+  installCombatContent,
+  validateCombatContent,
+  type CombatContent,
+} from "@mmo/shared-sim";
+import { CombatContentLoader } from "../src/combat/combat-content-loader";
+
+const CONTENT_DIR = path.resolve(process.cwd(), "../../packages/assets/combat");
+const ICON_DIR = path.resolve(process.cwd(), "../../packages/assets/icons/llm-slop");
+
+const cloneBundledContent = (): CombatContent =>
+  structuredClone(getCombatContent()) as CombatContent;
+
+const writeContent = async (dir: string, content: CombatContent): Promise<void> => {
+  await writeFile(path.join(dir, "abilities.json"), JSON.stringify(content.abilities), "utf8");
+  await writeFile(path.join(dir, "statuses.json"), JSON.stringify(content.statuses), "utf8");
+};
+
+describe("combat content", () => {
+  const bundled = getCombatContent();
+  const tempDirs: string[] = [];
+
+  const createTempDir = async (): Promise<string> => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "combat-content-"));
+    tempDirs.push(dir);
+    return dir;
+  };
+
+  afterEach(async () => {
+    installCombatContent(bundled);
+    await Promise.all(tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })));
+  });
+
+  it("ships content files that pass validation", async () => {
+    const loader = new CombatContentLoader(CONTENT_DIR, ICON_DIR);
+
+    const message = await loader.load();
+
+    expect(message.version).toBe(1);
+    const shipped = JSON.parse(await readFile(path.join(CONTENT_DIR, "abilities.json"), "utf8"));
+    expect(Object.keys(message.abilities)).toEqual(Object.keys(shipped));
+  });
+
+  it("keeps the bundled fallback definitions in step with the content files", async () => {
+    const abilities = JSON.parse(await readFile(path.join(CONTENT_DIR, "abilities.json"), "utf8"));
+    const statuses = JSON.parse(await readFile(path.join(CONTENT_DIR, "statuses.json"), "utf8"));
+
+    // The server tests run against the bundled definitions; any drift would ship untested.
+    expect(abilities).toEqual(bundled.abilities);
+    expect(statuses).toEqual(bundled.statuses);
+  });
+
+  it("reports unknown status ids, missing icons, invalid aoe shapes and unknown pets with their paths", () => {
+    const content = cloneBundledContent();
+    const fireball = content.abilities.fireball;
+    const statusIndex = fireball.effects.findIndex((effect) => effect.type === "status");
+    expect(statusIndex).toBeGreaterThanOrEqual(0);
+    Object.assign(fireball.effects[statusIndex], { statusId: "smoulder" });
+    fireball.iconId = "fire-ball";
+    Object.assign(content.abilities.ice_storm, { aoeShape: { type: "square", size: 4 } });
+    Object.assign(content.abilities.summon_wolf.effects[0], { petTemplateId: "dire_bear" });
+
+    const result = validateCombatContent(content.abilities, content.statuses, {
+      knownIconIds: [
+        "quick-dart",
+        "shield-bash",
+        "fireball",
+        "sky-sword",
+        "ice-storm",
+        "overgrowth",
+      ],
+    });
+
+    expect(result.ok).toBe(false);
+    const issues = result.ok ? [] : result.issues;
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        {
+          path: `abilities.fireball.effects[${statusIndex}].statusId`,
+          message: 'unknown statusId "smoulder"',
+        },
+        { path: "abilities.fireball.iconId", message: 'unknown icon "fire-ball"' },
+        {
+          path: "abilities.ice_storm.aoeShape.type",
+          message: 'invalid aoeShape type "square"; expected one of "circle", "cone", "line"',
+        },
+        {
+          path: "abilities.summon_wolf.effects[0].petTemplateId",
+          message: 'unknown petTemplateId "dire_bear"',
+        },
+      ]),
+    );
+  });
+
+  it("installs content from files and keeps the active definitions when a reload is invalid", async () => {
+    const dir = await createTempDir();
+    const content = cloneBundledContent();
+    content.abilities.quick_dart.cooldownMs = 3000;
+    await writeContent(dir, content);
+    const loader = new CombatContentLoader(dir, path.join(dir, "icons"));
+    const reloads: number[] = [];
+    loader.onReload((message) => reloads.push(message.version));
+
+    const message = await loader.load();
+
+    expect(message.version).toBe(1);
+    expect(ABILITY_DEFINITIONS.quick_dart.cooldownMs).toBe(3000);
+
+    content.abilities.quick_dart.range = -1;
+    await writeContent(dir, content);
+
+    expect(await loader.reload()).toBe(false);
+    expect(reloads).toEqual([]);
+    expect(ABILITY_DEFINITIONS.quick_dart.range).toBe(bundled.abilities.quick_dart.range);
+    expect(loader.getMessage().version).toBe(1);
+
+    content.abilities.quick_dart.range = 30;
+    await writeContent(dir, content);
+
+    expect(await loader.reload()).toBe(true);
+    expect(reloads).toEqual([2]);
+    expect(ABILITY_DEFINITIONS.quick_dart.range).toBe(30);
+  });
+});
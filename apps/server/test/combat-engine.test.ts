@@ -1,21 +1,60 @@
 /* eslint-disable @typescript-eslint/no-dynamic-delete */
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import {
   ABILITY_DEFINITIONS,
+  COOLDOWN_CATEGORIES,
+  DEFAULT_AUTO_ATTACK,
   GCD_SECONDS,
   INTERNAL_COOLDOWN_MS,
+  REGEN_SPEND_DELAY_MS,
+  STATUS_DEFINITIONS,
+  applyMitigation,
+  computeCombatChances,
+  computeResourceRegenRates,
+  evaluateEffectFormula,
+  getEffectFormulaRange,
+  getMitigationFraction,
+  readCombatStats,
+  resolveDrCategory,
+  rollAbilityUseCheck,
   type AbilityAck,
   type AbilityCancelRequest,
   type AbilityDefinition,
+  type AbilityEffectAppliedEvent,
   type AbilityResult,
   type AbilityUseRequest,
+  type AutoAttackEvent,
+  type DamageEffect,
+  type MobExitCombatEvent,
+  type MoveMessage,
+  type ProjectileImpactEvent,
+  type ProjectileLaunchedEvent,
+  type AbilityCastInterruptEvent,
+  type AbilityBackfireEvent,
+  type AbilityCastFinishEvent,
+  type TargetSpec,
+  type StatusAppliedEvent,
+  type StatusDispelledEvent,
   type StatusEffectDefinition,
+  type StatusExpiredEvent,
+  type StatusRemovedEvent,
+  type StatusTickEvent,
+  CombatEventType,
   NPCState,
   PlayerState,
   ZoneState,
 } from "@mmo/shared-sim";
+import type { Client } from "colyseus";
+import { moveCommand } from "../src/commands/commands";
 import { AbilityEngine } from "../src/combat/ability-engine";
-import { STATUS_DEFINITIONS } from "../src/combat/status-definitions";
+import { buildCombatChanceTable, parseCombatStatsQuery } from "../src/combat/combat-chance-table";
+import { readCombatRecording } from "../src/combat/combat-recorder";
+import { replayCombatRecording } from "../src/combat/combat-replay";
+import { runCombatSimulation, type CombatSimScenario } from "../src/combat/combat-simulator";
+import { resolveAbilityOutcome } from "../src/combat/resolve-ability-outcome";
 import { ServerPlayer } from "../src/world/entities/player";
 import { ServerNPC } from "../src/world/entities/npc";
 import { ServerZone, ZoneData } from "../src/world/zones/zone";
@@ -255,12 +294,7 @@ describe("AbilityEngine", () => {
     createNpc(zone, "npc-1", 1, 0);
 
     const ability = ABILITY_DEFINITIONS.shield_bash as AbilityDefinition;
-    const originalRoll = ability.rollUseCheck;
-    ability.rollUseCheck = () => ({
-      roll: 1,
-      maxRoll: 100,
-      result: "failure",
-    });
+    ability.useCheck = { stat: "strength", difficulty: 1000, fumbleBand: 0, critBand: 0 };
 
     const request: AbilityUseRequest = {
       type: "ability_use",
@@ -295,7 +329,7 @@ describe("AbilityEngine", () => {
         expect(effect.targets[0].statusApplied).toBeUndefined();
       }
     } finally {
-      ability.rollUseCheck = originalRoll;
+      delete ability.useCheck;
     }
   });
 
@@ -314,7 +348,9 @@ describe("AbilityEngine", () => {
       range: 6,
       targetType: "enemy",
       aoeShape: "single",
-      effects: [{ type: "damage", school: "physical", targetFilter: "enemies" }],
+      effects: [
+        { type: "damage", school: "physical", formula: { base: 10 }, targetFilter: "enemies" },
+      ],
     };
 
     const listener = { onAbilityEvent: vi.fn() };
@@ -1036,7 +1072,9 @@ describe("AbilityEngine", () => {
       range: 6,
       targetType: "enemy",
       aoeShape: "single",
-      effects: [{ type: "damage", school: "arcane", targetFilter: "enemies" }],
+      effects: [
+        { type: "damage", school: "arcane", formula: { base: 10 }, targetFilter: "enemies" },
+      ],
     };
 
     try {
@@ -1099,7 +1137,9 @@ describe("AbilityEngine", () => {
       range: 6,
       targetType: "enemy",
       aoeShape: "single",
-      effects: [{ type: "damage", school: "physical", targetFilter: "enemies" }],
+      effects: [
+        { type: "damage", school: "physical", formula: { base: 10 }, targetFilter: "enemies" },
+      ],
     };
 
     try {
@@ -1162,7 +1202,9 @@ describe("AbilityEngine", () => {
       range: 6,
       targetType: "enemy",
       aoeShape: "single",
-      effects: [{ type: "damage", school: "physical", targetFilter: "enemies" }],
+      effects: [
+        { type: "damage", school: "physical", formula: { base: 10 }, targetFilter: "enemies" },
+      ],
     };
 
     try {
@@ -1459,7 +1501,9 @@ describe("CombatEngine aggro", () => {
       range: 6,
       targetType: "enemy",
       aoeShape: "single",
-      effects: [{ type: "damage", school: "physical", targetFilter: "enemies" }],
+      effects: [
+        { type: "damage", school: "physical", formula: { base: 10 }, targetFilter: "enemies" },
+      ],
     };
 
     const result: AbilityResult = {
@@ -1511,7 +1555,7 @@ describe("CombatEngine aggro", () => {
       range: 6,
       targetType: "ally",
       aoeShape: "single",
-      effects: [{ type: "healing", targetFilter: "allies" }],
+      effects: [{ type: "healing", formula: { base: 10 }, targetFilter: "allies" }],
     };
 
     const result: AbilityResult = {
@@ -1608,4 +1652,2179 @@ describe("CombatEngine combat state", () => {
 
     expect(player.synced.inCombat).toBe(false);
   });
+
+  it("shrugs off hostile statuses while evading", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 0, 3);
+
+    zone.combatEngine.evade(npc, 500);
+    useAbilityAt(zone, player, "shield_bash", 1000, { targetEntityId: npc.id });
+
+    expect(npc.synced.statuses.map((status) => status.id)).toEqual(["evading"]);
+    const outcomes = effectEventsFor(zone, npc.id).map((event) => event.outcome);
+    expect(outcomes).toEqual(["immune", "immune"]);
+  });
+});
+
+const collectLoggedEvents = (zone: ServerZone) => {
+  return zone.eventLog.getBuffer().getSince(0)?.entries ?? [];
+};
+
+describe("CombatEngine death", () => {
+  it("marks mobs dead at zero HP, cancels casts, and exits combat", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 1, 0);
+
+    npc.synced.inCombat = true;
+    npc.aggro.setAggro(player.id, 10);
+    player.synced.inCombat = true;
+    npc.activeCast = {
+      castId: 7,
+      actorId: npc.id,
+      abilityId: "fireball",
+      requestId: "npc-cast",
+      sequence: 0,
+      serverTick: 1,
+      castStartTimeMs: 900,
+      castEndTimeMs: 3000,
+      result: {
+        abilityId: "fireball",
+        actorId: npc.id,
+        useCheck: { roll: 100, maxRoll: 100, result: "success" },
+        effects: [],
+      },
+    };
+    npc.synced.currentHp = 0;
+
+    zone.combatEngine.fixedTick(1000);
+
+    expect(npc.synced.isDead).toBe(true);
+    expect(npc.synced.deathTimeMs).toBe(1000);
+    expect(npc.synced.inCombat).toBe(false);
+    expect(npc.activeCast).toBeUndefined();
+    expect(npc.aggro.hasAnyTargets()).toBe(false);
+    expect(player.synced.inCombat).toBe(false);
+
+    const events = collectLoggedEvents(zone);
+    const interrupt = events.find(
+      (entry) => entry.eventType === CombatEventType.AbilityCastInterrupt,
+    ) as AbilityCastInterruptEvent | undefined;
+    expect(interrupt?.reason).toBe("death");
+    const deathExit = events.find(
+      (entry) =>
+        entry.eventType === CombatEventType.MobExitCombat &&
+        (entry as MobExitCombatEvent).mobId === npc.id,
+    ) as MobExitCombatEvent | undefined;
+    expect(deathExit?.reason).toBe("death");
+  });
+
+  it("rejects abilities from dead actors and against dead targets", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 1, 0);
+    npc.synced.isDead = true;
+    npc.synced.currentHp = 0;
+
+    const request: AbilityUseRequest = {
+      type: "ability_use",
+      requestId: "req-dead-target",
+      sequence: 1,
+      clientTick: 1,
+      actorId: player.id,
+      abilityId: "shield_bash",
+      target: { targetEntityId: npc.id },
+      clientTimeMs: 0,
+    };
+
+    const acks: AbilityAck[] = [];
+    zone.abilityEngine.handleAbilityUse({
+      request,
+      actor: player,
+      serverTimeMs: 1000,
+      serverTick: 1,
+      sendAck: (ack) => acks.push(ack),
+    });
+
+    player.synced.isDead = true;
+    zone.abilityEngine.handleAbilityUse({
+      request: { ...request, requestId: "req-dead-actor", sequence: 2 },
+      actor: player,
+      serverTimeMs: 1000,
+      serverTick: 1,
+      sendAck: (ack) => acks.push(ack),
+    });
+
+    expect(acks.map((ack) => ack.rejectReason)).toEqual(["target_dead", "dead"]);
+  });
+
+  it("skips dead mobs when collecting AOE targets", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const alive = createNpc(zone, "npc-alive", 1, 0);
+    const corpse = createNpc(zone, "npc-corpse", 1.5, 0);
+    corpse.synced.isDead = true;
+
+    const acks: AbilityAck[] = [];
+    zone.abilityEngine.handleAbilityUse({
+      request: {
+        type: "ability_use",
+        requestId: "req-aoe",
+        sequence: 1,
+        clientTick: 1,
+        actorId: player.id,
+        abilityId: "fireball",
+        target: { targetEntityId: alive.id },
+        clientTimeMs: 0,
+      },
+      actor: player,
+      serverTimeMs: 1000,
+      serverTick: 1,
+      sendAck: (ack) => acks.push(ack),
+    });
+
+    const targetIds = acks[0].result?.effects[0]?.targets.map((target) => target.targetId);
+    expect(targetIds).toContain(alive.id);
+    expect(targetIds).not.toContain(corpse.id);
+  });
+
+  it("despawns NPC corpses after the corpse duration", () => {
+    const zone = createZone();
+    const npc = createNpc(zone, "npc-1", 1, 0);
+    zone.zoneState.npcs.set(npc.id, npc.synced);
+    npc.synced.isDead = true;
+    npc.synced.deathTimeMs = 1000;
+
+    zone.fixedTick(5000, 50);
+    expect(zone.npcs.has(npc.id)).toBe(true);
+
+    zone.fixedTick(11_000, 50);
+    expect(zone.npcs.has(npc.id)).toBe(false);
+    expect(zone.zoneState.npcs.has(npc.id)).toBe(false);
+  });
+
+  it("releases dead players to the zone entry point with full resources", () => {
+    const zone = createZone();
+    zone.zoneData.entryPoints = [
+      {
+        fromZoneId: "combat-test-zone",
+        position: { x: TEST_NAVMESH_BASE_X, y: TEST_NAVMESH_BASE_Y, z: TEST_NAVMESH_BASE_Z },
+      },
+    ];
+    const player = createPlayer(zone, "player-1", 3, 3);
+
+    expect(zone.releasePlayer(player)).toBe(false);
+
+    player.synced.isDead = true;
+    player.synced.deathTimeMs = 1000;
+    player.synced.currentHp = 0;
+    player.synced.mana = 0;
+
+    expect(zone.releasePlayer(player)).toBe(true);
+    expect(player.synced.isDead).toBe(false);
+    expect(player.synced.currentHp).toBe(player.synced.maxHp);
+    expect(player.synced.mana).toBe(player.synced.maxMana);
+    const distanceFromEntry = Math.hypot(
+      player.synced.x - TEST_NAVMESH_BASE_X,
+      player.synced.z - TEST_NAVMESH_BASE_Z,
+    );
+    expect(distanceFromEntry).toBeLessThanOrEqual(1.5);
+    expect(player.snapLocked).toBe(true);
+    expect(player.snapPending).toMatchObject({ x: player.synced.x, z: player.synced.z });
+  });
+});
+
+describe("StatusEngine", () => {
+  it("applies ability statuses, syncs them, and expires them", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 1, 0);
+
+    const acks: AbilityAck[] = [];
+    zone.abilityEngine.handleAbilityUse({
+      request: {
+        type: "ability_use",
+        requestId: "req-stun",
+        sequence: 1,
+        clientTick: 1,
+        actorId: player.id,
+        abilityId: "shield_bash",
+        target: { targetEntityId: npc.id },
+        clientTimeMs: 0,
+      },
+      actor: player,
+      serverTimeMs: 1000,
+      serverTick: 1,
+      sendAck: (ack) => acks.push(ack),
+    });
+    zone.abilityEngine.fixedTick(1000, 2);
+
+    expect(npc.statusController?.hasStateFlag("stunned")).toBe(true);
+    expect(npc.synced.statuses).toHaveLength(1);
+    expect(npc.synced.statuses[0]).toMatchObject({
+      id: "stunned",
+      sourceId: player.id,
+      stacks: 1,
+      expiresAtMs: 2000,
+    });
+
+    const applied = collectLoggedEvents(zone).find(
+      (entry) => entry.eventType === CombatEventType.StatusApplied,
+    ) as StatusAppliedEvent | undefined;
+    expect(applied).toMatchObject({
+      sourceId: player.id,
+      targetId: npc.id,
+      statusId: "stunned",
+      abilityId: "shield_bash",
+      durationMs: 1000,
+      expiresAtMs: 2000,
+    });
+
+    zone.statusEngine.fixedTick(1500);
+    expect(npc.synced.statuses).toHaveLength(1);
+
+    zone.statusEngine.fixedTick(2000);
+    expect(npc.synced.statuses).toHaveLength(0);
+    expect(npc.statusController?.hasStateFlag("stunned")).toBe(false);
+    const expired = collectLoggedEvents(zone).find(
+      (entry) => entry.eventType === CombatEventType.StatusExpired,
+    ) as StatusExpiredEvent | undefined;
+    expect(expired).toMatchObject({ targetId: npc.id, statusId: "stunned" });
+  });
+
+  it("removes statuses on death with a removal event", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 1, 0);
+
+    zone.statusEngine.applyStatus(player, npc, STATUS_DEFINITIONS.rooted, 1000);
+    expect(npc.synced.statuses).toHaveLength(1);
+
+    npc.synced.currentHp = 0;
+    zone.combatEngine.fixedTick(1100);
+
+    expect(npc.synced.statuses).toHaveLength(0);
+    const removed = collectLoggedEvents(zone).find(
+      (entry) => entry.eventType === CombatEventType.StatusRemoved,
+    ) as StatusRemovedEvent | undefined;
+    expect(removed).toMatchObject({ targetId: npc.id, statusId: "rooted", reason: "death" });
+  });
+
+  it("ticks damage over time from snapshotted stats and credits the source with aggro", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 1, 0);
+    player.synced.intelligence = 20;
+
+    zone.statusEngine.applyStatus(player, npc, STATUS_DEFINITIONS.burning, 1000);
+    player.synced.intelligence = 100;
+
+    zone.statusEngine.fixedTick(2999);
+    expect(npc.synced.currentHp).toBe(100);
+
+    zone.statusEngine.fixedTick(3000);
+    expect(npc.synced.currentHp).toBe(92);
+    expect(npc.aggro.hasTarget(player.id)).toBe(true);
+    expect(npc.synced.inCombat).toBe(true);
+
+    zone.statusEngine.fixedTick(7000);
+    expect(npc.synced.currentHp).toBe(76);
+    expect(npc.synced.statuses).toHaveLength(0);
+
+    const ticks = collectLoggedEvents(zone).filter(
+      (entry) => entry.eventType === CombatEventType.StatusTick,
+    ) as StatusTickEvent[];
+    expect(ticks.map((tick) => tick.damage)).toEqual([8, 8, 8]);
+    expect(ticks[0]).toMatchObject({ sourceId: player.id, targetId: npc.id, statusId: "burning" });
+  });
+
+  it("snapshots the source's buffed stats when a status lands", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 1, 0);
+    const empowered: StatusEffectDefinition = {
+      id: "test_intellect",
+      name: "Test Intellect",
+      category: "buff",
+      durationMs: 10_000,
+      stacking: "refresh",
+      statModifiers: [{ stat: "intelligence", mode: "add", value: 80 }],
+    };
+    STATUS_DEFINITIONS[empowered.id] = empowered;
+    player.synced.intelligence = 20;
+
+    try {
+      zone.statusEngine.applyStatus(player, player, empowered, 500);
+      zone.statusEngine.applyStatus(player, npc, STATUS_DEFINITIONS.burning, 1000);
+
+      const burning = npc.statusController?.getActiveStatuses()[0];
+      expect(burning?.snapshot?.sourceStats.intelligence).toBe(100);
+    } finally {
+      delete STATUS_DEFINITIONS[empowered.id];
+    }
+  });
+
+  it("scales stacked ticks and duplicates independent instances", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 1, 0);
+
+    zone.statusEngine.applyStatus(player, npc, STATUS_DEFINITIONS.burning, 1000);
+    zone.statusEngine.applyStatus(player, npc, STATUS_DEFINITIONS.burning, 1500);
+    zone.statusEngine.fixedTick(3000);
+    expect(npc.synced.statuses[0].stacks).toBe(2);
+    expect(npc.synced.currentHp).toBe(100 - 12);
+
+    const independent: StatusEffectDefinition = {
+      ...STATUS_DEFINITIONS.burning,
+      id: "test_independent_dot",
+      stacking: "independent",
+    };
+    STATUS_DEFINITIONS[independent.id] = independent;
+    try {
+      const other = createNpc(zone, "npc-2", 2, 0);
+      zone.statusEngine.applyStatus(player, other, independent, 1000);
+      zone.statusEngine.applyStatus(player, other, independent, 1000);
+      zone.statusEngine.fixedTick(3000);
+      expect(other.synced.statuses).toHaveLength(2);
+      expect(other.synced.currentHp).toBe(100 - 12);
+    } finally {
+      delete STATUS_DEFINITIONS[independent.id];
+    }
+  });
+
+  it("heals over time and keeps the tick cadence on refresh", () => {
+    const zone = createZone();
+    const healer = createPlayer(zone, "player-1");
+    const ally = createPlayer(zone, "player-2", 1, 0);
+    ally.synced.currentHp = 50;
+
+    zone.statusEngine.applyStatus(healer, ally, STATUS_DEFINITIONS.regrowth, 1000);
+    zone.statusEngine.fixedTick(3000);
+    expect(ally.synced.currentHp).toBe(58);
+
+    zone.statusEngine.applyStatus(healer, ally, STATUS_DEFINITIONS.regrowth, 4000);
+    zone.statusEngine.fixedTick(5000);
+    expect(ally.synced.currentHp).toBe(66);
+    expect(ally.synced.statuses[0].expiresAtMs).toBe(12_000);
+  });
+
+  it("keeps DR history only for statuses with a DR category", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 1, 0);
+
+    zone.statusEngine.applyStatus(player, npc, STATUS_DEFINITIONS.burning, 1000);
+    zone.statusEngine.applyStatus(player, npc, STATUS_DEFINITIONS.stunned, 1000);
+
+    const history = npc.statusController?.getHistory();
+    expect(history?.lastAppliedAt(resolveDrCategory(STATUS_DEFINITIONS.burning))).toBeUndefined();
+    expect(history?.lastAppliedAt(resolveDrCategory(STATUS_DEFINITIONS.stunned))).toBe(1000);
+  });
+
+  it("diminishes repeated crowd control within the DR window, then grants immunity", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 1, 0);
+
+    const abilityMap = ABILITY_DEFINITIONS as Record<string, AbilityDefinition>;
+    const abilityId = "test_dr_stun";
+    abilityMap[abilityId] = {
+      id: abilityId,
+      name: "Test DR Stun",
+      isOnGcd: false,
+      castTimeMs: 0,
+      cooldownMs: 0,
+      range: 6,
+      targetType: "enemy",
+      aoeShape: "single",
+      effects: [{ type: "status", statusId: "stunned", durationMs: 1000, targetFilter: "enemies" }],
+    };
+
+    const castAt = (serverTimeMs: number, sequence: number) => {
+      zone.abilityEngine.handleAbilityUse({
+        request: {
+          type: "ability_use",
+          requestId: `req-dr-${sequence}`,
+          sequence,
+          clientTick: sequence,
+          actorId: player.id,
+          abilityId,
+          target: { targetEntityId: npc.id },
+          clientTimeMs: 0,
+        },
+        actor: player,
+        serverTimeMs,
+        serverTick: sequence,
+        sendAck: () => {},
+      });
+      zone.abilityEngine.fixedTick(serverTimeMs, sequence);
+    };
+
+    try {
+      castAt(1000, 1);
+      castAt(3000, 2);
+      castAt(5000, 3);
+      castAt(7000, 4);
+
+      const effects = collectLoggedEvents(zone).filter(
+        (entry) => entry.eventType === CombatEventType.AbilityEffectApplied,
+      ) as AbilityEffectAppliedEvent[];
+      expect(effects.map((effect) => effect.outcome)).toEqual(["hit", "hit", "hit", "immune"]);
+      expect(effects.map((effect) => effect.statusDurationMs)).toEqual([1000, 500, 250, undefined]);
+
+      const applied = collectLoggedEvents(zone).filter(
+        (entry) => entry.eventType === CombatEventType.StatusApplied,
+      ) as StatusAppliedEvent[];
+      expect(applied.map((event) => event.durationMs)).toEqual([1000, 500, 250]);
+      expect(npc.synced.statuses).toHaveLength(1);
+      expect(npc.synced.statuses[0].expiresAtMs).toBe(5250);
+
+      castAt(1000 + 18_000 + 6001, 5);
+      const last = collectLoggedEvents(zone).findLast(
+        (entry) => entry.eventType === CombatEventType.StatusApplied,
+      ) as StatusAppliedEvent | undefined;
+      expect(last?.durationMs).toBe(1000);
+    } finally {
+      delete abilityMap[abilityId];
+    }
+  });
+});
+
+describe("Effect formulas", () => {
+  it("scales by actor and target stats with a bounded variance band", () => {
+    const formula = {
+      base: 10,
+      actorCoefficients: { intelligence: 2 },
+      targetCoefficients: { constitution: -0.5 },
+      variance: 0.2,
+    };
+    const actorStats = { intelligence: 15 };
+    const targetStats = { constitution: 20 };
+
+    expect(evaluateEffectFormula(formula, actorStats, targetStats)).toBe(30);
+    expect(evaluateEffectFormula(formula, actorStats, targetStats, 0)).toBe(24);
+    expect(evaluateEffectFormula(formula, actorStats, targetStats, 0.999_999)).toBe(36);
+    expect(getEffectFormulaRange(formula, actorStats, targetStats)).toEqual({ min: 24, max: 36 });
+    expect(evaluateEffectFormula({ base: -5 }, actorStats)).toBe(0);
+  });
+
+  it("evaluates ability formulas against the actor's derived stats", () => {
+    const zone = createZone();
+    const healer = createPlayer(zone, "player-1");
+    const ally = createPlayer(zone, "player-2", 1, 0);
+    healer.synced.intelligence = 10;
+
+    const abilityMap = ABILITY_DEFINITIONS as Record<string, AbilityDefinition>;
+    const abilityId = "test_formula_heal";
+    abilityMap[abilityId] = {
+      id: abilityId,
+      name: "Test Formula Heal",
+      isOnGcd: false,
+      castTimeMs: 0,
+      cooldownMs: 0,
+      range: 6,
+      targetType: "ally",
+      aoeShape: "single",
+      effects: [
+        {
+          type: "healing",
+          formula: { base: 0, actorCoefficients: { intelligence: 2 } },
+          targetFilter: "allies",
+        },
+      ],
+    };
+    const empowered: StatusEffectDefinition = {
+      id: "test_intellect",
+      name: "Test Intellect",
+      category: "buff",
+      durationMs: 10_000,
+      stacking: "refresh",
+      statModifiers: [{ stat: "intelligence", mode: "add", value: 10 }],
+    };
+    STATUS_DEFINITIONS[empowered.id] = empowered;
+
+    try {
+      healer.statusController?.applyStatus(empowered, healer.synced, 0);
+
+      const acks: AbilityAck[] = [];
+      zone.abilityEngine.handleAbilityUse({
+        request: {
+          type: "ability_use",
+          requestId: "req-formula",
+          sequence: 1,
+          clientTick: 1,
+          actorId: healer.id,
+          abilityId,
+          target: { targetEntityId: ally.id },
+          clientTimeMs: 0,
+        },
+        actor: healer,
+        serverTimeMs: 1000,
+        serverTick: 1,
+        sendAck: (ack) => acks.push(ack),
+      });
+
+      const target = acks[0]?.result?.effects[0]?.targets[0];
+      const expected = target?.outcome === "crit" ? 60 : 40;
+      expect(target?.healing).toBe(expected);
+    } finally {
+      delete abilityMap[abilityId];
+      delete STATUS_DEFINITIONS[empowered.id];
+    }
+  });
+});
+
+describe("Damage mitigation", () => {
+  const fireBolt: AbilityDefinition = {
+    id: "test_fire_bolt",
+    name: "Test Fire Bolt",
+    isOnGcd: false,
+    castTimeMs: 0,
+    cooldownMs: 0,
+    range: 20,
+    targetType: "enemy",
+    aoeShape: "single",
+    effects: [{ type: "damage", school: "fire", formula: { base: 100 }, targetFilter: "enemies" }],
+  };
+
+  it("mitigates by the school's armor or resistance with diminishing returns", () => {
+    const stats = { armor: 200, fireResistance: 100, holyResistance: 10_000 };
+
+    expect(getMitigationFraction("physical", stats)).toBe(0.5);
+    expect(getMitigationFraction("fire", stats)).toBe(0.5);
+    expect(getMitigationFraction("arcane", stats)).toBe(0);
+    expect(getMitigationFraction("holy", stats)).toBe(0.75);
+    expect(applyMitigation(100, "fire", stats)).toBe(50);
+    expect(applyMitigation(100, "electric", stats)).toBe(100);
+  });
+
+  it("reduces ability damage by the target's derived resistance", () => {
+    const zone = createZone();
+    const caster = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 2, 0);
+    npc.synced.fireResistance = 50;
+    const ward = STATUS_DEFINITIONS.fire_ward;
+    if (!ward) {
+      throw new Error("fire_ward status missing");
+    }
+    npc.statusController?.applyStatus(ward, caster.synced, 0);
+
+    expect(npc.statsController?.getDerivedStats().fireResistance).toBe(100);
+    expect(npc.synced.fireResistance).toBe(50);
+
+    for (let seed = 1; seed <= 20; seed += 1) {
+      const result = resolveAbilityOutcome(fireBolt, caster.synced, [npc.synced], seed, {
+        resolveStats: (mob) =>
+          (mob.id === npc.id ? npc.statsController?.getDerivedStats() : undefined) ??
+          readCombatStats(mob),
+        hasImmunity: () => false,
+      });
+      const target = result.effects[0]?.targets[0];
+      if (target?.outcome === "hit") {
+        expect(target.damage).toBe(50);
+      } else if (target?.outcome === "crit") {
+        expect(target.damage).toBe(75);
+      }
+    }
+  });
+
+  it("reports immune when the target has an immunity to the damage school", () => {
+    const zone = createZone();
+    const caster = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 2, 0);
+    const abilityMap = ABILITY_DEFINITIONS as Record<string, AbilityDefinition>;
+    abilityMap[fireBolt.id] = fireBolt;
+    const fireImmunity: StatusEffectDefinition = {
+      id: "test_fire_immunity",
+      name: "Test Fire Immunity",
+      category: "buff",
+      durationMs: 10_000,
+      stacking: "refresh",
+      immunityTags: ["fire"],
+    };
+    STATUS_DEFINITIONS[fireImmunity.id] = fireImmunity;
+
+    try {
+      npc.statusController?.applyStatus(fireImmunity, npc.synced, 0);
+      const startingHp = npc.synced.currentHp;
+
+      const acks: AbilityAck[] = [];
+      zone.abilityEngine.handleAbilityUse({
+        request: {
+          type: "ability_use",
+          requestId: "req-immune",
+          sequence: 1,
+          clientTick: 1,
+          actorId: caster.id,
+          abilityId: fireBolt.id,
+          target: { targetEntityId: npc.id },
+          clientTimeMs: 0,
+        },
+        actor: caster,
+        serverTimeMs: 1000,
+        serverTick: 1,
+        sendAck: (ack) => acks.push(ack),
+      });
+      zone.abilityEngine.fixedTick(1000, 1);
+
+      const target = acks[0]?.result?.effects[0]?.targets[0];
+      expect(target?.outcome).toBe("immune");
+      expect(target?.damage).toBeUndefined();
+      expect(npc.synced.currentHp).toBe(startingHp);
+    } finally {
+      delete abilityMap[fireBolt.id];
+      delete STATUS_DEFINITIONS[fireImmunity.id];
+    }
+  });
+});
+
+describe("Combat chances", () => {
+  it("derives per-pair chances from attacker and defender ratings", () => {
+    const baseline = computeCombatChances({ dexterity: 10 }, { dexterity: 10 });
+    const nimbleDefender = computeCombatChances({ dexterity: 10 }, { dexterity: 60 });
+    const accurateAttacker = computeCombatChances(
+      { dexterity: 10, accuracy: 50, critRating: 100 },
+      { dexterity: 60, blockRating: 100 },
+    );
+
+    expect(baseline.hitChance).toBeCloseTo(0.95);
+    expect(nimbleDefender.hitChance).toBeLessThan(baseline.hitChance);
+    expect(nimbleDefender.dodgeChance).toBeGreaterThan(baseline.dodgeChance);
+    expect(accurateAttacker.hitChance).toBeCloseTo(baseline.hitChance);
+    expect(accurateAttacker.blockChance).toBe(0.5);
+    expect(accurateAttacker.critChance).toBeGreaterThan(baseline.critChance);
+  });
+
+  it("applies per-ability overrides in the debug chance table", () => {
+    const attacker = parseCombatStatsQuery({ "attacker.dexterity": "30" }, "attacker");
+    const defender = parseCombatStatsQuery({ "defender.blockRating": "50" }, "defender");
+    expect(attacker.dexterity).toBe(30);
+    expect(defender.blockRating).toBe(50);
+
+    const table = buildCombatChanceTable(attacker, defender);
+    const shieldBash = table.abilities.find((row) => row.abilityId === "shield_bash");
+    const fireball = table.abilities.find((row) => row.abilityId === "fireball");
+    const radiantPulse = table.abilities.find((row) => row.abilityId === "radiant_pulse");
+
+    expect(shieldBash?.damage?.blockChance).toBeGreaterThan(0);
+    expect(fireball?.damage?.blockChance).toBe(0);
+    expect(radiantPulse?.healing).toMatchObject({ hitChance: 1, dodgeChance: 0, blockChance: 0 });
+  });
+});
+
+describe("RegenEngine", () => {
+  it("regenerates after the spend delay at stat-derived out-of-combat rates", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    player.synced.mana = 0;
+    const rates = computeResourceRegenRates(player.statsController?.getDerivedStats() ?? {}, false);
+
+    zone.regenEngine.onResourcesSpent(player, [{ type: "mana", amount: 10 }], 0);
+    for (let timeMs = 50; timeMs < REGEN_SPEND_DELAY_MS; timeMs += 50) {
+      zone.regenEngine.fixedTick(timeMs, 50);
+    }
+    expect(player.synced.mana).toBe(0);
+    expect(player.synced.regen.manaPerSecond).toBeCloseTo(rates.mana);
+    expect(player.synced.regen.manaResumeAtMs).toBe(REGEN_SPEND_DELAY_MS);
+
+    for (let timeMs = REGEN_SPEND_DELAY_MS; timeMs < REGEN_SPEND_DELAY_MS + 2000; timeMs += 50) {
+      zone.regenEngine.fixedTick(timeMs, 50);
+    }
+    expect(player.synced.mana).toBe(Math.floor(rates.mana * 2));
+    expect(player.synced.regen.updatedAtMs).toBeGreaterThanOrEqual(REGEN_SPEND_DELAY_MS);
+  });
+
+  it("slows regen in combat and applies status boosts and blocks", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const clarity = STATUS_DEFINITIONS.clarity;
+    const exhausted = STATUS_DEFINITIONS.exhausted;
+    if (!clarity || !exhausted) {
+      throw new Error("regen statuses missing");
+    }
+    const stats = player.statsController?.getDerivedStats() ?? {};
+    const outOfCombat = computeResourceRegenRates(stats, false);
+    const inCombat = computeResourceRegenRates(stats, true);
+    expect(inCombat.mana).toBeLessThan(outOfCombat.mana);
+
+    player.synced.inCombat = true;
+    player.synced.stamina = 0;
+    player.statusController?.applyStatus(clarity, player.synced, 0);
+    player.statusController?.applyStatus(exhausted, player.synced, 0);
+    for (let timeMs = 50; timeMs <= 1000; timeMs += 50) {
+      zone.regenEngine.fixedTick(timeMs, 50);
+    }
+
+    expect(player.synced.regen.manaPerSecond).toBeCloseTo(inCombat.mana * 2);
+    expect(player.synced.regen.staminaPerSecond).toBe(0);
+    expect(player.synced.stamina).toBe(0);
+  });
+});
+
+/** Use an ability at 1000ms and resolve it in the same tick. */
+/** Turn the player in place the way the client does: through a move message. */
+const turnPlayer = (zone: ServerZone, player: ServerPlayer, facingYaw: number, seq: number) => {
+  const move: MoveMessage = {
+    directionX: 0,
+    directionY: 0,
+    directionZ: 0,
+    jumpPressed: false,
+    seq,
+    tick: seq,
+    isSprinting: false,
+    facingYaw,
+    predictedX: player.synced.x,
+    predictedY: player.synced.y,
+    predictedZ: player.synced.z,
+  };
+  moveCommand({ client: {} as Client, data: move, player, zone });
+  zone.movementController.fixedTick(
+    seq * 50,
+    50,
+    seq,
+    zone.zoneData.navmeshQuery,
+    zone.zoneData.collisionWorld,
+  );
+};
+
+const castAbility = (
+  zone: ServerZone,
+  actor: ServerPlayer,
+  abilityId: string,
+  targetEntityId?: string,
+): AbilityAck[] => {
+  const acks: AbilityAck[] = [];
+  zone.abilityEngine.handleAbilityUse({
+    request: {
+      type: "ability_use",
+      requestId: `req-${abilityId}`,
+      sequence: 1,
+      clientTick: 1,
+      actorId: actor.id,
+      abilityId,
+      target: targetEntityId ? { targetEntityId } : {},
+      clientTimeMs: 0,
+    },
+    actor,
+    serverTimeMs: 1000,
+    serverTick: 1,
+    sendAck: (ack) => acks.push(ack),
+  });
+  zone.abilityEngine.fixedTick(1000, 1);
+  return acks;
+};
+
+describe("DisplacementEngine", () => {
+  it("pulls the target toward the caster over the effect duration", () => {
+    const zone = createZone();
+    const caster = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 6, 0);
+
+    const acks = castAbility(zone, caster, "chain_pull", npc.id);
+    const events = collectLoggedEvents(zone);
+    const target = acks[0]?.result?.effects[0]?.targets[0];
+    expect(target?.outcome).toBe("hit");
+    expect(target?.displacement?.dx).toBeLessThan(0);
+    expect(npc.activeDisplacement).toBeDefined();
+    expect(
+      events.some(
+        (event) =>
+          event.eventType === CombatEventType.AbilityEffectApplied &&
+          (event as AbilityEffectAppliedEvent).displacement !== undefined,
+      ),
+    ).toBe(true);
+
+    const startX = npc.synced.x;
+    zone.displacementEngine.fixedTick(1250);
+    expect(npc.synced.x).toBeLessThan(startX);
+    expect(npc.activeDisplacement).toBeDefined();
+
+    zone.displacementEngine.fixedTick(1500);
+    expect(npc.activeDisplacement).toBeUndefined();
+    expect(npc.synced.x - caster.synced.x).toBeCloseTo(1.5, 1);
+  });
+
+  it("has no effect on rooted targets and respects displacement immunity", () => {
+    const zone = createZone();
+    const caster = createPlayer(zone, "player-1");
+    const rootedNpc = createNpc(zone, "npc-rooted", 6, 0);
+    const immuneNpc = createNpc(zone, "npc-immune", 0, 6);
+    const rooted = STATUS_DEFINITIONS.rooted;
+    if (!rooted) {
+      throw new Error("rooted status missing");
+    }
+    const unstoppable: StatusEffectDefinition = {
+      id: "test_unstoppable",
+      name: "Test Unstoppable",
+      category: "buff",
+      durationMs: 10_000,
+      stacking: "refresh",
+      immunityTags: ["displacement"],
+    };
+    STATUS_DEFINITIONS[unstoppable.id] = unstoppable;
+
+    try {
+      rootedNpc.statusController?.applyStatus(rooted, caster.synced, 0);
+      immuneNpc.statusController?.applyStatus(unstoppable, immuneNpc.synced, 0);
+
+      const rootedAcks = castAbility(zone, caster, "chain_pull", rootedNpc.id);
+      expect(rootedAcks[0]?.result?.effects[0]?.targets[0]?.outcome).toBe("no_effect");
+      expect(rootedNpc.activeDisplacement).toBeUndefined();
+
+      const secondCaster = createPlayer(zone, "player-2");
+      const immuneAcks = castAbility(zone, secondCaster, "chain_pull", immuneNpc.id);
+      expect(immuneAcks[0]?.result?.effects[0]?.targets[0]?.outcome).toBe("immune");
+      expect(immuneNpc.activeDisplacement).toBeUndefined();
+    } finally {
+      delete STATUS_DEFINITIONS[unstoppable.id];
+    }
+  });
+
+  it("dashes players the way they face", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const startX = player.synced.x;
+    const startZ = player.synced.z;
+
+    turnPlayer(zone, player, Math.PI / 2, 1);
+    castAbility(zone, player, "dash");
+
+    expect(player.snapPending?.x).toBeGreaterThan(startX);
+    expect(player.snapPending?.z).toBeCloseTo(startZ);
+  });
+
+  it("snap-locks players and sends the displacement duration with the snap", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const startZ = player.synced.z;
+
+    castAbility(zone, player, "dash");
+
+    expect(player.snapLocked).toBe(true);
+    expect(player.snapPending?.durationMs).toBe(250);
+    expect(player.snapPending?.z).toBeGreaterThan(startZ);
+    expect(player.snapTarget).toEqual({
+      x: player.snapPending?.x,
+      y: player.snapPending?.y,
+      z: player.snapPending?.z,
+    });
+  });
+});
+
+const effectEventsFor = (zone: ServerZone, targetId: string) =>
+  collectLoggedEvents(zone).filter(
+    (event) =>
+      event.eventType === CombatEventType.AbilityEffectApplied &&
+      (event as AbilityEffectAppliedEvent).targetId === targetId,
+  );
+
+describe("ProjectileEngine", () => {
+  const arrow: AbilityDefinition = {
+    id: "test_arrow",
+    name: "Test Arrow",
+    isOnGcd: false,
+    castTimeMs: 0,
+    cooldownMs: 0,
+    range: 30,
+    targetType: "enemy",
+    aoeShape: "single",
+    effects: [
+      { type: "damage", school: "physical", formula: { base: 10 }, targetFilter: "enemies" },
+    ],
+    projectile: { speed: 20 },
+  };
+  const abilityMap = ABILITY_DEFINITIONS as Record<string, AbilityDefinition>;
+
+  it("applies effects when the projectile reaches its target", () => {
+    const zone = createZone();
+    const caster = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 10, 0);
+    abilityMap[arrow.id] = arrow;
+
+    try {
+      castAbility(zone, caster, arrow.id, npc.id);
+      zone.projectileEngine.fixedTick(1000, 1);
+
+      const launched = collectLoggedEvents(zone).find(
+        (event) => event.eventType === CombatEventType.ProjectileLaunched,
+      ) as ProjectileLaunchedEvent | undefined;
+      expect(launched?.targetId).toBe(npc.id);
+      expect(launched?.speed).toBe(20);
+      expect(zone.projectileEngine.getActiveProjectiles()).toHaveLength(1);
+      expect(effectEventsFor(zone, npc.id)).toHaveLength(0);
+
+      zone.projectileEngine.fixedTick(1250, 2);
+      expect(effectEventsFor(zone, npc.id)).toHaveLength(0);
+
+      zone.projectileEngine.fixedTick(1500, 3);
+      const impact = collectLoggedEvents(zone).find(
+        (event) => event.eventType === CombatEventType.ProjectileImpact,
+      ) as ProjectileImpactEvent | undefined;
+      expect(impact?.outcome).toBe("impact");
+      expect(impact?.serverTimeMs).toBe(1500);
+      expect(effectEventsFor(zone, npc.id)).toHaveLength(1);
+      expect(zone.projectileEngine.getActiveProjectiles()).toHaveLength(0);
+    } finally {
+      delete abilityMap[arrow.id];
+    }
+  });
+
+  it("fizzles without effects when the target dies and no retarget is allowed", () => {
+    const zone = createZone();
+    const caster = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 10, 0);
+    createNpc(zone, "npc-2", 11, 0);
+    abilityMap[arrow.id] = arrow;
+
+    try {
+      castAbility(zone, caster, arrow.id, npc.id);
+      npc.synced.isDead = true;
+      zone.projectileEngine.fixedTick(1050, 2);
+
+      const impact = collectLoggedEvents(zone).find(
+        (event) => event.eventType === CombatEventType.ProjectileImpact,
+      ) as ProjectileImpactEvent | undefined;
+      expect(impact?.outcome).toBe("fizzled");
+      expect(effectEventsFor(zone, npc.id)).toHaveLength(0);
+      expect(zone.projectileEngine.getActiveProjectiles()).toHaveLength(0);
+    } finally {
+      delete abilityMap[arrow.id];
+    }
+  });
+
+  it("retargets the nearest enemy within the retarget radius", () => {
+    const zone = createZone();
+    const caster = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 10, 0);
+    const nextNpc = createNpc(zone, "npc-2", 10, 3);
+    const seeker: AbilityDefinition = {
+      ...arrow,
+      id: "test_seeker",
+      projectile: { speed: 20, retargetRadius: 15 },
+    };
+    abilityMap[seeker.id] = seeker;
+
+    try {
+      castAbility(zone, caster, seeker.id, npc.id);
+      npc.synced.isDead = true;
+      for (let timeMs = 1050; timeMs <= 2000; timeMs += 50) {
+        zone.projectileEngine.fixedTick(timeMs, timeMs / 50);
+      }
+
+      const launches = collectLoggedEvents(zone).filter(
+        (event) => event.eventType === CombatEventType.ProjectileLaunched,
+      ) as ProjectileLaunchedEvent[];
+      expect(launches).toHaveLength(2);
+      expect(launches[1]?.retargeted).toBe(true);
+      expect(launches[1]?.targetId).toBe(nextNpc.id);
+      expect(effectEventsFor(zone, npc.id)).toHaveLength(0);
+      expect(effectEventsFor(zone, nextNpc.id)).toHaveLength(1);
+    } finally {
+      delete abilityMap[seeker.id];
+    }
+  });
+});
+
+describe("Channeled abilities", () => {
+  const drain: AbilityDefinition = {
+    id: "test_drain",
+    name: "Test Drain",
+    isOnGcd: false,
+    castTimeMs: 3000,
+    cooldownMs: 5000,
+    range: 30,
+    targetType: "enemy",
+    aoeShape: "single",
+    effects: [{ type: "damage", school: "arcane", formula: { base: 5 }, targetFilter: "enemies" }],
+    resourceCosts: [{ type: "mana", amount: 20 }],
+    channel: { tickIntervalMs: 1000 },
+  };
+  const abilityMap = ABILITY_DEFINITIONS as Record<string, AbilityDefinition>;
+
+  it("pays up front and resolves a tick every interval until the channel ends", () => {
+    const zone = createZone();
+    const caster = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 5, 0);
+    const startingMana = caster.synced.mana;
+    abilityMap[drain.id] = drain;
+
+    try {
+      castAbility(zone, caster, drain.id, npc.id);
+      expect(caster.synced.mana).toBe(startingMana - 20);
+      expect(effectEventsFor(zone, npc.id)).toHaveLength(0);
+
+      zone.abilityEngine.fixedTick(1500, 2);
+      expect(effectEventsFor(zone, npc.id)).toHaveLength(0);
+      zone.abilityEngine.fixedTick(2000, 3);
+      expect(effectEventsFor(zone, npc.id)).toHaveLength(1);
+      zone.abilityEngine.fixedTick(4000, 4);
+
+      const ticks = effectEventsFor(zone, npc.id);
+      expect(ticks.map((event) => event.serverTimeMs)).toEqual([2000, 3000, 4000]);
+      expect(caster.activeCast).toBeUndefined();
+      expect(caster.cooldowns.get(drain.id)).toBe(9000);
+      expect(caster.synced.mana).toBe(startingMana - 20);
+    } finally {
+      delete abilityMap[drain.id];
+    }
+  });
+
+  it("keeps the ticks already earned when movement breaks the channel", () => {
+    const zone = createZone();
+    const caster = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 5, 0);
+    abilityMap[drain.id] = drain;
+
+    try {
+      castAbility(zone, caster, drain.id, npc.id);
+      zone.abilityEngine.fixedTick(2000, 2);
+      zone.abilityEngine.handleAbilityCancel({
+        request: {
+          type: "ability_cancel",
+          requestId: "cancel-1",
+          sequence: 2,
+          clientTick: 3,
+          actorId: caster.id,
+          reason: "movement",
+          clientTimeMs: 0,
+        },
+        actor: caster,
+        serverTimeMs: 2500,
+        serverTick: 3,
+      });
+      zone.abilityEngine.fixedTick(4000, 4);
+
+      const events = collectLoggedEvents(zone);
+      expect(effectEventsFor(zone, npc.id)).toHaveLength(1);
+      const interrupt = events.find(
+        (event) => event.eventType === CombatEventType.AbilityCastInterrupt,
+      ) as AbilityCastInterruptEvent | undefined;
+      expect(interrupt?.reason).toBe("movement");
+      expect(events.some((event) => event.eventType === CombatEventType.AbilityCastFinish)).toBe(
+        false,
+      );
+      expect(caster.cooldowns.get(drain.id)).toBe(7500);
+    } finally {
+      delete abilityMap[drain.id];
+    }
+  });
+});
+
+/** Use an ability at the given time and resolve it in the same tick. */
+const useAbilityAt = (
+  zone: ServerZone,
+  actor: ServerPlayer | ServerNPC,
+  abilityId: string,
+  serverTimeMs: number,
+  target: TargetSpec = {},
+): AbilityAck | undefined => {
+  let result: AbilityAck | undefined;
+  zone.abilityEngine.handleAbilityUse({
+    request: {
+      type: "ability_use",
+      requestId: `req-${abilityId}-${serverTimeMs}`,
+      sequence: serverTimeMs,
+      clientTick: serverTimeMs,
+      actorId: actor.id,
+      abilityId,
+      target,
+      clientTimeMs: 0,
+    },
+    actor,
+    serverTimeMs,
+    serverTick: serverTimeMs,
+    sendAck: (ack) => {
+      result = ack;
+    },
+  });
+  zone.abilityEngine.fixedTick(serverTimeMs, serverTimeMs);
+  return result;
+};
+
+describe("Cooldown charges and categories", () => {
+  it("spends charges that recharge one at a time", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const dash = ABILITY_DEFINITIONS.dash;
+
+    expect(useAbilityAt(zone, player, dash.id, 1000)?.accepted).toBe(true);
+    expect(player.cooldowns.getCharges(dash, 1000)).toBe(1);
+    expect(useAbilityAt(zone, player, dash.id, 4500)?.accepted).toBe(true);
+    expect(player.cooldowns.getCharges(dash, 4500)).toBe(0);
+
+    const rejected = useAbilityAt(zone, player, dash.id, 8000);
+    expect(rejected?.accepted).toBe(false);
+    expect(rejected?.rejectReason).toBe("cooldown");
+
+    // The second charge only starts recharging once the first is back.
+    expect(player.cooldowns.getCharges(dash, 1000 + dash.cooldownMs)).toBe(1);
+    expect(player.cooldowns.get(dash.id)).toBe(1000 + dash.cooldownMs * 2);
+    expect(useAbilityAt(zone, player, dash.id, 1000 + dash.cooldownMs)?.accepted).toBe(true);
+  });
+
+  it("locks every member of a cooldown category together", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const lockMs = COOLDOWN_CATEGORIES.movement.durationMs;
+    const leapTarget: TargetSpec = { targetPoint: { x: 5, y: 0, z: 0 } };
+
+    expect(useAbilityAt(zone, player, "dash", 1000)?.accepted).toBe(true);
+
+    const locked = useAbilityAt(zone, player, "heroic_leap", 1000 + lockMs - 500, leapTarget);
+    expect(locked?.accepted).toBe(false);
+    expect(locked?.rejectReason).toBe("cooldown");
+
+    const leap = useAbilityAt(zone, player, "heroic_leap", 1000 + lockMs, {
+      targetPoint: { x: player.synced.x + 5, y: player.synced.y, z: player.synced.z },
+    });
+    expect(leap?.accepted).toBe(true);
+    expect(useAbilityAt(zone, player, "dash", 1000 + lockMs + 500)?.rejectReason).toBe("cooldown");
+  });
+});
+
+describe("Procs and combos", () => {
+  const abilityMap = ABILITY_DEFINITIONS as Record<string, AbilityDefinition>;
+  const strike = (id: string, overrides: Partial<AbilityDefinition>): AbilityDefinition => ({
+    id,
+    name: id,
+    isOnGcd: false,
+    castTimeMs: 0,
+    cooldownMs: 0,
+    range: 30,
+    targetType: "enemy",
+    aoeShape: "single",
+    effects: [{ type: "damage", school: "arcane", formula: { base: 20 }, targetFilter: "enemies" }],
+    ...overrides,
+  });
+
+  it("applies a proc status on crit that makes the next empowered cast instant", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 5, 0);
+    const critStrike = strike("test_crit_strike", {
+      chanceOverrides: { hitChance: 1, dodgeChance: 0, blockChance: 0, critChance: 1 },
+      procs: [{ trigger: "crit", chance: 1, statusId: "hot_streak" }],
+    });
+    abilityMap[critStrike.id] = critStrike;
+
+    try {
+      useAbilityAt(zone, player, critStrike.id, 1000, { targetEntityId: npc.id });
+      expect(player.synced.statuses.map((status) => status.id)).toContain("hot_streak");
+
+      const ack = useAbilityAt(zone, player, "fireball", 2000, { targetEntityId: npc.id });
+      expect(ack?.accepted).toBe(true);
+      expect(ack?.castEndTimeMs).toBe(ack?.castStartTimeMs);
+      expect(player.synced.statuses.map((status) => status.id)).not.toContain("hot_streak");
+      const removed = collectLoggedEvents(zone).find(
+        (event) => event.eventType === CombatEventType.StatusRemoved,
+      ) as StatusRemovedEvent | undefined;
+      expect(removed?.statusId).toBe("hot_streak");
+      expect(removed?.reason).toBe("consumed");
+    } finally {
+      delete abilityMap[critStrike.id];
+    }
+  });
+
+  it("keeps empowerments when the empowered cast is interrupted", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 5, 0);
+    const focus: StatusEffectDefinition = {
+      id: "test_focus",
+      name: "Test Focus",
+      category: "buff",
+      durationMs: 30_000,
+      stacking: "refresh",
+      empowerment: { abilityIds: ["fireball"], damageMultiplier: 2 },
+    };
+    STATUS_DEFINITIONS[focus.id] = focus;
+    const hasFocus = () => player.synced.statuses.some((status) => status.id === focus.id);
+
+    try {
+      zone.statusEngine.applyStatus(player, player, focus, 500);
+      const ack = useAbilityAt(zone, player, "fireball", 1000, { targetEntityId: npc.id });
+      expect(ack?.castEndTimeMs).toBeGreaterThan(1000);
+      expect(hasFocus()).toBe(true);
+
+      zone.abilityEngine.interruptCast(player, "interrupt", 1200, 1200);
+      expect(hasFocus()).toBe(true);
+
+      const retry = useAbilityAt(zone, player, "fireball", 4000, { targetEntityId: npc.id });
+      zone.abilityEngine.fixedTick(retry?.castEndTimeMs ?? 0, 5000);
+      expect(hasFocus()).toBe(false);
+      const removed = collectLoggedEvents(zone).find(
+        (event) => event.eventType === CombatEventType.StatusRemoved,
+      ) as StatusRemovedEvent | undefined;
+      expect(removed).toMatchObject({ statusId: focus.id, reason: "consumed" });
+    } finally {
+      delete STATUS_DEFINITIONS[focus.id];
+    }
+  });
+
+  it("unlocks a combo ability when the target dodges and consumes it on use", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 2, 0);
+    const feint = strike("test_feint", {
+      chanceOverrides: { hitChance: 1, dodgeChance: 1 },
+      procs: [{ trigger: "dodged", chance: 1, statusId: "overpower_ready" }],
+    });
+    abilityMap[feint.id] = feint;
+
+    try {
+      const target = { targetEntityId: npc.id };
+      const locked = useAbilityAt(zone, player, "overpower", 1000, target);
+      expect(locked?.accepted).toBe(false);
+      expect(locked?.rejectReason).toBe("not_granted");
+
+      useAbilityAt(zone, player, feint.id, 2000, target);
+      expect(player.synced.statuses.map((status) => status.id)).toContain("overpower_ready");
+      expect(useAbilityAt(zone, player, "overpower", 3000, target)?.accepted).toBe(true);
+      expect(player.synced.statuses).toHaveLength(0);
+      expect(useAbilityAt(zone, player, "overpower", 5000, target)?.rejectReason).toBe(
+        "not_granted",
+      );
+    } finally {
+      delete abilityMap[feint.id];
+    }
+  });
+
+  it("scales the next matching ability's damage and only once", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 5, 0);
+    const bolt = strike("test_bolt", {
+      abilityTags: ["spell"],
+      chanceOverrides: { hitChance: 1, dodgeChance: 0, blockChance: 0, critChance: 0 },
+    });
+    abilityMap[bolt.id] = bolt;
+
+    try {
+      const target = { targetEntityId: npc.id };
+      useAbilityAt(zone, player, bolt.id, 1000, target);
+      zone.statusEngine.applyStatus(player, player, STATUS_DEFINITIONS.arcane_surge, 1500);
+      useAbilityAt(zone, player, bolt.id, 2000, target);
+      useAbilityAt(zone, player, bolt.id, 3000, target);
+
+      const damage = effectEventsFor(zone, npc.id).map((event) => event.damage ?? 0);
+      expect(damage).toHaveLength(3);
+      expect(damage[1]).toBe(Math.round(damage[0] * 1.5));
+      expect(damage[2]).toBe(damage[0]);
+    } finally {
+      delete abilityMap[bolt.id];
+    }
+  });
+});
+
+describe("Absorb shields and damage redirection", () => {
+  const abilityMap = ABILITY_DEFINITIONS as Record<string, AbilityDefinition>;
+  const smash: AbilityDefinition = {
+    id: "test_smash",
+    name: "Test Smash",
+    isOnGcd: false,
+    castTimeMs: 0,
+    cooldownMs: 0,
+    range: 30,
+    targetType: "enemy",
+    aoeShape: "single",
+    effects: [
+      { type: "damage", school: "physical", formula: { base: 20 }, targetFilter: "enemies" },
+    ],
+    chanceOverrides: { hitChance: 1, dodgeChance: 0, blockChance: 0, critChance: 0 },
+  };
+
+  it("soaks damage with the shield budget, then removes the depleted shield", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 5, 0);
+    const barrier = STATUS_DEFINITIONS.arcane_barrier;
+    abilityMap[smash.id] = smash;
+
+    try {
+      const target = { targetEntityId: npc.id };
+      useAbilityAt(zone, player, smash.id, 1000, target);
+      const [unshielded] = effectEventsFor(zone, npc.id);
+      const hitDamage = unshielded.damage ?? 0;
+      expect(hitDamage).toBeGreaterThan(0);
+
+      zone.statusEngine.applyStatus(player, npc, barrier, 1500);
+      const budget = evaluateEffectFormula(
+        barrier.absorb?.formula ?? { base: 0 },
+        readCombatStats(player.synced),
+        readCombatStats(npc.synced),
+      );
+      const hitsToBreak = Math.ceil(budget / hitDamage);
+      const hpBefore = npc.synced.currentHp;
+      for (let hit = 0; hit < hitsToBreak + 1; hit += 1) {
+        useAbilityAt(zone, player, smash.id, 2000 + hit * 1000, target);
+      }
+
+      const shielded = effectEventsFor(zone, npc.id).slice(1);
+      const absorbed = shielded.reduce((sum, event) => sum + (event.absorbed ?? 0), 0);
+      const dealt = shielded.reduce((sum, event) => sum + (event.damage ?? 0), 0);
+      expect(absorbed).toBe(budget);
+      expect(dealt + absorbed).toBe(hitDamage * shielded.length);
+      expect(npc.synced.currentHp).toBe(hpBefore - dealt);
+      expect(shielded[0].absorbed).toBe(Math.min(budget, hitDamage));
+      expect(shielded.at(-1)?.absorbed).toBeUndefined();
+
+      const removed = collectLoggedEvents(zone).find(
+        (event) => event.eventType === CombatEventType.StatusRemoved,
+      ) as StatusRemovedEvent | undefined;
+      expect(removed?.statusId).toBe(barrier.id);
+      expect(removed?.reason).toBe("consumed");
+      expect(npc.synced.statuses).toHaveLength(0);
+    } finally {
+      delete abilityMap[smash.id];
+    }
+  });
+
+  it("redirects a share of the damage to the guardian that applied the status", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 5, 0);
+    const guardian = createNpc(zone, "npc-2", 6, 0);
+    abilityMap[smash.id] = smash;
+
+    try {
+      const target = { targetEntityId: npc.id };
+      useAbilityAt(zone, player, smash.id, 1000, target);
+      const hitDamage = effectEventsFor(zone, npc.id)[0].damage ?? 0;
+
+      zone.statusEngine.applyStatus(guardian, npc, STATUS_DEFINITIONS.guarded, 1500);
+      const npcHp = npc.synced.currentHp;
+      const guardianHp = guardian.synced.currentHp;
+      useAbilityAt(zone, player, smash.id, 2000, target);
+
+      const moved = Math.round(hitDamage * (STATUS_DEFINITIONS.guarded.redirect?.fraction ?? 0));
+      const event = effectEventsFor(zone, npc.id)[1];
+      expect(event.redirected).toBe(moved);
+      expect(event.redirectedToId).toBe(guardian.id);
+      expect(event.damage).toBe(hitDamage - moved);
+      expect(npc.synced.currentHp).toBe(npcHp - (hitDamage - moved));
+      expect(guardian.synced.currentHp).toBe(guardianHp - moved);
+    } finally {
+      delete abilityMap[smash.id];
+    }
+  });
+});
+
+describe("Dispel effects", () => {
+  it("strips the newest matching buffs from an enemy and records one dispel event", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 5, 0);
+    zone.statusEngine.applyStatus(npc, npc, STATUS_DEFINITIONS.clarity, 500);
+    zone.statusEngine.applyStatus(npc, npc, STATUS_DEFINITIONS.fire_ward, 600);
+    zone.statusEngine.applyStatus(npc, npc, STATUS_DEFINITIONS.arcane_surge, 700);
+    zone.statusEngine.applyStatus(player, npc, STATUS_DEFINITIONS.burning, 800);
+
+    useAbilityAt(zone, player, "purge", 1000, { targetEntityId: npc.id });
+
+    // Purge takes one magic buff; the debuff and the untagged buff stay.
+    expect(npc.synced.statuses.map((status) => status.id)).toEqual([
+      "clarity",
+      "fire_ward",
+      "burning",
+    ]);
+    const events = collectLoggedEvents(zone);
+    const dispelled = events.filter(
+      (event) => event.eventType === CombatEventType.StatusDispelled,
+    ) as StatusDispelledEvent[];
+    expect(dispelled).toHaveLength(1);
+    expect(dispelled[0].statusIds).toEqual(["arcane_surge"]);
+    expect(dispelled[0].actorId).toBe(player.id);
+    expect(events.some((event) => event.eventType === CombatEventType.StatusRemoved)).toBe(false);
+  });
+
+  it("cleanses debuffs from an ally and has no effect when nothing matches", () => {
+    const zone = createZone();
+    const healer = createPlayer(zone, "player-1");
+    const ally = createPlayer(zone, "player-2", 3, 0);
+    const npc = createNpc(zone, "npc-1", 5, 0);
+    zone.statusEngine.applyStatus(npc, ally, STATUS_DEFINITIONS.burning, 500);
+    zone.statusEngine.applyStatus(npc, ally, STATUS_DEFINITIONS.sundered, 600);
+    zone.statusEngine.applyStatus(npc, ally, STATUS_DEFINITIONS.exhausted, 700);
+    zone.statusEngine.applyStatus(ally, ally, STATUS_DEFINITIONS.fire_ward, 800);
+
+    useAbilityAt(zone, healer, "cleanse", 1000, { targetEntityId: ally.id });
+    expect(ally.synced.statuses.map((status) => status.id)).toEqual(["exhausted", "fire_ward"]);
+
+    useAbilityAt(zone, healer, "cleanse", 1000 + 8000, { targetEntityId: ally.id });
+    const outcomes = effectEventsFor(zone, ally.id).map((event) => event.outcome);
+    expect(outcomes).toEqual(["hit", "no_effect"]);
+  });
+
+  it("never strips the evade off an NPC heading home", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 5, 0);
+    const abilityMap = ABILITY_DEFINITIONS as Record<string, AbilityDefinition>;
+    const abilityId = "test_dispel_any";
+    abilityMap[abilityId] = {
+      ...ABILITY_DEFINITIONS.purge,
+      id: abilityId,
+      effects: [{ type: "dispel", count: 5, targetFilter: "enemies" }],
+      resourceCosts: [],
+    };
+
+    try {
+      zone.combatEngine.evade(npc, 500);
+      useAbilityAt(zone, player, abilityId, 1000, { targetEntityId: npc.id });
+
+      expect(npc.synced.statuses.map((status) => status.id)).toEqual(["evading"]);
+      expect(effectEventsFor(zone, npc.id).map((event) => event.outcome)).toEqual(["no_effect"]);
+    } finally {
+      delete abilityMap[abilityId];
+    }
+  });
+});
+
+const interruptEventsFor = (zone: ServerZone, actorId: string): AbilityCastInterruptEvent[] => {
+  return collectLoggedEvents(zone).filter(
+    (event) =>
+      event.eventType === CombatEventType.AbilityCastInterrupt && event.actorId === actorId,
+  ) as AbilityCastInterruptEvent[];
+};
+
+describe("Interrupts", () => {
+  it("interrupts an NPC cast and locks out the interrupted school", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 3, 0);
+
+    useAbilityAt(zone, npc, "fireball", 1000, { targetEntityId: player.id });
+    expect(npc.activeCast?.abilityId).toBe("fireball");
+
+    useAbilityAt(zone, player, "pummel", 2000, { targetEntityId: npc.id });
+
+    expect(npc.activeCast).toBeUndefined();
+    expect(npc.synced.abilityState.castAbilityId).toBe("");
+    const interrupts = interruptEventsFor(zone, npc.id);
+    expect(interrupts).toHaveLength(1);
+    expect(interrupts[0]).toMatchObject({
+      abilityId: "fireball",
+      reason: "interrupt",
+      interruptSourceId: player.id,
+    });
+    expect(npc.synced.statuses.map((status) => status.id)).toEqual(["lockout_fire"]);
+    expect(npc.synced.statuses[0].expiresAtMs).toBe(2000 + 4000);
+
+    // Fire is locked out; other schools are not.
+    expect(useAbilityAt(zone, npc, "sky_sword", 3000, { targetEntityId: player.id })).toMatchObject(
+      { accepted: false, rejectReason: "locked_out" },
+    );
+    expect(
+      useAbilityAt(zone, npc, "quick_dart", 3000, { targetEntityId: player.id })?.accepted,
+    ).toBe(true);
+  });
+
+  it("has no effect on targets that are not casting or cast uninterruptibly", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 3, 0);
+    const fireball = ABILITY_DEFINITIONS.fireball as AbilityDefinition;
+
+    useAbilityAt(zone, player, "pummel", 1000, { targetEntityId: npc.id });
+
+    fireball.interruptible = false;
+    try {
+      useAbilityAt(zone, npc, "fireball", 20_000, { targetEntityId: player.id });
+      useAbilityAt(zone, player, "pummel", 21_000, { targetEntityId: npc.id });
+    } finally {
+      delete fireball.interruptible;
+    }
+
+    const outcomes = effectEventsFor(zone, npc.id).map((event) => event.outcome);
+    expect(outcomes).toEqual(["no_effect", "no_effect"]);
+    expect(npc.activeCast?.abilityId).toBe("fireball");
+    expect(interruptEventsFor(zone, npc.id)).toHaveLength(0);
+    expect(npc.synced.statuses).toHaveLength(0);
+  });
+
+  it("breaks casts on stun and interruptible spell casts on silence", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 3, 0);
+
+    useAbilityAt(zone, player, "arcane_barrage", 1000, { targetEntityId: npc.id });
+    zone.statusEngine.applyStatus(npc, player, STATUS_DEFINITIONS.silenced, 1500);
+    useAbilityAt(zone, player, "sky_sword", 10_000, { targetEntityId: npc.id });
+    zone.statusEngine.applyStatus(npc, player, STATUS_DEFINITIONS.stunned, 10_500);
+
+    expect(interruptEventsFor(zone, player.id)).toMatchObject([
+      { abilityId: "arcane_barrage", reason: "silence", interruptSourceId: npc.id },
+      { abilityId: "sky_sword", reason: "stun", interruptSourceId: npc.id },
+    ]);
+    expect(player.activeCast).toBeUndefined();
+  });
+});
+
+describe("Threat", () => {
+  it("scales threat by the ability's multiplier and the actor's stance", () => {
+    const zone = createZone();
+    const tank = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 3, 0);
+    const result: AbilityResult = {
+      abilityId: "shield_bash",
+      actorId: tank.id,
+      useCheck: { roll: 100, maxRoll: 100, result: "success" },
+      effects: [
+        {
+          effectIndex: 0,
+          effectType: "damage",
+          targets: [{ targetId: npc.id, outcome: "hit", damage: 10 }],
+        },
+      ],
+    };
+    const resolve = (resolvedAtMs: number): void => {
+      zone.combatEngine.onAbilityEvent({
+        type: "ability_resolved",
+        ability: ABILITY_DEFINITIONS.shield_bash as AbilityDefinition,
+        actor: tank,
+        result,
+        resolvedAtMs,
+      });
+    };
+
+    resolve(1000);
+    // 10 damage x2 (damage aggro) x2 (Shield Bash).
+    expect(npc.aggro.getAggro(tank.id)).toBe(40);
+
+    useAbilityAt(zone, tank, "defensive_stance", 2000);
+    expect(tank.statusController?.getThreatMultiplier()).toBe(2.5);
+    const before = npc.aggro.getAggro(tank.id);
+    resolve(3000);
+    expect(npc.aggro.getAggro(tank.id) - before).toBe(100);
+  });
+
+  it("taunts the NPC onto the tank and lets others shed threat", () => {
+    const zone = createZone();
+    const tank = createPlayer(zone, "player-1");
+    const rogue = createPlayer(zone, "player-2", 1, 0);
+    const npc = createNpc(zone, "npc-1", 3, 0);
+    npc.synced.inCombat = true;
+    npc.aggro.setAggro(rogue.id, 300);
+    npc.aggro.setAggro(tank.id, 100);
+
+    useAbilityAt(zone, tank, "taunt", 1000, { targetEntityId: npc.id });
+
+    expect(npc.aggro.getTopTargetId()).toBe(tank.id);
+    expect(npc.aggro.getAggro(tank.id)).toBe(300);
+    expect(npc.synced.combatState.aggro.get(tank.id)?.percent).toBe(100);
+
+    useAbilityAt(zone, rogue, "feint", 1500, { targetEntityId: npc.id });
+    expect(npc.aggro.getAggro(rogue.id)).toBe(150);
+    expect(npc.synced.combatState.aggro.get(rogue.id)?.percent).toBe(50);
+  });
+
+  it("pulls an idle NPC onto the taunter", () => {
+    const zone = createZone();
+    const tank = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 3, 0);
+
+    useAbilityAt(zone, tank, "taunt", 1000, { targetEntityId: npc.id });
+
+    expect(npc.aggro.getTauntTargetId()).toBe(tank.id);
+    expect(npc.aggro.getTopTargetId()).toBe(tank.id);
+    expect(npc.synced.inCombat).toBe(true);
+  });
+});
+
+describe("Ability requirements", () => {
+  it("rejects aimed shots that are too close, in combat or not facing the target", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const near = createNpc(zone, "npc-near", 0, 4);
+    const behind = createNpc(zone, "npc-behind", 0, -12);
+    const far = createNpc(zone, "npc-far", 0, 12);
+
+    expect(useAbilityAt(zone, player, "aimed_shot", 1000, { targetEntityId: near.id })).toEqual(
+      expect.objectContaining({ accepted: false, rejectReason: "too_close" }),
+    );
+    expect(
+      useAbilityAt(zone, player, "aimed_shot", 1100, { targetEntityId: behind.id })?.rejectReason,
+    ).toBe("not_facing");
+
+    player.synced.inCombat = true;
+    expect(
+      useAbilityAt(zone, player, "aimed_shot", 1200, { targetEntityId: far.id })?.rejectReason,
+    ).toBe("in_combat");
+
+    player.synced.inCombat = false;
+    expect(
+      useAbilityAt(zone, player, "aimed_shot", 1300, { targetEntityId: far.id })?.accepted,
+    ).toBe(true);
+  });
+
+  it("checks facing against the yaw the client sends with its movement", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const behind = createNpc(zone, "npc-behind", 0, -12);
+    const move: MoveMessage = {
+      directionX: 0,
+      directionY: 0,
+      directionZ: -1,
+      jumpPressed: false,
+      seq: 1,
+      tick: 1,
+      isSprinting: false,
+      facingYaw: Math.PI,
+      predictedX: 0,
+      predictedY: 0,
+      predictedZ: 0,
+    };
+
+    expect(
+      useAbilityAt(zone, player, "aimed_shot", 1000, { targetEntityId: behind.id })?.rejectReason,
+    ).toBe("not_facing");
+
+    moveCommand({ client: {} as Client, data: move, player, zone });
+    zone.movementController.fixedTick(
+      1050,
+      50,
+      1,
+      zone.zoneData.navmeshQuery,
+      zone.zoneData.collisionWorld,
+    );
+
+    expect(player.synced.facingYaw).toBe(Math.PI);
+    expect(
+      useAbilityAt(zone, player, "aimed_shot", 2000, { targetEntityId: behind.id })?.accepted,
+    ).toBe(true);
+  });
+
+  it("checks target health and statuses on the actor", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 0, 3);
+    const execute = ABILITY_DEFINITIONS.execute as AbilityDefinition;
+    const originalRequirements = execute.requirements;
+    execute.requirements = [
+      ...(originalRequirements ?? []),
+      { type: "self_status", statusId: "defensive_stance" },
+    ];
+
+    try {
+      expect(
+        useAbilityAt(zone, player, execute.id, 1000, { targetEntityId: npc.id })?.rejectReason,
+      ).toBe("target_health");
+
+      npc.synced.currentHp = Math.floor(npc.synced.maxHp * 0.1);
+      expect(
+        useAbilityAt(zone, player, execute.id, 2000, { targetEntityId: npc.id })?.rejectReason,
+      ).toBe("missing_status");
+
+      useAbilityAt(zone, player, "defensive_stance", 3000, { targetEntityId: player.id });
+      expect(
+        useAbilityAt(zone, player, execute.id, 6000, { targetEntityId: npc.id })?.accepted,
+      ).toBe(true);
+    } finally {
+      execute.requirements = originalRequirements;
+    }
+  });
+});
+
+describe("Ability use checks", () => {
+  const strike: AbilityDefinition = {
+    id: "test_strike",
+    name: "Test Strike",
+    isOnGcd: false,
+    castTimeMs: 0,
+    cooldownMs: 0,
+    range: 20,
+    targetType: "enemy",
+    aoeShape: "single",
+    effects: [
+      { type: "damage", school: "physical", formula: { base: 100 }, targetFilter: "enemies" },
+    ],
+    chanceOverrides: { hitChance: 1, dodgeChance: 0, blockChance: 0, critChance: 0 },
+    useCheck: { stat: "dexterity", difficulty: 40 },
+  };
+  const stats = readCombatStats(new PlayerState());
+  const critical = { stat: "dexterity", difficulty: 40, critBand: 100 } as const;
+
+  it("adds the governing stat to the roll and fumbles or crits on the bands", () => {
+    const rollWith = (value: number) => rollAbilityUseCheck(strike, stats, () => value);
+
+    expect(rollWith(0)).toEqual({
+      roll: 1,
+      maxRoll: 100,
+      result: "crit_failure",
+      statBonus: 10,
+      difficulty: 40,
+    });
+    expect(rollWith(0.05).result).toBe("failure");
+    expect(rollWith(0.3).result).toBe("success");
+    expect(rollWith(0.95).result).toBe("crit_success");
+    expect(rollAbilityUseCheck({ ...strike, useCheck: undefined }, stats, () => 0).result).toBe(
+      "success",
+    );
+  });
+
+  it("boosts every effect on a critical success", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 2, 0);
+
+    const boosted = resolveAbilityOutcome(
+      { ...strike, useCheck: { stat: "dexterity", difficulty: 40, critBand: 100 } },
+      player.synced,
+      [npc.synced],
+      1,
+    );
+    const plain = resolveAbilityOutcome({ ...strike, useCheck: undefined }, player.synced, [
+      npc.synced,
+    ]);
+
+    expect(boosted.useCheck.result).toBe("crit_success");
+    expect(plain.effects[0].targets[0].damage).toBe(100);
+    expect(boosted.effects[0].targets[0].damage).toBe(125);
+  });
+
+  it("lengthens statuses on a critical success", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 2, 0);
+    const sunder: AbilityDefinition = {
+      ...strike,
+      id: "test_crit_sunder",
+      effects: [
+        { type: "status", statusId: "sundered", durationMs: 8000, targetFilter: "enemies" },
+      ],
+      useCheck: critical,
+    };
+    ABILITY_DEFINITIONS[sunder.id] = sunder;
+
+    try {
+      const ack = useAbilityAt(zone, player, sunder.id, 1000, { targetEntityId: npc.id });
+
+      expect(ack?.result?.effects[0].targets[0].statusDurationMs).toBe(10_000);
+      expect(npc.synced.statuses[0].expiresAtMs).toBe(11_000);
+    } finally {
+      delete ABILITY_DEFINITIONS[sunder.id];
+    }
+  });
+
+  it("strengthens absorbs on a critical success", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const ally = createPlayer(zone, "player-2", 2, 0);
+    const barrier: AbilityDefinition = {
+      ...ABILITY_DEFINITIONS.arcane_barrier,
+      id: "test_crit_barrier",
+      cooldownMs: 0,
+      resourceCosts: [],
+      useCheck: critical,
+    };
+    ABILITY_DEFINITIONS[barrier.id] = barrier;
+    player.synced.intelligence = 30;
+
+    try {
+      useAbilityAt(zone, player, barrier.id, 1000, { targetEntityId: ally.id });
+
+      // 30 base + 30 intelligence, boosted by a quarter.
+      expect(ally.statusController?.getActiveStatuses()[0].absorbRemaining).toBe(75);
+    } finally {
+      delete ABILITY_DEFINITIONS[barrier.id];
+    }
+  });
+
+  it("strengthens periodic ticks on a critical success", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 2, 0);
+    const ignite: AbilityDefinition = {
+      ...strike,
+      id: "test_crit_ignite",
+      effects: [{ type: "status", statusId: "burning", durationMs: 6000, targetFilter: "enemies" }],
+      useCheck: critical,
+    };
+    ABILITY_DEFINITIONS[ignite.id] = ignite;
+    player.synced.intelligence = 20;
+
+    try {
+      useAbilityAt(zone, player, ignite.id, 1000, { targetEntityId: npc.id });
+      zone.statusEngine.fixedTick(3000);
+
+      const ticks = collectLoggedEvents(zone).filter(
+        (entry) => entry.eventType === CombatEventType.StatusTick,
+      ) as StatusTickEvent[];
+      // 8 per tick without the boost.
+      expect(ticks.map((tick) => tick.damage)).toEqual([10]);
+    } finally {
+      delete ABILITY_DEFINITIONS[ignite.id];
+    }
+  });
+
+  it("displaces further on a critical success", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 2, 0);
+    const shove: AbilityDefinition = {
+      ...strike,
+      id: "test_crit_shove",
+      effects: [
+        {
+          type: "displacement",
+          kind: "knockback",
+          distance: 4,
+          durationMs: 400,
+          targetFilter: "enemies",
+        },
+      ],
+      useCheck: critical,
+    };
+    ABILITY_DEFINITIONS[shove.id] = shove;
+
+    try {
+      useAbilityAt(zone, player, shove.id, 1000, { targetEntityId: npc.id });
+
+      expect((npc.activeDisplacement?.to.x ?? 0) - player.synced.x).toBeCloseTo(7, 1);
+    } finally {
+      delete ABILITY_DEFINITIONS[shove.id];
+    }
+  });
+
+  it("backfires on the actor and narrates the roll on a critical failure", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 2, 0);
+    const shieldBash = ABILITY_DEFINITIONS.shield_bash as AbilityDefinition;
+    shieldBash.useCheck = {
+      stat: "strength",
+      difficulty: 40,
+      fumbleBand: 100,
+      backfire: {
+        damage: { school: "physical", formula: { base: 12 } },
+        status: { statusId: "rooted", durationMs: 1500 },
+      },
+    };
+
+    const playerHp = player.synced.currentHp;
+    const npcHp = npc.synced.currentHp;
+
+    try {
+      const ack = useAbilityAt(zone, player, "shield_bash", 1000, { targetEntityId: npc.id });
+
+      expect(ack?.result?.useCheck.result).toBe("crit_failure");
+      expect(ack?.result?.backfire).toEqual(
+        expect.objectContaining({ targetId: player.id, damage: 12, statusApplied: ["rooted"] }),
+      );
+      expect(player.synced.currentHp).toBe(playerHp - 12);
+      expect(npc.synced.currentHp).toBe(npcHp);
+      expect(player.statusController?.hasStateFlag("rooted")).toBe(true);
+
+      const events = collectLoggedEvents(zone);
+      const finish = events.find(
+        (entry) => entry.eventType === CombatEventType.AbilityCastFinish,
+      ) as AbilityCastFinishEvent | undefined;
+      expect(finish?.useCheck?.result).toBe("crit_failure");
+      const backfire = events.find(
+        (entry) => entry.eventType === CombatEventType.AbilityBackfire,
+      ) as AbilityBackfireEvent | undefined;
+      expect(backfire).toEqual(
+        expect.objectContaining({ actorId: player.id, abilityId: "shield_bash", damage: 12 }),
+      );
+    } finally {
+      delete shieldBash.useCheck;
+    }
+  });
+});
+
+describe("Combat recording", () => {
+  it("records requests and outcomes that replay without divergence", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "combat-recording-"));
+    const recordingPath = path.join(dir, "fight.jsonl");
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 0, 6);
+    const dartDamage = ABILITY_DEFINITIONS.quick_dart.effects[0] as DamageEffect;
+    const originalBase = dartDamage.formula.base;
+
+    try {
+      await zone.startCombatRecording(recordingPath);
+      useAbilityAt(zone, player, "quick_dart", 1000, { targetEntityId: npc.id });
+      useAbilityAt(zone, player, "quick_dart", 1100, { targetEntityId: npc.id });
+      useAbilityAt(zone, player, "shield_bash", 4000, { targetEntityId: npc.id });
+      await zone.stopCombatRecording();
+
+      const entries = await readCombatRecording(recordingPath);
+      expect(entries[0]).toEqual(
+        expect.objectContaining({ kind: "header", zoneId: "combat-test-zone" }),
+      );
+      const report = replayCombatRecording(entries);
+      expect(report).toEqual(
+        expect.objectContaining({ requests: 3, rejectedRequests: 1, divergences: [] }),
+      );
+      expect(report.outcomes).toBeGreaterThanOrEqual(2);
+
+      dartDamage.formula.base = originalBase * 3;
+      const changed = replayCombatRecording(entries);
+      expect(changed.divergences).toHaveLength(1);
+      expect(changed.divergences[0]).toEqual(
+        expect.objectContaining({ abilityId: "quick_dart", requestId: "req-quick_dart-1000" }),
+      );
+      expect(changed.divergences[0].differences.join("\n")).toContain("effects[0].targets[0]");
+    } finally {
+      dartDamage.formula.base = originalBase;
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("turns the recorder off when its file cannot be written", async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "combat-recording-"));
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const npc = createNpc(zone, "npc-1", 0, 6);
+
+    try {
+      // The recording path is a directory, so opening it for appending fails.
+      await zone.startCombatRecording(dir);
+      await vi.waitFor(() => expect(zone.combatRecorder?.active).toBe(false));
+
+      const ack = useAbilityAt(zone, player, "quick_dart", 1000, { targetEntityId: npc.id });
+      expect(ack?.accepted).toBe(true);
+      await expect(zone.stopCombatRecording()).resolves.toBeUndefined();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("Combat simulator", () => {
+  const environment = {
+    createZone,
+    origin: { x: TEST_NAVMESH_BASE_X, y: TEST_NAVMESH_BASE_Y, z: TEST_NAVMESH_BASE_Z },
+  };
+  const scenario: CombatSimScenario = {
+    durationMs: 20_000,
+    iterations: 3,
+    seed: "test",
+    actors: [
+      {
+        id: "attacker",
+        kind: "player",
+        factionId: "players",
+        rotation: ["shield_bash", "quick_dart"],
+        targetId: "defender",
+      },
+      {
+        id: "defender",
+        kind: "npc",
+        factionId: "npcs",
+        position: { x: 4, z: 0 },
+        stats: { maxHp: 5000 },
+        rotation: [],
+      },
+    ],
+  };
+
+  it("runs scripted rotations and reports the same numbers for the same seed", () => {
+    const report = runCombatSimulation(scenario, environment);
+    const [attacker, defender] = report.actors;
+
+    expect(report.iterations).toBe(3);
+    expect(report.fightDurationMs.mean).toBe(20_000);
+    expect(attacker.dps.mean).toBeGreaterThan(0);
+    expect(attacker.abilityUses.shield_bash).toBeGreaterThan(1);
+    expect(attacker.abilityUses.quick_dart).toBeGreaterThanOrEqual(1);
+    expect(defender.dps.mean).toBe(0);
+    expect(defender.deathRate).toBe(0);
+    expect(runCombatSimulation(scenario, environment)).toEqual(report);
+  });
+
+  it("reports time to kill and resource starvation", () => {
+    const report = runCombatSimulation(
+      {
+        ...scenario,
+        iterations: 1,
+        actors: [
+          { ...scenario.actors[0], stats: { maxStamina: 20 } },
+          { ...scenario.actors[1], stats: { maxHp: 30 } },
+        ],
+      },
+      environment,
+    );
+    const [attacker, defender] = report.actors;
+
+    expect(defender.deathRate).toBe(1);
+    expect(defender.timeToDeathMs?.mean).toBe(report.fightDurationMs.mean);
+    expect(report.fightDurationMs.mean).toBeLessThan(20_000);
+    expect(attacker.starvationRate).toBe(1);
+    expect(attacker.firstStarvedAtMs?.mean).toBeGreaterThan(0);
+  });
+
+  it("counts auto-attack swings, including NPCs swinging back in melee range", () => {
+    const report = runCombatSimulation(
+      {
+        ...scenario,
+        iterations: 1,
+        actors: [
+          { ...scenario.actors[0], rotation: [], autoAttack: true },
+          { ...scenario.actors[1], position: { x: 2, z: 0 } },
+        ],
+      },
+      environment,
+    );
+    const [attacker, defender] = report.actors;
+
+    expect(attacker.dps.mean).toBeGreaterThan(0);
+    expect(attacker.abilityUses).toEqual({});
+    expect(defender.dps.mean).toBeGreaterThan(0);
+  });
+
+  it("rejects rotations with unknown abilities", () => {
+    expect(() =>
+      runCombatSimulation(
+        { ...scenario, actors: [{ ...scenario.actors[0], rotation: ["smite"] }] },
+        environment,
+      ),
+    ).toThrow("Unknown ability smite in rotation of attacker");
+  });
+});
+
+describe("Pets", () => {
+  it("summons a pet bound to its caster and replaces the previous one", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+
+    expect(useAbilityAt(zone, player, "summon_wolf", 1000)?.accepted).toBe(true);
+    zone.abilityEngine.fixedTick(3000, 3000);
+
+    const pet = zone.getPet(player.id);
+    expect(pet?.synced.ownerId).toBe(player.id);
+    expect(pet?.synced.factionId).toBe(player.synced.factionId);
+    expect(pet?.synced.petStance).toBe("defensive");
+    expect(pet?.pet?.movement).toBe("follow");
+    expect(zone.zoneState.npcs.get(pet?.id ?? "")).toBe(pet?.synced);
+
+    const replacement = zone.summonPet(player, "wolf_companion", 20_000);
+    expect(replacement?.id).not.toBe(pet?.id);
+    expect(zone.npcs.has(pet?.id ?? "")).toBe(false);
+    expect(zone.getPet(player.id)).toBe(replacement);
+  });
+
+  it("credits the owner with its pet's threat and combat log entries", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const pet = zone.summonPet(player, "wolf_companion", 0);
+    const npc = createNpc(zone, "npc-1");
+    if (!pet) {
+      throw new Error("pet was not summoned");
+    }
+    npc.synced.x = pet.synced.x + 1;
+    npc.synced.z = pet.synced.z;
+    const bite = ABILITY_DEFINITIONS.pet_bite as AbilityDefinition;
+    bite.chanceOverrides = { hitChance: 1, dodgeChance: 0, blockChance: 0, critChance: 0 };
+
+    try {
+      expect(useAbilityAt(zone, pet, bite.id, 1000, { targetEntityId: npc.id })?.accepted).toBe(
+        true,
+      );
+    } finally {
+      delete bite.chanceOverrides;
+    }
+
+    expect(npc.aggro.getAggro(player.id)).toBeGreaterThan(0);
+    expect(npc.aggro.hasTarget(pet.id)).toBe(false);
+    expect(player.synced.inCombat).toBe(true);
+    expect(pet.synced.inCombat).toBe(true);
+    const effect = collectLoggedEvents(zone).find(
+      (entry) => entry.eventType === CombatEventType.AbilityEffectApplied,
+    ) as AbilityEffectAppliedEvent | undefined;
+    expect(effect?.actorId).toBe(pet.id);
+    expect(effect?.actorOwnerId).toBe(player.id);
+  });
+
+  it("dismisses pets when their owner dies", () => {
+    const zone = createZone();
+    const player = createPlayer(zone, "player-1");
+    const pet = zone.summonPet(player, "wolf_companion", 0);
+
+    player.synced.currentHp = 0;
+    zone.combatEngine.fixedTick(1000);
+
+    expect(player.synced.isDead).toBe(true);
+    expect(zone.npcs.has(pet?.id ?? "")).toBe(false);
+    expect(zone.getPet(player.id)).toBeUndefined();
+  });
+});
+
+const collectSwings = (zone: ServerZone): AutoAttackEvent[] =>
+  collectLoggedEvents(zone).filter(
+    (entry): entry is AutoAttackEvent => entry.eventType === CombatEventType.AutoAttack,
+  );
+
+const startAutoAttack = (zone: ServerZone) => {
+  const player = createPlayer(zone, "player-1");
+  const npc = createNpc(zone, "npc-1", 2, 0);
+  turnPlayer(zone, player, Math.PI / 2, 1);
+  player.synced.entityTargetId = npc.id;
+  player.synced.autoAttacking = true;
+  return { player, npc };
+};
+
+describe("Auto-attacks", () => {
+  it("swings at the target on the weapon timer while in range and facing it", () => {
+    const zone = createZone();
+    const { player, npc } = startAutoAttack(zone);
+    const interval = DEFAULT_AUTO_ATTACK.swingIntervalMs;
+    const startHp = npc.synced.currentHp;
+
+    zone.autoAttackEngine.fixedTick(1000, 50, 1);
+    zone.autoAttackEngine.fixedTick(1000 + interval - 50, 50, 2);
+
+    expect(collectSwings(zone)).toHaveLength(1);
+    expect(player.synced.abilityState.nextSwingTimeMs).toBe(1000 + interval);
+
+    zone.autoAttackEngine.fixedTick(1000 + interval, 50, 3);
+    const swings = collectSwings(zone);
+    const damage = swings.reduce((total, swing) => total + (swing.damage ?? 0), 0);
+
+    expect(swings).toHaveLength(2);
+    expect(swings[0]?.actorId).toBe(player.id);
+    expect(swings[0]?.targetId).toBe(npc.id);
+    expect(npc.synced.currentHp).toBe(startHp - damage);
+    expect(player.synced.inCombat).toBe(true);
+    expect(npc.synced.inCombat).toBe(true);
+
+    turnPlayer(zone, player, -Math.PI / 2, 2);
+    zone.autoAttackEngine.fixedTick(10_000, 50, 4);
+    turnPlayer(zone, player, Math.PI / 2, 3);
+    npc.synced.x += DEFAULT_AUTO_ATTACK.range;
+    zone.autoAttackEngine.fixedTick(10_050, 50, 5);
+
+    expect(collectSwings(zone)).toHaveLength(2);
+    expect(player.synced.autoAttacking).toBe(true);
+  });
+
+  it("pauses the swing timer while casting and stops once the target is lost", () => {
+    const zone = createZone();
+    const { player, npc } = startAutoAttack(zone);
+    const interval = DEFAULT_AUTO_ATTACK.swingIntervalMs;
+
+    zone.autoAttackEngine.fixedTick(1000, 50, 1);
+    expect(useAbilityAt(zone, player, "fireball", 1500, { targetEntityId: npc.id })?.accepted).toBe(
+      true,
+    );
+    zone.autoAttackEngine.fixedTick(1550, 50, 2);
+    zone.autoAttackEngine.fixedTick(1600, 50, 3);
+    zone.abilityEngine.interruptCast(player, "manual", 1600, 3);
+
+    expect(player.synced.abilityState.nextSwingTimeMs).toBe(1000 + interval + 100);
+
+    zone.autoAttackEngine.fixedTick(1000 + interval + 50, 50, 4);
+    expect(collectSwings(zone)).toHaveLength(1);
+    zone.autoAttackEngine.fixedTick(1000 + interval + 100, 50, 5);
+    expect(collectSwings(zone)).toHaveLength(2);
+
+    npc.synced.isDead = true;
+    zone.autoAttackEngine.fixedTick(10_000, 50, 6);
+
+    expect(player.synced.autoAttacking).toBe(false);
+    expect(collectSwings(zone)).toHaveLength(2);
+  });
 });
@@ -21,6 +21,9 @@ export class AbilityState extends Schema {
   /** Server-assigned cast id for the active cast (0 when idle). */
   @type("uint32") castId = 0;
 
+  /** Earliest server time (ms) of the next auto-attack swing. */
+  @type("float64") nextSwingTimeMs = 0;
+
   /** Server time (ms) of the last hostile ability action involving this entity. */
   @type("float64") lastHostileActionTimeMs = 0;
 
@@ -9,3 +9,5 @@ export { PlayerState } from "./player-state.js";
 export { ZoneState } from "./zone-state.js";
 export { AbilityState } from "./ability-state.js";
 export { CombatState, AggroEntry } from "./combat-state.js";
+export { StatusEntry } from "./status-state.js";
+export { ResourceRegenState } from "./resource-regen-state.js";
@@ -1,5 +1,7 @@
-import { Schema, type } from "@colyseus/schema";
+import { ArraySchema, Schema, type } from "@colyseus/schema";
 import { AbilityState } from "./ability-state";
+import { ResourceRegenState } from "./resource-regen-state";
+import { StatusEntry } from "./status-state";
 
 /**
  * Shared mob state schema synced to clients.
@@ -51,6 +53,30 @@ export class MobState extends Schema {
   /** Constitution stat (placeholder). */
   @type("int32") constitution = 10;
 
+  /** Armor (mitigates physical damage). */
+  @type("int32") armor = 0;
+
+  /** Fire resistance (mitigates fire damage). */
+  @type("int32") fireResistance = 0;
+
+  /** Arcane resistance (mitigates arcane damage). */
+  @type("int32") arcaneResistance = 0;
+
+  /** Holy resistance (mitigates holy damage). */
+  @type("int32") holyResistance = 0;
+
+  /** Electric resistance (mitigates electric damage). */
+  @type("int32") electricResistance = 0;
+
+  /** Accuracy rating (offsets the defender's dexterity when rolling hits). */
+  @type("int32") accuracy = 0;
+
+  /** Block rating (chance to block incoming attacks). */
+  @type("int32") blockRating = 0;
+
+  /** Critical strike rating. */
+  @type("int32") critRating = 0;
+
   /** Display name. */
   @type("string") name = "";
 
@@ -63,9 +89,25 @@ export class MobState extends Schema {
   /** Synced ability state for UI (cast bars, cooldowns). */
   @type(AbilityState) abilityState: AbilityState = new AbilityState();
 
+  /** Synced mana/stamina regeneration rates and delays. */
+  @type(ResourceRegenState) regen: ResourceRegenState =
+    new ResourceRegenState();
+
   /** Whether the entity is currently considered in combat. */
   @type("boolean") inCombat = false;
 
+  /** Whether the entity swings at its current target automatically. */
+  @type("boolean") autoAttacking = false;
+
+  /** Whether the entity is dead (corpse state until despawn or release). */
+  @type("boolean") isDead = false;
+
+  /** Server timestamp of the most recent death (0 while alive). */
+  @type("float64") deathTimeMs = 0;
+
+  /** Active status effects (buffs and debuffs) on this entity. */
+  @type([StatusEntry]) statuses = new ArraySchema<StatusEntry>();
+
   /**
    * Current target entity id (empty string when no target).
    */
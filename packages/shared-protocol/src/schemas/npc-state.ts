@@ -12,6 +12,12 @@ export class NPCState extends MobState {
   /** Mob type/template identifier. */
   @type("string") mobType = "";
 
+  /** Player (or mob) that summoned this NPC; empty for NPCs that are nobody's pet. */
+  @type("string") ownerId = "";
+
+  /** Pet stance (passive, defensive or aggressive); empty for NPCs that are nobody's pet. */
+  @type("string") petStance = "";
+
   /** Synced combat state (aggro list). */
   @type(CombatState) combatState: CombatState = new CombatState();
 }
@@ -0,0 +1,21 @@
+import { Schema, type } from "@colyseus/schema";
+
+/**
+ * Synced mana/stamina regeneration state so clients can predict resources between patches.
+ */
+export class ResourceRegenState extends Schema {
+  /** Current mana regeneration rate (points per second, 0 when blocked). */
+  @type("float32") manaPerSecond = 0;
+
+  /** Current stamina regeneration rate (points per second, 0 when blocked). */
+  @type("float32") staminaPerSecond = 0;
+
+  /** Server time (ms) mana regeneration resumes after spending. */
+  @type("float64") manaResumeAtMs = 0;
+
+  /** Server time (ms) stamina regeneration resumes after spending. */
+  @type("float64") staminaResumeAtMs = 0;
+
+  /** Server time (ms) mana/stamina were last written by regeneration. */
+  @type("float64") updatedAtMs = 0;
+}
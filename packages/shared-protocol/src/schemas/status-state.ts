@@ -0,0 +1,19 @@
+import { Schema, type } from "@colyseus/schema";
+
+/**
+ * Synced active status effect entry.
+ * Definitions (name, flags, modifiers) are looked up client-side by id.
+ */
+export class StatusEntry extends Schema {
+  /** Status definition identifier. */
+  @type("string") id = "";
+
+  /** Entity id of the mob that applied the status. */
+  @type("string") sourceId = "";
+
+  /** Current stack count. */
+  @type("uint16") stacks = 1;
+
+  /** Server timestamp when the status expires (ms). */
+  @type("float64") expiresAtMs = 0;
+}
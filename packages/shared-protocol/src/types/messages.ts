@@ -14,6 +14,8 @@ export interface MoveMessage {
   tick: number;
   /** Whether the player is sprinting. */
   isSprinting: boolean;
+  /** Yaw (radians) the player faces after this input; used for facing requirements and cones. */
+  facingYaw: number;
   /** Client-predicted X position after applying this input. */
   predictedX: number;
   /** Client-predicted Y position after applying this input. */
@@ -27,6 +29,28 @@ export interface TargetChangeMessage {
   targetEntityId?: string;
 }
 
+export interface ReleaseMessage {
+  /** Client timestamp when the release was requested. */
+  clientTimeMs: number;
+}
+
+export interface AutoAttackMessage {
+  /** Start (true) or stop (false) swinging at the current target. */
+  enabled: boolean;
+}
+
+export type PetStance = "passive" | "defensive" | "aggressive";
+
+export type PetCommand = "attack" | "follow" | "stay" | "stance" | "dismiss";
+
+export interface PetCommandMessage {
+  command: PetCommand;
+  /** Enemy to attack, for the attack command. */
+  targetEntityId?: string;
+  /** New stance, for the stance command. */
+  stance?: PetStance;
+}
+
 export type ClientMessage =
   | {
       type: "move";
@@ -59,4 +83,6 @@ export interface SnapMessage {
   y: number;
   z: number;
   seq: number;
+  /** When set, the snap is a server displacement the client should play over this duration. */
+  durationMs?: number;
 }
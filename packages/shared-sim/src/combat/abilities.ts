@@ -1,16 +1,22 @@
-import type { AbilityUseCheck } from "./combat-messages";
+import type { EffectFormula } from "./formulas";
+import type { CombatChanceOverrides } from "./hit-chances";
+import type { DamageSchool } from "./mitigation";
+import type { AbilityRequirement } from "./requirements";
 import type { ResourceCost } from "./resources";
-import type { AbilityTag } from "./status";
+import type { AbilityTag, DispellableStatusCategory, ProcDefinition } from "./status";
 import type { AbilityAoeShape, DirectionMode, TargetType } from "./targeting-types";
+import type { AbilityUseCheckDefinition } from "./use-checks";
 
 export interface DamageEffect {
   type: "damage";
-  school: string;
+  school: DamageSchool;
+  formula: EffectFormula;
   targetFilter: EffectTargetFilter;
 }
 
 export interface HealingEffect {
   type: "healing";
+  formula: EffectFormula;
   targetFilter: EffectTargetFilter;
 }
 
@@ -21,9 +27,109 @@ export interface StatusEffect {
   targetFilter: EffectTargetFilter;
 }
 
-export type AbilityEffect = DamageEffect | HealingEffect | StatusEffect;
+export type DisplacementKind = "knockback" | "pull" | "leap" | "dash";
+
+/**
+ * Moves mobs along the navmesh over `durationMs`.
+ * knockback/pull move each target away from / toward the actor; leap (to the target point)
+ * and dash (along facing) move the actor itself.
+ */
+export interface DisplacementEffect {
+  type: "displacement";
+  kind: DisplacementKind;
+  /** Maximum distance travelled. */
+  distance: number;
+  durationMs: number;
+  targetFilter: EffectTargetFilter;
+}
+
+/**
+ * Removes up to `count` statuses from each target: buffs from enemies, debuffs from allies.
+ * `tags` narrows it to statuses carrying one of them (e.g. magic, poison, curse).
+ */
+export interface DispelEffect {
+  type: "dispel";
+  count: number;
+  /** Overrides the category picked from the target's relation to the actor. */
+  category?: DispellableStatusCategory;
+  tags?: string[];
+  targetFilter: EffectTargetFilter;
+}
+
+/**
+ * Cancels each target's interruptible cast and locks out the interrupted ability's damage
+ * schools (or its ability tags, for abilities that deal no damage) for `lockoutMs`.
+ */
+export interface InterruptEffect {
+  type: "interrupt";
+  lockoutMs: number;
+  targetFilter: EffectTargetFilter;
+}
+
+/**
+ * Forces each target NPC to attack the actor for `durationMs` and raises the actor's threat to
+ * match the NPC's current top threat.
+ */
+export interface TauntEffect {
+  type: "taunt";
+  durationMs: number;
+  targetFilter: EffectTargetFilter;
+}
+
+/** Scales the actor's threat on each target NPC (e.g. 0.5 halves it, 0 wipes it). */
+export interface ThreatEffect {
+  type: "threat";
+  multiplier: number;
+  targetFilter: EffectTargetFilter;
+}
+
+/**
+ * Spawns the pet template next to the actor as its pet, replacing any pet it already has.
+ * The actor is the only target.
+ */
+export interface SummonEffect {
+  type: "summon";
+  /** Key into PET_TEMPLATES. */
+  petTemplateId: string;
+  targetFilter: EffectTargetFilter;
+}
+
+export type AbilityEffect =
+  | DamageEffect
+  | HealingEffect
+  | StatusEffect
+  | DisplacementEffect
+  | DispelEffect
+  | InterruptEffect
+  | TauntEffect
+  | ThreatEffect
+  | SummonEffect;
+
+/** Whether a displacement moves the actor rather than its targets. */
+export const isSelfDisplacement = (effect: DisplacementEffect): boolean => {
+  return effect.kind === "leap" || effect.kind === "dash";
+};
 export type EffectTargetFilter = "all" | "allies" | "enemies";
 
+/** Travel settings for abilities whose effects apply when a projectile reaches the target. */
+export interface AbilityProjectile {
+  /** Travel speed in world units per second. */
+  speed: number;
+  /**
+   * If the target dies mid-flight, the projectile retargets the nearest valid target within this
+   * radius of its position. Without one (or with no candidate) the projectile fizzles.
+   */
+  retargetRadius?: number;
+}
+
+/**
+ * Channeled abilities resolve their effects every `tickIntervalMs` while the cast is active
+ * (`castTimeMs` is the channel length) instead of once at cast end.
+ */
+export interface AbilityChannel {
+  tickIntervalMs: number;
+}
+
 export interface AbilityDefinition {
   id: string;
   name: string;
@@ -31,24 +137,41 @@ export interface AbilityDefinition {
   abilityTags?: AbilityTag[];
   isOnGcd: boolean;
   castTimeMs: number;
+  /** Cooldown, or the recharge time of one charge for abilities with `maxCharges`. */
   cooldownMs: number;
+  /** Charges held at once; they recharge one at a time. Defaults to 1. */
+  maxCharges?: number;
+  /** Shared cooldown category (see COOLDOWN_CATEGORIES); using any member locks all of them. */
+  cooldownCategory?: string;
+  /** Combo ability: only usable while a status grants it (see `grantedAbilityIds`). */
+  requiresGrant?: boolean;
+  /** Whether interrupts and silences can cancel the cast. Defaults to true. */
+  interruptible?: boolean;
+  /** Scales the threat this ability's damage, healing and statuses generate. Defaults to 1. */
+  threatMultiplier?: number;
   range: number;
   targetType: TargetType;
   directionMode?: DirectionMode;
   aoeShape: AbilityAoeShape;
+  /** Whether dead mobs are valid targets (e.g. resurrection). Defaults to false. */
+  canTargetDead?: boolean;
+  /** Extra use conditions (facing, minimum range, combat state, target HP, own statuses). */
+  requirements?: AbilityRequirement[];
   effects: AbilityEffect[];
+  /** Delays effects until a projectile travels from the actor to the target. */
+  projectile?: AbilityProjectile;
+  channel?: AbilityChannel;
+  /** Procs rolled whenever this ability resolves. */
+  procs?: ProcDefinition[];
+  /** Replaces stat-derived hit/dodge/block/crit chances for this ability. */
+  chanceOverrides?: CombatChanceOverrides;
   resourceCosts?: ResourceCost[];
-  rollUseCheck?: () => AbilityUseCheck;
+  /** Skill roll made when the ability resolves; without one every use succeeds. */
+  useCheck?: AbilityUseCheckDefinition;
 }
 
-export const rollAbilityUseCheck = (ability: AbilityDefinition): AbilityUseCheck => {
-  if (ability.rollUseCheck) {
-    return ability.rollUseCheck();
-  }
-  return { roll: 100, maxRoll: 100, result: "success" };
-};
-
-export const ABILITY_DEFINITIONS = {
+/** Active ability definitions; `installCombatContent` replaces them in place. */
+export const ABILITY_DEFINITIONS: Record<string, AbilityDefinition> = {
   quick_dart: {
     id: "quick_dart",
     name: "Quick Dart",
@@ -59,7 +182,15 @@ export const ABILITY_DEFINITIONS = {
     targetType: "enemy",
     range: 18,
     aoeShape: "single",
-    effects: [{ type: "damage", school: "physical", targetFilter: "enemies" }],
+    effects: [
+      {
+        type: "damage",
+        school: "physical",
+        formula: { base: 12, actorCoefficients: { dexterity: 0.6 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+    ],
+    projectile: { speed: 40, retargetRadius: 6 },
     resourceCosts: [{ type: "stamina", amount: 6 }],
   },
   shield_bash: {
@@ -73,7 +204,12 @@ export const ABILITY_DEFINITIONS = {
     range: 6,
     aoeShape: "single",
     effects: [
-      { type: "damage", school: "physical", targetFilter: "enemies" },
+      {
+        type: "damage",
+        school: "physical",
+        formula: { base: 8, actorCoefficients: { strength: 0.4 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
       {
         type: "status",
         statusId: "stunned",
@@ -81,8 +217,53 @@ export const ABILITY_DEFINITIONS = {
         targetFilter: "enemies",
       },
     ],
+    procs: [{ trigger: "dodged", chance: 1, statusId: "overpower_ready" }],
+    threatMultiplier: 2,
     resourceCosts: [{ type: "stamina", amount: 8 }],
   },
+  overpower: {
+    id: "overpower",
+    name: "Overpower",
+    abilityTags: ["melee"],
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 0,
+    requiresGrant: true,
+    targetType: "enemy",
+    range: 6,
+    aoeShape: "single",
+    effects: [
+      {
+        type: "damage",
+        school: "physical",
+        formula: { base: 18, actorCoefficients: { strength: 0.8 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+    ],
+    chanceOverrides: { dodgeChance: 0, blockChance: 0 },
+    resourceCosts: [{ type: "stamina", amount: 5 }],
+  },
+  execute: {
+    id: "execute",
+    name: "Execute",
+    abilityTags: ["melee"],
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 6000,
+    targetType: "enemy",
+    range: 6,
+    aoeShape: "single",
+    requirements: [{ type: "facing_target" }, { type: "target_health_below", fraction: 0.2 }],
+    effects: [
+      {
+        type: "damage",
+        school: "physical",
+        formula: { base: 40, actorCoefficients: { strength: 1.2 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+    ],
+    resourceCosts: [{ type: "stamina", amount: 15 }],
+  },
   fireball: {
     id: "fireball",
     name: "Fireball",
@@ -93,7 +274,18 @@ export const ABILITY_DEFINITIONS = {
     targetType: "enemy",
     range: 22,
     aoeShape: { type: "circle", radius: 4.5 },
-    effects: [{ type: "damage", school: "fire", targetFilter: "enemies" }],
+    effects: [
+      {
+        type: "damage",
+        school: "fire",
+        formula: { base: 30, actorCoefficients: { intelligence: 1.2 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+      { type: "status", statusId: "burning", durationMs: 6000, targetFilter: "enemies" },
+    ],
+    projectile: { speed: 24 },
+    procs: [{ trigger: "crit", chance: 1, statusId: "hot_streak" }],
+    chanceOverrides: { blockChance: 0 },
     resourceCosts: [{ type: "mana", amount: 18 }],
   },
   sky_sword: {
@@ -107,9 +299,42 @@ export const ABILITY_DEFINITIONS = {
     directionMode: "target",
     range: 10,
     aoeShape: { type: "cone", angleDeg: 70, length: 8 },
-    effects: [{ type: "damage", school: "fire", targetFilter: "enemies" }],
+    effects: [
+      {
+        type: "damage",
+        school: "fire",
+        formula: { base: 18, actorCoefficients: { intelligence: 0.8 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+    ],
+    chanceOverrides: { blockChance: 0 },
     resourceCosts: [{ type: "mana", amount: 12 }],
   },
+  aimed_shot: {
+    id: "aimed_shot",
+    name: "Aimed Shot",
+    abilityTags: ["ranged"],
+    isOnGcd: true,
+    castTimeMs: 2000,
+    cooldownMs: 20000,
+    targetType: "enemy",
+    range: 30,
+    aoeShape: "single",
+    requirements: [
+      { type: "out_of_combat" },
+      { type: "min_range", range: 8 },
+      { type: "facing_target", arcDeg: 90 },
+    ],
+    effects: [
+      {
+        type: "damage",
+        school: "physical",
+        formula: { base: 45, actorCoefficients: { dexterity: 1.4 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+    ],
+    resourceCosts: [{ type: "stamina", amount: 12 }],
+  },
   ice_storm: {
     id: "ice_storm",
     name: "Ice Storm",
@@ -120,7 +345,15 @@ export const ABILITY_DEFINITIONS = {
     targetType: "ground",
     range: 18,
     aoeShape: { type: "circle", radius: 3.5 },
-    effects: [{ type: "damage", school: "arcane", targetFilter: "enemies" }],
+    effects: [
+      {
+        type: "damage",
+        school: "arcane",
+        formula: { base: 16, actorCoefficients: { intelligence: 0.8 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+    ],
+    chanceOverrides: { blockChance: 0 },
     resourceCosts: [{ type: "mana", amount: 16 }],
   },
   overgrowth: {
@@ -134,7 +367,14 @@ export const ABILITY_DEFINITIONS = {
     directionMode: "target",
     range: 10,
     aoeShape: { type: "cone", angleDeg: 75, length: 7.5 },
-    effects: [{ type: "damage", school: "electric", targetFilter: "enemies" }],
+    effects: [
+      {
+        type: "damage",
+        school: "electric",
+        formula: { base: 14, actorCoefficients: { strength: 0.6 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+    ],
     resourceCosts: [{ type: "stamina", amount: 10 }],
   },
   cleave_line: {
@@ -147,7 +387,15 @@ export const ABILITY_DEFINITIONS = {
     directionMode: "cursor",
     range: 9,
     aoeShape: { type: "line", length: 7, width: 3 },
-    effects: [{ type: "damage", school: "physical", targetFilter: "enemies" }],
+    effects: [
+      {
+        type: "damage",
+        school: "physical",
+        formula: { base: 14, actorCoefficients: { strength: 0.8 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+      { type: "status", statusId: "sundered", durationMs: 8000, targetFilter: "enemies" },
+    ],
     resourceCosts: [{ type: "stamina", amount: 12 }],
   },
   radiant_pulse: {
@@ -160,12 +408,296 @@ export const ABILITY_DEFINITIONS = {
     range: 18,
     aoeShape: { type: "circle", radius: 6 },
     effects: [
-      { type: "damage", school: "holy", targetFilter: "enemies" },
-      { type: "healing", targetFilter: "allies" },
+      {
+        type: "damage",
+        school: "holy",
+        formula: { base: 14, actorCoefficients: { intelligence: 0.6 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+      {
+        type: "healing",
+        formula: { base: 10, actorCoefficients: { intelligence: 0.6 }, variance: 0.1 },
+        targetFilter: "allies",
+      },
+      { type: "status", statusId: "regrowth", durationMs: 8000, targetFilter: "allies" },
     ],
+    chanceOverrides: { blockChance: 0 },
     resourceCosts: [{ type: "mana", amount: 20 }],
   },
-} satisfies Record<string, AbilityDefinition>;
+  arcane_barrage: {
+    id: "arcane_barrage",
+    name: "Arcane Barrage",
+    abilityTags: ["spell"],
+    isOnGcd: true,
+    castTimeMs: 3000,
+    cooldownMs: 10000,
+    targetType: "enemy",
+    range: 20,
+    aoeShape: "single",
+    effects: [
+      {
+        type: "damage",
+        school: "arcane",
+        formula: { base: 9, actorCoefficients: { intelligence: 0.5 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+    ],
+    channel: { tickIntervalMs: 1000 },
+    procs: [{ trigger: "cast", abilityTag: "spell", chance: 0.3, statusId: "arcane_surge" }],
+    chanceOverrides: { blockChance: 0 },
+    resourceCosts: [{ type: "mana", amount: 20 }],
+    useCheck: {
+      stat: "intelligence",
+      difficulty: 30,
+      backfire: {
+        damage: {
+          school: "arcane",
+          formula: { base: 6, actorCoefficients: { intelligence: 0.3 }, variance: 0.1 },
+        },
+      },
+    },
+  },
+  thunder_clap: {
+    id: "thunder_clap",
+    name: "Thunder Clap",
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 12000,
+    targetType: "self",
+    range: 0,
+    aoeShape: { type: "circle", radius: 5 },
+    effects: [
+      {
+        type: "damage",
+        school: "electric",
+        formula: { base: 8, actorCoefficients: { strength: 0.4 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+      {
+        type: "displacement",
+        kind: "knockback",
+        distance: 6,
+        durationMs: 400,
+        targetFilter: "enemies",
+      },
+    ],
+    resourceCosts: [{ type: "stamina", amount: 14 }],
+  },
+  chain_pull: {
+    id: "chain_pull",
+    name: "Chain Pull",
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 15000,
+    targetType: "enemy",
+    range: 20,
+    aoeShape: "single",
+    effects: [
+      {
+        type: "displacement",
+        kind: "pull",
+        distance: 20,
+        durationMs: 500,
+        targetFilter: "enemies",
+      },
+    ],
+    resourceCosts: [{ type: "stamina", amount: 10 }],
+    useCheck: {
+      stat: "strength",
+      difficulty: 25,
+      backfire: { status: { statusId: "rooted", durationMs: 1500 } },
+    },
+  },
+  heroic_leap: {
+    id: "heroic_leap",
+    name: "Heroic Leap",
+    abilityTags: ["movement"],
+    isOnGcd: false,
+    castTimeMs: 0,
+    cooldownMs: 20000,
+    cooldownCategory: "movement",
+    targetType: "ground",
+    range: 15,
+    aoeShape: "single",
+    effects: [
+      { type: "displacement", kind: "leap", distance: 15, durationMs: 700, targetFilter: "all" },
+    ],
+    resourceCosts: [{ type: "stamina", amount: 15 }],
+  },
+  dash: {
+    id: "dash",
+    name: "Dash",
+    abilityTags: ["movement"],
+    isOnGcd: false,
+    castTimeMs: 0,
+    cooldownMs: 8000,
+    maxCharges: 2,
+    cooldownCategory: "movement",
+    targetType: "self",
+    range: 0,
+    aoeShape: "single",
+    effects: [
+      { type: "displacement", kind: "dash", distance: 8, durationMs: 250, targetFilter: "all" },
+    ],
+    resourceCosts: [{ type: "stamina", amount: 8 }],
+  },
+  arcane_barrier: {
+    id: "arcane_barrier",
+    name: "Arcane Barrier",
+    abilityTags: ["spell"],
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 12_000,
+    targetType: "ally",
+    range: 30,
+    aoeShape: "single",
+    effects: [
+      { type: "status", statusId: "arcane_barrier", durationMs: 12_000, targetFilter: "allies" },
+    ],
+    resourceCosts: [{ type: "mana", amount: 22 }],
+  },
+  guardian_bond: {
+    id: "guardian_bond",
+    name: "Guardian Bond",
+    abilityTags: ["utility"],
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 20_000,
+    targetType: "ally",
+    range: 20,
+    aoeShape: "single",
+    effects: [{ type: "status", statusId: "guarded", durationMs: 12_000, targetFilter: "allies" }],
+    resourceCosts: [{ type: "stamina", amount: 10 }],
+  },
+  cleanse: {
+    id: "cleanse",
+    name: "Cleanse",
+    abilityTags: ["spell"],
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 8000,
+    targetType: "ally",
+    range: 30,
+    aoeShape: "single",
+    effects: [
+      {
+        type: "dispel",
+        count: 2,
+        tags: ["magic", "poison", "curse"],
+        targetFilter: "allies",
+      },
+    ],
+    resourceCosts: [{ type: "mana", amount: 14 }],
+  },
+  purge: {
+    id: "purge",
+    name: "Purge",
+    abilityTags: ["spell"],
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 6000,
+    targetType: "enemy",
+    range: 25,
+    aoeShape: "single",
+    effects: [{ type: "dispel", count: 1, tags: ["magic"], targetFilter: "enemies" }],
+    resourceCosts: [{ type: "mana", amount: 12 }],
+  },
+  pummel: {
+    id: "pummel",
+    name: "Pummel",
+    abilityTags: ["melee"],
+    isOnGcd: false,
+    castTimeMs: 0,
+    cooldownMs: 15_000,
+    targetType: "enemy",
+    range: 6,
+    aoeShape: "single",
+    effects: [{ type: "interrupt", lockoutMs: 4000, targetFilter: "enemies" }],
+    chanceOverrides: { dodgeChance: 0, blockChance: 0 },
+    resourceCosts: [{ type: "stamina", amount: 10 }],
+  },
+  taunt: {
+    id: "taunt",
+    name: "Taunt",
+    abilityTags: ["utility"],
+    isOnGcd: false,
+    castTimeMs: 0,
+    cooldownMs: 8000,
+    targetType: "enemy",
+    range: 25,
+    aoeShape: "single",
+    effects: [{ type: "taunt", durationMs: 3000, targetFilter: "enemies" }],
+    resourceCosts: [{ type: "stamina", amount: 5 }],
+  },
+  feint: {
+    id: "feint",
+    name: "Feint",
+    abilityTags: ["melee"],
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 10_000,
+    targetType: "enemy",
+    range: 6,
+    aoeShape: "single",
+    effects: [{ type: "threat", multiplier: 0.5, targetFilter: "enemies" }],
+    chanceOverrides: { dodgeChance: 0, blockChance: 0 },
+    resourceCosts: [{ type: "stamina", amount: 10 }],
+  },
+  defensive_stance: {
+    id: "defensive_stance",
+    name: "Defensive Stance",
+    abilityTags: ["utility"],
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 1500,
+    targetType: "self",
+    range: 0,
+    aoeShape: "single",
+    effects: [
+      {
+        type: "status",
+        statusId: "defensive_stance",
+        durationMs: 600_000,
+        targetFilter: "allies",
+      },
+    ],
+    resourceCosts: [{ type: "stamina", amount: 5 }],
+  },
+  summon_wolf: {
+    id: "summon_wolf",
+    name: "Summon Wolf",
+    abilityTags: ["spell"],
+    isOnGcd: true,
+    castTimeMs: 2000,
+    cooldownMs: 10_000,
+    targetType: "self",
+    range: 0,
+    aoeShape: "single",
+    requirements: [{ type: "out_of_combat" }],
+    effects: [{ type: "summon", petTemplateId: "wolf_companion", targetFilter: "allies" }],
+    resourceCosts: [{ type: "mana", amount: 20 }],
+  },
+  pet_bite: {
+    id: "pet_bite",
+    name: "Bite",
+    abilityTags: ["melee"],
+    isOnGcd: true,
+    castTimeMs: 0,
+    cooldownMs: 0,
+    targetType: "enemy",
+    range: 3,
+    aoeShape: "single",
+    effects: [
+      {
+        type: "damage",
+        school: "physical",
+        formula: { base: 5, actorCoefficients: { strength: 0.3 }, variance: 0.1 },
+        targetFilter: "enemies",
+      },
+    ],
+    resourceCosts: [{ type: "stamina", amount: 5 }],
+  },
+};
 
 export type AbilityId = keyof typeof ABILITY_DEFINITIONS;
-export const ABILITY_LIST = Object.values(ABILITY_DEFINITIONS);
+export const ABILITY_LIST: AbilityDefinition[] = Object.values(ABILITY_DEFINITIONS);
@@ -0,0 +1,31 @@
+import type { DamageSchool } from "./mitigation";
+
+/** The weapon a mob swings automatically at its target while auto-attack is on. */
+export interface AutoAttackProfile {
+  /** Time between swings; the timer pauses while the attacker casts or channels. */
+  swingIntervalMs: number;
+  /** Damage range of a swing, rolled before crits, blocks and mitigation. */
+  minDamage: number;
+  maxDamage: number;
+  /** Reach of a swing in world units. */
+  range: number;
+  school: DamageSchool;
+}
+
+/** Unarmed fists, used by mobs that do not configure a weapon of their own. */
+export const DEFAULT_AUTO_ATTACK: AutoAttackProfile = {
+  swingIntervalMs: 2000,
+  minDamage: 2,
+  maxDamage: 4,
+  range: 3,
+  school: "physical",
+};
+
+/** Arc in front of the attacker (in degrees) its target must be in to be swung at. */
+export const AUTO_ATTACK_FACING_ARC_DEG = 180;
+
+/** Roll a swing's damage in the profile's range from a uniform roll in [0, 1). */
+export const rollAutoAttackDamage = (profile: AutoAttackProfile, roll: number): number => {
+  const span = Math.max(0, profile.maxDamage - profile.minDamage);
+  return Math.max(0, profile.minDamage + Math.floor(roll * (span + 1)));
+};
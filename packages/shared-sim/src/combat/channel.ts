@@ -0,0 +1,51 @@
+import { ABILITY_DEFINITIONS, type AbilityDefinition } from "./abilities";
+import { isCastInterruptible } from "./interrupts";
+
+/** Fill state for a cast bar; channels drain from full instead of filling up. */
+export interface CastBarState {
+  progress: number;
+  channeled: boolean;
+  interruptible: boolean;
+}
+
+/** Number of ticks a full channel produces (0 for non-channeled abilities). */
+export function getChannelTickCount(ability: AbilityDefinition): number {
+  const intervalMs = ability.channel?.tickIntervalMs ?? 0;
+  if (intervalMs <= 0) {
+    return 0;
+  }
+  return Math.floor(ability.castTimeMs / intervalMs);
+}
+
+/** Server time of the given 1-based channel tick. */
+export function getChannelTickTimeMs(
+  castStartTimeMs: number,
+  tickIntervalMs: number,
+  tickIndex: number,
+): number {
+  return castStartTimeMs + tickIntervalMs * tickIndex;
+}
+
+/**
+ * Cast bar state for a cast window, or undefined when nothing is being cast at `nowMs`.
+ * Channeled abilities report the remaining fraction so the bar drains.
+ */
+export function getCastBarState(
+  abilityId: string,
+  castStartTimeMs: number,
+  castEndTimeMs: number,
+  nowMs: number,
+): CastBarState | undefined {
+  if (castEndTimeMs <= castStartTimeMs || nowMs < castStartTimeMs || nowMs > castEndTimeMs) {
+    return undefined;
+  }
+
+  const elapsed = (nowMs - castStartTimeMs) / (castEndTimeMs - castStartTimeMs);
+  const ability = ABILITY_DEFINITIONS[abilityId as keyof typeof ABILITY_DEFINITIONS];
+  const channeled = ability?.channel !== undefined;
+  return {
+    progress: channeled ? 1 - elapsed : elapsed,
+    channeled,
+    interruptible: ability ? isCastInterruptible(ability) : true,
+  };
+}
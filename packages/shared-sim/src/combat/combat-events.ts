@@ -1,4 +1,5 @@
 import type { EventCategory, EventLogEntry } from "@mmo/shared-protocol";
+import type { AbilityUseCheck } from "./combat-messages";
 import type { TargetSpec } from "./targeting-types";
 
 export enum CombatEventType {
@@ -8,6 +9,15 @@ export enum CombatEventType {
   AbilityEffectApplied = 4,
   MobEnterCombat = 5,
   MobExitCombat = 6,
+  StatusApplied = 7,
+  StatusRemoved = 8,
+  StatusExpired = 9,
+  StatusTick = 10,
+  ProjectileLaunched = 11,
+  ProjectileImpact = 12,
+  StatusDispelled = 13,
+  AbilityBackfire = 14,
+  AutoAttack = 15,
 }
 
 export type AbilityCastStartEvent = EventLogEntry & {
@@ -29,7 +39,7 @@ export type AbilityCastInterruptEvent = EventLogEntry & {
   actorId: string;
   castId: number;
   abilityId: string;
-  reason: "movement" | "stun" | "silence" | "manual" | "other";
+  reason: "movement" | "stun" | "silence" | "interrupt" | "manual" | "death" | "other";
   interruptSourceId?: string;
 };
 
@@ -39,6 +49,8 @@ export type AbilityCastFinishEvent = EventLogEntry & {
   actorId: string;
   castId: number;
   abilityId: string;
+  /** The use check roll, for abilities that define one. */
+  useCheck?: AbilityUseCheck;
 };
 
 export type AbilityEffectAppliedEvent = EventLogEntry & {
@@ -49,14 +61,52 @@ export type AbilityEffectAppliedEvent = EventLogEntry & {
   abilityId: string;
   effectId: number;
   targetId: string;
+  /** Owner credited with the effect when the actor is a pet. */
+  actorOwnerId?: string;
   outcome: "hit" | "miss" | "crit" | "blocked" | "immune" | "dodged" | "no_effect";
   damage?: number;
   blockedAmount?: number;
+  absorbed?: number;
+  redirected?: number;
+  redirectedToId?: string;
   healing?: number;
   statusApplied?: string[];
+  statusDurationMs?: number;
   displacement?: { dx: number; dy: number; dz: number };
 };
 
+/**
+ * A critically failed use check turned an ability against its actor. Damage is reported here;
+ * a backfire status arrives as its own StatusApplied event.
+ */
+export type AbilityBackfireEvent = EventLogEntry & {
+  category: EventCategory.Combat;
+  eventType: CombatEventType.AbilityBackfire;
+  actorId: string;
+  castId: number;
+  abilityId: string;
+  damage?: number;
+};
+
+/**
+ * One auto-attack swing. Swings come every few seconds per attacker, so the combat log folds
+ * consecutive swings by the same attacker at the same target into one line.
+ */
+export type AutoAttackEvent = EventLogEntry & {
+  category: EventCategory.Combat;
+  eventType: CombatEventType.AutoAttack;
+  actorId: string;
+  targetId: string;
+  /** Owner credited with the swing when the actor is a pet. */
+  actorOwnerId?: string;
+  outcome: AbilityEffectAppliedEvent["outcome"];
+  damage?: number;
+  blockedAmount?: number;
+  absorbed?: number;
+  redirected?: number;
+  redirectedToId?: string;
+};
+
 export type MobEnterCombatEvent = EventLogEntry & {
   category: EventCategory.Combat;
   eventType: CombatEventType.MobEnterCombat;
@@ -71,3 +121,90 @@ export type MobExitCombatEvent = EventLogEntry & {
   mobId: string;
   reason: "timeout" | "death" | "evade" | "scripted" | "other";
 };
+
+export type StatusAppliedEvent = EventLogEntry & {
+  category: EventCategory.Combat;
+  eventType: CombatEventType.StatusApplied;
+  sourceId: string;
+  targetId: string;
+  statusId: string;
+  abilityId?: string;
+  stacks: number;
+  durationMs: number;
+  expiresAtMs: number;
+};
+
+export type StatusRemovedEvent = EventLogEntry & {
+  category: EventCategory.Combat;
+  eventType: CombatEventType.StatusRemoved;
+  sourceId: string;
+  targetId: string;
+  statusId: string;
+  reason: "death" | "dispel" | "cancelled" | "consumed" | "other";
+};
+
+export type StatusExpiredEvent = EventLogEntry & {
+  category: EventCategory.Combat;
+  eventType: CombatEventType.StatusExpired;
+  sourceId: string;
+  targetId: string;
+  statusId: string;
+};
+
+/** A dispel effect stripped statuses from a target (no separate StatusRemoved events). */
+export type StatusDispelledEvent = EventLogEntry & {
+  category: EventCategory.Combat;
+  eventType: CombatEventType.StatusDispelled;
+  actorId: string;
+  targetId: string;
+  abilityId: string;
+  castId: number;
+  statusIds: string[];
+};
+
+export type StatusTickEvent = EventLogEntry & {
+  category: EventCategory.Combat;
+  eventType: CombatEventType.StatusTick;
+  sourceId: string;
+  /** Owner credited with the tick when the source is a pet. */
+  sourceOwnerId?: string;
+  targetId: string;
+  statusId: string;
+  stacks: number;
+  damage?: number;
+  absorbed?: number;
+  redirected?: number;
+  redirectedToId?: string;
+  healing?: number;
+};
+
+/**
+ * A projectile left its actor (or changed course after its target died). A repeated launch with
+ * the same projectileId redirects the projectile from `sourceLocation`.
+ */
+export type ProjectileLaunchedEvent = EventLogEntry & {
+  category: EventCategory.Combat;
+  eventType: CombatEventType.ProjectileLaunched;
+  projectileId: number;
+  actorId: string;
+  castId: number;
+  abilityId: string;
+  /** Homing target; omitted for projectiles fired at a ground point. */
+  targetId?: string;
+  targetPosition: { x: number; y: number; z: number };
+  /** Travel speed in world units per second. */
+  speed: number;
+  retargeted?: boolean;
+};
+
+export type ProjectileImpactEvent = EventLogEntry & {
+  category: EventCategory.Combat;
+  eventType: CombatEventType.ProjectileImpact;
+  projectileId: number;
+  actorId: string;
+  castId: number;
+  abilityId: string;
+  targetId?: string;
+  /** "fizzled" when the target was lost and no retarget was possible; no effects were applied. */
+  outcome: "impact" | "fizzled";
+};
@@ -1,3 +1,6 @@
+import type { AbilityDefinition } from "./abilities";
+import type { AbilityRequirementRejection } from "./requirements";
+import type { StatusDefinitionMap } from "./status";
 import type { TargetSpec } from "./targeting-types";
 
 // Client -> Server
@@ -30,7 +33,12 @@ export type AbilityUseRejectionReason =
   | "stunned"
   | "silenced"
   | "disarmed"
-  | "rooted";
+  | "rooted"
+  | "dead"
+  | "target_dead"
+  | "not_granted"
+  | "locked_out"
+  | AbilityRequirementRejection;
 
 export type AbilityAckRejectReason =
   | AbilityUseRejectionReason
@@ -55,15 +63,39 @@ export interface AbilityAck {
   rejectReason?: AbilityAckRejectReason;
 }
 
+/**
+ * Ability and status definitions the server is running with. Sent on join and again whenever
+ * the server reloads its content files; `version` increases with every reload.
+ */
+export interface CombatContentMessage {
+  type: "combat_content";
+  version: number;
+  abilities: Record<string, AbilityDefinition>;
+  statuses: StatusDefinitionMap;
+}
+
 export interface AbilityUseCheck {
   roll: number;
   maxRoll: 100;
   result: "success" | "crit_success" | "failure" | "crit_failure";
+  /** Stat value added to the roll, for abilities with a use check. */
+  statBonus?: number;
+  /** Total the roll plus `statBonus` had to reach. */
+  difficulty?: number;
 }
 
 export interface EffectResult {
   effectIndex: number;
-  effectType: "damage" | "healing" | "status";
+  effectType:
+    | "damage"
+    | "healing"
+    | "status"
+    | "displacement"
+    | "dispel"
+    | "interrupt"
+    | "taunt"
+    | "threat"
+    | "summon";
   targets: TargetResult[];
 }
 
@@ -72,6 +104,8 @@ export interface AbilityResult {
   actorId: string;
   useCheck: AbilityUseCheck;
   effects: EffectResult[];
+  /** What a critically failed use check did to the actor (`targetId` is the actor). */
+  backfire?: TargetResult;
 }
 
 export interface TargetResult {
@@ -79,7 +113,16 @@ export interface TargetResult {
   outcome: "hit" | "miss" | "crit" | "blocked" | "immune" | "dodged" | "no_effect";
   damage?: number;
   blockedAmount?: number;
+  /** Damage soaked by absorb shields (not included in `damage`). */
+  absorbed?: number;
+  /** Damage moved to a guardian by a redirect status (not included in `damage`). */
+  redirected?: number;
+  redirectedToId?: string;
   healing?: number;
   statusApplied?: string[];
+  /** Applied status duration after caps and diminishing returns. */
+  statusDurationMs?: number;
   displacement?: { dx: number; dy: number; dz: number };
+  /** Status ids stripped by a dispel effect. */
+  dispelled?: string[];
 }
@@ -0,0 +1,760 @@
+import type { AbilityDefinition } from "./abilities";
+import type { CombatContent } from "./content";
+import { COOLDOWN_CATEGORIES } from "./cooldowns";
+import { PET_TEMPLATES } from "./pets";
+import type { StatusDefinitionMap } from "./status";
+
+/** One problem found in a content file, e.g. `abilities.fireball.effects[1].statusId`. */
+export interface CombatContentIssue {
+  path: string;
+  message: string;
+}
+
+export type CombatContentValidationResult =
+  | { ok: true; content: CombatContent }
+  | { ok: false; issues: CombatContentIssue[] };
+
+export interface CombatContentValidationOptions {
+  /** Icons the client can draw; when given, abilities naming any other icon are rejected. */
+  knownIconIds?: Iterable<string>;
+}
+
+const ABILITY_TAGS = ["spell", "melee", "ranged", "movement", "utility"];
+const DAMAGE_SCHOOLS = ["physical", "fire", "arcane", "holy", "electric"];
+const TARGET_TYPES = ["enemy", "ally", "self", "ground"];
+const DIRECTION_MODES = ["facing", "cursor", "target"];
+const EFFECT_TARGET_FILTERS = ["all", "allies", "enemies"];
+const DISPLACEMENT_KINDS = ["knockback", "pull", "leap", "dash"];
+const RESOURCE_TYPES = ["mana", "stamina"];
+const STATUS_CATEGORIES = ["buff", "debuff", "system"];
+const DISPEL_CATEGORIES = ["buff", "debuff"];
+const STATUS_STACKING = ["refresh", "stack", "replace", "independent"];
+const STATUS_STATES = ["stunned", "immobilized", "silenced", "rooted", "disarmed"];
+const PROC_TRIGGERS = ["crit", "hit", "dodged", "cast"];
+const STAT_MODIFIER_MODES = ["add", "mul", "override"];
+const COMBAT_STATS = [
+  "strength",
+  "dexterity",
+  "intelligence",
+  "constitution",
+  "maxHp",
+  "maxMana",
+  "maxStamina",
+  "armor",
+  "fireResistance",
+  "arcaneResistance",
+  "holyResistance",
+  "electricResistance",
+  "accuracy",
+  "blockRating",
+  "critRating",
+];
+const USE_CHECK_STATS = ["strength", "dexterity", "intelligence", "constitution"];
+const CHANCE_KEYS = ["hitChance", "dodgeChance", "blockChance", "critChance"];
+
+const ABILITY_KEYS = [
+  "id",
+  "name",
+  "iconId",
+  "abilityTags",
+  "isOnGcd",
+  "castTimeMs",
+  "cooldownMs",
+  "maxCharges",
+  "cooldownCategory",
+  "requiresGrant",
+  "interruptible",
+  "threatMultiplier",
+  "range",
+  "targetType",
+  "directionMode",
+  "aoeShape",
+  "canTargetDead",
+  "requirements",
+  "effects",
+  "projectile",
+  "channel",
+  "procs",
+  "chanceOverrides",
+  "resourceCosts",
+  "useCheck",
+];
+
+const STATUS_KEYS = [
+  "id",
+  "name",
+  "category",
+  "tags",
+  "durationMs",
+  "maxDurationMs",
+  "drCategory",
+  "drWindowMs",
+  "stacking",
+  "maxStacks",
+  "tickIntervalMs",
+  "periodicEffect",
+  "statModifiers",
+  "regenModifiers",
+  "stateFlags",
+  "immunityTags",
+  "blockedAbilityTags",
+  "grantedAbilityIds",
+  "empowerment",
+  "procs",
+  "absorb",
+  "redirect",
+  "threatMultiplier",
+  "lockedSchools",
+  "lockedAbilityTags",
+];
+
+/** Keys each ability requirement type accepts, besides `type`. */
+const REQUIREMENT_KEYS: Record<string, string[]> = {
+  facing_target: ["arcDeg"],
+  min_range: ["range"],
+  out_of_combat: [],
+  target_health_below: ["fraction"],
+  self_status: ["statusId"],
+};
+
+/** Keys each ability effect type accepts, besides `type` and `targetFilter`. */
+const EFFECT_KEYS: Record<string, string[]> = {
+  damage: ["school", "formula"],
+  healing: ["formula"],
+  status: ["statusId", "durationMs"],
+  displacement: ["kind", "distance", "durationMs"],
+  dispel: ["count", "category", "tags"],
+  interrupt: ["lockoutMs"],
+  taunt: ["durationMs"],
+  threat: ["multiplier"],
+  summon: ["petTemplateId"],
+};
+
+interface NumberRule {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  optional?: boolean;
+}
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const quote = (value: unknown): string => JSON.stringify(value) ?? String(value);
+
+/**
+ * Walks raw content and records every problem with its path, so a single run reports all of
+ * them. Cross references (status ids, granted abilities, icons) are checked against the same
+ * content, not the bundled definitions; pet templates are not content, so summons are checked
+ * against PET_TEMPLATES.
+ */
+class ContentValidator {
+  readonly issues: CombatContentIssue[] = [];
+  private abilityIds = new Set<string>();
+  private statusIds = new Set<string>();
+  private readonly knownIconIds?: ReadonlySet<string>;
+
+  constructor(knownIconIds?: ReadonlySet<string>) {
+    this.knownIconIds = knownIconIds;
+  }
+
+  validate(abilities: unknown, statuses: unknown): CombatContentValidationResult {
+    const abilityEntries = this.readMap(abilities, "abilities");
+    const statusEntries = this.readMap(statuses, "statuses");
+    this.abilityIds = new Set(abilityEntries.map(([id]) => id));
+    this.statusIds = new Set(statusEntries.map(([id]) => id));
+
+    for (const [id, value] of abilityEntries) {
+      this.validateAbility(value, `abilities.${id}`, id);
+    }
+    for (const [id, value] of statusEntries) {
+      this.validateStatus(value, `statuses.${id}`, id);
+    }
+
+    if (this.issues.length > 0) {
+      return { ok: false, issues: this.issues };
+    }
+    return {
+      ok: true,
+      content: {
+        abilities: abilities as Record<string, AbilityDefinition>,
+        statuses: statuses as StatusDefinitionMap,
+      },
+    };
+  }
+
+  private readMap(value: unknown, path: string): [string, unknown][] {
+    if (!isFields(value)) {
+      this.report(path, "expected an object keyed by id");
+      return [];
+    }
+    return Object.entries(value);
+  }
+
+  private validateAbility(value: unknown, path: string, id: string): void {
+    if (!this.expectObject(value, path)) {
+      return;
+    }
+    this.checkKeys(value, path, ABILITY_KEYS);
+    this.checkId(value, path, id);
+    this.string(value, "name", path);
+    if (this.string(value, "iconId", path, true) && this.knownIconIds) {
+      const iconId = value.iconId as string;
+      if (!this.knownIconIds.has(iconId)) {
+        this.report(`${path}.iconId`, `unknown icon ${quote(iconId)}`);
+      }
+    }
+    this.enumArray(value, "abilityTags", path, ABILITY_TAGS, true);
+    this.boolean(value, "isOnGcd", path);
+    this.number(value, "castTimeMs", path, { min: 0 });
+    this.number(value, "cooldownMs", path, { min: 0 });
+    this.number(value, "maxCharges", path, { min: 1, integer: true, optional: true });
+    if (this.string(value, "cooldownCategory", path, true)) {
+      const category = value.cooldownCategory as string;
+      if (!(category in COOLDOWN_CATEGORIES)) {
+        this.report(`${path}.cooldownCategory`, `unknown cooldown category ${quote(category)}`);
+      }
+    }
+    this.boolean(value, "requiresGrant", path, true);
+    this.boolean(value, "interruptible", path, true);
+    this.boolean(value, "canTargetDead", path, true);
+    this.number(value, "threatMultiplier", path, { min: 0, optional: true });
+    this.number(value, "range", path, { min: 0 });
+    this.enumValue(value, "targetType", path, TARGET_TYPES);
+    this.enumValue(value, "directionMode", path, DIRECTION_MODES, true);
+    this.validateAoeShape(value.aoeShape, `${path}.aoeShape`);
+
+    if (this.array(value, "requirements", path, true)) {
+      for (const [index, requirement] of (value.requirements as unknown[]).entries()) {
+        this.validateRequirement(requirement, `${path}.requirements[${index}]`);
+      }
+    }
+    if (this.array(value, "effects", path)) {
+      for (const [index, effect] of (value.effects as unknown[]).entries()) {
+        this.validateEffect(effect, `${path}.effects[${index}]`);
+      }
+    }
+    if (
+      value.projectile !== undefined &&
+      this.expectObject(value.projectile, `${path}.projectile`)
+    ) {
+      const projectilePath = `${path}.projectile`;
+      this.checkKeys(value.projectile, projectilePath, ["speed", "retargetRadius"]);
+      this.number(value.projectile, "speed", projectilePath, { min: Number.MIN_VALUE });
+      this.number(value.projectile, "retargetRadius", projectilePath, { min: 0, optional: true });
+    }
+    if (value.channel !== undefined && this.expectObject(value.channel, `${path}.channel`)) {
+      this.checkKeys(value.channel, `${path}.channel`, ["tickIntervalMs"]);
+      this.number(value.channel, "tickIntervalMs", `${path}.channel`, { min: 1 });
+    }
+    this.validateProcs(value, path);
+    if (
+      value.chanceOverrides !== undefined &&
+      this.expectObject(value.chanceOverrides, `${path}.chanceOverrides`)
+    ) {
+      const overridesPath = `${path}.chanceOverrides`;
+      this.checkKeys(value.chanceOverrides, overridesPath, CHANCE_KEYS);
+      for (const key of CHANCE_KEYS) {
+        this.number(value.chanceOverrides, key, overridesPath, { min: 0, max: 1, optional: true });
+      }
+    }
+    if (this.array(value, "resourceCosts", path, true)) {
+      for (const [index, cost] of (value.resourceCosts as unknown[]).entries()) {
+        const costPath = `${path}.resourceCosts[${index}]`;
+        if (!this.expectObject(cost, costPath)) {
+          continue;
+        }
+        this.checkKeys(cost, costPath, ["type", "amount"]);
+        this.enumValue(cost, "type", costPath, RESOURCE_TYPES);
+        this.number(cost, "amount", costPath, { min: 0 });
+      }
+    }
+    if (value.useCheck !== undefined) {
+      this.validateUseCheck(value.useCheck, `${path}.useCheck`);
+    }
+  }
+
+  private validateUseCheck(value: unknown, path: string): void {
+    if (!this.expectObject(value, path)) {
+      return;
+    }
+    this.checkKeys(value, path, ["stat", "difficulty", "fumbleBand", "critBand", "backfire"]);
+    this.enumValue(value, "stat", path, USE_CHECK_STATS);
+    this.number(value, "difficulty", path);
+    this.number(value, "fumbleBand", path, { min: 0, max: 100, integer: true, optional: true });
+    this.number(value, "critBand", path, { min: 0, max: 100, integer: true, optional: true });
+    if (value.backfire === undefined || !this.expectObject(value.backfire, `${path}.backfire`)) {
+      return;
+    }
+    const backfirePath = `${path}.backfire`;
+    const backfire = value.backfire;
+    this.checkKeys(backfire, backfirePath, ["damage", "status"]);
+    if (
+      backfire.damage !== undefined &&
+      this.expectObject(backfire.damage, `${backfirePath}.damage`)
+    ) {
+      this.checkKeys(backfire.damage, `${backfirePath}.damage`, ["school", "formula"]);
+      this.enumValue(backfire.damage, "school", `${backfirePath}.damage`, DAMAGE_SCHOOLS);
+      this.validateFormula(backfire.damage.formula, `${backfirePath}.damage.formula`);
+    }
+    if (
+      backfire.status !== undefined &&
+      this.expectObject(backfire.status, `${backfirePath}.status`)
+    ) {
+      this.checkKeys(backfire.status, `${backfirePath}.status`, ["statusId", "durationMs"]);
+      this.statusReference(backfire.status, "statusId", `${backfirePath}.status`);
+      this.number(backfire.status, "durationMs", `${backfirePath}.status`, { min: 0 });
+    }
+  }
+
+  private validateAoeShape(value: unknown, path: string): void {
+    if (value === "single") {
+      return;
+    }
+    if (!isFields(value)) {
+      this.report(path, `invalid aoeShape ${quote(value)}; expected "single" or a shape object`);
+      return;
+    }
+    switch (value.type) {
+      case "circle": {
+        this.checkKeys(value, path, ["type", "radius"]);
+        this.number(value, "radius", path, { min: Number.MIN_VALUE });
+        return;
+      }
+      case "cone": {
+        this.checkKeys(value, path, ["type", "angleDeg", "length"]);
+        this.number(value, "angleDeg", path, { min: Number.MIN_VALUE, max: 360 });
+        this.number(value, "length", path, { min: Number.MIN_VALUE });
+        return;
+      }
+      case "line": {
+        this.checkKeys(value, path, ["type", "length", "width"]);
+        this.number(value, "length", path, { min: Number.MIN_VALUE });
+        this.number(value, "width", path, { min: Number.MIN_VALUE });
+        return;
+      }
+      default: {
+        this.report(
+          `${path}.type`,
+          `invalid aoeShape type ${quote(value.type)}; expected one of "circle", "cone", "line"`,
+        );
+      }
+    }
+  }
+
+  private validateRequirement(value: unknown, path: string): void {
+    if (!this.expectObject(value, path)) {
+      return;
+    }
+    const type = value.type;
+    const keys = typeof type === "string" ? REQUIREMENT_KEYS[type] : undefined;
+    if (!keys) {
+      this.report(
+        `${path}.type`,
+        `unknown requirement type ${quote(type)}; expected one of ${Object.keys(REQUIREMENT_KEYS)
+          .map((key) => quote(key))
+          .join(", ")}`,
+      );
+      return;
+    }
+    this.checkKeys(value, path, ["type", ...keys]);
+
+    switch (type) {
+      case "facing_target": {
+        this.number(value, "arcDeg", path, { min: Number.MIN_VALUE, max: 360, optional: true });
+        return;
+      }
+      case "min_range": {
+        this.number(value, "range", path, { min: 0 });
+        return;
+      }
+      case "target_health_below": {
+        this.number(value, "fraction", path, { min: 0, max: 1 });
+        return;
+      }
+      case "self_status": {
+        this.statusReference(value, "statusId", path);
+        return;
+      }
+    }
+  }
+
+  private validateEffect(value: unknown, path: string): void {
+    if (!this.expectObject(value, path)) {
+      return;
+    }
+    const type = value.type;
+    const keys = typeof type === "string" ? EFFECT_KEYS[type] : undefined;
+    if (!keys) {
+      this.report(
+        `${path}.type`,
+        `unknown effect type ${quote(type)}; expected one of ${Object.keys(EFFECT_KEYS)
+          .map((key) => quote(key))
+          .join(", ")}`,
+      );
+      return;
+    }
+    this.checkKeys(value, path, ["type", "targetFilter", ...keys]);
+    this.enumValue(value, "targetFilter", path, EFFECT_TARGET_FILTERS);
+
+    switch (type) {
+      case "damage": {
+        this.enumValue(value, "school", path, DAMAGE_SCHOOLS);
+        this.validateFormula(value.formula, `${path}.formula`);
+        return;
+      }
+      case "healing": {
+        this.validateFormula(value.formula, `${path}.formula`);
+        return;
+      }
+      case "status": {
+        this.statusReference(value, "statusId", path);
+        this.number(value, "durationMs", path, { min: 0 });
+        return;
+      }
+      case "displacement": {
+        this.enumValue(value, "kind", path, DISPLACEMENT_KINDS);
+        this.number(value, "distance", path, { min: 0 });
+        this.number(value, "durationMs", path, { min: 0 });
+        return;
+      }
+      case "dispel": {
+        this.number(value, "count", path, { min: 1, integer: true });
+        this.enumValue(value, "category", path, DISPEL_CATEGORIES, true);
+        this.stringArray(value, "tags", path, true);
+        return;
+      }
+      case "interrupt": {
+        this.number(value, "lockoutMs", path, { min: 0 });
+        return;
+      }
+      case "taunt": {
+        this.number(value, "durationMs", path, { min: 0 });
+        return;
+      }
+      case "threat": {
+        this.number(value, "multiplier", path, { min: 0 });
+        return;
+      }
+      case "summon": {
+        if (
+          this.string(value, "petTemplateId", path) &&
+          !((value.petTemplateId as string) in PET_TEMPLATES)
+        ) {
+          this.report(
+            `${path}.petTemplateId`,
+            `unknown petTemplateId ${quote(value.petTemplateId)}`,
+          );
+        }
+        return;
+      }
+    }
+  }
+
+  private validateFormula(value: unknown, path: string): void {
+    if (!this.expectObject(value, path)) {
+      return;
+    }
+    this.checkKeys(value, path, ["base", "actorCoefficients", "targetCoefficients", "variance"]);
+    this.number(value, "base", path);
+    this.number(value, "variance", path, { min: 0, max: 1, optional: true });
+    for (const key of ["actorCoefficients", "targetCoefficients"]) {
+      const coefficients = value[key];
+      if (coefficients === undefined || !this.expectObject(coefficients, `${path}.${key}`)) {
+        continue;
+      }
+      this.checkKeys(coefficients, `${path}.${key}`, COMBAT_STATS);
+      for (const stat of Object.keys(coefficients)) {
+        this.number(coefficients, stat, `${path}.${key}`);
+      }
+    }
+  }
+
+  private validateProcs(value: Fields, path: string): void {
+    if (!this.array(value, "procs", path, true)) {
+      return;
+    }
+    for (const [index, proc] of (value.procs as unknown[]).entries()) {
+      const procPath = `${path}.procs[${index}]`;
+      if (!this.expectObject(proc, procPath)) {
+        continue;
+      }
+      this.checkKeys(proc, procPath, ["trigger", "abilityTag", "chance", "statusId"]);
+      this.enumValue(proc, "trigger", procPath, PROC_TRIGGERS);
+      this.enumValue(proc, "abilityTag", procPath, ABILITY_TAGS, true);
+      this.number(proc, "chance", procPath, { min: 0, max: 1 });
+      this.statusReference(proc, "statusId", procPath);
+    }
+  }
+
+  private validateStatus(value: unknown, path: string, id: string): void {
+    if (!this.expectObject(value, path)) {
+      return;
+    }
+    this.checkKeys(value, path, STATUS_KEYS);
+    this.checkId(value, path, id);
+    this.string(value, "name", path);
+    this.enumValue(value, "category", path, STATUS_CATEGORIES);
+    this.stringArray(value, "tags", path, true);
+    this.number(value, "durationMs", path, { min: 0 });
+    this.number(value, "maxDurationMs", path, { min: 0, optional: true });
+    this.string(value, "drCategory", path, true);
+    this.number(value, "drWindowMs", path, { min: 0, optional: true });
+    this.enumValue(value, "stacking", path, STATUS_STACKING);
+    this.number(value, "maxStacks", path, { min: 1, integer: true, optional: true });
+    this.number(value, "tickIntervalMs", path, { min: 1, optional: true });
+    this.number(value, "threatMultiplier", path, { min: 0, optional: true });
+
+    if (
+      value.periodicEffect !== undefined &&
+      this.expectObject(value.periodicEffect, `${path}.periodicEffect`)
+    ) {
+      const periodicPath = `${path}.periodicEffect`;
+      this.checkKeys(value.periodicEffect, periodicPath, ["type", "school", "formula"]);
+      this.enumValue(value.periodicEffect, "type", periodicPath, ["damage", "healing"]);
+      this.enumValue(value.periodicEffect, "school", periodicPath, DAMAGE_SCHOOLS, true);
+      this.validateFormula(value.periodicEffect.formula, `${periodicPath}.formula`);
+      if (value.tickIntervalMs === undefined) {
+        this.report(`${path}.tickIntervalMs`, "required when periodicEffect is set");
+      }
+    }
+    if (this.array(value, "statModifiers", path, true)) {
+      for (const [index, modifier] of (value.statModifiers as unknown[]).entries()) {
+        const modifierPath = `${path}.statModifiers[${index}]`;
+        if (!this.expectObject(modifier, modifierPath)) {
+          continue;
+        }
+        this.checkKeys(modifier, modifierPath, ["stat", "mode", "value"]);
+        this.enumValue(modifier, "stat", modifierPath, COMBAT_STATS);
+        this.enumValue(modifier, "mode", modifierPath, STAT_MODIFIER_MODES);
+        this.number(modifier, "value", modifierPath);
+      }
+    }
+    if (this.array(value, "regenModifiers", path, true)) {
+      for (const [index, modifier] of (value.regenModifiers as unknown[]).entries()) {
+        const modifierPath = `${path}.regenModifiers[${index}]`;
+        if (!this.expectObject(modifier, modifierPath)) {
+          continue;
+        }
+        this.checkKeys(modifier, modifierPath, ["resource", "multiplier"]);
+        this.enumValue(modifier, "resource", modifierPath, RESOURCE_TYPES);
+        this.number(modifier, "multiplier", modifierPath, { min: 0 });
+      }
+    }
+    this.enumArray(value, "stateFlags", path, STATUS_STATES, true);
+    this.stringArray(value, "immunityTags", path, true);
+    this.enumArray(value, "blockedAbilityTags", path, ABILITY_TAGS, true);
+    this.enumArray(value, "lockedSchools", path, DAMAGE_SCHOOLS, true);
+    this.enumArray(value, "lockedAbilityTags", path, ABILITY_TAGS, true);
+    if (this.stringArray(value, "grantedAbilityIds", path, true)) {
+      this.abilityReferences(value.grantedAbilityIds as string[], `${path}.grantedAbilityIds`);
+    }
+    if (
+      value.empowerment !== undefined &&
+      this.expectObject(value.empowerment, `${path}.empowerment`)
+    ) {
+      const empowermentPath = `${path}.empowerment`;
+      this.checkKeys(value.empowerment, empowermentPath, [
+        "abilityIds",
+        "abilityTags",
+        "instantCast",
+        "damageMultiplier",
+      ]);
+      if (this.stringArray(value.empowerment, "abilityIds", empowermentPath, true)) {
+        this.abilityReferences(
+          value.empowerment.abilityIds as string[],
+          `${empowermentPath}.abilityIds`,
+        );
+      }
+      this.enumArray(value.empowerment, "abilityTags", empowermentPath, ABILITY_TAGS, true);
+      this.boolean(value.empowerment, "instantCast", empowermentPath, true);
+      this.number(value.empowerment, "damageMultiplier", empowermentPath, {
+        min: 0,
+        optional: true,
+      });
+    }
+    this.validateProcs(value, path);
+    if (value.absorb !== undefined && this.expectObject(value.absorb, `${path}.absorb`)) {
+      this.checkKeys(value.absorb, `${path}.absorb`, ["formula", "schools"]);
+      this.validateFormula(value.absorb.formula, `${path}.absorb.formula`);
+      this.enumArray(value.absorb, "schools", `${path}.absorb`, DAMAGE_SCHOOLS, true);
+    }
+    if (value.redirect !== undefined && this.expectObject(value.redirect, `${path}.redirect`)) {
+      this.checkKeys(value.redirect, `${path}.redirect`, ["fraction"]);
+      this.number(value.redirect, "fraction", `${path}.redirect`, { min: 0, max: 1 });
+    }
+  }
+
+  private checkId(value: Fields, path: string, id: string): void {
+    if (this.string(value, "id", path) && value.id !== id) {
+      this.report(`${path}.id`, `id ${quote(value.id)} does not match its key ${quote(id)}`);
+    }
+  }
+
+  private statusReference(value: Fields, key: string, path: string): void {
+    if (this.string(value, key, path) && !this.statusIds.has(value[key] as string)) {
+      this.report(`${path}.${key}`, `unknown statusId ${quote(value[key])}`);
+    }
+  }
+
+  private abilityReferences(ids: string[], path: string): void {
+    for (const [index, abilityId] of ids.entries()) {
+      if (!this.abilityIds.has(abilityId)) {
+        this.report(`${path}[${index}]`, `unknown abilityId ${quote(abilityId)}`);
+      }
+    }
+  }
+
+  private checkKeys(value: Fields, path: string, allowed: readonly string[]): void {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        this.report(`${path}.${key}`, "unknown field");
+      }
+    }
+  }
+
+  private expectObject(value: unknown, path: string): value is Fields {
+    if (!isFields(value)) {
+      this.report(path, "expected an object");
+      return false;
+    }
+    return true;
+  }
+
+  /** Returns true when the field is present and valid. */
+  private number(value: Fields, key: string, path: string, rule: NumberRule = {}): boolean {
+    const field = value[key];
+    if (field === undefined && rule.optional) {
+      return false;
+    }
+    if (typeof field !== "number" || !Number.isFinite(field)) {
+      this.report(`${path}.${key}`, `expected a number, got ${quote(field)}`);
+      return false;
+    }
+    if (rule.integer && !Number.isInteger(field)) {
+      this.report(`${path}.${key}`, `expected an integer, got ${field}`);
+      return false;
+    }
+    if (rule.min !== undefined && field < rule.min) {
+      const bound = rule.min === Number.MIN_VALUE ? "greater than 0" : `at least ${rule.min}`;
+      this.report(`${path}.${key}`, `must be ${bound}, got ${field}`);
+      return false;
+    }
+    if (rule.max !== undefined && field > rule.max) {
+      this.report(`${path}.${key}`, `must be at most ${rule.max}, got ${field}`);
+      return false;
+    }
+    return true;
+  }
+
+  private string(value: Fields, key: string, path: string, optional = false): boolean {
+    const field = value[key];
+    if (field === undefined && optional) {
+      return false;
+    }
+    if (typeof field !== "string" || field.length === 0) {
+      this.report(`${path}.${key}`, `expected a non-empty string, got ${quote(field)}`);
+      return false;
+    }
+    return true;
+  }
+
+  private boolean(value: Fields, key: string, path: string, optional = false): void {
+    const field = value[key];
+    if (field === undefined && optional) {
+      return;
+    }
+    if (typeof field !== "boolean") {
+      this.report(`${path}.${key}`, `expected a boolean, got ${quote(field)}`);
+    }
+  }
+
+  private array(value: Fields, key: string, path: string, optional = false): boolean {
+    const field = value[key];
+    if (field === undefined && optional) {
+      return false;
+    }
+    if (!Array.isArray(field)) {
+      this.report(`${path}.${key}`, `expected an array, got ${quote(field)}`);
+      return false;
+    }
+    return true;
+  }
+
+  private stringArray(value: Fields, key: string, path: string, optional = false): boolean {
+    if (!this.array(value, key, path, optional)) {
+      return false;
+    }
+    let valid = true;
+    for (const [index, entry] of (value[key] as unknown[]).entries()) {
+      if (typeof entry !== "string" || entry.length === 0) {
+        this.report(`${path}.${key}[${index}]`, `expected a non-empty string, got ${quote(entry)}`);
+        valid = false;
+      }
+    }
+    return valid;
+  }
+
+  private enumValue(
+    value: Fields,
+    key: string,
+    path: string,
+    allowed: readonly string[],
+    optional = false,
+  ): void {
+    const field = value[key];
+    if (field === undefined && optional) {
+      return;
+    }
+    if (typeof field !== "string" || !allowed.includes(field)) {
+      this.report(`${path}.${key}`, this.describeEnumMismatch(field, allowed));
+    }
+  }
+
+  private enumArray(
+    value: Fields,
+    key: string,
+    path: string,
+    allowed: readonly string[],
+    optional = false,
+  ): void {
+    if (!this.array(value, key, path, optional)) {
+      return;
+    }
+    for (const [index, entry] of (value[key] as unknown[]).entries()) {
+      if (typeof entry !== "string" || !allowed.includes(entry)) {
+        this.report(`${path}.${key}[${index}]`, this.describeEnumMismatch(entry, allowed));
+      }
+    }
+  }
+
+  private describeEnumMismatch(field: unknown, allowed: readonly string[]): string {
+    return `invalid value ${quote(field)}; expected one of ${allowed
+      .map((entry) => quote(entry))
+      .join(", ")}`;
+  }
+
+  private report(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+}
+
+/**
+ * Validate raw ability and status definitions (parsed from content files or received from the
+ * server). Every issue is reported with the path of the offending field.
+ */
+export const validateCombatContent = (
+  abilities: unknown,
+  statuses: unknown,
+  options: CombatContentValidationOptions = {},
+): CombatContentValidationResult => {
+  const knownIconIds = options.knownIconIds ? new Set(options.knownIconIds) : undefined;
+  return new ContentValidator(knownIconIds).validate(abilities, statuses);
+};
+
+/** One line per issue: `path: message`. */
+export const formatCombatContentIssues = (issues: readonly CombatContentIssue[]): string => {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n");
+};
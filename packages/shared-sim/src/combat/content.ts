@@ -0,0 +1,33 @@
+import { ABILITY_DEFINITIONS, ABILITY_LIST, type AbilityDefinition } from "./abilities";
+import { STATUS_DEFINITIONS, type StatusDefinitionMap } from "./status";
+
+/** Ability and status definitions as shipped in content files. */
+export interface CombatContent {
+  abilities: Record<string, AbilityDefinition>;
+  statuses: StatusDefinitionMap;
+}
+
+const replaceEntries = <T>(target: Record<string, T>, source: Record<string, T>): void => {
+  for (const id of Object.keys(target)) {
+    if (!(id in source)) {
+      Reflect.deleteProperty(target, id);
+    }
+  }
+  Object.assign(target, source);
+};
+
+/**
+ * Replace the active ability and status definitions. The exported maps are updated in place so
+ * modules holding a reference to them see the new content.
+ */
+export const installCombatContent = (content: CombatContent): void => {
+  replaceEntries(ABILITY_DEFINITIONS, content.abilities);
+  replaceEntries(STATUS_DEFINITIONS, content.statuses);
+  ABILITY_LIST.splice(0, ABILITY_LIST.length, ...Object.values(content.abilities));
+};
+
+/** Snapshot of the active definitions, e.g. to send to clients or write to content files. */
+export const getCombatContent = (): CombatContent => ({
+  abilities: { ...ABILITY_DEFINITIONS },
+  statuses: { ...STATUS_DEFINITIONS },
+});
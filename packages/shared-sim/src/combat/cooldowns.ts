@@ -1,3 +1,5 @@
+import type { AbilityDefinition } from "./abilities";
+
 export function computeGcdEndTimeMs(
   isOnGcd: boolean,
   castStartTimeMs: number,
@@ -10,3 +12,144 @@ export function computeGcdEndTimeMs(
 
   return castStartTimeMs + gcdMs;
 }
+
+/** A named cooldown shared by every ability whose `cooldownCategory` matches its id. */
+export interface CooldownCategoryDefinition {
+  id: string;
+  name: string;
+  /** How long using any member locks the whole category. */
+  durationMs: number;
+}
+
+export const COOLDOWN_CATEGORIES: Record<string, CooldownCategoryDefinition> = {
+  movement: { id: "movement", name: "Movement", durationMs: 3000 },
+};
+
+/** Window during which an ability cannot be used (no charge left or its category is locked). */
+export interface CooldownWindow {
+  startTimeMs: number;
+  endTimeMs: number;
+}
+
+interface CategoryLock extends CooldownWindow {
+  /** Ability whose use started the lock. */
+  abilityId: string;
+}
+
+/**
+ * Per-actor ability cooldowns with charges and shared categories. Each ability keeps the end
+ * times of its recharging charges (charges recharge one at a time), so an ability without
+ * `maxCharges` behaves like a plain cooldown. Used by both the server's validation and
+ * the client's prediction so the two agree.
+ */
+export class CooldownTracker {
+  private readonly recharges = new Map<string, number[]>();
+  private readonly categoryLocks = new Map<string, CategoryLock>();
+
+  /** Spend a charge at `startTimeMs` and lock the ability's category. */
+  consume(ability: AbilityDefinition, startTimeMs: number): void {
+    if (ability.cooldownMs > 0) {
+      const recharges = this.recharges.get(ability.id) ?? [];
+      recharges.push(Math.max(startTimeMs, ...recharges) + ability.cooldownMs);
+      this.recharges.set(ability.id, recharges);
+    }
+
+    const category = getCooldownCategory(ability);
+    if (!category) {
+      return;
+    }
+    const endTimeMs = startTimeMs + category.durationMs;
+    const lock = this.categoryLocks.get(category.id);
+    if (!lock || lock.endTimeMs < endTimeMs) {
+      this.categoryLocks.set(category.id, { abilityId: ability.id, startTimeMs, endTimeMs });
+    }
+  }
+
+  /** Give back the most recently spent charge and lift the category lock it started. */
+  release(ability: AbilityDefinition, nowMs: number): void {
+    this.set(ability.id, nowMs);
+    const category = getCooldownCategory(ability);
+    const lock = category ? this.categoryLocks.get(category.id) : undefined;
+    if (lock?.abilityId === ability.id) {
+      lock.endTimeMs = Math.min(lock.endTimeMs, nowMs);
+    }
+  }
+
+  /**
+   * Move the most recent use to `startTimeMs` (e.g. when the server's timing arrives).
+   * The latest recharge and any category lock it started are shifted with it.
+   */
+  retime(ability: AbilityDefinition, startTimeMs: number): void {
+    const recharges = this.recharges.get(ability.id);
+    if (recharges && recharges.length > 0) {
+      const earlier = recharges.slice(0, -1);
+      recharges[recharges.length - 1] = Math.max(startTimeMs, ...earlier) + ability.cooldownMs;
+    }
+    const category = getCooldownCategory(ability);
+    const lock = category ? this.categoryLocks.get(category.id) : undefined;
+    if (category && lock?.abilityId === ability.id) {
+      lock.startTimeMs = startTimeMs;
+      lock.endTimeMs = startTimeMs + category.durationMs;
+    }
+  }
+
+  /** When the ability's last recharging charge is back, if any are recharging. */
+  get(abilityId: string): number | undefined {
+    return this.recharges.get(abilityId)?.at(-1);
+  }
+
+  /** Overwrite when the ability's latest charge is back (starts one recharge if none is). */
+  set(abilityId: string, endTimeMs: number): void {
+    const recharges = this.recharges.get(abilityId);
+    if (!recharges || recharges.length === 0) {
+      this.recharges.set(abilityId, [endTimeMs]);
+      return;
+    }
+    recharges[recharges.length - 1] = endTimeMs;
+  }
+
+  /** Charges available at `nowMs`. */
+  getCharges(ability: AbilityDefinition, nowMs: number): number {
+    const recharges = this.prune(ability.id, nowMs);
+    return Math.max(0, getMaxCharges(ability) - recharges.length);
+  }
+
+  isReady(ability: AbilityDefinition, nowMs: number): boolean {
+    return this.getBlockingWindow(ability, nowMs) === undefined;
+  }
+
+  /**
+   * The window keeping the ability unusable at `nowMs`, or undefined when it is ready.
+   * Without charges that is the next recharge; a longer category lock takes precedence.
+   */
+  getBlockingWindow(ability: AbilityDefinition, nowMs: number): CooldownWindow | undefined {
+    let window: CooldownWindow | undefined;
+    const recharges = this.prune(ability.id, nowMs);
+    if (recharges.length >= getMaxCharges(ability)) {
+      const endTimeMs = Math.min(...recharges);
+      window = { startTimeMs: endTimeMs - ability.cooldownMs, endTimeMs };
+    }
+
+    const category = getCooldownCategory(ability);
+    const lock = category ? this.categoryLocks.get(category.id) : undefined;
+    if (lock && nowMs < lock.endTimeMs && (!window || lock.endTimeMs > window.endTimeMs)) {
+      window = { startTimeMs: lock.startTimeMs, endTimeMs: lock.endTimeMs };
+    }
+    return window;
+  }
+
+  /** Drop recharges that completed by `nowMs` (a released charge may sit behind a pending one). */
+  private prune(abilityId: string, nowMs: number): number[] {
+    const recharges = (this.recharges.get(abilityId) ?? []).filter(
+      (endTimeMs) => endTimeMs > nowMs,
+    );
+    this.recharges.set(abilityId, recharges);
+    return recharges;
+  }
+}
+
+export const getMaxCharges = (ability: AbilityDefinition): number =>
+  Math.max(1, ability.maxCharges ?? 1);
+
+const getCooldownCategory = (ability: AbilityDefinition): CooldownCategoryDefinition | undefined =>
+  ability.cooldownCategory ? COOLDOWN_CATEGORIES[ability.cooldownCategory] : undefined;
@@ -0,0 +1,100 @@
+import type { MobState } from "@mmo/shared-protocol";
+import type { CombatStats } from "./status";
+
+export type StatCoefficients = Partial<Record<keyof CombatStats, number>>;
+
+/**
+ * Data-driven amount formula for damage/healing effects.
+ * amount = base + Σ(actor stat × coefficient) + Σ(target stat × coefficient), then ± variance.
+ */
+export interface EffectFormula {
+  /** Flat amount before stat scaling. */
+  base: number;
+  /** Amount added per point of the actor's derived stat. */
+  actorCoefficients?: StatCoefficients;
+  /** Amount added per point of the target's derived stat (negative values mitigate). */
+  targetCoefficients?: StatCoefficients;
+  /** Random spread as a fraction of the scaled amount (0.1 = ±10%). */
+  variance?: number;
+}
+
+export interface EffectFormulaRange {
+  min: number;
+  max: number;
+}
+
+/** Read the base combat stats straight off a synced mob (no status modifiers). */
+export const readCombatStats = (mob: MobState): CombatStats => ({
+  strength: mob.strength,
+  dexterity: mob.dexterity,
+  intelligence: mob.intelligence,
+  constitution: mob.constitution,
+  maxHp: mob.maxHp,
+  maxMana: mob.maxMana,
+  maxStamina: mob.maxStamina,
+  armor: mob.armor,
+  fireResistance: mob.fireResistance,
+  arcaneResistance: mob.arcaneResistance,
+  holyResistance: mob.holyResistance,
+  electricResistance: mob.electricResistance,
+  accuracy: mob.accuracy,
+  blockRating: mob.blockRating,
+  critRating: mob.critRating,
+});
+
+const sumScaledStats = (
+  coefficients: StatCoefficients | undefined,
+  stats: Partial<CombatStats> | undefined,
+): number => {
+  if (!coefficients || !stats) {
+    return 0;
+  }
+  let total = 0;
+  for (const [stat, coefficient] of Object.entries(coefficients)) {
+    total += (stats[stat as keyof CombatStats] ?? 0) * (coefficient ?? 0);
+  }
+  return total;
+};
+
+/** Scaled amount before variance is applied. */
+const computeScaledAmount = (
+  formula: EffectFormula,
+  actorStats: Partial<CombatStats>,
+  targetStats?: Partial<CombatStats>,
+): number => {
+  return (
+    formula.base +
+    sumScaledStats(formula.actorCoefficients, actorStats) +
+    sumScaledStats(formula.targetCoefficients, targetStats)
+  );
+};
+
+/**
+ * Evaluate a formula to a whole, non-negative amount.
+ * `roll` in [0, 1) picks a point in the variance band; 0.5 yields the midpoint.
+ */
+export const evaluateEffectFormula = (
+  formula: EffectFormula,
+  actorStats: Partial<CombatStats>,
+  targetStats?: Partial<CombatStats>,
+  roll = 0.5,
+): number => {
+  const scaled = computeScaledAmount(formula, actorStats, targetStats);
+  const variance = formula.variance ?? 0;
+  const multiplier = 1 + variance * (roll * 2 - 1);
+  return Math.max(0, Math.round(scaled * multiplier));
+};
+
+/** Min/max amounts for a formula, e.g. for ability tooltips. */
+export const getEffectFormulaRange = (
+  formula: EffectFormula,
+  actorStats: Partial<CombatStats>,
+  targetStats?: Partial<CombatStats>,
+): EffectFormulaRange => {
+  const scaled = computeScaledAmount(formula, actorStats, targetStats);
+  const variance = formula.variance ?? 0;
+  return {
+    min: Math.max(0, Math.round(scaled * (1 - variance))),
+    max: Math.max(0, Math.round(scaled * (1 + variance))),
+  };
+};
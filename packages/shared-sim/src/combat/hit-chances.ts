@@ -0,0 +1,118 @@
+import type { CombatStats } from "./status";
+
+/** Per attacker/defender pair probabilities used when rolling a damage outcome. */
+export interface CombatChances {
+  /** Chance the attack connects at all (1 - miss chance). */
+  hitChance: number;
+  /** Chance a connecting attack is dodged. */
+  dodgeChance: number;
+  /** Chance a connecting, undodged attack is blocked. */
+  blockChance: number;
+  /** Chance an unblocked hit (or a heal) is critical. */
+  critChance: number;
+}
+
+/** Per-ability replacements for computed chances (e.g. `blockChance: 0` for spells). */
+export type CombatChanceOverrides = Partial<CombatChances>;
+
+export const BASE_HIT_CHANCE = 0.95;
+/** Hit chance gained per point of attacker accuracy over defender dexterity. */
+export const HIT_CHANCE_PER_POINT = 0.002;
+export const MIN_HIT_CHANCE = 0.6;
+
+/** Defender dexterity needed for a 50% dodge chance (before the cap). */
+export const DODGE_RATING_CONSTANT = 150;
+export const MAX_DODGE_CHANCE = 0.3;
+
+/** Defender block rating needed for a 50% block chance (before the cap). */
+export const BLOCK_RATING_CONSTANT = 100;
+export const MAX_BLOCK_CHANCE = 0.5;
+
+export const BASE_CRIT_CHANCE = 0.05;
+/** Attacker crit rating needed for +50% crit chance (before the cap). */
+export const CRIT_RATING_CONSTANT = 100;
+/** Crit chance gained per point of attacker dexterity. */
+export const CRIT_CHANCE_PER_DEXTERITY = 0.002;
+export const MAX_CRIT_CHANCE = 0.75;
+
+const clamp = (value: number, min: number, max: number): number => {
+  return Math.min(max, Math.max(min, value));
+};
+
+/** Diminishing conversion of a rating to a probability: rating / (rating + constant). */
+const ratingToChance = (rating: number, constant: number): number => {
+  const value = Math.max(0, rating);
+  return value / (value + constant);
+};
+
+const computeCritChance = (attacker: Partial<CombatStats>): number => {
+  return clamp(
+    BASE_CRIT_CHANCE +
+      ratingToChance(attacker.critRating ?? 0, CRIT_RATING_CONSTANT) +
+      (attacker.dexterity ?? 0) * CRIT_CHANCE_PER_DEXTERITY,
+    0,
+    MAX_CRIT_CHANCE,
+  );
+};
+
+const applyOverrides = (
+  chances: CombatChances,
+  overrides: CombatChanceOverrides | undefined,
+): CombatChances => {
+  if (!overrides) {
+    return chances;
+  }
+  return {
+    hitChance: clamp(overrides.hitChance ?? chances.hitChance, 0, 1),
+    dodgeChance: clamp(overrides.dodgeChance ?? chances.dodgeChance, 0, 1),
+    blockChance: clamp(overrides.blockChance ?? chances.blockChance, 0, 1),
+    critChance: clamp(overrides.critChance ?? chances.critChance, 0, 1),
+  };
+};
+
+/**
+ * Damage outcome chances for an attacker/defender pair.
+ * Accuracy (plus dexterity) offsets the defender's dexterity for hit chance; dexterity
+ * drives dodge, block rating drives block and crit rating plus dexterity drive crits.
+ */
+export const computeCombatChances = (
+  attacker: Partial<CombatStats>,
+  defender: Partial<CombatStats>,
+  overrides?: CombatChanceOverrides,
+): CombatChances => {
+  const attackerAccuracy = (attacker.accuracy ?? 0) + (attacker.dexterity ?? 0);
+  const defenderDexterity = defender.dexterity ?? 0;
+
+  return applyOverrides(
+    {
+      hitChance: clamp(
+        BASE_HIT_CHANCE + (attackerAccuracy - defenderDexterity) * HIT_CHANCE_PER_POINT,
+        MIN_HIT_CHANCE,
+        1,
+      ),
+      dodgeChance: clamp(
+        ratingToChance(defenderDexterity, DODGE_RATING_CONSTANT),
+        0,
+        MAX_DODGE_CHANCE,
+      ),
+      blockChance: clamp(
+        ratingToChance(defender.blockRating ?? 0, BLOCK_RATING_CONSTANT),
+        0,
+        MAX_BLOCK_CHANCE,
+      ),
+      critChance: computeCritChance(attacker),
+    },
+    overrides,
+  );
+};
+
+/** Heals never miss, dodge or block; only the healer's crit chance applies. */
+export const computeHealingChances = (
+  healer: Partial<CombatStats>,
+  overrides?: CombatChanceOverrides,
+): CombatChances => {
+  return applyOverrides(
+    { hitChance: 1, dodgeChance: 0, blockChance: 0, critChance: computeCritChance(healer) },
+    overrides && { critChance: overrides.critChance },
+  );
+};
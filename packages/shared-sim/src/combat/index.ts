@@ -1,10 +1,23 @@
 export * from "./abilities.js";
+export * from "./auto-attacks.js";
 export * from "./buffer.js";
+export * from "./channel.js";
+export * from "./content.js";
+export * from "./content-validation.js";
 export * from "./cooldowns.js";
+export * from "./formulas.js";
+export * from "./hit-chances.js";
+export * from "./interrupts.js";
+export * from "./mitigation.js";
+export * from "./pets.js";
+export * from "./procs.js";
+export * from "./regen.js";
 export * from "./relations.js";
+export * from "./requirements.js";
 export * from "./resources.js";
 export * from "./status.js";
 export * from "./targeting.js";
+export * from "./use-checks.js";
 export * from "./combat-messages.js";
 export * from "./targeting-types.js";
 export * from "./combat-events.js";
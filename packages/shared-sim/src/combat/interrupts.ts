@@ -0,0 +1,67 @@
+import type { AbilityDefinition } from "./abilities";
+import type { DamageSchool } from "./mitigation";
+import {
+  STATUS_DEFINITIONS,
+  getLockoutStatusId,
+  type AbilityTag,
+  type StatusDefinitionMap,
+} from "./status";
+
+/** Whether interrupts and silences can cancel a cast of this ability. */
+export const isCastInterruptible = (ability: AbilityDefinition): boolean => {
+  return ability.interruptible !== false;
+};
+
+/** Damage schools an ability deals, in effect order. */
+export const getAbilitySchools = (ability: AbilityDefinition): DamageSchool[] => {
+  const schools = new Set<DamageSchool>();
+  for (const effect of ability.effects) {
+    if (effect.type === "damage") {
+      schools.add(effect.school);
+    }
+  }
+  return [...schools];
+};
+
+/**
+ * Lockout statuses applied when a cast of the ability is interrupted: one per damage school,
+ * or one per ability tag for abilities that deal no damage.
+ */
+export const getInterruptLockoutStatusIds = (ability: AbilityDefinition): string[] => {
+  const schools = getAbilitySchools(ability);
+  if (schools.length > 0) {
+    return schools.map((school) => getLockoutStatusId(school));
+  }
+  return (ability.abilityTags ?? []).map((tag) => getLockoutStatusId(tag));
+};
+
+/** Whether any locked school or tag covers the ability. */
+export const isAbilityLockedOut = (
+  ability: AbilityDefinition,
+  lockedSchools: ReadonlySet<DamageSchool>,
+  lockedTags: ReadonlySet<AbilityTag>,
+): boolean => {
+  if (getAbilitySchools(ability).some((school) => lockedSchools.has(school))) {
+    return true;
+  }
+  return (ability.abilityTags ?? []).some((tag) => lockedTags.has(tag));
+};
+
+/**
+ * Whether the active statuses lock the ability out. Accepts status ids so the client can check
+ * its synced entries; the server caches the locked sets on its StatusController.
+ */
+export const isLockedOutByStatuses = (
+  statusIds: Iterable<string>,
+  ability: AbilityDefinition,
+  definitions: StatusDefinitionMap = STATUS_DEFINITIONS,
+): boolean => {
+  const lockedSchools = new Set<DamageSchool>();
+  const lockedTags = new Set<AbilityTag>();
+  for (const statusId of statusIds) {
+    const definition = definitions[statusId];
+    for (const school of definition?.lockedSchools ?? []) lockedSchools.add(school);
+    for (const tag of definition?.lockedAbilityTags ?? []) lockedTags.add(tag);
+  }
+  return isAbilityLockedOut(ability, lockedSchools, lockedTags);
+};
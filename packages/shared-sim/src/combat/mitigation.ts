@@ -0,0 +1,52 @@
+import type { CombatStats } from "./status";
+
+export type DamageSchool = "physical" | "fire" | "arcane" | "holy" | "electric";
+
+export type MitigationStat =
+  | "armor"
+  | "fireResistance"
+  | "arcaneResistance"
+  | "holyResistance"
+  | "electricResistance";
+
+/** Stat that mitigates each damage school. Physical uses armor, magic schools their resistance. */
+export const DAMAGE_SCHOOL_MITIGATION_STAT: Record<DamageSchool, MitigationStat> = {
+  physical: "armor",
+  fire: "fireResistance",
+  arcane: "arcaneResistance",
+  holy: "holyResistance",
+  electric: "electricResistance",
+};
+
+/** Armor needed for 50% physical mitigation. */
+export const ARMOR_MITIGATION_CONSTANT = 200;
+/** Resistance needed for 50% mitigation of a magic school. */
+export const RESISTANCE_MITIGATION_CONSTANT = 100;
+/** Upper bound on the fraction of damage any single stat can mitigate. */
+export const MAX_MITIGATION_FRACTION = 0.75;
+
+/** Fraction of incoming damage of the given school removed by the target's stats. */
+export const getMitigationFraction = (
+  school: DamageSchool,
+  targetStats: Partial<CombatStats>,
+): number => {
+  const stat = DAMAGE_SCHOOL_MITIGATION_STAT[school];
+  const value = Math.max(0, targetStats[stat] ?? 0);
+  if (value <= 0) {
+    return 0;
+  }
+  const constant = stat === "armor" ? ARMOR_MITIGATION_CONSTANT : RESISTANCE_MITIGATION_CONSTANT;
+  return Math.min(MAX_MITIGATION_FRACTION, value / (value + constant));
+};
+
+/** Reduce a damage amount by the target's armor/resistance for its school. */
+export const applyMitigation = (
+  damage: number,
+  school: DamageSchool,
+  targetStats: Partial<CombatStats>,
+): number => {
+  if (damage <= 0) {
+    return 0;
+  }
+  return Math.max(0, Math.round(damage * (1 - getMitigationFraction(school, targetStats))));
+};
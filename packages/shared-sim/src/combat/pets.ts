@@ -0,0 +1,45 @@
+import type { PetStance } from "@mmo/shared-protocol";
+import type { AutoAttackProfile } from "./auto-attacks";
+
+/** A companion a summon effect can spawn next to its caster. */
+export interface PetTemplate {
+  id: string;
+  name: string;
+  mobType: string;
+  maxHp: number;
+  strength: number;
+  dexterity: number;
+  intelligence: number;
+  constitution: number;
+  /** Abilities the pet uses on its target, in priority order. */
+  abilityIds: string[];
+  defaultStance: PetStance;
+  /** Weapon the pet auto-attacks with; DEFAULT_AUTO_ATTACK when omitted. */
+  autoAttack?: AutoAttackProfile;
+  /** Temporary summons despawn after this long; pets without one stay until dismissed. */
+  durationMs?: number;
+}
+
+export const PET_TEMPLATES: Record<string, PetTemplate> = {
+  wolf_companion: {
+    id: "wolf_companion",
+    name: "Wolf Companion",
+    mobType: "wolf",
+    maxHp: 80,
+    strength: 12,
+    dexterity: 14,
+    intelligence: 4,
+    constitution: 10,
+    abilityIds: ["pet_bite"],
+    defaultStance: "defensive",
+    autoAttack: {
+      swingIntervalMs: 1600,
+      minDamage: 3,
+      maxDamage: 5,
+      range: 3,
+      school: "physical",
+    },
+  },
+};
+
+export const PET_STANCES: readonly PetStance[] = ["passive", "defensive", "aggressive"];
@@ -0,0 +1,95 @@
+import type { AbilityDefinition } from "./abilities";
+import type { TargetResult } from "./combat-messages";
+import {
+  STATUS_DEFINITIONS,
+  type ProcDefinition,
+  type StatusDefinitionMap,
+  type StatusEffectDefinition,
+  type StatusEmpowerment,
+} from "./status";
+
+/** Whether an empowerment applies to the given ability. */
+export const matchesEmpowerment = (
+  empowerment: StatusEmpowerment,
+  ability: AbilityDefinition,
+): boolean => {
+  const { abilityIds, abilityTags } = empowerment;
+  if (!abilityIds && !abilityTags) {
+    return true;
+  }
+  if (abilityIds?.includes(ability.id)) {
+    return true;
+  }
+  const tags = ability.abilityTags ?? [];
+  return abilityTags?.some((tag) => tags.includes(tag)) ?? false;
+};
+
+/**
+ * Active statuses that grant or empower the ability; these are consumed when it is used.
+ * Accepts status ids so the server (active statuses) and client (synced entries) share it.
+ */
+export const getEmpoweringStatuses = (
+  statusIds: Iterable<string>,
+  ability: AbilityDefinition,
+  definitions: StatusDefinitionMap = STATUS_DEFINITIONS,
+): StatusEffectDefinition[] => {
+  const matches: StatusEffectDefinition[] = [];
+  for (const statusId of new Set(statusIds)) {
+    const definition = definitions[statusId];
+    if (!definition) {
+      continue;
+    }
+    const grants = definition.grantedAbilityIds?.includes(ability.id) ?? false;
+    const empowers = definition.empowerment
+      ? matchesEmpowerment(definition.empowerment, ability)
+      : false;
+    if (grants || empowers) {
+      matches.push(definition);
+    }
+  }
+  return matches;
+};
+
+/** Whether any of the statuses grants the (combo) ability. */
+export const isAbilityGranted = (
+  statusIds: Iterable<string>,
+  abilityId: string,
+  definitions: StatusDefinitionMap = STATUS_DEFINITIONS,
+): boolean => {
+  for (const statusId of statusIds) {
+    if (definitions[statusId]?.grantedAbilityIds?.includes(abilityId)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Whether a proc's trigger fired for a resolved ability. Crit, hit and dodged look at the
+ * per-target outcomes; cast fires once per use of an ability with the proc's tag.
+ */
+export const isProcTriggered = (
+  proc: ProcDefinition,
+  ability: AbilityDefinition,
+  outcomes: readonly TargetResult["outcome"][],
+): boolean => {
+  if (proc.abilityTag && !(ability.abilityTags ?? []).includes(proc.abilityTag)) {
+    return false;
+  }
+  switch (proc.trigger) {
+    case "crit": {
+      return outcomes.includes("crit");
+    }
+    case "hit": {
+      return outcomes.some(
+        (outcome) => outcome === "hit" || outcome === "crit" || outcome === "blocked",
+      );
+    }
+    case "dodged": {
+      return outcomes.includes("dodged");
+    }
+    case "cast": {
+      return true;
+    }
+  }
+};
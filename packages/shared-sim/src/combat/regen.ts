@@ -0,0 +1,92 @@
+import type { ResourceType } from "./resources";
+import type { CombatStats } from "./status";
+
+/** Regeneration rates in points per second. */
+export type ResourceRegenRates = Record<ResourceType, number>;
+
+/** Multiplies a resource's regeneration while a status is active (0 blocks it). */
+export interface ResourceRegenModifier {
+  resource: ResourceType;
+  multiplier: number;
+}
+
+/** Delay after spending a resource before it starts regenerating again ("five second rule"). */
+export const REGEN_SPEND_DELAY_MS = 5000;
+
+export const BASE_MANA_REGEN_PER_SECOND = 2;
+export const MANA_REGEN_PER_INTELLIGENCE = 0.3;
+export const BASE_STAMINA_REGEN_PER_SECOND = 4;
+export const STAMINA_REGEN_PER_CONSTITUTION = 0.3;
+
+/** Fraction of the out-of-combat rate that applies while in combat. */
+export const IN_COMBAT_REGEN_MULTIPLIERS: ResourceRegenRates = {
+  mana: 0.3,
+  stamina: 0.5,
+};
+
+/** Stat-derived regeneration rates, before status modifiers and spend delays. */
+export const computeResourceRegenRates = (
+  stats: Partial<CombatStats>,
+  inCombat: boolean,
+): ResourceRegenRates => {
+  const mana = BASE_MANA_REGEN_PER_SECOND + (stats.intelligence ?? 0) * MANA_REGEN_PER_INTELLIGENCE;
+  const stamina =
+    BASE_STAMINA_REGEN_PER_SECOND + (stats.constitution ?? 0) * STAMINA_REGEN_PER_CONSTITUTION;
+  if (!inCombat) {
+    return { mana, stamina };
+  }
+  return {
+    mana: mana * IN_COMBAT_REGEN_MULTIPLIERS.mana,
+    stamina: stamina * IN_COMBAT_REGEN_MULTIPLIERS.stamina,
+  };
+};
+
+/**
+ * Predict a regenerating resource at `nowMs` from its last synced value.
+ * Regeneration starts at the later of the sync time and the spend-delay resume time.
+ */
+export const predictResourceValue = (
+  current: number,
+  max: number,
+  ratePerSecond: number,
+  syncedAtMs: number,
+  resumeAtMs: number,
+  nowMs: number,
+): number => {
+  const startMs = Math.max(syncedAtMs, resumeAtMs);
+  if (current >= max || ratePerSecond <= 0 || nowMs <= startMs) {
+    return Math.min(current, max);
+  }
+  return Math.min(max, current + (ratePerSecond * (nowMs - startMs)) / 1000);
+};
+
+/**
+ * Milliseconds until a regenerating resource reaches `amount` (0 if already there).
+ * Returns undefined when it never will (regen blocked or amount above max).
+ */
+export const getResourceReadyInMs = (
+  amount: number,
+  current: number,
+  max: number,
+  ratePerSecond: number,
+  syncedAtMs: number,
+  resumeAtMs: number,
+  nowMs: number,
+): number | undefined => {
+  const predicted = predictResourceValue(
+    current,
+    max,
+    ratePerSecond,
+    syncedAtMs,
+    resumeAtMs,
+    nowMs,
+  );
+  if (predicted >= amount) {
+    return 0;
+  }
+  if (ratePerSecond <= 0 || amount > max) {
+    return undefined;
+  }
+  const startMs = Math.max(nowMs, syncedAtMs, resumeAtMs);
+  return startMs - nowMs + ((amount - predicted) / ratePerSecond) * 1000;
+};
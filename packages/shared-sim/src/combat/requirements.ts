@@ -0,0 +1,116 @@
+import type { AbilityDefinition } from "./abilities";
+
+/** Default arc in front of the actor (in degrees) that counts as facing the target. */
+export const DEFAULT_FACING_ARC_DEG = 180;
+
+/**
+ * Extra conditions an ability needs before it can be used, checked after range and line of
+ * sight:
+ * - `facing_target`: the target lies within `arcDeg` of the actor's facing.
+ * - `min_range`: the target is at least `range` away.
+ * - `out_of_combat`: the actor is not in combat.
+ * - `target_health_below`: the target's HP is below `fraction` of its maximum.
+ * - `self_status`: the actor has the status `statusId`.
+ */
+export type AbilityRequirement =
+  | { type: "facing_target"; arcDeg?: number }
+  | { type: "min_range"; range: number }
+  | { type: "out_of_combat" }
+  | { type: "target_health_below"; fraction: number }
+  | { type: "self_status"; statusId: string };
+
+export type AbilityRequirementRejection =
+  | "not_facing"
+  | "too_close"
+  | "in_combat"
+  | "target_health"
+  | "missing_status";
+
+export interface AbilityRequirementContext {
+  actor: {
+    x: number;
+    y: number;
+    z: number;
+    facingYaw: number;
+    inCombat: boolean;
+    statusIds: readonly string[];
+  };
+  /** Target entity, or the targeted point for ground abilities (without HP). */
+  target?: { x: number; y: number; z: number; currentHp?: number; maxHp?: number };
+}
+
+const REQUIREMENT_REJECTIONS: Record<AbilityRequirement["type"], AbilityRequirementRejection> = {
+  facing_target: "not_facing",
+  min_range: "too_close",
+  out_of_combat: "in_combat",
+  target_health_below: "target_health",
+  self_status: "missing_status",
+};
+
+/** Whether the target lies within `arcDeg` of the actor's facing (always true when stacked). */
+export const isFacingTarget = (
+  actor: { x: number; z: number; facingYaw: number },
+  target: { x: number; z: number },
+  arcDeg = DEFAULT_FACING_ARC_DEG,
+): boolean => {
+  const dx = target.x - actor.x;
+  const dz = target.z - actor.z;
+  const distance = Math.hypot(dx, dz);
+  if (distance === 0) {
+    return true;
+  }
+  const forwardX = Math.sin(actor.facingYaw);
+  const forwardZ = Math.cos(actor.facingYaw);
+  const cosAngle = (dx * forwardX + dz * forwardZ) / distance;
+  return cosAngle >= Math.cos((arcDeg * Math.PI) / 360);
+};
+
+/** Whether a single requirement holds. Target requirements fail when there is no target. */
+export const isAbilityRequirementMet = (
+  requirement: AbilityRequirement,
+  context: AbilityRequirementContext,
+): boolean => {
+  const { actor, target } = context;
+  switch (requirement.type) {
+    case "facing_target": {
+      return !!target && isFacingTarget(actor, target, requirement.arcDeg);
+    }
+    case "min_range": {
+      if (!target) {
+        return false;
+      }
+      const distance = Math.hypot(target.x - actor.x, target.y - actor.y, target.z - actor.z);
+      return distance >= requirement.range;
+    }
+    case "out_of_combat": {
+      return !actor.inCombat;
+    }
+    case "target_health_below": {
+      if (target?.currentHp === undefined || !target.maxHp) {
+        return false;
+      }
+      return target.currentHp / target.maxHp < requirement.fraction;
+    }
+    case "self_status": {
+      return actor.statusIds.includes(requirement.statusId);
+    }
+  }
+};
+
+/**
+ * Check an ability's requirements in order. Used by the server when validating a use and by
+ * the client before sending one, so both reject for the same reason.
+ *
+ * @returns the rejection reason of the first unmet requirement, if any.
+ */
+export const getAbilityRequirementRejection = (
+  ability: AbilityDefinition,
+  context: AbilityRequirementContext,
+): AbilityRequirementRejection | undefined => {
+  for (const requirement of ability.requirements ?? []) {
+    if (!isAbilityRequirementMet(requirement, context)) {
+      return REQUIREMENT_REJECTIONS[requirement.type];
+    }
+  }
+  return undefined;
+};
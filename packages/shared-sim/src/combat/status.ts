@@ -1,4 +1,11 @@
-export type StatusCategory = "buff" | "debuff";
+import { evaluateEffectFormula, type EffectFormula } from "./formulas";
+import type { DamageSchool } from "./mitigation";
+import type { ResourceRegenModifier } from "./regen";
+
+/** Categories dispels pick from. */
+export type DispellableStatusCategory = "buff" | "debuff";
+/** "system" statuses (e.g. evading) are server bookkeeping that no dispel can strip. */
+export type StatusCategory = DispellableStatusCategory | "system";
 export type StatusStacking = "refresh" | "stack" | "replace" | "independent";
 export type StatusState =
   | "stunned"
@@ -17,6 +24,14 @@ export interface CombatStats {
   maxHp: number;
   maxMana: number;
   maxStamina: number;
+  armor: number;
+  fireResistance: number;
+  arcaneResistance: number;
+  holyResistance: number;
+  electricResistance: number;
+  accuracy: number;
+  blockRating: number;
+  critRating: number;
 }
 
 export interface StatModifier {
@@ -25,6 +40,56 @@ export interface StatModifier {
   value: number;
 }
 
+export interface StatusPeriodicEffect {
+  type: "damage" | "healing";
+  /** School of periodic damage, mitigated by the target's matching armor/resistance. */
+  school?: DamageSchool;
+  /** Per-tick amount for a single stack, evaluated against the source's snapshotted stats. */
+  formula: EffectFormula;
+}
+
+/**
+ * Soaks incoming damage before it reaches HP. The budget is evaluated from the source's stats
+ * when the status lands; the status is removed once the budget is spent.
+ */
+export interface StatusAbsorb {
+  formula: EffectFormula;
+  /** Only damage of these schools is absorbed; omit to absorb every school. */
+  schools?: DamageSchool[];
+}
+
+/** Transfers a share of the holder's incoming damage to the status source (guardian kits). */
+export interface StatusDamageRedirect {
+  /** Fraction of incoming damage in [0, 1] taken by the source instead. */
+  fraction: number;
+}
+
+/** What sets off a proc: one of the actor's abilities critting, hitting, being dodged, or being cast. */
+export type ProcTrigger = "crit" | "hit" | "dodged" | "cast";
+
+/** A chance to apply a status to the actor when one of their abilities triggers it. */
+export interface ProcDefinition {
+  trigger: ProcTrigger;
+  /** Only abilities with this tag trigger the proc. */
+  abilityTag?: AbilityTag;
+  /** Probability in [0, 1]. */
+  chance: number;
+  statusId: string;
+}
+
+/**
+ * Changes the next use of a matching ability; the status is consumed when that ability is used.
+ * Omit both `abilityIds` and `abilityTags` to match any ability.
+ */
+export interface StatusEmpowerment {
+  abilityIds?: string[];
+  abilityTags?: AbilityTag[];
+  /** The next matching cast finishes immediately. */
+  instantCast?: boolean;
+  /** Scales the next matching ability's damage. */
+  damageMultiplier?: number;
+}
+
 export interface StatusEffectDefinition {
   id: string;
   name: string;
@@ -32,11 +97,257 @@ export interface StatusEffectDefinition {
   tags?: string[];
   durationMs: number;
   maxDurationMs?: number;
+  /** Diminishing-returns category; defaults to the first tag. */
+  drCategory?: string;
+  /** Window (ms) in which repeat applications of the DR category diminish. Omit to opt out. */
+  drWindowMs?: number;
   stacking: StatusStacking;
   maxStacks?: number;
   tickIntervalMs?: number;
+  periodicEffect?: StatusPeriodicEffect;
   statModifiers?: StatModifier[];
+  /** Boost (> 1), slow (< 1) or block (0) mana/stamina regeneration while active. */
+  regenModifiers?: ResourceRegenModifier[];
   stateFlags?: StatusState[];
   immunityTags?: string[];
   blockedAbilityTags?: AbilityTag[];
+  /** Combo abilities usable while this status is active; using one consumes the status. */
+  grantedAbilityIds?: string[];
+  empowerment?: StatusEmpowerment;
+  /** Procs rolled for the holder's abilities while this status is active. */
+  procs?: ProcDefinition[];
+  absorb?: StatusAbsorb;
+  redirect?: StatusDamageRedirect;
+  /** Scales threat the holder generates (tank stances > 1, threat-shedding buffs < 1). */
+  threatMultiplier?: number;
+  /** Abilities dealing damage of these schools are unusable while active (interrupt lockout). */
+  lockedSchools?: DamageSchool[];
+  /** Abilities carrying these tags are unusable while active (interrupt lockout). */
+  lockedAbilityTags?: AbilityTag[];
 }
+
+export type StatusDefinitionMap = Record<string, StatusEffectDefinition>;
+
+/** Resolve a single periodic tick amount from snapshotted stats and stack count. */
+export const resolvePeriodicAmount = (
+  effect: StatusPeriodicEffect,
+  sourceStats: Partial<CombatStats>,
+  stacks: number,
+  targetStats?: Partial<CombatStats>,
+): number => {
+  return evaluateEffectFormula(effect.formula, sourceStats, targetStats) * Math.max(1, stacks);
+};
+
+/** Duration multipliers for successive applications within a DR window; past the end is immune. */
+export const DIMINISHING_RETURNS_MULTIPLIERS = [1, 0.5, 0.25] as const;
+
+export const DEFAULT_DR_WINDOW_MS = 18_000;
+
+/** Resolve the DR history key for a status (explicit category, first tag, then id). */
+export const resolveDrCategory = (definition: StatusEffectDefinition): string => {
+  return definition.drCategory ?? definition.tags?.[0] ?? definition.id;
+};
+
+const LOCKOUT_SCHOOLS: DamageSchool[] = ["physical", "fire", "arcane", "holy", "electric"];
+const LOCKOUT_ABILITY_TAGS: AbilityTag[] = ["spell", "melee", "ranged", "movement", "utility"];
+
+/** Default lockout length; interrupt effects apply these with their own `lockoutMs`. */
+export const DEFAULT_LOCKOUT_DURATION_MS = 4000;
+
+/** Id of the lockout status for a damage school or ability tag. */
+export const getLockoutStatusId = (key: DamageSchool | AbilityTag): string => `lockout_${key}`;
+
+const createLockoutStatus = (
+  key: DamageSchool | AbilityTag,
+  lock: Pick<StatusEffectDefinition, "lockedSchools" | "lockedAbilityTags">,
+): StatusEffectDefinition => ({
+  id: getLockoutStatusId(key),
+  name: `Locked Out (${key})`,
+  category: "debuff",
+  tags: ["lockout"],
+  durationMs: DEFAULT_LOCKOUT_DURATION_MS,
+  stacking: "replace",
+  ...lock,
+});
+
+const LOCKOUT_STATUS_DEFINITIONS: StatusDefinitionMap = Object.fromEntries([
+  ...LOCKOUT_SCHOOLS.map((school) => [
+    getLockoutStatusId(school),
+    createLockoutStatus(school, { lockedSchools: [school] }),
+  ]),
+  ...LOCKOUT_ABILITY_TAGS.map((tag) => [
+    getLockoutStatusId(tag),
+    createLockoutStatus(tag, { lockedAbilityTags: [tag] }),
+  ]),
+]);
+
+export const STATUS_DEFINITIONS: StatusDefinitionMap = {
+  stunned: {
+    id: "stunned",
+    name: "Concussed",
+    category: "debuff",
+    tags: ["stun"],
+    durationMs: 1000,
+    drWindowMs: DEFAULT_DR_WINDOW_MS,
+    stacking: "replace",
+    stateFlags: ["stunned"],
+  },
+  silenced: {
+    id: "silenced",
+    name: "Gag Order",
+    category: "debuff",
+    durationMs: 1000,
+    stacking: "replace",
+    stateFlags: ["silenced"],
+    blockedAbilityTags: ["spell"],
+  },
+  disarmed: {
+    id: "disarmed",
+    name: "Weapon Lock",
+    category: "debuff",
+    durationMs: 1000,
+    stacking: "replace",
+    stateFlags: ["disarmed"],
+    blockedAbilityTags: ["melee", "ranged"],
+  },
+  rooted: {
+    id: "rooted",
+    name: "Ironbind",
+    category: "debuff",
+    tags: ["root"],
+    durationMs: 1000,
+    drWindowMs: DEFAULT_DR_WINDOW_MS,
+    stacking: "replace",
+    stateFlags: ["rooted"],
+    blockedAbilityTags: ["movement"],
+  },
+  burning: {
+    id: "burning",
+    name: "Burning",
+    category: "debuff",
+    tags: ["fire", "magic"],
+    durationMs: 6000,
+    stacking: "stack",
+    maxStacks: 3,
+    tickIntervalMs: 2000,
+    periodicEffect: {
+      type: "damage",
+      school: "fire",
+      formula: { base: 4, actorCoefficients: { intelligence: 0.2 } },
+    },
+  },
+  regrowth: {
+    id: "regrowth",
+    name: "Regrowth",
+    category: "buff",
+    tags: ["nature"],
+    durationMs: 8000,
+    stacking: "refresh",
+    tickIntervalMs: 2000,
+    periodicEffect: {
+      type: "healing",
+      formula: { base: 5, actorCoefficients: { intelligence: 0.25 } },
+    },
+  },
+  fire_ward: {
+    id: "fire_ward",
+    name: "Fire Ward",
+    category: "buff",
+    tags: ["ward", "magic"],
+    durationMs: 10_000,
+    stacking: "refresh",
+    statModifiers: [{ stat: "fireResistance", mode: "add", value: 50 }],
+  },
+  sundered: {
+    id: "sundered",
+    name: "Sundered",
+    category: "debuff",
+    tags: ["sunder", "curse"],
+    durationMs: 8000,
+    stacking: "refresh",
+    statModifiers: [{ stat: "armor", mode: "mul", value: 0.5 }],
+  },
+  clarity: {
+    id: "clarity",
+    name: "Clarity",
+    category: "buff",
+    tags: ["focus"],
+    durationMs: 15_000,
+    stacking: "refresh",
+    regenModifiers: [{ resource: "mana", multiplier: 2 }],
+  },
+  hot_streak: {
+    id: "hot_streak",
+    name: "Hot Streak",
+    category: "buff",
+    tags: ["proc"],
+    durationMs: 10_000,
+    stacking: "refresh",
+    empowerment: { abilityIds: ["fireball"], instantCast: true },
+  },
+  overpower_ready: {
+    id: "overpower_ready",
+    name: "Opening",
+    category: "buff",
+    tags: ["proc"],
+    durationMs: 5000,
+    stacking: "refresh",
+    grantedAbilityIds: ["overpower"],
+  },
+  arcane_surge: {
+    id: "arcane_surge",
+    name: "Arcane Surge",
+    category: "buff",
+    tags: ["proc", "magic"],
+    durationMs: 8000,
+    stacking: "refresh",
+    empowerment: { abilityTags: ["spell"], damageMultiplier: 1.5 },
+  },
+  exhausted: {
+    id: "exhausted",
+    name: "Exhausted",
+    category: "debuff",
+    tags: ["fatigue"],
+    durationMs: 6000,
+    stacking: "refresh",
+    regenModifiers: [{ resource: "stamina", multiplier: 0 }],
+  },
+  arcane_barrier: {
+    id: "arcane_barrier",
+    name: "Arcane Barrier",
+    category: "buff",
+    tags: ["shield", "magic"],
+    durationMs: 12_000,
+    stacking: "refresh",
+    absorb: { formula: { base: 30, actorCoefficients: { intelligence: 1 } } },
+  },
+  guarded: {
+    id: "guarded",
+    name: "Guarded",
+    category: "buff",
+    tags: ["guard"],
+    durationMs: 12_000,
+    stacking: "replace",
+    redirect: { fraction: 0.3 },
+  },
+  defensive_stance: {
+    id: "defensive_stance",
+    name: "Defensive Stance",
+    category: "buff",
+    tags: ["stance"],
+    durationMs: 600_000,
+    stacking: "refresh",
+    statModifiers: [{ stat: "armor", mode: "add", value: 40 }],
+    threatMultiplier: 2.5,
+  },
+  evading: {
+    id: "evading",
+    name: "Evading",
+    category: "system",
+    tags: ["evade"],
+    durationMs: 60_000,
+    stacking: "replace",
+    immunityTags: ["physical", "fire", "arcane", "holy", "electric", "displacement"],
+  },
+  ...LOCKOUT_STATUS_DEFINITIONS,
+};
@@ -6,6 +6,8 @@ export interface TargetCandidate {
   x: number;
   y: number;
   z: number;
+  /** Dead candidates are skipped unless the ability can target the dead. */
+  isDead?: boolean;
 }
 
 export interface ResolveTargetsParams {
@@ -29,7 +31,10 @@ export interface ResolveTargetsResult {
 export function resolveTargetsForAbility(
   params: ResolveTargetsParams,
 ): ResolveTargetsResult | null {
-  const { ability, actor, target, candidates } = params;
+  const { ability, actor, target } = params;
+  const candidates = ability.canTargetDead
+    ? params.candidates
+    : params.candidates.filter((candidate) => !candidate.isDead);
 
   let targetPosition: Vector3 | undefined;
   let primaryTargetId: string | undefined;
@@ -0,0 +1,71 @@
+import type { AbilityDefinition } from "./abilities";
+import type { AbilityUseCheck } from "./combat-messages";
+import type { EffectFormula } from "./formulas";
+import type { DamageSchool } from "./mitigation";
+import type { CombatStats } from "./status";
+
+/** Natural rolls in the top band (96-100 by default) succeed critically. */
+export const DEFAULT_USE_CHECK_CRIT_BAND = 5;
+/** Natural rolls in the bottom band (1-5 by default) fail critically. */
+export const DEFAULT_USE_CHECK_FUMBLE_BAND = 5;
+/**
+ * Multiplier a critically successful use applies to every effect: damage, healing, status
+ * durations, absorbs, periodic ticks and displacement distances.
+ */
+export const USE_CHECK_CRIT_SUCCESS_MULTIPLIER = 1.25;
+
+export type UseCheckStat = "strength" | "dexterity" | "intelligence" | "constitution";
+
+/** What a critically failed use does to the actor; the ability's own effects do nothing. */
+export interface UseCheckBackfire {
+  /** Damage the actor deals to itself, evaluated and mitigated against its own stats. */
+  damage?: { school: DamageSchool; formula: EffectFormula };
+  /** Status the actor puts on itself. */
+  status?: { statusId: string; durationMs: number };
+}
+
+/**
+ * Skill roll made when the ability resolves: a d100 roll plus the actor's `stat` has to reach
+ * `difficulty`. Natural rolls in the top `critBand` succeed critically and boost every effect;
+ * natural rolls in the bottom `fumbleBand` fail critically and trigger `backfire`.
+ */
+export interface AbilityUseCheckDefinition {
+  stat: UseCheckStat;
+  difficulty: number;
+  /** Defaults to DEFAULT_USE_CHECK_FUMBLE_BAND. */
+  fumbleBand?: number;
+  /** Defaults to DEFAULT_USE_CHECK_CRIT_BAND. */
+  critBand?: number;
+  backfire?: UseCheckBackfire;
+}
+
+/**
+ * Rolls the ability's use check with the caller's seeded RNG. Abilities without one always
+ * succeed and consume no random number.
+ */
+export const rollAbilityUseCheck = (
+  ability: AbilityDefinition,
+  actorStats: CombatStats,
+  rng: () => number,
+): AbilityUseCheck => {
+  const check = ability.useCheck;
+  if (!check) {
+    return { roll: 100, maxRoll: 100, result: "success" };
+  }
+
+  const roll = Math.floor(rng() * 100) + 1;
+  const statBonus = actorStats[check.stat];
+  let result: AbilityUseCheck["result"];
+  if (roll <= (check.fumbleBand ?? DEFAULT_USE_CHECK_FUMBLE_BAND)) {
+    result = "crit_failure";
+  } else if (roll > 100 - (check.critBand ?? DEFAULT_USE_CHECK_CRIT_BAND)) {
+    result = "crit_success";
+  } else {
+    result = roll + statBonus >= check.difficulty ? "success" : "failure";
+  }
+  return { roll, maxRoll: 100, result, statBonus, difficulty: check.difficulty };
+};
+
+/** Scale for the magnitudes resolved when a use lands (1 unless it succeeded critically). */
+export const getUseCheckPotency = (useCheck: AbilityUseCheck): number =>
+  useCheck.result === "crit_success" ? USE_CHECK_CRIT_SUCCESS_MULTIPLIER : 1;